@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
 import { LoginPage } from './components/LoginPage';
 import { Dashboard } from './components/Dashboard';
+import { ChangePasswordForm } from './components/shared/ChangePasswordForm';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { trpc } from './utils/trpc';
 import type { AuthResponse } from '../../server/src/schema';
 
@@ -17,24 +20,18 @@ function App() {
     isLoading: true
   });
 
-  // Check for existing session on app load
+  // Check for existing session on app load - the session cookie is sent automatically
   useEffect(() => {
-    const checkAuth = () => {
-      const storedUser = localStorage.getItem('sekolah-absenku-user');
-      if (storedUser) {
-        try {
-          const user = JSON.parse(storedUser);
-          setAppState({
-            isAuthenticated: true,
-            user,
-            isLoading: false
-          });
-        } catch (error) {
-          console.error('Failed to parse stored user:', error);
-          localStorage.removeItem('sekolah-absenku-user');
-          setAppState({ isAuthenticated: false, user: null, isLoading: false });
-        }
-      } else {
+    const checkAuth = async () => {
+      try {
+        const user = await trpc.getCurrentUser.query();
+        setAppState({
+          isAuthenticated: user !== null,
+          user,
+          isLoading: false
+        });
+      } catch (error) {
+        console.error('Failed to check session:', error);
         setAppState({ isAuthenticated: false, user: null, isLoading: false });
       }
     };
@@ -44,7 +41,6 @@ function App() {
 
   const handleLogin = (user: AuthResponse['user']) => {
     if (user) {
-      localStorage.setItem('sekolah-absenku-user', JSON.stringify(user));
       setAppState({
         isAuthenticated: true,
         user,
@@ -53,8 +49,26 @@ function App() {
     }
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('sekolah-absenku-user');
+  // Reload the user so the must_change_password flag is cleared
+  const handlePasswordChanged = async () => {
+    try {
+      const user = await trpc.getCurrentUser.query();
+      setAppState({
+        isAuthenticated: user !== null,
+        user,
+        isLoading: false
+      });
+    } catch (error) {
+      console.error('Failed to reload user:', error);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await trpc.logout.mutate();
+    } catch (error) {
+      console.error('Failed to logout:', error);
+    }
     setAppState({
       isAuthenticated: false,
       user: null,
@@ -77,6 +91,23 @@ function App() {
     <div className="min-h-screen">
       {!appState.isAuthenticated ? (
         <LoginPage onLogin={handleLogin} />
+      ) : appState.user?.must_change_password ? (
+        <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center p-6">
+          <Card className="w-full max-w-lg bg-white/80 backdrop-blur-md border-white/20">
+            <CardHeader>
+              <CardTitle>Ganti Password</CardTitle>
+              <CardDescription>
+                Admin mewajibkan Anda mengganti password. Silakan buat password baru sebelum melanjutkan.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ChangePasswordForm onSuccess={handlePasswordChanged} />
+              <Button variant="outline" className="w-full" onClick={handleLogout}>
+                Keluar
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
       ) : (
         <Dashboard user={appState.user!} onLogout={handleLogout} />
       )}
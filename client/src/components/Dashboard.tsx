@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { AdminDashboard } from './admin/AdminDashboard';
 import { GuruDashboard } from './guru/GuruDashboard';
 import { SiswaDashboard } from './siswa/SiswaDashboard';
+import { OrangTuaDashboard } from './orang-tua/OrangTuaDashboard';
 import { Sidebar } from './shared/Sidebar';
 import type { AuthResponse } from '../../../server/src/schema';
 
@@ -39,6 +40,14 @@ export function Dashboard({ user, onLogout }: DashboardProps) {
             onPageChange={setCurrentPage}
           />
         );
+      case 'orang_tua':
+        return (
+          <OrangTuaDashboard 
+            user={user} 
+            currentPage={currentPage} 
+            onPageChange={setCurrentPage}
+          />
+        );
       default:
         return <div>Role tidak dikenali</div>;
     }
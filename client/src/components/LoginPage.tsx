@@ -4,8 +4,7 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { trpc } from '@/utils/trpc';
-import { mockLogin } from './auth/StubAuth';
-import { BookOpen, GraduationCap, School, Users, CheckCircle, Clock, Calendar } from 'lucide-react';
+import { BookOpen, GraduationCap, School, Users, CheckCircle, Clock, Calendar, Heart } from 'lucide-react';
 import type { LoginInput, AuthResponse } from '../../../server/src/schema';
 
 interface LoginPageProps {
@@ -22,8 +21,11 @@ export function LoginPage({ onLogin }: LoginPageProps) {
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isResetMode, setIsResetMode] = useState(false);
+  const [resetData, setResetData] = useState({ token: '', new_password: '' });
+  const [resetMessage, setResetMessage] = useState<string | null>(null);
 
-  const handleRoleChange = (role: 'admin' | 'guru' | 'siswa') => {
+  const handleRoleChange = (role: LoginInput['role']) => {
     setFormData(prev => ({
       ...prev,
       role,
@@ -41,9 +43,8 @@ export function LoginPage({ onLogin }: LoginPageProps) {
     setError(null);
 
     try {
-      // STUB: Using mock login for demo purposes
-      // TODO: Replace with actual tRPC call when backend is implemented
-      const response = await mockLogin(formData);
+      // The server sets an HTTP-only session cookie on success
+      const response = await trpc.login.mutate(formData);
       
       if (response.success && response.user) {
         onLogin(response.user);
@@ -58,18 +59,49 @@ export function LoginPage({ onLogin }: LoginPageProps) {
     }
   };
 
+  // Redeem a one-time reset token handed out by an admin
+  const handleResetSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    setResetMessage(null);
+
+    try {
+      const response = await trpc.resetPassword.mutate({
+        token: resetData.token.trim(),
+        new_password: resetData.new_password
+      });
+      setResetData({ token: '', new_password: '' });
+      setResetMessage(`${response.message}. Silakan masuk dengan password baru.`);
+      setIsResetMode(false);
+    } catch (error) {
+      console.error('Reset password error:', error);
+      setError(error instanceof Error ? error.message : 'Gagal mereset password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleResetMode = () => {
+    setIsResetMode(prev => !prev);
+    setError(null);
+    setResetMessage(null);
+  };
+
   const getRoleIcon = (role: string) => {
     switch (role) {
       case 'admin': return <Users className="w-5 h-5" />;
       case 'guru': return <GraduationCap className="w-5 h-5" />;
       case 'siswa': return <BookOpen className="w-5 h-5" />;
+      case 'orang_tua': return <Heart className="w-5 h-5" />;
       default: return <School className="w-5 h-5" />;
     }
   };
 
   const getInputPlaceholder = () => {
     switch (formData.role) {
-      case 'admin': return 'Masukkan username';
+      case 'admin':
+      case 'orang_tua': return 'Masukkan username';
       case 'guru': return 'Masukkan NIP';
       case 'siswa': return 'Masukkan NISN';
       default: return 'Masukkan identitas';
@@ -78,7 +110,8 @@ export function LoginPage({ onLogin }: LoginPageProps) {
 
   const getInputValue = () => {
     switch (formData.role) {
-      case 'admin': return formData.username || '';
+      case 'admin':
+      case 'orang_tua': return formData.username || '';
       case 'guru': return formData.nip || '';
       case 'siswa': return formData.nisn || '';
       default: return '';
@@ -88,7 +121,7 @@ export function LoginPage({ onLogin }: LoginPageProps) {
   const handleInputChange = (value: string) => {
     setFormData(prev => ({
       ...prev,
-      username: prev.role === 'admin' ? value : '',
+      username: prev.role === 'admin' || prev.role === 'orang_tua' ? value : '',
       nip: prev.role === 'guru' ? value : '',
       nisn: prev.role === 'siswa' ? value : ''
     }));
@@ -163,6 +196,55 @@ export function LoginPage({ onLogin }: LoginPageProps) {
               </CardHeader>
               
               <CardContent>
+                {isResetMode ? (
+                <form onSubmit={handleResetSubmit} className="space-y-6">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-white">Token Reset</label>
+                    <Input
+                      value={resetData.token}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setResetData(prev => ({ ...prev, token: e.target.value }))
+                      }
+                      placeholder="Masukkan token dari admin"
+                      className="bg-white/10 border-white/30 text-white placeholder:text-blue-200"
+                      required
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-white">Password Baru</label>
+                    <Input
+                      type="password"
+                      value={resetData.new_password}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setResetData(prev => ({ ...prev, new_password: e.target.value }))
+                      }
+                      placeholder="Minimal 8 karakter"
+                      minLength={8}
+                      className="bg-white/10 border-white/30 text-white placeholder:text-blue-200"
+                      required
+                    />
+                  </div>
+
+                  {error && (
+                    <div className="p-3 rounded-lg bg-red-500/20 border border-red-400/50">
+                      <p className="text-red-300 text-sm">{error}</p>
+                    </div>
+                  )}
+
+                  <Button 
+                    type="submit" 
+                    disabled={isLoading}
+                    className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold py-3 rounded-lg"
+                  >
+                    {isLoading ? 'Memproses...' : 'Reset Password'}
+                  </Button>
+
+                  <button type="button" onClick={toggleResetMode} className="w-full text-sm text-blue-200 hover:text-white">
+                    Kembali ke halaman masuk
+                  </button>
+                </form>
+                ) : (
                 <form onSubmit={handleSubmit} className="space-y-6">
                   {/* Role Selection */}
                   <div className="space-y-2">
@@ -184,6 +266,12 @@ export function LoginPage({ onLogin }: LoginPageProps) {
                             <span>Guru</span>
                           </div>
                         </SelectItem>
+                        <SelectItem value="orang_tua">
+                          <div className="flex items-center space-x-2">
+                            <Heart className="w-4 h-4" />
+                            <span>Orang Tua</span>
+                          </div>
+                        </SelectItem>
                         <SelectItem value="admin">
                           <div className="flex items-center space-x-2">
                             <Users className="w-4 h-4" />
@@ -197,7 +285,7 @@ export function LoginPage({ onLogin }: LoginPageProps) {
                   {/* Identity Input */}
                   <div className="space-y-2">
                     <label className="text-sm font-medium text-white">
-                      {formData.role === 'admin' ? 'Username' : 
+                      {formData.role === 'admin' || formData.role === 'orang_tua' ? 'Username' : 
                        formData.role === 'guru' ? 'NIP' : 'NISN'}
                     </label>
                     <Input
@@ -246,17 +334,18 @@ export function LoginPage({ onLogin }: LoginPageProps) {
                       'Masuk'
                     )}
                   </Button>
-                </form>
 
-                {/* Demo Credentials */}
-                <div className="mt-6 pt-6 border-t border-white/20">
-                  <p className="text-xs text-blue-200 text-center mb-3">Akun Demo:</p>
-                  <div className="text-xs text-blue-100 space-y-1">
-                    <div>👨‍💼 Admin: admin / admin123</div>
-                    <div>👨‍🏫 Guru: 1987654321 / guru123</div>
-                    <div>👨‍🎓 Siswa: 1234567890 / siswa123</div>
-                  </div>
-                </div>
+                  {resetMessage && (
+                    <div className="p-3 rounded-lg bg-green-500/20 border border-green-400/50">
+                      <p className="text-green-200 text-sm">{resetMessage}</p>
+                    </div>
+                  )}
+
+                  <button type="button" onClick={toggleResetMode} className="w-full text-sm text-blue-200 hover:text-white">
+                    Punya token reset password?
+                  </button>
+                </form>
+                )}
               </CardContent>
             </Card>
           </div>
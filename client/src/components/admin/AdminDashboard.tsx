@@ -2,9 +2,12 @@ import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { trpc } from '@/utils/trpc';
 import { StubDataService } from '../services/StubDataService';
+import { ChangePasswordForm } from '../shared/ChangePasswordForm';
+import { QrCheckInDisplay } from '../shared/QrCheckInDisplay';
 import { 
   Users, 
   UserPlus, 
@@ -16,9 +19,23 @@ import {
   Edit,
   Trash2,
   Plus,
-  Eye
+  Eye,
+  KeyRound,
+  Unlock,
+  Heart,
+  Link2,
+  MapPin,
+  AlarmClock,
+  CalendarDays,
+  UserX,
+  Paperclip,
+  Globe,
+  Nfc,
+  RefreshCw,
+  ListChecks
 } from 'lucide-react';
-import type { AuthResponse, User, Siswa, Guru, Kelas, DashboardStats } from '../../../../server/src/schema';
+import { PERAN_PERSETUJUAN_LABELS } from '@/utils/persetujuanIzin';
+import type { AuthResponse, User, Siswa, Guru, Kelas, DashboardStats, LockoutEvent, AuditLog, OrangTua, OrangTuaSiswa, Geofence, SchoolHours, SchoolTimezone, KalenderAkademik, MataPelajaran, JadwalPelajaranDetail, AturanStatusHarian, Perangkat, KartuRfidDetail, AlurPersetujuanIzin, PeranPersetujuan, KopSurat } from '../../../../server/src/schema';
 
 interface AdminDashboardProps {
   user: NonNullable<AuthResponse['user']>;
@@ -26,12 +43,41 @@ interface AdminDashboardProps {
   onPageChange: (page: string) => void;
 }
 
+const DAY_NAMES = ['Minggu', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu'];
+
+const SCHOOL_TIMEZONE_LABELS: Record<SchoolTimezone['timezone'], string> = {
+  'Asia/Jakarta': 'WIB (UTC+7)',
+  'Asia/Makassar': 'WITA (UTC+8)',
+  'Asia/Jayapura': 'WIT (UTC+9)'
+};
+
+const ATURAN_STATUS_HARIAN_LABELS: Record<AturanStatusHarian, string> = {
+  mayoritas: 'Hadir jika mengikuti minimal separuh pelajaran',
+  pelajaran_pertama: 'Mengikuti status pelajaran pertama',
+  minimal_satu_hadir: 'Hadir jika mengikuti minimal satu pelajaran'
+};
+
+const JENIS_KALENDER_LABELS: Record<KalenderAkademik['jenis'], string> = {
+  libur_nasional: 'Libur Nasional',
+  libur_sekolah: 'Libur Sekolah',
+  acara_sekolah: 'Acara Sekolah',
+  hari_masuk_pengganti: 'Hari Masuk Pengganti'
+};
+
 export function AdminDashboard({ user, currentPage, onPageChange }: AdminDashboardProps) {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [users, setUsers] = useState<User[]>([]);
   const [students, setStudents] = useState<Siswa[]>([]);
   const [teachers, setTeachers] = useState<Guru[]>([]);
   const [classes, setClasses] = useState<Kelas[]>([]);
+  const [lockoutEvents, setLockoutEvents] = useState<LockoutEvent[]>([]);
+  const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
+  const [auditFilter, setAuditFilter] = useState({
+    entity: 'all',
+    actor_id: '',
+    start_date: '',
+    end_date: ''
+  });
   const [isLoading, setIsLoading] = useState(false);
 
   // Forms state
@@ -40,9 +86,98 @@ export function AdminDashboard({ user, currentPage, onPageChange }: AdminDashboa
     nip: '',
     nisn: '',
     password: '',
-    role: 'siswa' as 'admin' | 'guru' | 'siswa'
+    role: 'siswa' as 'admin' | 'guru' | 'siswa' | 'orang_tua'
+  });
+
+  const [parents, setParents] = useState<OrangTua[]>([]);
+  const [parentUsers, setParentUsers] = useState<User[]>([]);
+  const [parentStudents, setParentStudents] = useState<Siswa[]>([]);
+  const [parentLinks, setParentLinks] = useState<Record<number, OrangTuaSiswa[]>>({});
+  const [newParent, setNewParent] = useState({
+    user_id: 0,
+    nama: '',
+    no_hp: ''
+  });
+  const [newLink, setNewLink] = useState({
+    orang_tua_id: 0,
+    siswa_id: 0,
+    hubungan: ''
+  });
+
+  const [qrLokasi, setQrLokasi] = useState('Gerbang Utama');
+  const [shownQrLokasi, setShownQrLokasi] = useState<string | null>(null);
+
+  // Text fields mirror the geofence setting; polygon points are one "lat,lng" per line
+  const [geofenceForm, setGeofenceForm] = useState({
+    enabled: false,
+    type: 'radius' as Geofence['area']['type'],
+    latitude: '',
+    longitude: '',
+    radius_meters: '100',
+    points: '',
+    max_accuracy_meters: '50'
+  });
+
+  const [calendarMonth, setCalendarMonth] = useState(() => new Date().toISOString().slice(0, 7)); // YYYY-MM
+  const [calendarEntries, setCalendarEntries] = useState<KalenderAkademik[]>([]);
+  const [calendarKelas, setCalendarKelas] = useState<Kelas[]>([]);
+  const [weekendDays, setWeekendDays] = useState<number[]>([]);
+  const [newKalender, setNewKalender] = useState({
+    tanggal_mulai: '',
+    tanggal_selesai: '',
+    jenis: 'libur_nasional' as KalenderAkademik['jenis'],
+    keterangan: '',
+    hari_sekolah: false,
+    kelas_id: 0 // 0 = semua kelas
+  });
+
+  const [mataPelajaranList, setMataPelajaranList] = useState<MataPelajaran[]>([]);
+  const [jadwalList, setJadwalList] = useState<JadwalPelajaranDetail[]>([]);
+  const [timetableKelas, setTimetableKelas] = useState<Kelas[]>([]);
+  const [timetableGuru, setTimetableGuru] = useState<Guru[]>([]);
+  const [dailyStatusRule, setDailyStatusRule] = useState<AturanStatusHarian>('mayoritas');
+  const [newMataPelajaran, setNewMataPelajaran] = useState({ kode: '', nama: '' });
+  const [newJadwal, setNewJadwal] = useState({
+    kelas_id: 0,
+    mata_pelajaran_id: 0,
+    guru_id: 0,
+    hari: 1,
+    jam_mulai: '07:00',
+    jam_selesai: '08:30'
+  });
+
+  // Empty until configured; the server then counts days on its own clock
+  // Card readers and the cards assigned to siswa
+  const [perangkatList, setPerangkatList] = useState<Perangkat[]>([]);
+  const [kartuList, setKartuList] = useState<KartuRfidDetail[]>([]);
+  const [rfidStudents, setRfidStudents] = useState<Siswa[]>([]);
+  const [newPerangkat, setNewPerangkat] = useState({ kode: '', nama: '', lokasi: '' });
+  const [newKartu, setNewKartu] = useState({ uid: '', siswa_id: 0 });
+  const [shownSecret, setShownSecret] = useState<{ kode: string; secret: string } | null>(null);
+
+  const [schoolTimezone, setSchoolTimezone] = useState<SchoolTimezone['timezone'] | ''>('');
+
+  // One row per day of week (0 = Minggu); unchecked days have no official hours
+  const [schoolHoursForm, setSchoolHoursForm] = useState({
+    grace_minutes: '10',
+    days: DAY_NAMES.map((_, day) => ({
+      enabled: day >= 1 && day <= 5,
+      jam_masuk: '07:00',
+      jam_pulang: '14:00'
+    }))
   });
 
+  // Empty cutoff keeps the scheduled alpha job idle; the backfill date defaults to today
+  const [autoAlphaCutoff, setAutoAlphaCutoff] = useState('');
+  // Empty when sick notes are never required
+  const [lampiranSakitBatas, setLampiranSakitBatas] = useState('');
+  // Approval chains of leave requests, with the guru list to pick BK counselors and the principal from
+  const [alurPersetujuan, setAlurPersetujuan] = useState<AlurPersetujuanIzin>({ aturan: [], guru_bk: [], kepala_sekolah: [] });
+  const [approverGuru, setApproverGuru] = useState<Guru[]>([]);
+  // Letterhead of exported reports
+  const [kopSurat, setKopSurat] = useState<KopSurat>({ nama_sekolah: '', alamat: '', kontak: '' });
+  const [autoAlphaDate, setAutoAlphaDate] = useState(() => new Date().toISOString().slice(0, 10));
+
   const [newClass, setNewClass] = useState({
     nama_kelas: '',
     wali_kelas_id: 0
@@ -70,6 +205,32 @@ export function AdminDashboard({ user, currentPage, onPageChange }: AdminDashboa
     }
   }, []);
 
+  // Load recent login lockouts
+  const loadLockoutEvents = useCallback(async () => {
+    try {
+      const result = await trpc.getLockoutEvents.query({ limit: 20 });
+      setLockoutEvents(result);
+    } catch (error) {
+      console.error('Failed to load lockout events:', error);
+    }
+  }, []);
+
+  // Load audit log entries matching the filter
+  const loadAuditLogs = useCallback(async () => {
+    try {
+      const result = await trpc.getAuditLogs.query({
+        entity: auditFilter.entity !== 'all' ? auditFilter.entity : undefined,
+        actor_id: auditFilter.actor_id ? Number(auditFilter.actor_id) : undefined,
+        start_date: auditFilter.start_date ? new Date(`${auditFilter.start_date}T00:00:00`) : undefined,
+        end_date: auditFilter.end_date ? new Date(`${auditFilter.end_date}T23:59:59`) : undefined,
+        limit: 200
+      });
+      setAuditLogs(result);
+    } catch (error) {
+      console.error('Failed to load audit logs:', error);
+    }
+  }, [auditFilter]);
+
   // Load all students
   const loadStudents = useCallback(async () => {
     try {
@@ -103,11 +264,177 @@ export function AdminDashboard({ user, currentPage, onPageChange }: AdminDashboa
     }
   }, []);
 
+  // Load parent profiles, their links and the accounts/students they can be linked to
+  const loadParents = useCallback(async () => {
+    try {
+      const [orangTua, allUsers, allSiswa] = await Promise.all([
+        trpc.getAllOrangTua.query(),
+        trpc.getAllUsers.query(),
+        trpc.getAllSiswa.query()
+      ]);
+      const links = await Promise.all(orangTua.map(async (parent: OrangTua) =>
+        [parent.id, await trpc.getLinksByOrangTua.query({ orangTuaId: parent.id })] as const
+      ));
+      setParents(orangTua);
+      setParentUsers(allUsers.filter((u: User) => u.role === 'orang_tua'));
+      setParentStudents(allSiswa);
+      setParentLinks(Object.fromEntries(links));
+    } catch (error) {
+      console.error('Failed to load parents:', error);
+    }
+  }, []);
+
+  // Load the school area used for location check-in
+  const loadGeofence = useCallback(async () => {
+    try {
+      const geofence = await trpc.getGeofence.query();
+      if (!geofence) return;
+      setGeofenceForm({
+        enabled: geofence.enabled,
+        type: geofence.area.type,
+        latitude: geofence.area.type === 'radius' ? geofence.area.center.latitude.toString() : '',
+        longitude: geofence.area.type === 'radius' ? geofence.area.center.longitude.toString() : '',
+        radius_meters: geofence.area.type === 'radius' ? geofence.area.radius_meters.toString() : '100',
+        points: geofence.area.type === 'polygon'
+          ? geofence.area.points.map(p => `${p.latitude},${p.longitude}`).join('\n')
+          : '',
+        max_accuracy_meters: geofence.max_accuracy_meters.toString()
+      });
+    } catch (error) {
+      console.error('Failed to load geofence:', error);
+    }
+  }, []);
+
+  const loadSchoolTimezone = useCallback(async () => {
+    try {
+      const setting = await trpc.getSchoolTimezone.query();
+      setSchoolTimezone(setting?.timezone ?? '');
+    } catch (error) {
+      console.error('Failed to load school timezone:', error);
+    }
+  }, []);
+
+  // Load the official entry and exit times used for late arrival tracking
+  const loadSchoolHours = useCallback(async () => {
+    try {
+      const hours = await trpc.getSchoolHours.query();
+      if (!hours) return;
+      setSchoolHoursForm({
+        grace_minutes: hours.grace_minutes.toString(),
+        days: DAY_NAMES.map((_, day) => {
+          const configured = hours.days.find(d => d.day_of_week === day);
+          return configured
+            ? { enabled: true, jam_masuk: configured.jam_masuk, jam_pulang: configured.jam_pulang }
+            : { enabled: false, jam_masuk: '07:00', jam_pulang: '14:00' };
+        })
+      });
+    } catch (error) {
+      console.error('Failed to load school hours:', error);
+    }
+  }, []);
+
+  const loadAutoAlpha = useCallback(async () => {
+    try {
+      const setting = await trpc.getAutoAlpha.query();
+      setAutoAlphaCutoff(setting?.jam_cutoff ?? '');
+    } catch (error) {
+      console.error('Failed to load auto alpha:', error);
+    }
+  }, []);
+
+  const loadLampiranSakit = useCallback(async () => {
+    try {
+      const setting = await trpc.getLampiranSakit.query();
+      setLampiranSakitBatas(setting?.batas_hari == null ? '' : String(setting.batas_hari));
+    } catch (error) {
+      console.error('Failed to load lampiran sakit:', error);
+    }
+  }, []);
+
+  const loadAlurPersetujuan = useCallback(async () => {
+    try {
+      const [alur, guru] = await Promise.all([
+        trpc.getAlurPersetujuanIzin.query(),
+        trpc.getAllGuru.query()
+      ]);
+      setAlurPersetujuan(alur);
+      setApproverGuru(guru);
+    } catch (error) {
+      console.error('Failed to load alur persetujuan izin:', error);
+    }
+  }, []);
+
+  const loadKopSurat = useCallback(async () => {
+    try {
+      const setting = await trpc.getKopSurat.query();
+      if (setting) setKopSurat(setting);
+    } catch (error) {
+      console.error('Failed to load kop surat:', error);
+    }
+  }, []);
+
+  // Load subjects, the timetable and the choices of the jadwal form
+  const loadTimetable = useCallback(async () => {
+    try {
+      const [mataPelajaran, jadwal, kelas, guru, rule] = await Promise.all([
+        trpc.getAllMataPelajaran.query(),
+        trpc.getJadwalPelajaran.query({}),
+        trpc.getAllKelas.query(),
+        trpc.getAllGuru.query(),
+        trpc.getDailyStatusRule.query()
+      ]);
+      setMataPelajaranList(mataPelajaran);
+      setJadwalList(jadwal);
+      setTimetableKelas(kelas);
+      setTimetableGuru(guru);
+      setDailyStatusRule(rule?.aturan ?? 'mayoritas');
+    } catch (error) {
+      console.error('Failed to load timetable:', error);
+    }
+  }, []);
+
+  // Load card readers, assigned cards and the siswa a card can be given to
+  const loadRfid = useCallback(async () => {
+    try {
+      const [perangkat, kartu, siswa] = await Promise.all([
+        trpc.getAllPerangkat.query(),
+        trpc.getKartuRfid.query({}),
+        trpc.getAllSiswa.query()
+      ]);
+      setPerangkatList(perangkat);
+      setKartuList(kartu);
+      setRfidStudents(siswa);
+    } catch (error) {
+      console.error('Failed to load RFID devices:', error);
+    }
+  }, []);
+
+  // Load the weekend and the kalender entries of the selected month
+  const loadCalendar = useCallback(async () => {
+    try {
+      const [year, month] = calendarMonth.split('-').map(Number);
+      const [weekend, entries, kelas] = await Promise.all([
+        trpc.getWeekend.query(),
+        trpc.getKalenderAkademik.query({
+          start_date: new Date(year, month - 1, 1),
+          end_date: new Date(year, month, 0)
+        }),
+        trpc.getAllKelas.query()
+      ]);
+      setWeekendDays(weekend?.days ?? []);
+      setCalendarEntries(entries);
+      setCalendarKelas(kelas);
+    } catch (error) {
+      console.error('Failed to load calendar:', error);
+    }
+  }, [calendarMonth]);
+
   useEffect(() => {
     if (currentPage === 'dashboard') {
       loadStats();
     } else if (currentPage === 'users') {
       loadUsers();
+      loadLockoutEvents();
     } else if (currentPage === 'students') {
       loadStudents();
     } else if (currentPage === 'teachers') {
@@ -115,8 +442,26 @@ export function AdminDashboard({ user, currentPage, onPageChange }: AdminDashboa
     } else if (currentPage === 'classes') {
       loadClasses();
       loadTeachers(); // For wali kelas selection
+    } else if (currentPage === 'parents') {
+      loadParents();
+    } else if (currentPage === 'audit-log') {
+      loadAuditLogs();
+    } else if (currentPage === 'school-settings') {
+      loadGeofence();
+      loadSchoolTimezone();
+      loadSchoolHours();
+      loadAutoAlpha();
+      loadLampiranSakit();
+      loadAlurPersetujuan();
+      loadKopSurat();
+    } else if (currentPage === 'calendar') {
+      loadCalendar();
+    } else if (currentPage === 'timetable') {
+      loadTimetable();
+    } else if (currentPage === 'rfid') {
+      loadRfid();
     }
-  }, [currentPage, loadStats, loadUsers, loadStudents, loadTeachers, loadClasses]);
+  }, [currentPage, loadStats, loadUsers, loadLockoutEvents, loadStudents, loadTeachers, loadClasses, loadParents, loadAuditLogs, loadGeofence, loadSchoolTimezone, loadSchoolHours, loadAutoAlpha, loadLampiranSakit, loadAlurPersetujuan, loadKopSurat, loadCalendar, loadTimetable, loadRfid]);
 
   // Handle create user
   const handleCreateUser = async (e: React.FormEvent) => {
@@ -125,7 +470,7 @@ export function AdminDashboard({ user, currentPage, onPageChange }: AdminDashboa
     
     try {
       const userData = {
-        username: newUser.role === 'admin' ? newUser.username : null,
+        username: newUser.role === 'admin' || newUser.role === 'orang_tua' ? newUser.username : null,
         nip: newUser.role === 'guru' ? newUser.nip : null,
         nisn: newUser.role === 'siswa' ? newUser.nisn : null,
         password: newUser.password,
@@ -182,261 +527,2040 @@ export function AdminDashboard({ user, currentPage, onPageChange }: AdminDashboa
     }
   };
 
-  if (currentPage === 'dashboard') {
-    return (
-      <div className="p-6 space-y-6">
-        {/* Header */}
-        <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-xl p-6 text-white">
-          <h1 className="text-3xl font-bold mb-2">Dashboard Administrator</h1>
-          <p className="text-blue-100">Selamat datang, {user.username}!</p>
-          <p className="text-sm text-blue-200">Panel kontrol sistem absensi</p>
-        </div>
+  const handleUnlockUser = async (userId: number) => {
+    setIsLoading(true);
+    try {
+      await trpc.unlockUser.mutate({ userId });
+      await loadLockoutEvents();
+      alert('Akun berhasil dibuka kuncinya');
+    } catch (error) {
+      console.error('Failed to unlock user:', error);
+      alert('Gagal membuka kunci akun');
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-        {/* Stats Cards */}
-        {stats && (
-          <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
-            <Card className="bg-white/80 backdrop-blur-md border-white/20">
-              <CardContent className="p-6">
-                <div className="flex items-center space-x-4">
-                  <div className="p-3 rounded-full bg-blue-100">
-                    <BookOpen className="w-6 h-6 text-blue-600" />
-                  </div>
-                  <div>
-                    <p className="text-2xl font-bold text-blue-600">{stats.total_siswa}</p>
-                    <p className="text-sm text-gray-600">Total Siswa</p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+  const handleCreateParent = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
 
-            <Card className="bg-white/80 backdrop-blur-md border-white/20">
-              <CardContent className="p-6">
-                <div className="flex items-center space-x-4">
-                  <div className="p-3 rounded-full bg-green-100">
-                    <GraduationCap className="w-6 h-6 text-green-600" />
-                  </div>
-                  <div>
-                    <p className="text-2xl font-bold text-green-600">{stats.total_guru}</p>
-                    <p className="text-sm text-gray-600">Total Guru</p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+    try {
+      await trpc.createOrangTua.mutate({
+        user_id: newParent.user_id,
+        nama: newParent.nama,
+        no_hp: newParent.no_hp || null
+      });
+      setNewParent({ user_id: 0, nama: '', no_hp: '' });
+      await loadParents();
+      alert('Data orang tua berhasil dibuat');
+    } catch (error) {
+      console.error('Failed to create parent:', error);
+      alert('Gagal membuat data orang tua');
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-            <Card className="bg-white/80 backdrop-blur-md border-white/20">
-              <CardContent className="p-6">
-                <div className="flex items-center space-x-4">
-                  <div className="p-3 rounded-full bg-purple-100">
-                    <School className="w-6 h-6 text-purple-600" />
-                  </div>
-                  <div>
-                    <p className="text-2xl font-bold text-purple-600">{stats.total_kelas}</p>
-                    <p className="text-sm text-gray-600">Total Kelas</p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+  const handleDeleteParent = async (id: number) => {
+    if (!confirm('Apakah Anda yakin ingin menghapus data orang tua ini?')) return;
 
-            <Card className="bg-white/80 backdrop-blur-md border-white/20">
-              <CardContent className="p-6">
-                <div className="flex items-center space-x-4">
-                  <div className="p-3 rounded-full bg-orange-100">
-                    <FileText className="w-6 h-6 text-orange-600" />
-                  </div>
-                  <div>
-                    <p className="text-2xl font-bold text-orange-600">{stats.pengajuan_pending}</p>
-                    <p className="text-sm text-gray-600">Pengajuan Pending</p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-        )}
+    setIsLoading(true);
+    try {
+      await trpc.deleteOrangTua.mutate({ id });
+      await loadParents();
+    } catch (error) {
+      console.error('Failed to delete parent:', error);
+      alert('Gagal menghapus data orang tua');
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-        {/* Today's Attendance Stats */}
-        {stats && (
-          <Card className="bg-white/80 backdrop-blur-md border-white/20">
-            <CardHeader>
-              <CardTitle>Statistik Absensi Hari Ini</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid md:grid-cols-4 gap-4">
-                <div className="text-center p-4 rounded-lg bg-green-50 border border-green-200">
-                  <p className="text-3xl font-bold text-green-600">{stats.absensi_hari_ini.hadir}</p>
-                  <p className="text-sm text-green-700">Hadir</p>
-                </div>
-                <div className="text-center p-4 rounded-lg bg-blue-50 border border-blue-200">
-                  <p className="text-3xl font-bold text-blue-600">{stats.absensi_hari_ini.izin}</p>
-                  <p className="text-sm text-blue-700">Izin</p>
-                </div>
-                <div className="text-center p-4 rounded-lg bg-yellow-50 border border-yellow-200">
-                  <p className="text-3xl font-bold text-yellow-600">{stats.absensi_hari_ini.sakit}</p>
-                  <p className="text-sm text-yellow-700">Sakit</p>
-                </div>
-                <div className="text-center p-4 rounded-lg bg-red-50 border border-red-200">
-                  <p className="text-3xl font-bold text-red-600">{stats.absensi_hari_ini.alpha}</p>
-                  <p className="text-sm text-red-700">Alpha</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        )}
+  const handleLinkSiswa = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
 
-        {/* Quick Actions */}
-        <div className="grid md:grid-cols-4 gap-4">
-          <Button 
-            onClick={() => onPageChange('users')}
-            variant="outline"
-            className="h-24 flex-col space-y-2 bg-white/80 backdrop-blur-md border-white/20"
-          >
-            <Users className="w-8 h-8 text-blue-600" />
-            <span>Kelola Pengguna</span>
-          </Button>
-          
-          <Button 
-            onClick={() => onPageChange('students')}
-            variant="outline"
-            className="h-24 flex-col space-y-2 bg-white/80 backdrop-blur-md border-white/20"
-          >
-            <BookOpen className="w-8 h-8 text-green-600" />
-            <span>Data Siswa</span>
-          </Button>
-          
-          <Button 
-            onClick={() => onPageChange('teachers')}
-            variant="outline"
-            className="h-24 flex-col space-y-2 bg-white/80 backdrop-blur-md border-white/20"
-          >
-            <GraduationCap className="w-8 h-8 text-purple-600" />
-            <span>Data Guru</span>
-          </Button>
-          
-          <Button 
-            onClick={() => onPageChange('classes')}
-            variant="outline"
-            className="h-24 flex-col space-y-2 bg-white/80 backdrop-blur-md border-white/20"
-          >
-            <School className="w-8 h-8 text-orange-600" />
-            <span>Data Kelas</span>
-          </Button>
-        </div>
-      </div>
-    );
-  }
+    try {
+      await trpc.linkSiswaToOrangTua.mutate({
+        orang_tua_id: newLink.orang_tua_id,
+        siswa_id: newLink.siswa_id,
+        hubungan: newLink.hubungan || null
+      });
+      setNewLink({ orang_tua_id: 0, siswa_id: 0, hubungan: '' });
+      await loadParents();
+    } catch (error) {
+      console.error('Failed to link student:', error);
+      alert('Gagal menghubungkan siswa');
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-  if (currentPage === 'users') {
-    return (
-      <div className="p-6 space-y-6">
-        <h1 className="text-2xl font-bold text-gray-800">Kelola Pengguna</h1>
-        
-        {/* Create User Form */}
-        <Card className="bg-white/80 backdrop-blur-md border-white/20">
-          <CardHeader>
-            <CardTitle>Tambah Pengguna Baru</CardTitle>
+  const handleUnlinkSiswa = async (id: number) => {
+    setIsLoading(true);
+    try {
+      await trpc.unlinkSiswaFromOrangTua.mutate({ id });
+      await loadParents();
+    } catch (error) {
+      console.error('Failed to unlink student:', error);
+      alert('Gagal melepas hubungan siswa');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Issue a one-time reset token; it is shown only once, so the admin must hand it over now
+  // Handle save geofence
+  const handleSaveGeofence = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const points = geofenceForm.points
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map(line => {
+        const [latitude, longitude] = line.split(',').map(part => Number(part.trim()));
+        return { latitude, longitude };
+      });
+    if (geofenceForm.type === 'polygon'
+      && (points.length < 3 || points.some(p => isNaN(p.latitude) || isNaN(p.longitude)))) {
+      alert('Area poligon membutuhkan minimal 3 titik dengan format lat,lng');
+      return;
+    }
+
+    const geofence: Geofence = {
+      enabled: geofenceForm.enabled,
+      max_accuracy_meters: Number(geofenceForm.max_accuracy_meters),
+      area: geofenceForm.type === 'radius'
+        ? {
+          type: 'radius',
+          center: { latitude: Number(geofenceForm.latitude), longitude: Number(geofenceForm.longitude) },
+          radius_meters: Number(geofenceForm.radius_meters)
+        }
+        : { type: 'polygon', points }
+    };
+
+    setIsLoading(true);
+    try {
+      await trpc.updateGeofence.mutate(geofence);
+      alert('Area sekolah berhasil disimpan');
+    } catch (error) {
+      console.error('Failed to save geofence:', error);
+      alert('Gagal menyimpan area sekolah');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle create mata pelajaran
+  const handleCreateMataPelajaran = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await trpc.createMataPelajaran.mutate(newMataPelajaran);
+      setNewMataPelajaran({ kode: '', nama: '' });
+      await loadTimetable();
+    } catch (error) {
+      console.error('Failed to create mata pelajaran:', error);
+      alert('Gagal menambah mata pelajaran');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle delete mata pelajaran
+  const handleDeleteMataPelajaran = async (id: number) => {
+    if (!confirm('Hapus mata pelajaran ini beserta jadwal dan absensi pelajarannya?')) return;
+
+    setIsLoading(true);
+    try {
+      await trpc.deleteMataPelajaran.mutate({ id });
+      await loadTimetable();
+    } catch (error) {
+      console.error('Failed to delete mata pelajaran:', error);
+      alert('Gagal menghapus mata pelajaran');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle create jadwal pelajaran
+  const handleCreateJadwal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newJadwal.kelas_id || !newJadwal.mata_pelajaran_id || !newJadwal.guru_id) {
+      alert('Pilih kelas, mata pelajaran dan guru');
+      return;
+    }
+    if (newJadwal.jam_mulai >= newJadwal.jam_selesai) {
+      alert('Jam mulai harus sebelum jam selesai');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await trpc.createJadwalPelajaran.mutate(newJadwal);
+      await loadTimetable();
+    } catch (error) {
+      console.error('Failed to create jadwal pelajaran:', error);
+      alert('Gagal menambah jadwal, pastikan tidak bentrok dengan jadwal kelas atau guru lain');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle delete jadwal pelajaran
+  const handleDeleteJadwal = async (id: number) => {
+    if (!confirm('Hapus jadwal ini beserta absensi pelajarannya?')) return;
+
+    setIsLoading(true);
+    try {
+      await trpc.deleteJadwalPelajaran.mutate({ id });
+      await loadTimetable();
+    } catch (error) {
+      console.error('Failed to delete jadwal pelajaran:', error);
+      alert('Gagal menghapus jadwal');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle save daily status rule
+  const handleSaveDailyStatusRule = async () => {
+    setIsLoading(true);
+    try {
+      await trpc.updateDailyStatusRule.mutate({ aturan: dailyStatusRule });
+      alert('Aturan status harian berhasil disimpan');
+    } catch (error) {
+      console.error('Failed to save daily status rule:', error);
+      alert('Gagal menyimpan aturan status harian');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle save weekend
+  const handleSaveWeekend = async () => {
+    setIsLoading(true);
+    try {
+      await trpc.updateWeekend.mutate({ days: weekendDays });
+      alert('Hari libur mingguan berhasil disimpan');
+    } catch (error) {
+      console.error('Failed to save weekend:', error);
+      alert('Gagal menyimpan hari libur mingguan');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle create kalender entry
+  const handleCreateKalender = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await trpc.createKalenderAkademik.mutate({
+        tanggal_mulai: new Date(`${newKalender.tanggal_mulai}T00:00:00`),
+        tanggal_selesai: new Date(`${(newKalender.tanggal_selesai || newKalender.tanggal_mulai)}T00:00:00`),
+        jenis: newKalender.jenis,
+        keterangan: newKalender.keterangan,
+        hari_sekolah: newKalender.hari_sekolah,
+        kelas_id: newKalender.kelas_id || null
+      });
+      setNewKalender({ tanggal_mulai: '', tanggal_selesai: '', jenis: 'libur_nasional', keterangan: '', hari_sekolah: false, kelas_id: 0 });
+      await loadCalendar();
+    } catch (error) {
+      console.error('Failed to create kalender entry:', error);
+      alert('Gagal menambah kalender akademik');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle delete kalender entry
+  const handleDeleteKalender = async (id: number) => {
+    if (!confirm('Apakah Anda yakin ingin menghapus entri kalender ini?')) return;
+
+    setIsLoading(true);
+    try {
+      await trpc.deleteKalenderAkademik.mutate({ id });
+      await loadCalendar();
+    } catch (error) {
+      console.error('Failed to delete kalender entry:', error);
+      alert('Gagal menghapus entri kalender');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle save school timezone
+  const handleSaveSchoolTimezone = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!schoolTimezone) return;
+
+    setIsLoading(true);
+    try {
+      await trpc.updateSchoolTimezone.mutate({ timezone: schoolTimezone });
+      alert('Zona waktu sekolah berhasil disimpan');
+    } catch (error) {
+      console.error('Failed to save school timezone:', error);
+      alert('Gagal menyimpan zona waktu sekolah');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle save school hours
+  const handleSaveSchoolHours = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const hours: SchoolHours = {
+      grace_minutes: Number(schoolHoursForm.grace_minutes),
+      days: schoolHoursForm.days.flatMap((day, day_of_week) =>
+        day.enabled ? [{ day_of_week, jam_masuk: day.jam_masuk, jam_pulang: day.jam_pulang }] : []
+      )
+    };
+    if (hours.days.some(day => day.jam_masuk >= day.jam_pulang)) {
+      alert('Jam masuk harus sebelum jam pulang');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await trpc.updateSchoolHours.mutate(hours);
+      alert('Jam sekolah berhasil disimpan');
+    } catch (error) {
+      console.error('Failed to save school hours:', error);
+      alert('Gagal menyimpan jam sekolah');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle save auto alpha cutoff
+  const handleSaveAutoAlpha = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await trpc.updateAutoAlpha.mutate({ jam_cutoff: autoAlphaCutoff });
+      alert('Batas waktu alpha otomatis berhasil disimpan');
+    } catch (error) {
+      console.error('Failed to save auto alpha:', error);
+      alert('Gagal menyimpan batas waktu alpha otomatis');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaveLampiranSakit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await trpc.updateLampiranSakit.mutate({ batas_hari: lampiranSakitBatas === '' ? null : Number(lampiranSakitBatas) });
+      alert('Aturan surat sakit berhasil disimpan');
+    } catch (error) {
+      console.error('Failed to save lampiran sakit:', error);
+      alert('Gagal menyimpan aturan surat sakit');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Steps keep the order wali kelas, BK, principal whichever ones are ticked
+  const toggleLangkah = (index: number, peran: PeranPersetujuan, checked: boolean) => {
+    setAlurPersetujuan(prev => ({
+      ...prev,
+      aturan: prev.aturan.map((aturan, i) => i !== index ? aturan : {
+        ...aturan,
+        langkah: (Object.keys(PERAN_PERSETUJUAN_LABELS) as PeranPersetujuan[])
+          .filter(p => p === peran ? checked : aturan.langkah.includes(p))
+      })
+    }));
+  };
+
+  const toggleApprover = (field: 'guru_bk' | 'kepala_sekolah', guruId: number, checked: boolean) => {
+    setAlurPersetujuan(prev => ({
+      ...prev,
+      [field]: checked ? [...prev[field], guruId] : prev[field].filter(id => id !== guruId)
+    }));
+  };
+
+  const handleSaveAlurPersetujuan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await trpc.updateAlurPersetujuanIzin.mutate(alurPersetujuan);
+      alert('Alur persetujuan izin berhasil disimpan');
+    } catch (error) {
+      console.error('Failed to save alur persetujuan izin:', error);
+      alert('Gagal menyimpan alur persetujuan izin, pastikan setiap peran yang dipakai sudah memiliki guru');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaveKopSurat = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await trpc.updateKopSurat.mutate(kopSurat);
+      alert('Kop surat berhasil disimpan');
+    } catch (error) {
+      console.error('Failed to save kop surat:', error);
+      alert('Gagal menyimpan kop surat');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle run auto alpha for a past date
+  const handleRunAutoAlpha = async () => {
+    if (!confirm(`Tandai alpha semua siswa tanpa absensi pada ${autoAlphaDate}?`)) return;
+
+    setIsLoading(true);
+    try {
+      const result = await trpc.runAutoAlpha.mutate({ tanggal: new Date(`${autoAlphaDate}T00:00:00`) });
+      alert(`${result.total_alpha} siswa ditandai alpha (${result.kelas_diproses} kelas diproses, ${result.kelas_libur} kelas libur)`);
+    } catch (error) {
+      console.error('Failed to run auto alpha:', error);
+      alert('Gagal menjalankan alpha otomatis');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle create perangkat; the secret is only ever shown here
+  const handleCreatePerangkat = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const result = await trpc.createPerangkat.mutate(newPerangkat);
+      setShownSecret({ kode: result.perangkat.kode, secret: result.secret });
+      setNewPerangkat({ kode: '', nama: '', lokasi: '' });
+      await loadRfid();
+    } catch (error) {
+      console.error('Failed to create perangkat:', error);
+      alert('Gagal menambah perangkat, pastikan kode belum dipakai');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRotatePerangkatSecret = async (perangkat: Perangkat) => {
+    if (!confirm(`Buat secret baru untuk ${perangkat.kode}? Secret lama langsung tidak berlaku.`)) return;
+
+    setIsLoading(true);
+    try {
+      const result = await trpc.rotatePerangkatSecret.mutate({ id: perangkat.id });
+      setShownSecret({ kode: result.perangkat.kode, secret: result.secret });
+    } catch (error) {
+      console.error('Failed to rotate perangkat secret:', error);
+      alert('Gagal membuat secret baru');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTogglePerangkat = async (perangkat: Perangkat) => {
+    setIsLoading(true);
+    try {
+      await trpc.updatePerangkat.mutate({ id: perangkat.id, aktif: !perangkat.aktif });
+      await loadRfid();
+    } catch (error) {
+      console.error('Failed to update perangkat:', error);
+      alert('Gagal mengubah status perangkat');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeletePerangkat = async (id: number) => {
+    if (!confirm('Hapus perangkat ini? Perangkat tidak bisa lagi mengirim absensi.')) return;
+
+    setIsLoading(true);
+    try {
+      await trpc.deletePerangkat.mutate({ id });
+      await loadRfid();
+    } catch (error) {
+      console.error('Failed to delete perangkat:', error);
+      alert('Gagal menghapus perangkat');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle assign kartu to a siswa
+  const handleCreateKartu = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newKartu.siswa_id) {
+      alert('Pilih siswa pemilik kartu');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await trpc.createKartuRfid.mutate(newKartu);
+      setNewKartu({ uid: '', siswa_id: 0 });
+      await loadRfid();
+    } catch (error) {
+      console.error('Failed to create kartu RFID:', error);
+      alert('Gagal mendaftarkan kartu, periksa UID atau apakah kartu sudah dipakai siswa lain');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteKartu = async (id: number) => {
+    if (!confirm('Hapus kartu ini?')) return;
+
+    setIsLoading(true);
+    try {
+      await trpc.deleteKartuRfid.mutate({ id });
+      await loadRfid();
+    } catch (error) {
+      console.error('Failed to delete kartu RFID:', error);
+      alert('Gagal menghapus kartu');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResetPassword = async (userId: number) => {
+    if (!confirm('Buat token reset password untuk user ini?')) return;
+
+    setIsLoading(true);
+    try {
+      const result = await trpc.createPasswordResetToken.mutate({ userId });
+      alert(
+        `Token reset password (sekali pakai, berlaku sampai ${result.expires_at.toLocaleString('id-ID')}):\n\n${result.token}`
+      );
+    } catch (error) {
+      console.error('Failed to create password reset token:', error);
+      alert('Gagal membuat token reset password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (currentPage === 'dashboard') {
+    return (
+      <div className="p-6 space-y-6">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-xl p-6 text-white">
+          <h1 className="text-3xl font-bold mb-2">Dashboard Administrator</h1>
+          <p className="text-blue-100">Selamat datang, {user.username}!</p>
+          <p className="text-sm text-blue-200">Panel kontrol sistem absensi</p>
+        </div>
+
+        {/* Stats Cards */}
+        {stats && (
+          <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <Card className="bg-white/80 backdrop-blur-md border-white/20">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-4">
+                  <div className="p-3 rounded-full bg-blue-100">
+                    <BookOpen className="w-6 h-6 text-blue-600" />
+                  </div>
+                  <div>
+                    <p className="text-2xl font-bold text-blue-600">{stats.total_siswa}</p>
+                    <p className="text-sm text-gray-600">Total Siswa</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-white/80 backdrop-blur-md border-white/20">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-4">
+                  <div className="p-3 rounded-full bg-green-100">
+                    <GraduationCap className="w-6 h-6 text-green-600" />
+                  </div>
+                  <div>
+                    <p className="text-2xl font-bold text-green-600">{stats.total_guru}</p>
+                    <p className="text-sm text-gray-600">Total Guru</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-white/80 backdrop-blur-md border-white/20">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-4">
+                  <div className="p-3 rounded-full bg-purple-100">
+                    <School className="w-6 h-6 text-purple-600" />
+                  </div>
+                  <div>
+                    <p className="text-2xl font-bold text-purple-600">{stats.total_kelas}</p>
+                    <p className="text-sm text-gray-600">Total Kelas</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-white/80 backdrop-blur-md border-white/20">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-4">
+                  <div className="p-3 rounded-full bg-orange-100">
+                    <FileText className="w-6 h-6 text-orange-600" />
+                  </div>
+                  <div>
+                    <p className="text-2xl font-bold text-orange-600">{stats.pengajuan_pending}</p>
+                    <p className="text-sm text-gray-600">Pengajuan Pending</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Today's Attendance Stats */}
+        {stats && (
+          <Card className="bg-white/80 backdrop-blur-md border-white/20">
+            <CardHeader>
+              <CardTitle>Statistik Absensi Hari Ini</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid md:grid-cols-5 gap-4">
+                <div className="text-center p-4 rounded-lg bg-green-50 border border-green-200">
+                  <p className="text-3xl font-bold text-green-600">{stats.absensi_hari_ini.hadir}</p>
+                  <p className="text-sm text-green-700">Hadir</p>
+                </div>
+                <div className="text-center p-4 rounded-lg bg-orange-50 border border-orange-200">
+                  <p className="text-3xl font-bold text-orange-600">{stats.absensi_hari_ini.terlambat}</p>
+                  <p className="text-sm text-orange-700">Terlambat</p>
+                </div>
+                <div className="text-center p-4 rounded-lg bg-blue-50 border border-blue-200">
+                  <p className="text-3xl font-bold text-blue-600">{stats.absensi_hari_ini.izin}</p>
+                  <p className="text-sm text-blue-700">Izin</p>
+                </div>
+                <div className="text-center p-4 rounded-lg bg-yellow-50 border border-yellow-200">
+                  <p className="text-3xl font-bold text-yellow-600">{stats.absensi_hari_ini.sakit}</p>
+                  <p className="text-sm text-yellow-700">Sakit</p>
+                </div>
+                <div className="text-center p-4 rounded-lg bg-red-50 border border-red-200">
+                  <p className="text-3xl font-bold text-red-600">{stats.absensi_hari_ini.alpha}</p>
+                  <p className="text-sm text-red-700">Alpha</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Quick Actions */}
+        <div className="grid md:grid-cols-4 gap-4">
+          <Button 
+            onClick={() => onPageChange('users')}
+            variant="outline"
+            className="h-24 flex-col space-y-2 bg-white/80 backdrop-blur-md border-white/20"
+          >
+            <Users className="w-8 h-8 text-blue-600" />
+            <span>Kelola Pengguna</span>
+          </Button>
+          
+          <Button 
+            onClick={() => onPageChange('students')}
+            variant="outline"
+            className="h-24 flex-col space-y-2 bg-white/80 backdrop-blur-md border-white/20"
+          >
+            <BookOpen className="w-8 h-8 text-green-600" />
+            <span>Data Siswa</span>
+          </Button>
+          
+          <Button 
+            onClick={() => onPageChange('teachers')}
+            variant="outline"
+            className="h-24 flex-col space-y-2 bg-white/80 backdrop-blur-md border-white/20"
+          >
+            <GraduationCap className="w-8 h-8 text-purple-600" />
+            <span>Data Guru</span>
+          </Button>
+          
+          <Button 
+            onClick={() => onPageChange('classes')}
+            variant="outline"
+            className="h-24 flex-col space-y-2 bg-white/80 backdrop-blur-md border-white/20"
+          >
+            <School className="w-8 h-8 text-orange-600" />
+            <span>Data Kelas</span>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (currentPage === 'users') {
+    return (
+      <div className="p-6 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800">Kelola Pengguna</h1>
+        
+        {/* Create User Form */}
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Tambah Pengguna Baru</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreateUser} className="space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Role</label>
+                  <Select 
+                    value={newUser.role} 
+                    onValueChange={(value: 'admin' | 'guru' | 'siswa' | 'orang_tua') => 
+                      setNewUser(prev => ({ ...prev, role: value, username: '', nip: '', nisn: '' }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="siswa">Siswa</SelectItem>
+                      <SelectItem value="guru">Guru</SelectItem>
+                      <SelectItem value="orang_tua">Orang Tua</SelectItem>
+                      <SelectItem value="admin">Admin</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">
+                    {newUser.role === 'admin' || newUser.role === 'orang_tua' ? 'Username' : 
+                     newUser.role === 'guru' ? 'NIP' : 'NISN'}
+                  </label>
+                  <Input
+                    value={
+                      newUser.role === 'admin' || newUser.role === 'orang_tua' ? newUser.username :
+                      newUser.role === 'guru' ? newUser.nip : newUser.nisn
+                    }
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                      const value = e.target.value;
+                      setNewUser(prev => ({
+                        ...prev,
+                        username: prev.role === 'admin' || prev.role === 'orang_tua' ? value : '',
+                        nip: prev.role === 'guru' ? value : '',
+                        nisn: prev.role === 'siswa' ? value : ''
+                      }));
+                    }}
+                    placeholder={
+                      newUser.role === 'admin' || newUser.role === 'orang_tua' ? 'Masukkan username' :
+                      newUser.role === 'guru' ? 'Masukkan NIP' : 'Masukkan NISN'
+                    }
+                    required
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Password</label>
+                  <Input
+                    type="password"
+                    value={newUser.password}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => 
+                      setNewUser(prev => ({ ...prev, password: e.target.value }))
+                    }
+                    placeholder="Masukkan password"
+                    required
+                  />
+                </div>
+              </div>
+              
+              <Button type="submit" disabled={isLoading} className="w-full">
+                <UserPlus className="w-4 h-4 mr-2" />
+                {isLoading ? 'Proses...' : 'Tambah Pengguna'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Users List */}
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Daftar Pengguna</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {users.length > 0 ? (
+              <div className="space-y-4">
+                {users.map((userItem) => (
+                  <div key={userItem.id} className="flex items-center justify-between p-4 rounded-lg border">
+                    <div>
+                      <p className="font-medium">
+                        {userItem.username || userItem.nip || userItem.nisn}
+                      </p>
+                      <p className="text-sm text-gray-600 capitalize">{userItem.role}</p>
+                      {userItem.must_change_password && (
+                        <p className="text-xs text-orange-600">Wajib ganti password</p>
+                      )}
+                      <p className="text-xs text-gray-500">
+                        Dibuat: {userItem.created_at.toLocaleDateString('id-ID')}
+                      </p>
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {/* TODO: Edit user */}}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleResetPassword(userItem.id)}
+                        disabled={isLoading}
+                        title="Reset password"
+                      >
+                        <KeyRound className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleUnlockUser(userItem.id)}
+                        disabled={isLoading}
+                        title="Buka kunci login"
+                      >
+                        <Unlock className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => handleDeleteUser(userItem.id)}
+                        disabled={isLoading}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8">
+                <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">Tidak ada pengguna</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Login Lockouts */}
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Riwayat Penguncian Login</CardTitle>
+            <CardDescription>Akun dan alamat IP yang terkunci karena terlalu banyak percobaan login gagal</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {lockoutEvents.length > 0 ? (
+              <div className="space-y-2">
+                {lockoutEvents.map((event) => (
+                  <div key={event.id} className="flex items-center justify-between p-3 rounded-lg border text-sm">
+                    <div>
+                      <p className="font-medium">{event.key}</p>
+                      <p className="text-gray-600">
+                        {event.event === 'locked'
+                          ? `Terkunci setelah ${event.failures} percobaan${event.ip ? ` dari ${event.ip}` : ''}`
+                          : 'Dibuka oleh admin'}
+                      </p>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {event.created_at.toLocaleString('id-ID')}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-600 text-center py-4">Belum ada penguncian login</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (currentPage === 'classes') {
+    return (
+      <div className="p-6 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800">Kelola Kelas</h1>
+        
+        {/* Create Class Form */}
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Tambah Kelas Baru</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreateClass} className="space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Nama Kelas</label>
+                  <Input
+                    value={newClass.nama_kelas}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => 
+                      setNewClass(prev => ({ ...prev, nama_kelas: e.target.value }))
+                    }
+                    placeholder="Contoh: X-1, XI IPA 1"
+                    required
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Wali Kelas</label>
+                  <Select 
+                    value={newClass.wali_kelas_id.toString()} 
+                    onValueChange={(value) => 
+                      setNewClass(prev => ({ ...prev, wali_kelas_id: parseInt(value) }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Pilih wali kelas" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {teachers.map((teacher) => (
+                        <SelectItem key={teacher.id} value={teacher.id.toString()}>
+                          {teacher.nama} ({teacher.nip})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              
+              <Button type="submit" disabled={isLoading} className="w-full">
+                <Plus className="w-4 h-4 mr-2" />
+                {isLoading ? 'Proses...' : 'Tambah Kelas'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Classes List */}
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Daftar Kelas</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {classes.length > 0 ? (
+              <div className="space-y-4">
+                {classes.map((kelas) => {
+                  const waliKelas = teachers.find(t => t.id === kelas.wali_kelas_id);
+                  return (
+                    <div key={kelas.id} className="flex items-center justify-between p-4 rounded-lg border">
+                      <div>
+                        <p className="font-medium">{kelas.nama_kelas}</p>
+                        <p className="text-sm text-gray-600">
+                          Wali Kelas: {waliKelas?.nama || 'Tidak ditemukan'}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          Dibuat: {kelas.created_at.toLocaleDateString('id-ID')}
+                        </p>
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {/* TODO: View class details */}}
+                        >
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {/* TODO: Edit class */}}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => {/* TODO: Delete class */}}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="text-center py-8">
+                <School className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">Tidak ada kelas</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (currentPage === 'qr-checkin') {
+    return (
+      <div className="p-6 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800">QR Gerbang</h1>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>QR Absensi Lokasi</CardTitle>
+            <CardDescription>Kode lokasi berlaku untuk siswa dari semua kelas</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <form
+              onSubmit={(e: React.FormEvent) => {
+                e.preventDefault();
+                setShownQrLokasi(qrLokasi.trim() || null);
+              }}
+              className="flex space-x-2"
+            >
+              <Input
+                value={qrLokasi}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setQrLokasi(e.target.value)}
+                placeholder="Nama lokasi, contoh: Gerbang Utama"
+                required
+              />
+              <Button type="submit">Tampilkan</Button>
+            </form>
+
+            {shownQrLokasi && (
+              <QrCheckInDisplay kelasId={null} lokasi={shownQrLokasi} />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (currentPage === 'school-settings') {
+    return (
+      <div className="p-6 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800">Pengaturan Sekolah</h1>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20 max-w-2xl">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <FileText className="w-5 h-5" />
+              <span>Kop Surat</span>
+            </CardTitle>
+            <CardDescription>
+              Dicetak di bagian atas laporan dan rekap absensi dalam format PDF. Alamat dan kontak boleh dikosongkan.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSaveKopSurat} className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Nama Sekolah</label>
+                <Input
+                  value={kopSurat.nama_sekolah}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setKopSurat(prev => ({ ...prev, nama_sekolah: e.target.value }))}
+                  placeholder="SMA Negeri 1 ..."
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Alamat</label>
+                <Input
+                  value={kopSurat.alamat}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setKopSurat(prev => ({ ...prev, alamat: e.target.value }))}
+                  placeholder="Jl. ..."
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Kontak</label>
+                <Input
+                  value={kopSurat.kontak}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setKopSurat(prev => ({ ...prev, kontak: e.target.value }))}
+                  placeholder="Telp. ... / Email ..."
+                />
+              </div>
+              <Button type="submit" disabled={isLoading}>
+                Simpan
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20 max-w-2xl">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Globe className="w-5 h-5" />
+              <span>Zona Waktu</span>
+            </CardTitle>
+            <CardDescription>
+              Hari dan jam absensi, keterlambatan, alpha otomatis dan dashboard dihitung menurut zona waktu sekolah
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSaveSchoolTimezone} className="flex items-end gap-4">
+              <div className="space-y-2 w-64">
+                <label className="text-sm font-medium">Zona Waktu Sekolah</label>
+                <Select
+                  value={schoolTimezone}
+                  onValueChange={(value: SchoolTimezone['timezone']) => setSchoolTimezone(value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Ikuti jam server" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(SCHOOL_TIMEZONE_LABELS).map(([timezone, label]) => (
+                      <SelectItem key={timezone} value={timezone}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" disabled={isLoading || !schoolTimezone}>
+                {isLoading ? 'Menyimpan...' : 'Simpan Zona Waktu'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20 max-w-2xl">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <AlarmClock className="w-5 h-5" />
+              <span>Jam Sekolah</span>
+            </CardTitle>
+            <CardDescription>
+              Absen masuk setelah jam masuk ditambah toleransi dicatat terlambat, absen pulang sebelum jam pulang dicatat pulang awal
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSaveSchoolHours} className="space-y-4">
+              <div className="space-y-2 max-w-xs">
+                <label className="text-sm font-medium">Toleransi Keterlambatan (menit)</label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={schoolHoursForm.grace_minutes}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setSchoolHoursForm(prev => ({ ...prev, grace_minutes: e.target.value }))
+                  }
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                {schoolHoursForm.days.map((day, index) => (
+                  <div key={DAY_NAMES[index]} className="grid grid-cols-3 gap-4 items-center">
+                    <label className="flex items-center space-x-2 text-sm font-medium">
+                      <input
+                        type="checkbox"
+                        checked={day.enabled}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setSchoolHoursForm(prev => ({
+                            ...prev,
+                            days: prev.days.map((d, i) => i === index ? { ...d, enabled: e.target.checked } : d)
+                          }))
+                        }
+                      />
+                      <span>{DAY_NAMES[index]}</span>
+                    </label>
+                    <Input
+                      type="time"
+                      value={day.jam_masuk}
+                      disabled={!day.enabled}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setSchoolHoursForm(prev => ({
+                          ...prev,
+                          days: prev.days.map((d, i) => i === index ? { ...d, jam_masuk: e.target.value } : d)
+                        }))
+                      }
+                      required={day.enabled}
+                    />
+                    <Input
+                      type="time"
+                      value={day.jam_pulang}
+                      disabled={!day.enabled}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setSchoolHoursForm(prev => ({
+                          ...prev,
+                          days: prev.days.map((d, i) => i === index ? { ...d, jam_pulang: e.target.value } : d)
+                        }))
+                      }
+                      required={day.enabled}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Menyimpan...' : 'Simpan Jam Sekolah'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20 max-w-2xl">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <UserX className="w-5 h-5" />
+              <span>Alpha Otomatis</span>
+            </CardTitle>
+            <CardDescription>
+              Setelah batas waktu pada hari sekolah, siswa tanpa absensi dan tanpa izin yang disetujui dicatat alpha
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={handleSaveAutoAlpha} className="flex items-end space-x-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Batas Waktu</label>
+                <Input
+                  type="time"
+                  value={autoAlphaCutoff}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAutoAlphaCutoff(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={isLoading}>
+                Simpan
+              </Button>
+            </form>
+
+            <div className="flex items-end space-x-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Jalankan untuk Tanggal</label>
+                <Input
+                  type="date"
+                  value={autoAlphaDate}
+                  max={new Date().toISOString().slice(0, 10)}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAutoAlphaDate(e.target.value)}
+                />
+              </div>
+              <Button variant="outline" onClick={handleRunAutoAlpha} disabled={isLoading || !autoAlphaDate}>
+                Jalankan
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20 max-w-2xl">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Paperclip className="w-5 h-5" />
+              <span>Surat Sakit</span>
+            </CardTitle>
+            <CardDescription>
+              Pengajuan sakit yang lebih lama dari batas ini wajib melampirkan surat dokter atau surat orang tua. Kosongkan agar lampiran tidak wajib.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSaveLampiranSakit} className="flex items-end space-x-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Batas Hari Sekolah</label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={lampiranSakitBatas}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLampiranSakitBatas(e.target.value)}
+                  placeholder="Tidak wajib"
+                />
+              </div>
+              <Button type="submit" disabled={isLoading}>
+                Simpan
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20 max-w-2xl">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <ListChecks className="w-5 h-5" />
+              <span>Alur Persetujuan Izin</span>
+            </CardTitle>
+            <CardDescription>
+              Pengajuan yang mencapai jumlah hari sekolah minimal suatu aturan harus disetujui berurutan oleh peran yang dipilih. Pengajuan lainnya cukup disetujui wali kelas.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSaveAlurPersetujuan} className="space-y-4">
+              {alurPersetujuan.aturan.map((aturan, index) => (
+                <div key={index} className="flex flex-wrap items-end gap-4 p-3 rounded-lg border">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Jenis</label>
+                    <Select
+                      value={aturan.jenis ?? 'semua'}
+                      onValueChange={(value: 'semua' | 'izin' | 'sakit') => setAlurPersetujuan(prev => ({
+                        ...prev,
+                        aturan: prev.aturan.map((a, i) => i === index ? { ...a, jenis: value === 'semua' ? null : value } : a)
+                      }))}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="semua">Semua</SelectItem>
+                        <SelectItem value="izin">Izin</SelectItem>
+                        <SelectItem value="sakit">Sakit</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Minimal Hari</label>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-24"
+                      value={aturan.min_hari}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAlurPersetujuan(prev => ({
+                        ...prev,
+                        aturan: prev.aturan.map((a, i) => i === index ? { ...a, min_hari: Number(e.target.value) || 1 } : a)
+                      }))}
+                    />
+                  </div>
+                  <div className="flex items-center gap-3 pb-2">
+                    {(Object.keys(PERAN_PERSETUJUAN_LABELS) as PeranPersetujuan[]).map((peran) => (
+                      <label key={peran} className="flex items-center space-x-1 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={aturan.langkah.includes(peran)}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => toggleLangkah(index, peran, e.target.checked)}
+                        />
+                        <span>{PERAN_PERSETUJUAN_LABELS[peran]}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setAlurPersetujuan(prev => ({ ...prev, aturan: prev.aturan.filter((_, i) => i !== index) }))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setAlurPersetujuan(prev => ({
+                  ...prev,
+                  aturan: [...prev.aturan, { jenis: null, min_hari: 3, langkah: ['wali_kelas', 'bk'] }]
+                }))}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Tambah Aturan
+              </Button>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                {(['guru_bk', 'kepala_sekolah'] as const).map((field) => (
+                  <div key={field} className="space-y-2">
+                    <label className="text-sm font-medium">{PERAN_PERSETUJUAN_LABELS[field === 'guru_bk' ? 'bk' : 'kepala_sekolah']}</label>
+                    <div className="max-h-40 overflow-y-auto space-y-1 p-2 rounded border">
+                      {approverGuru.map((guru) => (
+                        <label key={guru.id} className="flex items-center space-x-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={alurPersetujuan[field].includes(guru.id)}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => toggleApprover(field, guru.id, e.target.checked)}
+                          />
+                          <span>{guru.nama}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <Button type="submit" disabled={isLoading || alurPersetujuan.aturan.some(a => a.langkah.length === 0)}>
+                Simpan
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20 max-w-2xl">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <MapPin className="w-5 h-5" />
+              <span>Absen dengan Lokasi</span>
+            </CardTitle>
+            <CardDescription>Siswa dapat absen tanpa QR code jika lokasinya berada di dalam area ini</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSaveGeofence} className="space-y-4">
+              <label className="flex items-center space-x-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={geofenceForm.enabled}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setGeofenceForm(prev => ({ ...prev, enabled: e.target.checked }))
+                  }
+                />
+                <span>Aktifkan absen dengan lokasi</span>
+              </label>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Bentuk Area</label>
+                  <Select
+                    value={geofenceForm.type}
+                    onValueChange={(value: Geofence['area']['type']) =>
+                      setGeofenceForm(prev => ({ ...prev, type: value }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="radius">Titik pusat dan radius</SelectItem>
+                      <SelectItem value="polygon">Poligon</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Akurasi Maksimal (meter)</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={geofenceForm.max_accuracy_meters}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setGeofenceForm(prev => ({ ...prev, max_accuracy_meters: e.target.value }))
+                    }
+                    required
+                  />
+                </div>
+              </div>
+
+              {geofenceForm.type === 'radius' ? (
+                <div className="grid md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Latitude</label>
+                    <Input
+                      type="number"
+                      step="any"
+                      value={geofenceForm.latitude}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setGeofenceForm(prev => ({ ...prev, latitude: e.target.value }))
+                      }
+                      placeholder="-6.200000"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Longitude</label>
+                    <Input
+                      type="number"
+                      step="any"
+                      value={geofenceForm.longitude}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setGeofenceForm(prev => ({ ...prev, longitude: e.target.value }))
+                      }
+                      placeholder="106.816666"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Radius (meter)</label>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={geofenceForm.radius_meters}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setGeofenceForm(prev => ({ ...prev, radius_meters: e.target.value }))
+                      }
+                      required
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Titik Poligon</label>
+                  <Textarea
+                    className="min-h-[120px] font-mono"
+                    value={geofenceForm.points}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                      setGeofenceForm(prev => ({ ...prev, points: e.target.value }))
+                    }
+                    placeholder={'-6.2001,106.8161\n-6.2001,106.8172\n-6.2010,106.8172'}
+                  />
+                  <p className="text-xs text-gray-500">Satu titik per baris dengan format latitude,longitude</p>
+                </div>
+              )}
+
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Menyimpan...' : 'Simpan Area'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (currentPage === 'rfid') {
+    return (
+      <div className="p-6 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800">Perangkat RFID</h1>
+
+        {shownSecret && (
+          <Card className="bg-yellow-50 border-yellow-200">
+            <CardHeader>
+              <CardTitle>Secret {shownSecret.kode}</CardTitle>
+              <CardDescription>
+                Simpan di perangkat sebagai header x-device-secret. Secret ini tidak akan ditampilkan lagi.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex items-center space-x-4">
+              <code className="flex-1 p-2 rounded bg-white border text-sm break-all">{shownSecret.secret}</code>
+              <Button size="sm" variant="outline" onClick={() => setShownSecret(null)}>
+                Tutup
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Perangkat */}
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Pembaca Kartu</CardTitle>
+            <CardDescription>Perangkat di gerbang yang mencatat absen masuk dan pulang dari kartu siswa</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={handleCreatePerangkat} className="flex items-end space-x-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Kode</label>
+                <Input
+                  value={newPerangkat.kode}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setNewPerangkat(prev => ({ ...prev, kode: e.target.value }))
+                  }
+                  placeholder="GATE-1"
+                  required
+                />
+              </div>
+              <div className="space-y-2 flex-1">
+                <label className="text-sm font-medium">Nama</label>
+                <Input
+                  value={newPerangkat.nama}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setNewPerangkat(prev => ({ ...prev, nama: e.target.value }))
+                  }
+                  placeholder="Pembaca Gerbang Utama"
+                  required
+                />
+              </div>
+              <div className="space-y-2 flex-1">
+                <label className="text-sm font-medium">Lokasi</label>
+                <Input
+                  value={newPerangkat.lokasi}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setNewPerangkat(prev => ({ ...prev, lokasi: e.target.value }))
+                  }
+                  placeholder="Gerbang Utama"
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={isLoading}>
+                <Plus className="w-4 h-4 mr-2" />
+                Tambah
+              </Button>
+            </form>
+
+            {perangkatList.length > 0 ? (
+              <div className="space-y-3">
+                {perangkatList.map((perangkat: Perangkat) => (
+                  <div key={perangkat.id} className="flex items-center justify-between p-4 rounded-lg border">
+                    <div>
+                      <p className="font-medium">
+                        {perangkat.kode} - {perangkat.nama}
+                        {!perangkat.aktif && <span className="ml-2 text-xs text-red-600">Nonaktif</span>}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        {perangkat.lokasi} · Terakhir terhubung: {perangkat.last_seen_at ? perangkat.last_seen_at.toLocaleString('id-ID') : 'belum pernah'}
+                      </p>
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button size="sm" variant="outline" onClick={() => handleTogglePerangkat(perangkat)} disabled={isLoading}>
+                        {perangkat.aktif ? 'Nonaktifkan' : 'Aktifkan'}
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleRotatePerangkatSecret(perangkat)} disabled={isLoading}>
+                        <RefreshCw className="w-4 h-4 mr-2" />
+                        Secret Baru
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDeletePerangkat(perangkat.id)}
+                        disabled={isLoading}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8">
+                <Nfc className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">Belum ada perangkat terdaftar</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Kartu */}
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Kartu Siswa</CardTitle>
+            <CardDescription>UID kartu RFID / NFC dan siswa pemiliknya</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={handleCreateKartu} className="flex items-end space-x-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">UID Kartu</label>
+                <Input
+                  value={newKartu.uid}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setNewKartu(prev => ({ ...prev, uid: e.target.value }))
+                  }
+                  placeholder="04:A2:1B:7C"
+                  required
+                />
+              </div>
+              <div className="space-y-2 flex-1">
+                <label className="text-sm font-medium">Siswa</label>
+                <Select
+                  value={newKartu.siswa_id ? newKartu.siswa_id.toString() : ''}
+                  onValueChange={(value) => setNewKartu(prev => ({ ...prev, siswa_id: parseInt(value) }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Pilih siswa" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {rfidStudents.map((siswa: Siswa) => (
+                      <SelectItem key={siswa.id} value={siswa.id.toString()}>{siswa.nama} ({siswa.nisn})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" disabled={isLoading}>
+                <Plus className="w-4 h-4 mr-2" />
+                Daftarkan
+              </Button>
+            </form>
+
+            {kartuList.length > 0 ? (
+              <div className="space-y-2">
+                {kartuList.map((kartu: KartuRfidDetail) => (
+                  <div key={kartu.id} className="flex items-center justify-between p-3 rounded-lg border">
+                    <div>
+                      <p className="font-mono text-sm">{kartu.uid}</p>
+                      <p className="text-sm text-gray-600">{kartu.nama_siswa} · NISN {kartu.nisn}</p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDeleteKartu(kartu.id)}
+                      disabled={isLoading}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center text-gray-600 py-4">Belum ada kartu terdaftar</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (currentPage === 'timetable') {
+    return (
+      <div className="p-6 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800">Jadwal Pelajaran</h1>
+
+        {/* Daily status rule */}
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Aturan Status Harian</CardTitle>
+            <CardDescription>Cara menentukan status harian siswa dari absensi per pelajaran</CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-center space-x-4">
+            <Select
+              value={dailyStatusRule}
+              onValueChange={(value: AturanStatusHarian) => setDailyStatusRule(value)}
+            >
+              <SelectTrigger className="max-w-md">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ATURAN_STATUS_HARIAN_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleSaveDailyStatusRule} disabled={isLoading} size="sm">
+              Simpan
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Mata pelajaran */}
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Mata Pelajaran</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={handleCreateMataPelajaran} className="flex items-end space-x-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Kode</label>
+                <Input
+                  value={newMataPelajaran.kode}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setNewMataPelajaran(prev => ({ ...prev, kode: e.target.value }))
+                  }
+                  placeholder="MTK"
+                  required
+                />
+              </div>
+              <div className="space-y-2 flex-1">
+                <label className="text-sm font-medium">Nama</label>
+                <Input
+                  value={newMataPelajaran.nama}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setNewMataPelajaran(prev => ({ ...prev, nama: e.target.value }))
+                  }
+                  placeholder="Matematika"
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={isLoading}>
+                <Plus className="w-4 h-4 mr-2" />
+                Tambah
+              </Button>
+            </form>
+
+            <div className="flex flex-wrap gap-2">
+              {mataPelajaranList.map((mataPelajaran: MataPelajaran) => (
+                <span key={mataPelajaran.id} className="flex items-center space-x-2 px-3 py-1 rounded-full border text-sm">
+                  <span>{mataPelajaran.kode} - {mataPelajaran.nama}</span>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteMataPelajaran(mataPelajaran.id)}
+                    disabled={isLoading}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Create jadwal */}
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Tambah Jadwal</CardTitle>
+            <CardDescription>Satu jam pelajaran mingguan untuk satu kelas</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreateJadwal} className="space-y-4">
+              <div className="grid md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Kelas</label>
+                  <Select
+                    value={newJadwal.kelas_id ? newJadwal.kelas_id.toString() : ''}
+                    onValueChange={(value) => setNewJadwal(prev => ({ ...prev, kelas_id: parseInt(value) }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Pilih kelas" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {timetableKelas.map((kelas: Kelas) => (
+                        <SelectItem key={kelas.id} value={kelas.id.toString()}>{kelas.nama_kelas}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Mata Pelajaran</label>
+                  <Select
+                    value={newJadwal.mata_pelajaran_id ? newJadwal.mata_pelajaran_id.toString() : ''}
+                    onValueChange={(value) => setNewJadwal(prev => ({ ...prev, mata_pelajaran_id: parseInt(value) }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Pilih mata pelajaran" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {mataPelajaranList.map((mataPelajaran: MataPelajaran) => (
+                        <SelectItem key={mataPelajaran.id} value={mataPelajaran.id.toString()}>{mataPelajaran.nama}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Guru</label>
+                  <Select
+                    value={newJadwal.guru_id ? newJadwal.guru_id.toString() : ''}
+                    onValueChange={(value) => setNewJadwal(prev => ({ ...prev, guru_id: parseInt(value) }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Pilih guru" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {timetableGuru.map((guru: Guru) => (
+                        <SelectItem key={guru.id} value={guru.id.toString()}>{guru.nama}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Hari</label>
+                  <Select
+                    value={newJadwal.hari.toString()}
+                    onValueChange={(value) => setNewJadwal(prev => ({ ...prev, hari: parseInt(value) }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DAY_NAMES.map((name, day) => (
+                        <SelectItem key={name} value={day.toString()}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Jam Mulai</label>
+                  <Input
+                    type="time"
+                    value={newJadwal.jam_mulai}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setNewJadwal(prev => ({ ...prev, jam_mulai: e.target.value }))
+                    }
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Jam Selesai</label>
+                  <Input
+                    type="time"
+                    value={newJadwal.jam_selesai}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setNewJadwal(prev => ({ ...prev, jam_selesai: e.target.value }))
+                    }
+                    required
+                  />
+                </div>
+              </div>
+
+              <Button type="submit" disabled={isLoading} className="w-full">
+                <Plus className="w-4 h-4 mr-2" />
+                {isLoading ? 'Proses...' : 'Tambah Jadwal'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Timetable */}
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Daftar Jadwal</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {jadwalList.length > 0 ? (
+              <div className="space-y-3">
+                {jadwalList.map((jadwal: JadwalPelajaranDetail) => (
+                  <div key={jadwal.id} className="flex items-center justify-between p-4 rounded-lg border">
+                    <div>
+                      <p className="font-medium">{jadwal.nama_mata_pelajaran} - {jadwal.nama_kelas}</p>
+                      <p className="text-sm text-gray-600">
+                        {DAY_NAMES[jadwal.hari]}, {jadwal.jam_mulai}-{jadwal.jam_selesai} · {jadwal.nama_guru}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDeleteJadwal(jadwal.id)}
+                      disabled={isLoading}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8">
+                <BookOpen className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">Belum ada jadwal pelajaran</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (currentPage === 'calendar') {
+    return (
+      <div className="p-6 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800">Kalender Akademik</h1>
+
+        {/* Weekend */}
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Hari Libur Mingguan</CardTitle>
+            <CardDescription>Hari tanpa kegiatan sekolah kecuali ditetapkan lain di kalender</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-center gap-4">
+            {DAY_NAMES.map((name, day) => (
+              <label key={name} className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={weekendDays.includes(day)}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setWeekendDays(prev => e.target.checked ? [...prev, day] : prev.filter(d => d !== day))
+                  }
+                />
+                <span>{name}</span>
+              </label>
+            ))}
+            <Button onClick={handleSaveWeekend} disabled={isLoading} size="sm">
+              Simpan
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Create Entry Form */}
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Tambah Entri Kalender</CardTitle>
+            <CardDescription>Libur nasional, libur sekolah, acara, atau pengecualian untuk satu kelas</CardDescription>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleCreateUser} className="space-y-4">
-              <div className="grid md:grid-cols-2 gap-4">
+            <form onSubmit={handleCreateKalender} className="space-y-4">
+              <div className="grid md:grid-cols-3 gap-4">
                 <div className="space-y-2">
-                  <label className="text-sm font-medium">Role</label>
-                  <Select 
-                    value={newUser.role} 
-                    onValueChange={(value: 'admin' | 'guru' | 'siswa') => 
-                      setNewUser(prev => ({ ...prev, role: value, username: '', nip: '', nisn: '' }))
+                  <label className="text-sm font-medium">Tanggal Mulai</label>
+                  <Input
+                    type="date"
+                    value={newKalender.tanggal_mulai}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setNewKalender(prev => ({ ...prev, tanggal_mulai: e.target.value }))
+                    }
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Tanggal Selesai</label>
+                  <Input
+                    type="date"
+                    value={newKalender.tanggal_selesai}
+                    min={newKalender.tanggal_mulai}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setNewKalender(prev => ({ ...prev, tanggal_selesai: e.target.value }))
+                    }
+                    placeholder="Sama dengan tanggal mulai"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Jenis</label>
+                  <Select
+                    value={newKalender.jenis}
+                    onValueChange={(value: KalenderAkademik['jenis']) =>
+                      setNewKalender(prev => ({ ...prev, jenis: value, hari_sekolah: value === 'hari_masuk_pengganti' }))
                     }
                   >
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="siswa">Siswa</SelectItem>
-                      <SelectItem value="guru">Guru</SelectItem>
-                      <SelectItem value="admin">Admin</SelectItem>
+                      {Object.entries(JENIS_KALENDER_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
-                
                 <div className="space-y-2">
-                  <label className="text-sm font-medium">
-                    {newUser.role === 'admin' ? 'Username' : 
-                     newUser.role === 'guru' ? 'NIP' : 'NISN'}
-                  </label>
+                  <label className="text-sm font-medium">Keterangan</label>
                   <Input
-                    value={
-                      newUser.role === 'admin' ? newUser.username :
-                      newUser.role === 'guru' ? newUser.nip : newUser.nisn
-                    }
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
-                      const value = e.target.value;
-                      setNewUser(prev => ({
-                        ...prev,
-                        username: prev.role === 'admin' ? value : '',
-                        nip: prev.role === 'guru' ? value : '',
-                        nisn: prev.role === 'siswa' ? value : ''
-                      }));
-                    }}
-                    placeholder={
-                      newUser.role === 'admin' ? 'Masukkan username' :
-                      newUser.role === 'guru' ? 'Masukkan NIP' : 'Masukkan NISN'
+                    value={newKalender.keterangan}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setNewKalender(prev => ({ ...prev, keterangan: e.target.value }))
                     }
+                    placeholder="Contoh: Hari Kemerdekaan"
                     required
                   />
                 </div>
-                
                 <div className="space-y-2">
-                  <label className="text-sm font-medium">Password</label>
-                  <Input
-                    type="password"
-                    value={newUser.password}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => 
-                      setNewUser(prev => ({ ...prev, password: e.target.value }))
+                  <label className="text-sm font-medium">Berlaku Untuk</label>
+                  <Select
+                    value={newKalender.kelas_id.toString()}
+                    onValueChange={(value) =>
+                      setNewKalender(prev => ({ ...prev, kelas_id: parseInt(value) }))
                     }
-                    placeholder="Masukkan password"
-                    required
-                  />
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0">Semua Kelas</SelectItem>
+                      {calendarKelas.map((kelas: Kelas) => (
+                        <SelectItem key={kelas.id} value={kelas.id.toString()}>
+                          {kelas.nama_kelas}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
+                <label className="flex items-center space-x-2 text-sm font-medium md:mt-8">
+                  <input
+                    type="checkbox"
+                    checked={newKalender.hari_sekolah}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setNewKalender(prev => ({ ...prev, hari_sekolah: e.target.checked }))
+                    }
+                  />
+                  <span>Tetap hari sekolah (siswa wajib absen)</span>
+                </label>
               </div>
-              
+
               <Button type="submit" disabled={isLoading} className="w-full">
-                <UserPlus className="w-4 h-4 mr-2" />
-                {isLoading ? 'Proses...' : 'Tambah Pengguna'}
+                <Plus className="w-4 h-4 mr-2" />
+                {isLoading ? 'Proses...' : 'Tambah Entri'}
               </Button>
             </form>
           </CardContent>
         </Card>
 
-        {/* Users List */}
+        {/* Entries of the month */}
         <Card className="bg-white/80 backdrop-blur-md border-white/20">
-          <CardHeader>
-            <CardTitle>Daftar Pengguna</CardTitle>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Daftar Kalender</CardTitle>
+            <Input
+              type="month"
+              value={calendarMonth}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCalendarMonth(e.target.value)}
+              className="w-44"
+            />
           </CardHeader>
           <CardContent>
-            {users.length > 0 ? (
-              <div className="space-y-4">
-                {users.map((userItem) => (
-                  <div key={userItem.id} className="flex items-center justify-between p-4 rounded-lg border">
+            {calendarEntries.length > 0 ? (
+              <div className="space-y-3">
+                {calendarEntries.map((entry: KalenderAkademik) => (
+                  <div key={entry.id} className="flex items-center justify-between p-4 rounded-lg border">
                     <div>
-                      <p className="font-medium">
-                        {userItem.username || userItem.nip || userItem.nisn}
-                      </p>
-                      <p className="text-sm text-gray-600 capitalize">{userItem.role}</p>
-                      <p className="text-xs text-gray-500">
-                        Dibuat: {userItem.created_at.toLocaleDateString('id-ID')}
+                      <p className="font-medium">{entry.keterangan}</p>
+                      <p className="text-sm text-gray-600">
+                        {entry.tanggal_mulai.toLocaleDateString('id-ID')}
+                        {entry.tanggal_selesai.getTime() !== entry.tanggal_mulai.getTime() && ` - ${entry.tanggal_selesai.toLocaleDateString('id-ID')}`}
+                        {' · '}{JENIS_KALENDER_LABELS[entry.jenis]}
+                        {' · '}{entry.kelas_id
+                          ? calendarKelas.find((k: Kelas) => k.id === entry.kelas_id)?.nama_kelas ?? `Kelas #${entry.kelas_id}`
+                          : 'Semua Kelas'}
                       </p>
                     </div>
-                    <div className="flex space-x-2">
+                    <div className="flex items-center space-x-2">
+                      <span className={`px-3 py-1 rounded-full text-sm font-medium ${entry.hari_sekolah ? 'text-green-600 bg-green-100' : 'text-red-600 bg-red-100'}`}>
+                        {entry.hari_sekolah ? 'Hari Sekolah' : 'Libur'}
+                      </span>
                       <Button
                         size="sm"
                         variant="outline"
-                        onClick={() => {/* TODO: Edit user */}}
-                      >
-                        <Edit className="w-4 h-4" />
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="destructive"
-                        onClick={() => handleDeleteUser(userItem.id)}
+                        onClick={() => handleDeleteKalender(entry.id)}
                         disabled={isLoading}
+                        className="text-red-600 hover:text-red-700"
                       >
                         <Trash2 className="w-4 h-4" />
                       </Button>
@@ -446,8 +2570,8 @@ export function AdminDashboard({ user, currentPage, onPageChange }: AdminDashboa
               </div>
             ) : (
               <div className="text-center py-8">
-                <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-                <p className="text-gray-600">Tidak ada pengguna</p>
+                <CalendarDays className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">Tidak ada entri kalender pada bulan ini</p>
               </div>
             )}
           </CardContent>
@@ -456,113 +2580,319 @@ export function AdminDashboard({ user, currentPage, onPageChange }: AdminDashboa
     );
   }
 
-  if (currentPage === 'classes') {
+  if (currentPage === 'parents') {
     return (
       <div className="p-6 space-y-6">
-        <h1 className="text-2xl font-bold text-gray-800">Kelola Kelas</h1>
-        
-        {/* Create Class Form */}
+        <h1 className="text-2xl font-bold text-gray-800">Data Orang Tua</h1>
+
+        {/* Create Parent Form */}
         <Card className="bg-white/80 backdrop-blur-md border-white/20">
           <CardHeader>
-            <CardTitle>Tambah Kelas Baru</CardTitle>
+            <CardTitle>Tambah Orang Tua</CardTitle>
+            <CardDescription>Buat akun dengan role Orang Tua di Kelola Pengguna terlebih dahulu</CardDescription>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleCreateClass} className="space-y-4">
-              <div className="grid md:grid-cols-2 gap-4">
+            <form onSubmit={handleCreateParent} className="space-y-4">
+              <div className="grid md:grid-cols-3 gap-4">
                 <div className="space-y-2">
-                  <label className="text-sm font-medium">Nama Kelas</label>
+                  <label className="text-sm font-medium">Akun</label>
+                  <Select
+                    value={newParent.user_id ? newParent.user_id.toString() : ''}
+                    onValueChange={(value) =>
+                      setNewParent(prev => ({ ...prev, user_id: parseInt(value) }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Pilih akun" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {parentUsers
+                        .filter((u: User) => !parents.some((p: OrangTua) => p.user_id === u.id))
+                        .map((u: User) => (
+                          <SelectItem key={u.id} value={u.id.toString()}>
+                            {u.username}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Nama</label>
                   <Input
-                    value={newClass.nama_kelas}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => 
-                      setNewClass(prev => ({ ...prev, nama_kelas: e.target.value }))
+                    value={newParent.nama}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setNewParent(prev => ({ ...prev, nama: e.target.value }))
                     }
-                    placeholder="Contoh: X-1, XI IPA 1"
+                    placeholder="Nama orang tua"
                     required
                   />
                 </div>
-                
+
                 <div className="space-y-2">
-                  <label className="text-sm font-medium">Wali Kelas</label>
-                  <Select 
-                    value={newClass.wali_kelas_id.toString()} 
-                    onValueChange={(value) => 
-                      setNewClass(prev => ({ ...prev, wali_kelas_id: parseInt(value) }))
+                  <label className="text-sm font-medium">No. HP</label>
+                  <Input
+                    value={newParent.no_hp}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setNewParent(prev => ({ ...prev, no_hp: e.target.value }))
+                    }
+                    placeholder="Opsional"
+                  />
+                </div>
+              </div>
+
+              <Button type="submit" disabled={isLoading || !newParent.user_id} className="w-full">
+                <Plus className="w-4 h-4 mr-2" />
+                {isLoading ? 'Proses...' : 'Tambah Orang Tua'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Link Student Form */}
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Hubungkan Anak</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleLinkSiswa} className="space-y-4">
+              <div className="grid md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Orang Tua</label>
+                  <Select
+                    value={newLink.orang_tua_id ? newLink.orang_tua_id.toString() : ''}
+                    onValueChange={(value) =>
+                      setNewLink(prev => ({ ...prev, orang_tua_id: parseInt(value) }))
                     }
                   >
                     <SelectTrigger>
-                      <SelectValue placeholder="Pilih wali kelas" />
+                      <SelectValue placeholder="Pilih orang tua" />
                     </SelectTrigger>
                     <SelectContent>
-                      {teachers.map((teacher) => (
-                        <SelectItem key={teacher.id} value={teacher.id.toString()}>
-                          {teacher.nama} ({teacher.nip})
+                      {parents.map((parent: OrangTua) => (
+                        <SelectItem key={parent.id} value={parent.id.toString()}>
+                          {parent.nama}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Siswa</label>
+                  <Select
+                    value={newLink.siswa_id ? newLink.siswa_id.toString() : ''}
+                    onValueChange={(value) =>
+                      setNewLink(prev => ({ ...prev, siswa_id: parseInt(value) }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Pilih siswa" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {parentStudents.map((siswa: Siswa) => (
+                        <SelectItem key={siswa.id} value={siswa.id.toString()}>
+                          {siswa.nama} ({siswa.nisn})
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
                 </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Hubungan</label>
+                  <Input
+                    value={newLink.hubungan}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setNewLink(prev => ({ ...prev, hubungan: e.target.value }))
+                    }
+                    placeholder="Contoh: ayah, ibu, wali"
+                  />
+                </div>
               </div>
-              
-              <Button type="submit" disabled={isLoading} className="w-full">
-                <Plus className="w-4 h-4 mr-2" />
-                {isLoading ? 'Proses...' : 'Tambah Kelas'}
+
+              <Button
+                type="submit"
+                disabled={isLoading || !newLink.orang_tua_id || !newLink.siswa_id}
+                className="w-full"
+              >
+                <Link2 className="w-4 h-4 mr-2" />
+                {isLoading ? 'Proses...' : 'Hubungkan'}
               </Button>
             </form>
           </CardContent>
         </Card>
 
-        {/* Classes List */}
+        {/* Parents List */}
         <Card className="bg-white/80 backdrop-blur-md border-white/20">
           <CardHeader>
-            <CardTitle>Daftar Kelas</CardTitle>
+            <CardTitle>Daftar Orang Tua</CardTitle>
           </CardHeader>
           <CardContent>
-            {classes.length > 0 ? (
+            {parents.length > 0 ? (
               <div className="space-y-4">
-                {classes.map((kelas) => {
-                  const waliKelas = teachers.find(t => t.id === kelas.wali_kelas_id);
-                  return (
-                    <div key={kelas.id} className="flex items-center justify-between p-4 rounded-lg border">
+                {parents.map((parent: OrangTua) => (
+                  <div key={parent.id} className="p-4 rounded-lg border space-y-3">
+                    <div className="flex items-center justify-between">
                       <div>
-                        <p className="font-medium">{kelas.nama_kelas}</p>
-                        <p className="text-sm text-gray-600">
-                          Wali Kelas: {waliKelas?.nama || 'Tidak ditemukan'}
-                        </p>
-                        <p className="text-xs text-gray-500">
-                          Dibuat: {kelas.created_at.toLocaleDateString('id-ID')}
-                        </p>
+                        <p className="font-medium">{parent.nama}</p>
+                        <p className="text-sm text-gray-600">No. HP: {parent.no_hp || '-'}</p>
                       </div>
-                      <div className="flex space-x-2">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => {/* TODO: View class details */}}
-                        >
-                          <Eye className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => {/* TODO: Edit class */}}
-                        >
-                          <Edit className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="destructive"
-                          onClick={() => {/* TODO: Delete class */}}
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => handleDeleteParent(parent.id)}
+                        disabled={isLoading}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    {(parentLinks[parent.id] ?? []).length > 0 ? (
+                      <div className="flex flex-wrap gap-2">
+                        {(parentLinks[parent.id] ?? []).map((link: OrangTuaSiswa) => {
+                          const siswa = parentStudents.find(s => s.id === link.siswa_id);
+                          return (
+                            <span key={link.id} className="flex items-center space-x-2 px-3 py-1 rounded-full text-sm bg-blue-100 text-blue-700">
+                              <span>
+                                {siswa?.nama || `Siswa #${link.siswa_id}`}
+                                {link.hubungan && ` (${link.hubungan})`}
+                              </span>
+                              <button
+                                type="button"
+                                onClick={() => handleUnlinkSiswa(link.id)}
+                                disabled={isLoading}
+                                className="text-blue-500 hover:text-red-600"
+                              >
+                                ×
+                              </button>
+                            </span>
+                          );
+                        })}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500">Belum ada anak yang terhubung</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8">
+                <Heart className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">Tidak ada data orang tua</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (currentPage === 'audit-log') {
+    return (
+      <div className="p-6 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800">Audit Log</h1>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Filter</CardTitle>
+            <CardDescription>Setiap perubahan data tercatat beserta pelaku serta nilai sebelum dan sesudahnya</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Entitas</label>
+                <Select
+                  value={auditFilter.entity}
+                  onValueChange={(value: string) => setAuditFilter(prev => ({ ...prev, entity: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Semua</SelectItem>
+                    <SelectItem value="absensi">Absensi</SelectItem>
+                    <SelectItem value="pengajuan_izin">Pengajuan Izin</SelectItem>
+                    <SelectItem value="users">Pengguna</SelectItem>
+                    <SelectItem value="siswa">Siswa</SelectItem>
+                    <SelectItem value="guru">Guru</SelectItem>
+                    <SelectItem value="kelas">Kelas</SelectItem>
+                    <SelectItem value="sessions">Sesi Login</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">ID Pelaku</label>
+                <Input
+                  type="number"
+                  value={auditFilter.actor_id}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setAuditFilter(prev => ({ ...prev, actor_id: e.target.value }))
+                  }
+                  placeholder="Semua"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Dari Tanggal</label>
+                <Input
+                  type="date"
+                  value={auditFilter.start_date}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setAuditFilter(prev => ({ ...prev, start_date: e.target.value }))
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Sampai Tanggal</label>
+                <Input
+                  type="date"
+                  value={auditFilter.end_date}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setAuditFilter(prev => ({ ...prev, end_date: e.target.value }))
+                  }
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Riwayat Perubahan</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {auditLogs.length > 0 ? (
+              <div className="space-y-3">
+                {auditLogs.map((log) => (
+                  <details key={log.id} className="p-3 rounded-lg border">
+                    <summary className="cursor-pointer flex flex-wrap items-center justify-between gap-2 text-sm">
+                      <span className="font-medium">
+                        {log.procedure} · {log.entity}{log.entity_id !== null ? ` #${log.entity_id}` : ''}
+                      </span>
+                      <span className="text-gray-500">
+                        {log.actor_id !== null ? `User #${log.actor_id}` : 'Sistem'} · {log.created_at.toLocaleString('id-ID')}
+                      </span>
+                    </summary>
+                    <div className="grid md:grid-cols-2 gap-4 mt-3">
+                      <div>
+                        <p className="text-xs font-medium text-gray-600 mb-1">Sebelum</p>
+                        <pre className="text-xs bg-gray-50 p-2 rounded overflow-x-auto">
+                          {log.before ? JSON.stringify(log.before, null, 2) : '-'}
+                        </pre>
+                      </div>
+                      <div>
+                        <p className="text-xs font-medium text-gray-600 mb-1">Sesudah</p>
+                        <pre className="text-xs bg-gray-50 p-2 rounded overflow-x-auto">
+                          {log.after ? JSON.stringify(log.after, null, 2) : '-'}
+                        </pre>
                       </div>
                     </div>
-                  );
-                })}
+                  </details>
+                ))}
               </div>
             ) : (
               <div className="text-center py-8">
-                <School className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-                <p className="text-gray-600">Tidak ada kelas</p>
+                <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">Tidak ada catatan audit</p>
               </div>
             )}
           </CardContent>
@@ -595,6 +2925,15 @@ export function AdminDashboard({ user, currentPage, onPageChange }: AdminDashboa
             </div>
           </CardContent>
         </Card>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Ubah Password</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChangePasswordForm />
+          </CardContent>
+        </Card>
       </div>
     );
   }
@@ -2,9 +2,13 @@ import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { trpc } from '@/utils/trpc';
 import { StubDataService } from '../services/StubDataService';
+import { ChangePasswordForm } from '../shared/ChangePasswordForm';
+import { QrCheckInDisplay } from '../shared/QrCheckInDisplay';
+import { LampiranPreview } from '../shared/LampiranPreview';
 import { 
   Users, 
   Calendar, 
@@ -16,9 +20,23 @@ import {
   School,
   BookOpen,
   UserCheck,
-  Download
+  Download,
+  AlarmClock,
+  Paperclip,
+  RotateCcw
 } from 'lucide-react';
-import type { AuthResponse, Siswa, Kelas, Absensi, PengajuanIzin } from '../../../../server/src/schema';
+import { PERAN_PERSETUJUAN_LABELS } from '@/utils/persetujuanIzin';
+import type { AuthResponse, Siswa, Kelas, Absensi, PengajuanIzin, JadwalPelajaranDetail, LampiranIzin, PersetujuanIzin } from '../../../../server/src/schema';
+
+type AttendanceStatus = Absensi['status'];
+
+const LESSON_STATUSES: { status: AttendanceStatus; label: string }[] = [
+  { status: 'hadir', label: 'Hadir' },
+  { status: 'terlambat', label: 'Terlambat' },
+  { status: 'izin', label: 'Izin' },
+  { status: 'sakit', label: 'Sakit' },
+  { status: 'alpha', label: 'Alpha' }
+];
 
 interface GuruDashboardProps {
   user: NonNullable<AuthResponse['user']>;
@@ -31,8 +49,24 @@ export function GuruDashboard({ user, currentPage, onPageChange }: GuruDashboard
   const [students, setStudents] = useState<Siswa[]>([]);
   const [todayAttendance, setTodayAttendance] = useState<Absensi[]>([]);
   const [pendingRequests, setPendingRequests] = useState<PengajuanIzin[]>([]);
+  const [approvedRequests, setApprovedRequests] = useState<PengajuanIzin[]>([]);
   const [selectedClass, setSelectedClass] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Lesson this guru is teaching right now and its attendance sheet
+  const [currentLesson, setCurrentLesson] = useState<JadwalPelajaranDetail | null>(null);
+  const [lessonSheet, setLessonSheet] = useState<{ siswa: Siswa; absensi: Absensi | null }[]>([]);
+  // Check-in selfies of today, keyed by siswa id, and the one shown enlarged
+  const [todayPhotos, setTodayPhotos] = useState<Record<number, string>>({});
+  const [enlargedPhoto, setEnlargedPhoto] = useState<{ nama: string; foto: string } | null>(null);
+  // Leave request whose attachments are being checked before it is reviewed
+  const [lampiranReview, setLampiranReview] = useState<{
+    request: PengajuanIzin;
+    lampiran: LampiranIzin[];
+    persetujuan: PersetujuanIzin[];
+  } | null>(null);
+  const [catatanReviewer, setCatatanReviewer] = useState('');
+  // Unsaved daily attendance of the selected class, keyed by siswa id
+  const [attendanceDraft, setAttendanceDraft] = useState<Record<number, { status: AttendanceStatus; keterangan: string }>>({});
 
   const guruId = user.profile?.id;
 
@@ -41,8 +75,7 @@ export function GuruDashboard({ user, currentPage, onPageChange }: GuruDashboard
     if (!guruId) return;
     
     try {
-      // STUB: Using mock data service for demo
-      const result = await StubDataService.getKelasByWaliKelas({ guruId });
+      const result = await trpc.getKelasByWaliKelas.query({ guruId });
       setMyClasses(result);
       if (result.length > 0 && !selectedClass) {
         setSelectedClass(result[0].id);
@@ -57,8 +90,7 @@ export function GuruDashboard({ user, currentPage, onPageChange }: GuruDashboard
     if (!selectedClass) return;
     
     try {
-      // STUB: Using mock data service for demo
-      const result = await StubDataService.getSiswaByKelas({ kelasId: selectedClass });
+      const result = await trpc.getSiswaByKelas.query({ kelasId: selectedClass });
       setStudents(result);
     } catch (error) {
       console.error('Failed to load students:', error);
@@ -70,69 +102,171 @@ export function GuruDashboard({ user, currentPage, onPageChange }: GuruDashboard
     if (!selectedClass) return;
     
     try {
-      // STUB: Using mock data service for demo
-      const result = await StubDataService.getTodayAbsensi({ kelasId: selectedClass });
+      const [result, photos] = await Promise.all([
+        trpc.getTodayAbsensi.query({ kelasId: selectedClass }),
+        trpc.getTodayFotoAbsensi.query({ kelasId: selectedClass })
+      ]);
       setTodayAttendance(result);
+      setTodayPhotos(Object.fromEntries(photos.map(p => [p.siswa_id, p.foto])));
+      setAttendanceDraft(Object.fromEntries(result.map(a => [a.siswa_id, { status: a.status, keterangan: a.keterangan ?? '' }])));
     } catch (error) {
       console.error('Failed to load today attendance:', error);
     }
   }, [selectedClass]);
 
-  // Load pending leave requests
+  // Load the leave requests waiting for this guru's decision, as wali kelas, BK or principal
   const loadPendingRequests = useCallback(async () => {
-    if (!selectedClass) return;
-    
     try {
       // STUB: Using mock data service for demo
-      const result = await StubDataService.getPendingPengajuanIzin({ kelasId: selectedClass });
+      const result = await StubDataService.getAntrianPersetujuanIzin();
       setPendingRequests(result);
     } catch (error) {
       console.error('Failed to load pending requests:', error);
     }
+  }, []);
+
+  // Approved leave requests, which can still be revoked
+  const loadApprovedRequests = useCallback(async () => {
+    if (!selectedClass) return;
+
+    try {
+      // STUB: Using mock data service for demo
+      const result = await StubDataService.getApprovedPengajuanIzin({ kelasId: selectedClass });
+      setApprovedRequests(result);
+    } catch (error) {
+      console.error('Failed to load approved requests:', error);
+    }
   }, [selectedClass]);
 
+  const loadCurrentLesson = useCallback(async () => {
+    if (!guruId) return;
+
+    try {
+      const jadwal = await trpc.getJadwalSaatIni.query({ guruId });
+      setCurrentLesson(jadwal);
+      setLessonSheet(jadwal
+        ? await trpc.getAbsensiPelajaran.query({ jadwal_pelajaran_id: jadwal.id, tanggal: new Date() })
+        : []);
+    } catch (error) {
+      console.error('Failed to load current lesson:', error);
+    }
+  }, [guruId]);
+
   useEffect(() => {
     loadMyClasses();
   }, [loadMyClasses]);
 
+  useEffect(() => {
+    if (currentPage === 'attendance-input') {
+      loadCurrentLesson();
+    }
+  }, [currentPage, loadCurrentLesson]);
+
+  useEffect(() => {
+    if (currentPage === 'leave-requests') {
+      loadApprovedRequests();
+    }
+  }, [currentPage, loadApprovedRequests]);
+
   useEffect(() => {
     if (selectedClass) {
       loadStudents();
       loadTodayAttendance();
+    }
+  }, [selectedClass, loadStudents, loadTodayAttendance]);
+
+  useEffect(() => {
+    if (currentPage === 'dashboard' || currentPage === 'leave-requests') {
       loadPendingRequests();
     }
-  }, [selectedClass, loadStudents, loadTodayAttendance, loadPendingRequests]);
+  }, [currentPage, loadPendingRequests]);
+
+  const setDraftEntry = (siswaId: number, entry: Partial<{ status: AttendanceStatus; keterangan: string }>) => {
+    setAttendanceDraft(prev => ({
+      ...prev,
+      [siswaId]: { ...(prev[siswaId] ?? { status: 'hadir', keterangan: '' }), ...entry }
+    }));
+  };
+
+  // Start from everyone present so only the exceptions need adjusting
+  const handleMarkAllHadir = () => {
+    setAttendanceDraft(prev => Object.fromEntries(
+      students.map(student => [student.id, prev[student.id] ?? { status: 'hadir' as const, keterangan: '' }])
+    ));
+  };
 
-  // Handle manual attendance input
-  const handleManualAttendance = async (siswaId: number, status: 'hadir' | 'izin' | 'sakit' | 'alpha') => {
+  // Submit the whole class sheet at once
+  const handleSubmitClassAttendance = async () => {
     if (!selectedClass || !guruId) return;
 
+    const entries = students
+      .filter(student => attendanceDraft[student.id])
+      .map(student => ({
+        siswa_id: student.id,
+        status: attendanceDraft[student.id].status,
+        keterangan: attendanceDraft[student.id].keterangan.trim() || null
+      }));
+    if (entries.length === 0) return;
+
     setIsLoading(true);
     try {
-      // STUB: Using mock data service for demo
-      await StubDataService.createAbsensi({
-        siswa_id: siswaId,
-        guru_id: guruId,
+      const results = await trpc.submitKelasAbsensi.mutate({
         kelas_id: selectedClass,
-        status,
+        guru_id: guruId,
         tanggal: new Date(),
-        waktu_masuk: status === 'hadir' ? new Date().toLocaleTimeString('id-ID') : null,
-        waktu_pulang: null,
-        keterangan: null
+        entries
       });
-      
+
       await loadTodayAttendance();
-      alert('Absensi berhasil dicatat');
+      const rejected = results.filter(result => result.hasil === 'ditolak');
+      alert(rejected.length === 0
+        ? `Absensi ${results.length} siswa berhasil disimpan`
+        : `Absensi ${results.length - rejected.length} siswa disimpan, ${rejected.length} ditolak:\n` +
+          rejected.map(result => `${students.find(s => s.id === result.siswa_id)?.nama ?? result.siswa_id}: ${result.alasan}`).join('\n'));
+    } catch (error) {
+      console.error('Failed to submit class attendance:', error);
+      alert('Gagal menyimpan absensi kelas');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Record or correct one siswa's attendance for the lesson in session
+  const handleLessonAttendance = async (siswaId: number, existing: Absensi | null, status: AttendanceStatus) => {
+    if (!currentLesson || !guruId) return;
+
+    setIsLoading(true);
+    try {
+      if (existing) {
+        await trpc.updateAbsensi.mutate({ id: existing.id, status });
+      } else {
+        await trpc.createAbsensi.mutate({
+          siswa_id: siswaId,
+          guru_id: guruId,
+          kelas_id: currentLesson.kelas_id,
+          status,
+          tanggal: new Date(),
+          waktu_masuk: null,
+          waktu_pulang: null,
+          keterangan: null,
+          jadwal_pelajaran_id: currentLesson.id
+        });
+      }
+      await loadCurrentLesson();
     } catch (error) {
-      console.error('Failed to record attendance:', error);
-      alert('Gagal mencatat absensi');
+      console.error('Failed to record lesson attendance:', error);
+      alert('Gagal mencatat absensi pelajaran');
     } finally {
       setIsLoading(false);
     }
   };
 
   // Handle leave request review
-  const handleReviewRequest = async (requestId: number, status: 'approved' | 'rejected') => {
+  const handleReviewRequest = async (
+    requestId: number,
+    status: 'approved' | 'rejected' | 'revision_requested',
+    catatan?: string
+  ) => {
     if (!guruId) return;
 
     setIsLoading(true);
@@ -141,11 +275,15 @@ export function GuruDashboard({ user, currentPage, onPageChange }: GuruDashboard
       await StubDataService.reviewPengajuanIzin({
         id: requestId,
         status,
-        reviewer_id: guruId
+        reviewer_id: guruId,
+        catatan_reviewer: catatan || undefined
       });
       
-      await loadPendingRequests();
-      alert(`Pengajuan berhasil ${status === 'approved' ? 'disetujui' : 'ditolak'}`);
+      setLampiranReview(null);
+      await Promise.all([loadPendingRequests(), loadApprovedRequests()]);
+      alert(status === 'revision_requested'
+        ? 'Pengajuan dikembalikan untuk direvisi'
+        : `Pengajuan berhasil ${status === 'approved' ? 'disetujui' : 'ditolak'}`);
     } catch (error) {
       console.error('Failed to review request:', error);
       alert('Gagal memproses pengajuan');
@@ -154,9 +292,48 @@ export function GuruDashboard({ user, currentPage, onPageChange }: GuruDashboard
     }
   };
 
+  // Revoking puts the days back as they were and closes the request for good
+  const handleRevokeRequest = async (request: PengajuanIzin) => {
+    if (!guruId) return;
+    const catatan = prompt('Alasan pencabutan persetujuan (akan dilihat siswa):');
+    if (!catatan?.trim()) return;
+
+    setIsLoading(true);
+    try {
+      // STUB: Using mock data service for demo
+      await StubDataService.revokePengajuanIzin({ id: request.id, reviewer_id: guruId, catatan_reviewer: catatan.trim() });
+      await Promise.all([loadPendingRequests(), loadApprovedRequests()]);
+      alert('Persetujuan berhasil dicabut');
+    } catch (error) {
+      console.error('Failed to revoke request:', error);
+      alert('Gagal mencabut persetujuan');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleShowLampiran = async (request: PengajuanIzin) => {
+    setIsLoading(true);
+    try {
+      // STUB: Using mock data service for demo
+      const [lampiran, persetujuan] = await Promise.all([
+        StubDataService.getLampiranPengajuanIzin({ pengajuanIzinId: request.id }),
+        StubDataService.getPersetujuanIzin({ pengajuanIzinId: request.id })
+      ]);
+      setCatatanReviewer('');
+      setLampiranReview({ request, lampiran, persetujuan });
+    } catch (error) {
+      console.error('Failed to load lampiran:', error);
+      alert('Gagal memuat lampiran');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'hadir': return 'text-green-600 bg-green-100';
+      case 'terlambat': return 'text-orange-600 bg-orange-100';
       case 'izin': return 'text-blue-600 bg-blue-100';
       case 'sakit': return 'text-yellow-600 bg-yellow-100';
       case 'alpha': return 'text-red-600 bg-red-100';
@@ -167,13 +344,121 @@ export function GuruDashboard({ user, currentPage, onPageChange }: GuruDashboard
   const getAttendanceStats = () => {
     const total = students.length;
     const hadir = todayAttendance.filter(a => a.status === 'hadir').length;
+    const terlambat = todayAttendance.filter(a => a.status === 'terlambat').length;
     const izin = todayAttendance.filter(a => a.status === 'izin').length;
     const sakit = todayAttendance.filter(a => a.status === 'sakit').length;
     const alpha = total - todayAttendance.length;
     
-    return { total, hadir, izin, sakit, alpha };
+    return { total, hadir, terlambat, izin, sakit, alpha };
   };
 
+  // Today's check-in selfie when the siswa sent one, otherwise their initial
+  const renderStudentAvatar = (student: Siswa) => {
+    const foto = todayPhotos[student.id];
+    if (foto) {
+      return (
+        <button type="button" onClick={() => setEnlargedPhoto({ nama: student.nama, foto })} title="Foto absen masuk">
+          <img src={foto} alt={`Foto absen masuk ${student.nama}`} className="w-12 h-12 rounded-full object-cover border-2 border-green-500" />
+        </button>
+      );
+    }
+    return (
+      <div className="w-12 h-12 bg-gradient-to-r from-blue-600 to-purple-600 rounded-full flex items-center justify-center text-white font-bold">
+        {student.nama.charAt(0).toUpperCase()}
+      </div>
+    );
+  };
+
+  if (enlargedPhoto) {
+    return (
+      <div className="p-6 space-y-6">
+        <Card className="bg-white/80 backdrop-blur-md border-white/20 max-w-lg">
+          <CardHeader>
+            <CardTitle>Foto Absen Masuk</CardTitle>
+            <CardDescription>{enlargedPhoto.nama} - {new Date().toLocaleDateString('id-ID')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <img src={enlargedPhoto.foto} alt={`Foto absen masuk ${enlargedPhoto.nama}`} className="w-full rounded-lg" />
+            <Button variant="outline" onClick={() => setEnlargedPhoto(null)} className="w-full">
+              Kembali
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (lampiranReview) {
+    const { request, lampiran, persetujuan } = lampiranReview;
+    const student = students.find(s => s.id === request.siswa_id);
+    return (
+      <div className="p-6 space-y-6">
+        <Card className="bg-white/80 backdrop-blur-md border-white/20 max-w-2xl">
+          <CardHeader>
+            <CardTitle>Detail Pengajuan Izin</CardTitle>
+            <CardDescription>
+              {student?.nama || 'Unknown'} - {request.jenis.toUpperCase()}: {request.alasan}
+              {request.versi > 1 && ` (diajukan ulang, versi ${request.versi})`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {request.alur.length > 1 && (
+              <div className="space-y-1 text-sm">
+                <p className="font-medium">
+                  Tahap {request.langkah} dari {request.alur.length}: {PERAN_PERSETUJUAN_LABELS[request.alur[request.langkah - 1]]}
+                </p>
+                {persetujuan.map((decision) => (
+                  <p key={decision.id} className="text-gray-600">
+                    {PERAN_PERSETUJUAN_LABELS[decision.peran]}: disetujui
+                    {decision.catatan && ` - ${decision.catatan}`}
+                  </p>
+                ))}
+              </div>
+            )}
+            <LampiranPreview lampiran={lampiran} />
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Catatan untuk siswa</label>
+              <Textarea
+                value={catatanReviewer}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setCatatanReviewer(e.target.value)}
+                placeholder="Wajib diisi jika meminta revisi, misalnya lampiran yang kurang..."
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                onClick={() => handleReviewRequest(request.id, 'approved', catatanReviewer)}
+                className="bg-green-600 hover:bg-green-700"
+                disabled={isLoading}
+              >
+                <CheckCircle className="w-4 h-4 mr-1" />
+                Setuju
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => handleReviewRequest(request.id, 'rejected', catatanReviewer)}
+                disabled={isLoading}
+              >
+                <XCircle className="w-4 h-4 mr-1" />
+                Tolak
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleReviewRequest(request.id, 'revision_requested', catatanReviewer)}
+                disabled={isLoading || !catatanReviewer.trim()}
+              >
+                <RotateCcw className="w-4 h-4 mr-1" />
+                Minta Revisi
+              </Button>
+              <Button variant="outline" onClick={() => setLampiranReview(null)}>
+                Kembali
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (currentPage === 'dashboard') {
     const stats = getAttendanceStats();
     
@@ -215,7 +500,7 @@ export function GuruDashboard({ user, currentPage, onPageChange }: GuruDashboard
         {selectedClass && (
           <>
             {/* Stats Cards */}
-            <div className="grid md:grid-cols-4 gap-4">
+            <div className="grid md:grid-cols-5 gap-4">
               <Card className="bg-white/80 backdrop-blur-md border-white/20">
                 <CardContent className="p-4">
                   <div className="flex items-center space-x-4">
@@ -230,6 +515,20 @@ export function GuruDashboard({ user, currentPage, onPageChange }: GuruDashboard
                 </CardContent>
               </Card>
 
+              <Card className="bg-white/80 backdrop-blur-md border-white/20">
+                <CardContent className="p-4">
+                  <div className="flex items-center space-x-4">
+                    <div className="p-3 rounded-full bg-orange-100">
+                      <AlarmClock className="w-6 h-6 text-orange-600" />
+                    </div>
+                    <div>
+                      <p className="text-2xl font-bold text-orange-600">{stats.terlambat}</p>
+                      <p className="text-sm text-gray-600">Terlambat</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
               <Card className="bg-white/80 backdrop-blur-md border-white/20">
                 <CardContent className="p-4">
                   <div className="flex items-center space-x-4">
@@ -294,7 +593,8 @@ export function GuruDashboard({ user, currentPage, onPageChange }: GuruDashboard
                               {request.jenis.toUpperCase()}: {request.alasan}
                             </p>
                             <p className="text-xs text-gray-500">
-                              Tanggal: {request.tanggal.toLocaleDateString('id-ID')}
+                              Tanggal: {request.tanggal_mulai.toLocaleDateString('id-ID')}
+                              {request.tanggal_selesai.getTime() !== request.tanggal_mulai.getTime() && ` - ${request.tanggal_selesai.toLocaleDateString('id-ID')}`}
                             </p>
                           </div>
                           <div className="flex space-x-2">
@@ -386,9 +686,7 @@ export function GuruDashboard({ user, currentPage, onPageChange }: GuruDashboard
                   {students.map((student) => (
                     <div key={student.id} className="flex items-center justify-between p-4 rounded-lg border">
                       <div className="flex items-center space-x-4">
-                        <div className="w-12 h-12 bg-gradient-to-r from-blue-600 to-purple-600 rounded-full flex items-center justify-center text-white font-bold">
-                          {student.nama.charAt(0).toUpperCase()}
-                        </div>
+                        {renderStudentAvatar(student)}
                         <div>
                           <p className="font-medium">{student.nama}</p>
                           <p className="text-sm text-gray-600">NISN: {student.nisn}</p>
@@ -423,10 +721,77 @@ export function GuruDashboard({ user, currentPage, onPageChange }: GuruDashboard
     );
   }
 
+  if (currentPage === 'qr-checkin') {
+    return (
+      <div className="p-6 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800">QR Absensi</h1>
+
+        {selectedClass && (
+          <Card className="bg-white/80 backdrop-blur-md border-white/20">
+            <CardHeader>
+              <CardTitle>Tampilkan di Layar Kelas</CardTitle>
+              <CardDescription>
+                Kelas: {myClasses.find(k => k.id === selectedClass)?.nama_kelas} - siswa memindai kode ini untuk absen masuk dan pulang
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <QrCheckInDisplay
+                kelasId={selectedClass}
+                lokasi={myClasses.find(k => k.id === selectedClass)?.nama_kelas ?? null}
+              />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    );
+  }
+
   if (currentPage === 'attendance-input') {
     return (
       <div className="p-6 space-y-6">
-        <h1 className="text-2xl font-bold text-gray-800">Input Absensi Manual</h1>
+        <h1 className="text-2xl font-bold text-gray-800">Input Absensi</h1>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <BookOpen className="w-5 h-5" />
+              <span>Pelajaran Saat Ini</span>
+            </CardTitle>
+            <CardDescription>
+              {currentLesson
+                ? `${currentLesson.nama_mata_pelajaran} - ${currentLesson.nama_kelas}, ${currentLesson.jam_mulai}-${currentLesson.jam_selesai}`
+                : 'Tidak ada pelajaran Anda yang sedang berlangsung'}
+            </CardDescription>
+          </CardHeader>
+          {currentLesson && (
+            <CardContent>
+              <div className="space-y-4">
+                {lessonSheet.map(({ siswa, absensi }) => (
+                  <div key={siswa.id} className="flex items-center justify-between p-4 rounded-lg border">
+                    <div>
+                      <p className="font-medium">{siswa.nama}</p>
+                      <p className="text-sm text-gray-600">NISN: {siswa.nisn}</p>
+                    </div>
+                    <div className="flex space-x-2">
+                      {LESSON_STATUSES.map(({ status, label }) => (
+                        <Button
+                          key={status}
+                          size="sm"
+                          variant={absensi?.status === status ? 'default' : 'outline'}
+                          className={absensi?.status === status ? getStatusColor(status) : ''}
+                          onClick={() => handleLessonAttendance(siswa.id, absensi, status)}
+                          disabled={isLoading || absensi?.status === status}
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          )}
+        </Card>
         
         {selectedClass && (
           <Card className="bg-white/80 backdrop-blur-md border-white/20">
@@ -439,61 +804,55 @@ export function GuruDashboard({ user, currentPage, onPageChange }: GuruDashboard
             <CardContent>
               {students.length > 0 ? (
                 <div className="space-y-4">
+                  <div className="flex justify-between">
+                    <Button variant="outline" onClick={handleMarkAllHadir} disabled={isLoading}>
+                      <UserCheck className="w-4 h-4 mr-2" />
+                      Tandai Semua Hadir
+                    </Button>
+                    <Button
+                      onClick={handleSubmitClassAttendance}
+                      disabled={isLoading || Object.keys(attendanceDraft).length === 0}
+                    >
+                      <CheckCircle className="w-4 h-4 mr-2" />
+                      {isLoading ? 'Menyimpan...' : 'Simpan Absensi'}
+                    </Button>
+                  </div>
+
                   {students.map((student) => {
-                    const attendance = todayAttendance.find(a => a.siswa_id === student.id);
+                    const entry = attendanceDraft[student.id];
+                    const saved = todayAttendance.find(a => a.siswa_id === student.id);
                     return (
                       <div key={student.id} className="flex items-center justify-between p-4 rounded-lg border">
                         <div className="flex items-center space-x-4">
-                          <div className="w-12 h-12 bg-gradient-to-r from-blue-600 to-purple-600 rounded-full flex items-center justify-center text-white font-bold">
-                            {student.nama.charAt(0).toUpperCase()}
-                          </div>
+                          {renderStudentAvatar(student)}
                           <div>
                             <p className="font-medium">{student.nama}</p>
-                            <p className="text-sm text-gray-600">NISN: {student.nisn}</p>
+                            <p className="text-sm text-gray-600">
+                              NISN: {student.nisn} - {saved ? `tersimpan: ${saved.status}` : 'belum absen'}
+                            </p>
                           </div>
                         </div>
                         
                         <div className="flex items-center space-x-2">
-                          {attendance ? (
-                            <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(attendance.status)}`}>
-                              {attendance.status.toUpperCase()}
-                            </span>
-                          ) : (
-                            <div className="flex space-x-2">
-                              <Button
-                                size="sm"
-                                onClick={() => handleManualAttendance(student.id, 'hadir')}
-                                className="bg-green-600 hover:bg-green-700"
-                                disabled={isLoading}
-                              >
-                                Hadir
-                              </Button>
-                              <Button
-                                size="sm"
-                                onClick={() => handleManualAttendance(student.id, 'izin')}
-                                className="bg-blue-600 hover:bg-blue-700"
-                                disabled={isLoading}
-                              >
-                                Izin
-                              </Button>
-                              <Button
-                                size="sm"
-                                onClick={() => handleManualAttendance(student.id, 'sakit')}
-                                className="bg-yellow-600 hover:bg-yellow-700"
-                                disabled={isLoading}
-                              >
-                                Sakit
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="destructive"
-                                onClick={() => handleManualAttendance(student.id, 'alpha')}
-                                disabled={isLoading}
-                              >
-                                Alpha
-                              </Button>
-                            </div>
-                          )}
+                          {LESSON_STATUSES.map(({ status, label }) => (
+                            <Button
+                              key={status}
+                              size="sm"
+                              variant={entry?.status === status ? 'default' : 'outline'}
+                              className={entry?.status === status ? getStatusColor(status) : ''}
+                              onClick={() => setDraftEntry(student.id, { status })}
+                              disabled={isLoading}
+                            >
+                              {label}
+                            </Button>
+                          ))}
+                          <Input
+                            className="w-48"
+                            placeholder="Keterangan"
+                            value={entry?.keterangan ?? ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraftEntry(student.id, { keterangan: e.target.value })}
+                            disabled={isLoading || !entry}
+                          />
                         </div>
                       </div>
                     );
@@ -534,13 +893,23 @@ export function GuruDashboard({ user, currentPage, onPageChange }: GuruDashboard
                           {request.jenis.toUpperCase()}: {request.alasan}
                         </p>
                         <p className="text-xs text-gray-500">
-                          Tanggal: {request.tanggal.toLocaleDateString('id-ID')}
+                          Tanggal: {request.tanggal_mulai.toLocaleDateString('id-ID')}
+                          {request.tanggal_selesai.getTime() !== request.tanggal_mulai.getTime() && ` - ${request.tanggal_selesai.toLocaleDateString('id-ID')}`}
                         </p>
                         <p className="text-xs text-gray-500">
                           Diajukan: {request.created_at.toLocaleDateString('id-ID')}
                         </p>
                       </div>
                       <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleShowLampiran(request)}
+                          disabled={isLoading}
+                        >
+                          <Paperclip className="w-4 h-4 mr-1" />
+                          Detail
+                        </Button>
                         <Button
                           size="sm"
                           onClick={() => handleReviewRequest(request.id, 'approved')}
@@ -572,6 +941,51 @@ export function GuruDashboard({ user, currentPage, onPageChange }: GuruDashboard
             )}
           </CardContent>
         </Card>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Pengajuan Disetujui</CardTitle>
+            <CardDescription>Mencabut persetujuan mengembalikan absensi hari-hari tersebut seperti semula</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {approvedRequests.length > 0 ? (
+              <div className="space-y-4">
+                {approvedRequests.map((request) => {
+                  const student = students.find(s => s.id === request.siswa_id);
+                  return (
+                    <div key={request.id} className="flex items-center justify-between p-4 rounded-lg border">
+                      <div>
+                        <p className="font-medium">{student?.nama || 'Unknown'}</p>
+                        <p className="text-sm text-gray-600">
+                          {request.jenis.toUpperCase()}: {request.alasan}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          Tanggal: {request.tanggal_mulai.toLocaleDateString('id-ID')}
+                          {request.tanggal_selesai.getTime() !== request.tanggal_mulai.getTime() && ` - ${request.tanggal_selesai.toLocaleDateString('id-ID')}`}
+                        </p>
+                        {request.catatan_reviewer && (
+                          <p className="text-xs text-gray-500">Catatan: {request.catatan_reviewer}</p>
+                        )}
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRevokeRequest(request)}
+                        disabled={isLoading}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Cabut
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-center text-gray-600 py-4">Belum ada pengajuan yang disetujui</p>
+            )}
+          </CardContent>
+        </Card>
       </div>
     );
   }
@@ -610,6 +1024,15 @@ export function GuruDashboard({ user, currentPage, onPageChange }: GuruDashboard
             </div>
           </CardContent>
         </Card>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Ubah Password</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChangePasswordForm />
+          </CardContent>
+        </Card>
       </div>
     );
   }
@@ -0,0 +1,550 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { ChangePasswordForm } from '../shared/ChangePasswordForm';
+import { DateRangePicker } from '../shared/DateRangePicker';
+import { LampiranPicker } from '../shared/LampiranPicker';
+import { PengajuanIzinItem } from '../shared/PengajuanIzinItem';
+import {
+  Calendar,
+  FileText,
+  Plus,
+  Users
+} from 'lucide-react';
+import type { DateRange } from 'react-day-picker';
+import type { AuthResponse, Absensi, PengajuanIzin, Siswa, LampiranInput, LampiranSakit } from '../../../../server/src/schema';
+
+interface OrangTuaDashboardProps {
+  user: NonNullable<AuthResponse['user']>;
+  currentPage: string;
+  onPageChange: (page: string) => void;
+}
+
+interface AnakStats {
+  absensi_bulan_ini: {
+    hadir: number;
+    terlambat: number;
+    izin: number;
+    sakit: number;
+    alpha: number;
+  };
+  hari_efektif_bulan_ini: number;
+  pengajuan_pending: number;
+  absensi_hari_ini: {
+    status: string | null;
+    waktu_masuk: string | null;
+    waktu_pulang: string | null;
+    menit_terlambat: number | null;
+    pulang_awal: boolean;
+  };
+}
+
+export function OrangTuaDashboard({ user, currentPage, onPageChange }: OrangTuaDashboardProps) {
+  const [anak, setAnak] = useState<Siswa[]>([]);
+  const [selectedAnakId, setSelectedAnakId] = useState<number | null>(null);
+  const [anakStats, setAnakStats] = useState<Record<number, AnakStats>>({});
+  const [attendanceHistory, setAttendanceHistory] = useState<Absensi[]>([]);
+  const [leaveRequests, setLeaveRequests] = useState<PengajuanIzin[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [newLeaveRequest, setNewLeaveRequest] = useState({
+    periode: undefined as DateRange | undefined,
+    alasan: '',
+    jenis: 'izin' as 'izin' | 'sakit',
+    lampiran: [] as LampiranInput[]
+  });
+  // Pending request being edited or resubmitted through the form above the list
+  const [editingRequestId, setEditingRequestId] = useState<number | null>(null);
+  const [lampiranSakit, setLampiranSakit] = useState<LampiranSakit | null>(null);
+
+  const orangTuaId = user.profile?.id;
+
+  // Load linked children
+  const loadAnak = useCallback(async () => {
+    if (!orangTuaId) return;
+
+    try {
+      const result = await trpc.getAnakByOrangTua.query({ orangTuaId });
+      setAnak(result);
+      setSelectedAnakId(prev => prev ?? result[0]?.id ?? null);
+    } catch (error) {
+      console.error('Failed to load children:', error);
+    }
+  }, [orangTuaId]);
+
+  // Load today's status and monthly summary of every child
+  const loadAnakStats = useCallback(async () => {
+    try {
+      const entries = await Promise.all(anak.map(async (siswa: Siswa) => {
+        const stats = await trpc.getSiswaDashboardStats.query({ siswaId: siswa.id });
+        return [siswa.id, stats] as const;
+      }));
+      setAnakStats(Object.fromEntries(entries));
+    } catch (error) {
+      console.error('Failed to load children stats:', error);
+    }
+  }, [anak]);
+
+  // Load attendance history of the selected child
+  const loadAttendanceHistory = useCallback(async () => {
+    if (!selectedAnakId) return;
+
+    try {
+      const result = await trpc.getAbsensiHistory.query({
+        siswa_id: selectedAnakId,
+        limit: 30
+      });
+      setAttendanceHistory(result);
+    } catch (error) {
+      console.error('Failed to load attendance history:', error);
+    }
+  }, [selectedAnakId]);
+
+  // Load leave requests of the selected child
+  const loadLeaveRequests = useCallback(async () => {
+    if (!selectedAnakId) return;
+
+    try {
+      const result = await trpc.getPengajuanIzinBySiswa.query({ siswaId: selectedAnakId });
+      setLeaveRequests(result);
+    } catch (error) {
+      console.error('Failed to load leave requests:', error);
+    }
+  }, [selectedAnakId]);
+
+  useEffect(() => {
+    loadAnak();
+  }, [loadAnak]);
+
+  useEffect(() => {
+    if (currentPage === 'dashboard') {
+      loadAnakStats();
+    }
+    if (currentPage === 'history') {
+      loadAttendanceHistory();
+    }
+    if (currentPage === 'leave-request') {
+      loadLeaveRequests();
+    }
+  }, [currentPage, loadAnakStats, loadAttendanceHistory, loadLeaveRequests]);
+
+  // Whether long sick leave needs a doctor's note
+  useEffect(() => {
+    if (currentPage !== 'leave-request') return;
+    trpc.getLampiranSakit.query()
+      .then(setLampiranSakit)
+      .catch((error) => console.error('Failed to load lampiran sakit:', error));
+  }, [currentPage]);
+
+  // Handle leave request submission on behalf of the selected child
+  const handleSubmitLeaveRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedAnakId || !newLeaveRequest.periode?.from) return;
+
+    setIsLoading(true);
+    try {
+      const leave = {
+        tanggal_mulai: newLeaveRequest.periode.from,
+        tanggal_selesai: newLeaveRequest.periode.to ?? newLeaveRequest.periode.from,
+        alasan: newLeaveRequest.alasan,
+        jenis: newLeaveRequest.jenis,
+        lampiran: newLeaveRequest.lampiran
+      };
+      if (editingRequestId) {
+        await trpc.updatePengajuanIzin.mutate({ id: editingRequestId, ...leave });
+      } else {
+        await trpc.createPengajuanIzinForAnak.mutate({ siswa_id: selectedAnakId, ...leave });
+      }
+
+      setNewLeaveRequest({ periode: undefined, alasan: '', jenis: 'izin', lampiran: [] });
+      setEditingRequestId(null);
+      await loadLeaveRequests();
+      alert(editingRequestId ? 'Pengajuan izin berhasil diperbarui' : 'Pengajuan izin berhasil disubmit');
+    } catch (error) {
+      console.error('Failed to submit leave request:', error);
+      alert('Gagal mengajukan izin');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEditLeaveRequest = (request: PengajuanIzin) => {
+    setEditingRequestId(request.id);
+    setNewLeaveRequest({
+      periode: { from: request.tanggal_mulai, to: request.tanggal_selesai },
+      alasan: request.alasan,
+      jenis: request.jenis,
+      lampiran: []
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingRequestId(null);
+    setNewLeaveRequest({ periode: undefined, alasan: '', jenis: 'izin', lampiran: [] });
+  };
+
+  const handleCancelLeaveRequest = async (request: PengajuanIzin) => {
+    if (!confirm('Batalkan pengajuan izin ini?')) return;
+
+    setIsLoading(true);
+    try {
+      await trpc.cancelPengajuanIzin.mutate({ id: request.id });
+      if (editingRequestId === request.id) handleCancelEdit();
+      await loadLeaveRequests();
+    } catch (error) {
+      console.error('Failed to cancel leave request:', error);
+      alert('Gagal membatalkan pengajuan izin');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'hadir': return 'text-green-600 bg-green-100';
+      case 'terlambat': return 'text-orange-600 bg-orange-100';
+      case 'izin': return 'text-blue-600 bg-blue-100';
+      case 'sakit': return 'text-yellow-600 bg-yellow-100';
+      case 'alpha': return 'text-red-600 bg-red-100';
+      default: return 'text-gray-600 bg-gray-100';
+    }
+  };
+
+  const anakSelector = (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Anak</label>
+      <Select
+        value={selectedAnakId ? selectedAnakId.toString() : ''}
+        onValueChange={(value: string) => setSelectedAnakId(parseInt(value))}
+      >
+        <SelectTrigger className="bg-white/80">
+          <SelectValue placeholder="Pilih anak" />
+        </SelectTrigger>
+        <SelectContent>
+          {anak.map((siswa: Siswa) => (
+            <SelectItem key={siswa.id} value={siswa.id.toString()}>
+              {siswa.nama} ({siswa.nisn})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  if (currentPage === 'dashboard') {
+    return (
+      <div className="p-6 space-y-6">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-xl p-6 text-white">
+          <h1 className="text-3xl font-bold mb-2">Dashboard Orang Tua</h1>
+          <p className="text-blue-100">Selamat datang, {user.profile?.nama}!</p>
+        </div>
+
+        {anak.length > 0 ? (
+          <div className="grid md:grid-cols-2 gap-4">
+            {anak.map((siswa: Siswa) => {
+              const stats = anakStats[siswa.id];
+              return (
+                <Card key={siswa.id} className="bg-white/80 backdrop-blur-md border-white/20">
+                  <CardHeader>
+                    <CardTitle>{siswa.nama}</CardTitle>
+                    <CardDescription>NISN: {siswa.nisn}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex items-center justify-between p-4 rounded-lg bg-gray-50">
+                      <span className="font-medium">Hari ini</span>
+                      {stats?.absensi_hari_ini.status ? (
+                        <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(stats.absensi_hari_ini.status)}`}>
+                          {stats.absensi_hari_ini.status.toUpperCase()}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-gray-500">Belum ada absensi</span>
+                      )}
+                    </div>
+                    {stats && (stats.absensi_hari_ini.menit_terlambat !== null || stats.absensi_hari_ini.pulang_awal) && (
+                      <p className="text-sm text-orange-700">
+                        {stats.absensi_hari_ini.menit_terlambat !== null && `Terlambat ${stats.absensi_hari_ini.menit_terlambat} menit. `}
+                        {stats.absensi_hari_ini.pulang_awal && 'Pulang sebelum jam pulang.'}
+                      </p>
+                    )}
+                    {stats && (
+                      <div className="grid grid-cols-5 gap-2 text-center text-sm">
+                        <div>
+                          <p className="text-lg font-bold text-green-600">{stats.absensi_bulan_ini.hadir}</p>
+                          <p className="text-gray-600">Hadir</p>
+                        </div>
+                        <div>
+                          <p className="text-lg font-bold text-orange-600">{stats.absensi_bulan_ini.terlambat}</p>
+                          <p className="text-gray-600">Terlambat</p>
+                        </div>
+                        <div>
+                          <p className="text-lg font-bold text-blue-600">{stats.absensi_bulan_ini.izin}</p>
+                          <p className="text-gray-600">Izin</p>
+                        </div>
+                        <div>
+                          <p className="text-lg font-bold text-yellow-600">{stats.absensi_bulan_ini.sakit}</p>
+                          <p className="text-gray-600">Sakit</p>
+                        </div>
+                        <div>
+                          <p className="text-lg font-bold text-red-600">{stats.absensi_bulan_ini.alpha}</p>
+                          <p className="text-gray-600">Alpha</p>
+                        </div>
+                      </div>
+                    )}
+                    {stats && (
+                      <p className="text-sm text-gray-600">
+                        Hari efektif bulan ini: {stats.hari_efektif_bulan_ini} hari
+                      </p>
+                    )}
+                    {stats && stats.pengajuan_pending > 0 && (
+                      <p className="text-sm text-yellow-700">
+                        {stats.pengajuan_pending} pengajuan izin menunggu persetujuan
+                      </p>
+                    )}
+                    <div className="flex space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => { setSelectedAnakId(siswa.id); onPageChange('history'); }}
+                      >
+                        <Calendar className="w-4 h-4 mr-2" />
+                        Riwayat
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => { setSelectedAnakId(siswa.id); onPageChange('leave-request'); }}
+                      >
+                        <FileText className="w-4 h-4 mr-2" />
+                        Ajukan Izin
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        ) : (
+          <Card className="bg-white/80 backdrop-blur-md border-white/20">
+            <CardContent className="text-center py-8">
+              <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">Belum ada anak yang terhubung. Hubungi admin sekolah.</p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    );
+  }
+
+  if (currentPage === 'history') {
+    return (
+      <div className="p-6 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800">Riwayat Absensi Anak</h1>
+
+        <div className="max-w-sm">{anakSelector}</div>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Riwayat 30 Hari Terakhir</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {attendanceHistory.length > 0 ? (
+              <div className="space-y-4">
+                {attendanceHistory.map((attendance: Absensi) => (
+                  <div key={attendance.id} className="flex items-center justify-between p-4 rounded-lg border">
+                    <div>
+                      <p className="font-medium">{attendance.tanggal.toLocaleDateString('id-ID')}</p>
+                      <div className="text-sm text-gray-600 space-x-4">
+                        {attendance.waktu_masuk && <span>Masuk: {attendance.waktu_masuk}</span>}
+                        {attendance.waktu_pulang && <span>Pulang: {attendance.waktu_pulang}</span>}
+                      </div>
+                      {attendance.keterangan && (
+                        <p className="text-sm text-gray-500 mt-1">{attendance.keterangan}</p>
+                      )}
+                    </div>
+                    <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(attendance.status)}`}>
+                      {attendance.status.toUpperCase()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8">
+                <Calendar className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">Belum ada riwayat absensi</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (currentPage === 'leave-request') {
+    return (
+      <div className="p-6 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800">Pengajuan Izin</h1>
+
+        {/* Form Pengajuan Baru */}
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>{editingRequestId ? 'Ubah Pengajuan Izin' : 'Ajukan Izin untuk Anak'}</CardTitle>
+            <CardDescription>
+              {editingRequestId
+                ? 'Perbaiki pengajuan lalu kirim ulang untuk ditinjau wali kelas'
+                : 'Pengajuan akan ditinjau oleh wali kelas'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmitLeaveRequest} className="space-y-4">
+              {anakSelector}
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Tanggal</label>
+                  <DateRangePicker
+                    value={newLeaveRequest.periode}
+                    onChange={(periode) => setNewLeaveRequest(prev => ({ ...prev, periode }))}
+                    placeholder="Pilih satu hari atau rentang tanggal"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Jenis</label>
+                  <Select
+                    value={newLeaveRequest.jenis}
+                    onValueChange={(value: 'izin' | 'sakit') =>
+                      setNewLeaveRequest(prev => ({ ...prev, jenis: value }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="izin">Izin</SelectItem>
+                      <SelectItem value="sakit">Sakit</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Alasan</label>
+                <Input
+                  value={newLeaveRequest.alasan}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setNewLeaveRequest(prev => ({ ...prev, alasan: e.target.value }))
+                  }
+                  placeholder="Masukkan alasan izin..."
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Lampiran</label>
+                <LampiranPicker
+                  value={newLeaveRequest.lampiran}
+                  onChange={(lampiran) => setNewLeaveRequest(prev => ({ ...prev, lampiran }))}
+                />
+                <p className="text-xs text-gray-500">
+                  Surat dokter atau surat orang tua, berupa foto atau PDF.
+                  {lampiranSakit?.batas_hari != null && ` Wajib untuk sakit lebih dari ${lampiranSakit.batas_hari} hari sekolah.`}
+                </p>
+              </div>
+
+              <Button
+                type="submit"
+                disabled={isLoading || !selectedAnakId || !newLeaveRequest.periode?.from}
+                className="w-full bg-blue-600 hover:bg-blue-700"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                {isLoading ? 'Proses...' : editingRequestId ? 'Kirim Ulang' : 'Ajukan Izin'}
+              </Button>
+              {editingRequestId && (
+                <Button type="button" variant="outline" onClick={handleCancelEdit} className="w-full">
+                  Batal Ubah
+                </Button>
+              )}
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Riwayat Pengajuan */}
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Riwayat Pengajuan</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {leaveRequests.length > 0 ? (
+              <div className="space-y-4">
+                {leaveRequests.map((request: PengajuanIzin) => (
+                  <PengajuanIzinItem
+                    key={request.id}
+                    request={request}
+                    onEdit={handleEditLeaveRequest}
+                    onCancel={handleCancelLeaveRequest}
+                    loadRiwayat={(id) => trpc.getRiwayatPengajuanIzin.query({ id })}
+                    disabled={isLoading}
+                  />
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8">
+                <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">Belum ada pengajuan izin</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Profile page
+  if (currentPage === 'profile') {
+    return (
+      <div className="p-6 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800">Profil Orang Tua</h1>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Informasi Pribadi</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium text-gray-600">Nama</label>
+                <p className="text-lg font-medium">{user.profile?.nama || '-'}</p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-600">Username</label>
+                <p className="text-lg font-medium">{user.username || '-'}</p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-600">Role</label>
+                <p className="text-lg font-medium">Orang Tua</p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-600">Jumlah Anak</label>
+                <p className="text-lg font-medium">{anak.length}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Ubah Password</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChangePasswordForm />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return <div>Page not found</div>;
+}
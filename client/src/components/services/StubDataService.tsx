@@ -10,7 +10,13 @@ import type {
   User,
   DashboardStats,
   CreatePengajuanIzinInput,
-  ReviewPengajuanIzinInput
+  ReviewPengajuanIzinInput,
+  RevokePengajuanIzinInput,
+  UpdatePengajuanIzinInput,
+  PengajuanIzinVersi,
+  LampiranInput,
+  LampiranIzin,
+  PersetujuanIzin
 } from '../../../../server/src/schema';
 
 // Demo data
@@ -22,9 +28,20 @@ let demoAbsensi: Absensi[] = [
     kelas_id: 1,
     status: 'hadir',
     tanggal: new Date(),
+    tanggal_hari: new Date().toISOString().slice(0, 10),
     waktu_masuk: '07:30',
     waktu_pulang: null,
     keterangan: null,
+    menit_terlambat: null,
+    pulang_awal: false,
+    jadwal_pelajaran_id: null,
+    latitude_masuk: null,
+    longitude_masuk: null,
+    accuracy_masuk: null,
+    latitude_pulang: null,
+    longitude_pulang: null,
+    accuracy_pulang: null,
+    foto_masuk: null,
     created_at: new Date(),
     updated_at: new Date()
   }
@@ -34,17 +51,38 @@ let demoPengajuanIzin: PengajuanIzin[] = [
   {
     id: 1,
     siswa_id: 1,
-    tanggal: new Date(Date.now() + 86400000), // tomorrow
+    tanggal_mulai: new Date(Date.now() + 86400000), // tomorrow
+    tanggal_selesai: new Date(Date.now() + 2 * 86400000),
     alasan: 'Sakit demam',
     status: 'pending',
     jenis: 'sakit',
     reviewer_id: null,
     reviewed_at: null,
+    catatan_reviewer: null,
+    versi: 1,
+    alur: ['wali_kelas'],
+    langkah: 1,
     created_at: new Date(),
     updated_at: new Date()
   }
 ];
 
+const demoLampiranIzin: LampiranIzin[] = [];
+const demoPengajuanIzinVersi: PengajuanIzinVersi[] = [];
+const demoPersetujuanIzin: PersetujuanIzin[] = [];
+
+const addDemoLampiran = (pengajuanIzinId: number, lampiran: LampiranInput[]) => {
+  demoLampiranIzin.push(...lampiran.map((file, index) => ({
+    id: demoLampiranIzin.length + index + 1,
+    pengajuan_izin_id: pengajuanIzinId,
+    nama_file: file.nama_file,
+    mime_type: file.data.slice(5, file.data.indexOf(';')),
+    ukuran: Math.floor(file.data.length * 3 / 4),
+    data: file.data,
+    created_at: new Date()
+  })));
+};
+
 let demoSiswa: Siswa[] = [
   {
     id: 1,
@@ -108,6 +146,7 @@ let demoUsers: User[] = [
     nisn: null,
     password_hash: 'hashed_admin123',
     role: 'admin',
+    must_change_password: false,
     created_at: new Date(),
     updated_at: new Date()
   },
@@ -118,6 +157,7 @@ let demoUsers: User[] = [
     nisn: null,
     password_hash: 'hashed_guru123',
     role: 'guru',
+    must_change_password: false,
     created_at: new Date(),
     updated_at: new Date()
   },
@@ -128,6 +168,7 @@ let demoUsers: User[] = [
     nisn: '1234567890',
     password_hash: 'hashed_siswa123',
     role: 'siswa',
+    must_change_password: false,
     created_at: new Date(),
     updated_at: new Date()
   }
@@ -173,9 +214,20 @@ export const StubDataService = {
       kelas_id: 1, // Default kelas
       status: 'hadir',
       tanggal: new Date(),
+      tanggal_hari: new Date().toISOString().slice(0, 10),
       waktu_masuk: new Date().toLocaleTimeString('id-ID'),
       waktu_pulang: null,
       keterangan: null,
+      menit_terlambat: null,
+      pulang_awal: false,
+      jadwal_pelajaran_id: null,
+      latitude_masuk: null,
+      longitude_masuk: null,
+      accuracy_masuk: null,
+      latitude_pulang: null,
+      longitude_pulang: null,
+      accuracy_pulang: null,
+      foto_masuk: null,
       created_at: new Date(),
       updated_at: new Date()
     };
@@ -232,23 +284,111 @@ export const StubDataService = {
     return demoPengajuanIzin.filter(p => p.status === 'pending');
   },
 
+  getAntrianPersetujuanIzin: async (): Promise<PengajuanIzin[]> => {
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    return demoPengajuanIzin.filter(p => p.status === 'pending');
+  },
+
+  getPersetujuanIzin: async (params: { pengajuanIzinId: number }): Promise<PersetujuanIzin[]> => {
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    const request = demoPengajuanIzin.find(p => p.id === params.pengajuanIzinId);
+    return demoPersetujuanIzin.filter(d => d.pengajuan_izin_id === params.pengajuanIzinId && d.versi === request?.versi);
+  },
+
+  getApprovedPengajuanIzin: async (params: { kelasId?: number }): Promise<PengajuanIzin[]> => {
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    return demoPengajuanIzin.filter(p => p.status === 'approved' &&
+      (params.kelasId === undefined || demoSiswa.find(s => s.id === p.siswa_id)?.kelas_id === params.kelasId));
+  },
+
   createPengajuanIzin: async (input: CreatePengajuanIzinInput): Promise<PengajuanIzin> => {
     await new Promise(resolve => setTimeout(resolve, 500));
     
+    const { lampiran = [], ...request } = input;
     const newRequest: PengajuanIzin = {
       id: demoPengajuanIzin.length + 1,
-      ...input,
+      ...request,
       status: 'pending',
       reviewer_id: null,
       reviewed_at: null,
+      catatan_reviewer: null,
+      versi: 1,
+      alur: ['wali_kelas'],
+      langkah: 1,
       created_at: new Date(),
       updated_at: new Date()
     };
     
     demoPengajuanIzin.push(newRequest);
+    addDemoLampiran(newRequest.id, lampiran);
     return newRequest;
   },
 
+  updatePengajuanIzin: async (input: UpdatePengajuanIzinInput): Promise<PengajuanIzin> => {
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    const request = demoPengajuanIzin.find(p => p.id === input.id);
+    if (!request || (request.status !== 'pending' && request.status !== 'revision_requested')) {
+      throw new Error('Only pending pengajuan izin can be changed');
+    }
+    
+    demoPengajuanIzinVersi.push({
+      id: demoPengajuanIzinVersi.length + 1,
+      pengajuan_izin_id: request.id,
+      versi: request.versi,
+      tanggal_mulai: request.tanggal_mulai,
+      tanggal_selesai: request.tanggal_selesai,
+      alasan: request.alasan,
+      jenis: request.jenis,
+      status: request.status,
+      reviewer_id: request.reviewer_id,
+      reviewed_at: request.reviewed_at,
+      catatan_reviewer: request.catatan_reviewer,
+      created_at: new Date()
+    });
+    
+    const { id, lampiran = [], ...changes } = input;
+    Object.assign(request, changes, {
+      status: 'pending',
+      reviewer_id: null,
+      reviewed_at: null,
+      catatan_reviewer: null,
+      versi: request.versi + 1,
+      langkah: 1,
+      updated_at: new Date()
+    });
+    addDemoLampiran(id, lampiran);
+    return request;
+  },
+
+  cancelPengajuanIzin: async (params: { id: number }): Promise<PengajuanIzin> => {
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    const request = demoPengajuanIzin.find(p => p.id === params.id);
+    if (!request || (request.status !== 'pending' && request.status !== 'revision_requested')) {
+      throw new Error('Only pending pengajuan izin can be changed');
+    }
+    
+    request.status = 'cancelled';
+    request.updated_at = new Date();
+    return request;
+  },
+
+  getRiwayatPengajuanIzin: async (params: { id: number }): Promise<PengajuanIzinVersi[]> => {
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    return demoPengajuanIzinVersi.filter(v => v.pengajuan_izin_id === params.id);
+  },
+
+  getLampiranPengajuanIzin: async (params: { pengajuanIzinId: number }): Promise<LampiranIzin[]> => {
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    return demoLampiranIzin.filter(l => l.pengajuan_izin_id === params.pengajuanIzinId);
+  },
+
   reviewPengajuanIzin: async (input: ReviewPengajuanIzinInput): Promise<PengajuanIzin> => {
     await new Promise(resolve => setTimeout(resolve, 500));
     
@@ -257,9 +397,46 @@ export const StubDataService = {
       throw new Error('Request not found');
     }
     
+    demoPersetujuanIzin.push({
+      id: demoPersetujuanIzin.length + 1,
+      pengajuan_izin_id: request.id,
+      versi: request.versi,
+      langkah: request.langkah,
+      peran: request.alur[request.langkah - 1],
+      status: input.status,
+      reviewer_id: input.reviewer_id,
+      catatan: input.catatan_reviewer ?? null,
+      created_at: new Date()
+    });
+    request.catatan_reviewer = input.catatan_reviewer ?? null;
+    request.updated_at = new Date();
+
+    // Approving an earlier step hands the request to the next approver
+    if (input.status === 'approved' && request.langkah < request.alur.length) {
+      request.langkah += 1;
+      return request;
+    }
+    
     request.status = input.status;
     request.reviewer_id = input.reviewer_id;
     request.reviewed_at = new Date();
+    
+    return request;
+  },
+
+  revokePengajuanIzin: async (input: RevokePengajuanIzinInput): Promise<PengajuanIzin> => {
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    const request = demoPengajuanIzin.find(p => p.id === input.id);
+    if (!request || request.status !== 'approved') {
+      throw new Error('Only approved pengajuan izin can be revoked');
+    }
+    
+    request.status = 'revoked';
+    request.reviewer_id = input.reviewer_id;
+    request.reviewed_at = new Date();
+    request.catatan_reviewer = input.catatan_reviewer;
+    request.versi += 1;
     request.updated_at = new Date();
     
     return request;
@@ -308,6 +485,7 @@ export const StubDataService = {
       id: demoUsers.length + 1,
       ...input,
       password_hash: `hashed_${input.password}`,
+      must_change_password: false,
       created_at: new Date(),
       updated_at: new Date()
     };
@@ -354,6 +532,7 @@ export const StubDataService = {
       total_kelas: demoKelas.length,
       absensi_hari_ini: {
         hadir: todayAttendance.filter(a => a.status === 'hadir').length,
+        terlambat: todayAttendance.filter(a => a.status === 'terlambat').length,
         izin: todayAttendance.filter(a => a.status === 'izin').length,
         sakit: todayAttendance.filter(a => a.status === 'sakit').length,
         alpha: todayAttendance.filter(a => a.status === 'alpha').length,
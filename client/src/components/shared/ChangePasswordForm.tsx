@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { trpc } from '@/utils/trpc';
+import { KeyRound } from 'lucide-react';
+
+interface ChangePasswordFormProps {
+  onSuccess?: () => void;
+}
+
+export function ChangePasswordForm({ onSuccess }: ChangePasswordFormProps) {
+  const [formData, setFormData] = useState({
+    old_password: '',
+    new_password: '',
+    confirm_password: ''
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setMessage(null);
+
+    if (formData.new_password.length < 8) {
+      setError('Password baru minimal 8 karakter');
+      return;
+    }
+
+    if (formData.new_password !== formData.confirm_password) {
+      setError('Konfirmasi password tidak cocok');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await trpc.changePassword.mutate({
+        old_password: formData.old_password,
+        new_password: formData.new_password
+      });
+      setFormData({ old_password: '', new_password: '', confirm_password: '' });
+      setMessage(result.message);
+      onSuccess?.();
+    } catch (error) {
+      console.error('Failed to change password:', error);
+      setError(error instanceof Error ? error.message : 'Gagal mengubah password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Password Lama</label>
+        <Input
+          type="password"
+          value={formData.old_password}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setFormData(prev => ({ ...prev, old_password: e.target.value }))
+          }
+          placeholder="Masukkan password lama"
+          required
+        />
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Password Baru</label>
+          <Input
+            type="password"
+            value={formData.new_password}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData(prev => ({ ...prev, new_password: e.target.value }))
+            }
+            placeholder="Minimal 8 karakter"
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Konfirmasi Password Baru</label>
+          <Input
+            type="password"
+            value={formData.confirm_password}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData(prev => ({ ...prev, confirm_password: e.target.value }))
+            }
+            placeholder="Ulangi password baru"
+            required
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 border border-red-200">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="p-3 rounded-lg bg-green-50 border border-green-200">
+          <p className="text-green-700 text-sm">{message}</p>
+        </div>
+      )}
+
+      <Button type="submit" disabled={isLoading} className="w-full">
+        <KeyRound className="w-4 h-4 mr-2" />
+        {isLoading ? 'Proses...' : 'Ubah Password'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import { type DateRange } from 'react-day-picker';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarDays } from 'lucide-react';
+
+interface DateRangePickerProps {
+  value: DateRange | undefined;
+  onChange: (value: DateRange | undefined) => void;
+  placeholder?: string;
+}
+
+// Picks one day or a range of days; clicking a single day selects just that day
+export function DateRangePicker({ value, onChange, placeholder = 'Pilih tanggal' }: DateRangePickerProps) {
+  const [open, setOpen] = useState(false);
+
+  const label = !value?.from
+    ? placeholder
+    : !value.to || value.to.getTime() === value.from.getTime()
+      ? value.from.toLocaleDateString('id-ID')
+      : `${value.from.toLocaleDateString('id-ID')} - ${value.to.toLocaleDateString('id-ID')}`;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" className="w-full justify-start font-normal">
+          <CalendarDays className="w-4 h-4 mr-2" />
+          <span className={value?.from ? '' : 'text-gray-500'}>{label}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="range"
+          selected={value}
+          onSelect={onChange}
+          defaultMonth={value?.from}
+          numberOfMonths={1}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,85 @@
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Paperclip, X } from 'lucide-react';
+import type { LampiranInput } from '../../../../server/src/schema';
+
+// Same limits as the server; checked here so the siswa hears about it before uploading
+const MAX_LAMPIRAN = 5;
+const MAX_BYTES = 5 * 1024 * 1024;
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+
+interface LampiranPickerProps {
+  value: LampiranInput[];
+  onChange: (value: LampiranInput[]) => void;
+}
+
+const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// Supporting documents such as a doctor's note, as photos or PDFs
+export function LampiranPicker({ value, onChange }: LampiranPickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+
+    const added: LampiranInput[] = [];
+    for (const file of files) {
+      if (!ACCEPTED_TYPES.includes(file.type)) {
+        alert(`${file.name} bukan foto (JPEG, PNG, WebP) atau PDF`);
+        continue;
+      }
+      if (file.size > MAX_BYTES) {
+        alert(`${file.name} lebih besar dari 5 MB`);
+        continue;
+      }
+      added.push({ nama_file: file.name, data: await readAsDataUrl(file) });
+    }
+
+    if (value.length + added.length > MAX_LAMPIRAN) {
+      alert(`Maksimal ${MAX_LAMPIRAN} lampiran`);
+    }
+    onChange([...value, ...added].slice(0, MAX_LAMPIRAN));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((lampiran, index) => (
+        <div key={index} className="flex items-center justify-between p-2 rounded border text-sm">
+          <span className="truncate">{lampiran.nama_file}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_TYPES.join(',')}
+        multiple
+        className="hidden"
+        onChange={handleFiles}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={value.length >= MAX_LAMPIRAN}
+        className="w-full"
+      >
+        <Paperclip className="w-4 h-4 mr-2" />
+        Tambah Lampiran
+      </Button>
+    </div>
+  );
+}
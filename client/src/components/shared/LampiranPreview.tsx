@@ -0,0 +1,31 @@
+import type { LampiranIzin } from '../../../../server/src/schema';
+
+interface LampiranPreviewProps {
+  lampiran: LampiranIzin[];
+}
+
+// Shows attachments inline: photos as images, PDFs in the browser's viewer
+export function LampiranPreview({ lampiran }: LampiranPreviewProps) {
+  if (lampiran.length === 0) {
+    return <p className="text-sm text-gray-600">Pengajuan ini tidak memiliki lampiran.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {lampiran.map((file) => (
+        <div key={file.id} className="space-y-2">
+          <a href={file.data} download={file.nama_file} className="text-sm font-medium text-blue-600 hover:underline">
+            {file.nama_file} ({Math.ceil(file.ukuran / 1024)} KB)
+          </a>
+          {file.mime_type === 'application/pdf' ? (
+            <object data={file.data} type="application/pdf" className="w-full h-[480px] rounded-lg border">
+              <p className="text-sm text-gray-600">PDF tidak dapat ditampilkan; unduh untuk melihatnya.</p>
+            </object>
+          ) : (
+            <img src={file.data} alt={file.nama_file} className="w-full rounded-lg border" />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { History, Pencil, XCircle } from 'lucide-react';
+import { PERAN_PERSETUJUAN_LABELS } from '@/utils/persetujuanIzin';
+import type { PengajuanIzin, PengajuanIzinVersi } from '../../../../server/src/schema';
+
+const STATUS_LABELS: Record<PengajuanIzin['status'], string> = {
+  pending: 'MENUNGGU',
+  approved: 'DISETUJUI',
+  rejected: 'DITOLAK',
+  cancelled: 'DIBATALKAN',
+  revision_requested: 'PERLU REVISI',
+  revoked: 'DICABUT'
+};
+
+const STATUS_COLORS: Record<PengajuanIzin['status'], string> = {
+  pending: 'text-yellow-600 bg-yellow-100',
+  approved: 'text-green-600 bg-green-100',
+  rejected: 'text-red-600 bg-red-100',
+  cancelled: 'text-gray-600 bg-gray-100',
+  revision_requested: 'text-orange-600 bg-orange-100',
+  revoked: 'text-red-700 bg-red-50'
+};
+
+interface PengajuanIzinItemProps {
+  request: PengajuanIzin;
+  onEdit: (request: PengajuanIzin) => void;
+  onCancel: (request: PengajuanIzin) => void;
+  loadRiwayat: (id: number) => Promise<PengajuanIzinVersi[]>;
+  disabled?: boolean;
+}
+
+const formatPeriode = (mulai: Date, selesai: Date) =>
+  selesai.getTime() !== mulai.getTime()
+    ? `${mulai.toLocaleDateString('id-ID')} - ${selesai.toLocaleDateString('id-ID')}`
+    : mulai.toLocaleDateString('id-ID');
+
+// One leave request in the applicant's list; it can be edited or cancelled until a guru decides,
+// and earlier versions are shown once it has been resubmitted
+export function PengajuanIzinItem({ request, onEdit, onCancel, loadRiwayat, disabled }: PengajuanIzinItemProps) {
+  const [riwayat, setRiwayat] = useState<PengajuanIzinVersi[] | null>(null);
+
+  const isOpen = request.status === 'pending' || request.status === 'revision_requested';
+
+  const toggleRiwayat = async () => {
+    if (riwayat) {
+      setRiwayat(null);
+      return;
+    }
+    try {
+      setRiwayat(await loadRiwayat(request.id));
+    } catch (error) {
+      console.error('Failed to load riwayat pengajuan izin:', error);
+    }
+  };
+
+  return (
+    <div className="p-4 rounded-lg border space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-medium">{formatPeriode(request.tanggal_mulai, request.tanggal_selesai)}</p>
+          <p className="text-sm text-gray-600">{request.jenis.toUpperCase()}: {request.alasan}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            Diajukan: {request.created_at.toLocaleDateString('id-ID')}
+          </p>
+        </div>
+        <div className="text-right">
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${STATUS_COLORS[request.status]}`}>
+            {STATUS_LABELS[request.status]}
+          </span>
+          {request.reviewed_at && (
+            <p className="text-xs text-gray-500 mt-1">
+              Diproses: {request.reviewed_at.toLocaleDateString('id-ID')}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {request.status === 'pending' && request.alur.length > 1 && (
+        <p className="text-xs text-gray-500">
+          Tahap {request.langkah} dari {request.alur.length}: menunggu persetujuan {PERAN_PERSETUJUAN_LABELS[request.alur[request.langkah - 1]]}
+        </p>
+      )}
+
+      {request.catatan_reviewer && (
+        <p className="text-sm p-2 rounded bg-orange-50 text-orange-800">
+          Catatan guru: {request.catatan_reviewer}
+        </p>
+      )}
+
+      {(isOpen || request.versi > 1) && (
+        <div className="flex flex-wrap gap-2">
+          {isOpen && (
+            <>
+              <Button size="sm" variant="outline" onClick={() => onEdit(request)} disabled={disabled}>
+                <Pencil className="w-4 h-4 mr-1" />
+                {request.status === 'revision_requested' ? 'Perbaiki' : 'Edit'}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onCancel(request)}
+                disabled={disabled}
+                className="text-red-600 hover:text-red-700"
+              >
+                <XCircle className="w-4 h-4 mr-1" />
+                Batalkan
+              </Button>
+            </>
+          )}
+          {request.versi > 1 && (
+            <Button size="sm" variant="ghost" onClick={toggleRiwayat}>
+              <History className="w-4 h-4 mr-1" />
+              {riwayat ? 'Tutup Riwayat' : `Riwayat (${request.versi - 1} versi sebelumnya)`}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {riwayat && (
+        <div className="space-y-2 border-l-2 pl-3">
+          {riwayat.map((versi) => (
+            <div key={versi.id} className="text-sm text-gray-600">
+              <p className="font-medium">
+                Versi {versi.versi}: {formatPeriode(versi.tanggal_mulai, versi.tanggal_selesai)} · {STATUS_LABELS[versi.status]}
+              </p>
+              <p>{versi.jenis.toUpperCase()}: {versi.alasan}</p>
+              {versi.catatan_reviewer && <p className="text-orange-700">Catatan guru: {versi.catatan_reviewer}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
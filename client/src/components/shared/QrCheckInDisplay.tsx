@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trpc } from '@/utils/trpc';
+import { QrCode } from './QrCode';
+import type { QrToken } from '../../../../server/src/schema';
+
+interface QrCheckInDisplayProps {
+  kelasId: number | null;
+  lokasi: string | null;
+}
+
+// Shows the rotating check-in code and fetches a new one halfway through its lifetime
+export function QrCheckInDisplay({ kelasId, lokasi }: QrCheckInDisplayProps) {
+  const [qrToken, setQrToken] = useState<QrToken | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadToken = useCallback(async () => {
+    try {
+      const result = await trpc.generateQrToken.query({ kelas_id: kelasId, lokasi });
+      setQrToken(result);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to load QR token:', error);
+      setError(error instanceof Error ? error.message : 'Gagal memuat QR code');
+    }
+  }, [kelasId, lokasi]);
+
+  useEffect(() => {
+    loadToken();
+  }, [loadToken]);
+
+  useEffect(() => {
+    if (!qrToken) return;
+
+    const lifetime = qrToken.expires_at.getTime() - Date.now();
+    const refresh = setTimeout(loadToken, Math.max(1000, lifetime / 2));
+    const tick = setInterval(() => {
+      setSecondsLeft(Math.max(0, Math.ceil((qrToken.expires_at.getTime() - Date.now()) / 1000)));
+    }, 500);
+
+    return () => {
+      clearTimeout(refresh);
+      clearInterval(tick);
+    };
+  }, [qrToken, loadToken]);
+
+  if (error) {
+    return <p className="text-center text-red-600">{error}</p>;
+  }
+
+  if (!qrToken) {
+    return <p className="text-center text-gray-600">Memuat QR code...</p>;
+  }
+
+  return (
+    <div className="flex flex-col items-center space-y-3">
+      <div className="p-4 bg-white rounded-xl shadow">
+        <QrCode value={qrToken.token} />
+      </div>
+      {qrToken.lokasi && <p className="font-medium text-gray-800">{qrToken.lokasi}</p>}
+      <p className="text-sm text-gray-600">Kode berganti otomatis, berlaku {secondsLeft} detik lagi</p>
+    </div>
+  );
+}
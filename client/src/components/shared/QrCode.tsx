@@ -0,0 +1,31 @@
+import { useMemo } from 'react';
+import { encodeQrCode } from '@/utils/qrcode';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+}
+
+export function QrCode({ value, size = 320 }: QrCodeProps) {
+  const modules = useMemo(() => encodeQrCode(value), [value]);
+  // Four modules of quiet zone around the code, as scanners expect
+  const dimension = modules.length + 8;
+
+  const path = useMemo(() => modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + 4},${y + 4}h1v1h-1z` : '')))
+    .join(''), [modules]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code"
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+}
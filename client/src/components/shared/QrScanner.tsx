@@ -0,0 +1,106 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Check, X } from 'lucide-react';
+
+// Shape Detection API; not yet part of the TypeScript DOM typings
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+interface QrScannerProps {
+  onScan: (token: string) => void;
+  onCancel: () => void;
+}
+
+export function QrScanner({ onScan, onCancel }: QrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [manualToken, setManualToken] = useState('');
+
+  useEffect(() => {
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      setError('Browser ini tidak mendukung pemindaian QR. Tempel kode secara manual.');
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+    const detector = new Detector({ formats: ['qr_code'] });
+
+    const scan = async () => {
+      if (stopped || !videoRef.current) return;
+      try {
+        const codes = await detector.detect(videoRef.current);
+        if (codes.length > 0) {
+          stopped = true;
+          onScan(codes[0].rawValue);
+          return;
+        }
+      } catch {
+        // The video may not have a frame yet; try again on the next one
+      }
+      frame = requestAnimationFrame(scan);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async (mediaStream) => {
+        stream = mediaStream;
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = mediaStream;
+        await videoRef.current.play();
+        scan();
+      })
+      .catch((error) => {
+        console.error('Failed to open camera:', error);
+        setError('Kamera tidak dapat dibuka. Tempel kode secara manual.');
+      });
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [onScan]);
+
+  return (
+    <div className="space-y-4">
+      {error ? (
+        <p className="text-sm text-yellow-700">{error}</p>
+      ) : (
+        <div className="relative rounded-lg overflow-hidden bg-black">
+          <video ref={videoRef} className="w-full" muted playsInline />
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <div className="w-2/3 aspect-square border-4 border-white/70 rounded-xl" />
+          </div>
+        </div>
+      )}
+
+      <form
+        onSubmit={(e: React.FormEvent) => {
+          e.preventDefault();
+          if (manualToken.trim()) onScan(manualToken.trim());
+        }}
+        className="flex space-x-2"
+      >
+        <Input
+          value={manualToken}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setManualToken(e.target.value)}
+          placeholder="Atau tempel kode QR di sini"
+        />
+        <Button type="submit" variant="outline" disabled={!manualToken.trim()}>
+          <Check className="w-4 h-4" />
+        </Button>
+      </form>
+
+      <Button variant="outline" onClick={onCancel} className="w-full">
+        <X className="w-4 h-4 mr-2" />
+        Batal
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Camera, RotateCcw } from 'lucide-react';
+
+// Photos are shrunk to this width before upload
+const SELFIE_WIDTH = 480;
+
+interface SelfieCaptureProps {
+  photo: string | null;
+  onCapture: (photo: string | null) => void;
+}
+
+// Front camera preview; the captured frame is handed over as a JPEG data URL
+export function SelfieCapture({ photo, onCapture }: SelfieCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (photo) return;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('Browser ini tidak mendukung kamera.');
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let stopped = false;
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user' } })
+      .then(async (mediaStream) => {
+        stream = mediaStream;
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = mediaStream;
+        await videoRef.current.play();
+      })
+      .catch((error) => {
+        console.error('Failed to open camera:', error);
+        setError('Kamera tidak dapat dibuka.');
+      });
+
+    return () => {
+      stopped = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [photo]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.min(SELFIE_WIDTH, video.videoWidth);
+    canvas.height = Math.round(video.videoHeight * canvas.width / video.videoWidth);
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    onCapture(canvas.toDataURL('image/jpeg', 0.8));
+  };
+
+  if (photo) {
+    return (
+      <div className="space-y-4">
+        <img src={photo} alt="Foto selfie" className="w-full rounded-lg" />
+        <Button variant="outline" onClick={() => onCapture(null)} className="w-full">
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Ambil Ulang
+        </Button>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-yellow-700">{error} Absen tetap bisa dilakukan tanpa foto.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-lg overflow-hidden bg-black">
+        <video ref={videoRef} className="w-full -scale-x-100" muted playsInline />
+      </div>
+      <Button variant="outline" onClick={handleCapture} className="w-full">
+        <Camera className="w-4 h-4 mr-2" />
+        Ambil Foto
+      </Button>
+    </div>
+  );
+}
@@ -16,7 +16,13 @@ import {
   GraduationCap,
   UserCheck,
   FileText,
-  Clock
+  Clock,
+  History,
+  Heart,
+  QrCode,
+  MapPin,
+  CalendarDays,
+  Nfc
 } from 'lucide-react';
 import type { AuthResponse } from '../../../../server/src/schema';
 
@@ -45,9 +51,16 @@ export function Sidebar({ user, currentPage, onPageChange, onLogout }: SidebarPr
           { id: 'students', label: 'Data Siswa', icon: BookOpen },
           { id: 'teachers', label: 'Data Guru', icon: GraduationCap },
           { id: 'classes', label: 'Data Kelas', icon: School },
+          { id: 'parents', label: 'Data Orang Tua', icon: Heart },
           { id: 'attendance', label: 'Absensi', icon: UserCheck },
+          { id: 'qr-checkin', label: 'QR Gerbang', icon: QrCode },
+          { id: 'rfid', label: 'Perangkat RFID', icon: Nfc },
+          { id: 'timetable', label: 'Jadwal Pelajaran', icon: ClipboardList },
+          { id: 'calendar', label: 'Kalender Akademik', icon: CalendarDays },
+          { id: 'school-settings', label: 'Pengaturan Sekolah', icon: MapPin },
           { id: 'reports', label: 'Laporan', icon: FileText },
           { id: 'statistics', label: 'Statistik', icon: BarChart3 },
+          { id: 'audit-log', label: 'Audit Log', icon: History },
           ...commonItems.slice(1), // Profile
         ];
       
@@ -56,6 +69,7 @@ export function Sidebar({ user, currentPage, onPageChange, onLogout }: SidebarPr
           ...commonItems.slice(0, 1), // Dashboard
           { id: 'my-class', label: 'Kelas Saya', icon: School },
           { id: 'attendance', label: 'Absensi', icon: UserCheck },
+          { id: 'qr-checkin', label: 'QR Absensi', icon: QrCode },
           { id: 'attendance-input', label: 'Input Absensi', icon: ClipboardList },
           { id: 'leave-requests', label: 'Pengajuan Izin', icon: Calendar },
           { id: 'reports', label: 'Rekap Absensi', icon: FileText },
@@ -71,6 +85,14 @@ export function Sidebar({ user, currentPage, onPageChange, onLogout }: SidebarPr
           ...commonItems.slice(1), // Profile
         ];
       
+      case 'orang_tua':
+        return [
+          ...commonItems.slice(0, 1), // Dashboard
+          { id: 'history', label: 'Riwayat Anak', icon: Calendar },
+          { id: 'leave-request', label: 'Pengajuan Izin', icon: ClipboardList },
+          ...commonItems.slice(1), // Profile
+        ];
+      
       default:
         return commonItems;
     }
@@ -83,6 +105,7 @@ export function Sidebar({ user, currentPage, onPageChange, onLogout }: SidebarPr
       case 'admin': return <Users className="w-5 h-5" />;
       case 'guru': return <GraduationCap className="w-5 h-5" />;
       case 'siswa': return <BookOpen className="w-5 h-5" />;
+      case 'orang_tua': return <Heart className="w-5 h-5" />;
       default: return <School className="w-5 h-5" />;
     }
   };
@@ -92,6 +115,7 @@ export function Sidebar({ user, currentPage, onPageChange, onLogout }: SidebarPr
       case 'admin': return 'Administrator';
       case 'guru': return 'Guru';
       case 'siswa': return 'Siswa';
+      case 'orang_tua': return 'Orang Tua';
       default: return 'Pengguna';
     }
   };
@@ -5,6 +5,13 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { trpc } from '@/utils/trpc';
 import { StubDataService } from '../services/StubDataService';
+import { ChangePasswordForm } from '../shared/ChangePasswordForm';
+import { QrScanner } from '../shared/QrScanner';
+import { SelfieCapture } from '../shared/SelfieCapture';
+import { DateRangePicker } from '../shared/DateRangePicker';
+import { LampiranPicker } from '../shared/LampiranPicker';
+import { PengajuanIzinItem } from '../shared/PengajuanIzinItem';
+import { getCheckInErrorMessage } from '@/utils/checkInErrors';
 import { 
   Clock, 
   Calendar, 
@@ -14,9 +21,11 @@ import {
   FileText,
   LogIn,
   LogOut,
+  MapPin,
   Plus
 } from 'lucide-react';
-import type { AuthResponse, Absensi, PengajuanIzin } from '../../../../server/src/schema';
+import type { DateRange } from 'react-day-picker';
+import type { AuthResponse, Absensi, PengajuanIzin, AbsenMasukInput, LampiranInput, LampiranSakit } from '../../../../server/src/schema';
 
 interface SiswaDashboardProps {
   user: NonNullable<AuthResponse['user']>;
@@ -29,11 +38,21 @@ export function SiswaDashboard({ user, currentPage, onPageChange }: SiswaDashboa
   const [attendanceHistory, setAttendanceHistory] = useState<Absensi[]>([]);
   const [leaveRequests, setLeaveRequests] = useState<PengajuanIzin[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [scanAction, setScanAction] = useState<'masuk' | 'pulang' | null>(null);
+  const [locationEnabled, setLocationEnabled] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  // Optional selfie sent with absen masuk, taken before the QR scan so only one camera is open at a time
+  const [selfie, setSelfie] = useState<string | null>(null);
+  const [selfieDone, setSelfieDone] = useState(false);
   const [newLeaveRequest, setNewLeaveRequest] = useState({
-    tanggal: '',
+    periode: undefined as DateRange | undefined,
     alasan: '',
-    jenis: 'izin' as 'izin' | 'sakit'
+    jenis: 'izin' as 'izin' | 'sakit',
+    lampiran: [] as LampiranInput[]
   });
+  // Pending request being edited or resubmitted through the form above the list
+  const [editingRequestId, setEditingRequestId] = useState<number | null>(null);
+  const [lampiranSakit, setLampiranSakit] = useState<LampiranSakit | null>(null);
 
   const siswaId = user.profile?.id;
 
@@ -91,61 +110,144 @@ export function SiswaDashboard({ user, currentPage, onPageChange }: SiswaDashboa
     }
   }, [currentPage, loadTodayAttendance, loadAttendanceHistory, loadLeaveRequests]);
 
-  // Handle attendance check-in
-  const handleAbsenMasuk = async () => {
-    if (!siswaId) return;
-    
+  // Whether long sick leave needs a doctor's note
+  useEffect(() => {
+    if (currentPage !== 'leave-request') return;
+    trpc.getLampiranSakit.query()
+      .then(setLampiranSakit)
+      .catch((error) => console.error('Failed to load lampiran sakit:', error));
+  }, [currentPage]);
+
+  // Check-in and check-out start by scanning the QR code in class or at the gate, or by sending the device location
+  const handleAbsenMasuk = () => setScanAction('masuk');
+  const handleAbsenPulang = () => setScanAction('pulang');
+
+  // Location check-in is only offered once the admin has enabled the school area
+  useEffect(() => {
+    if (!scanAction) return;
+    trpc.getGeofence.query()
+      .then((geofence) => setLocationEnabled(geofence?.enabled ?? false))
+      .catch((error) => console.error('Failed to load geofence:', error));
+  }, [scanAction]);
+
+  const submitPresence = useCallback(async (proof: Omit<AbsenMasukInput, 'siswa_id' | 'foto'>) => {
+    const action = scanAction;
+    setScanAction(null);
+    setSelfie(null);
+    setSelfieDone(false);
+    if (!action) return;
+
     setIsLoading(true);
     try {
-      // STUB: Using mock data service for demo
-      await StubDataService.absenMasuk({ siswa_id: siswaId });
+      if (action === 'masuk') {
+        await trpc.absenMasuk.mutate({ ...proof, foto: selfie ?? undefined });
+      } else {
+        await trpc.absenPulang.mutate(proof);
+      }
       await loadTodayAttendance();
     } catch (error) {
-      console.error('Failed to check in:', error);
-      alert('Gagal melakukan absen masuk');
+      console.error(`Failed to absen ${action}:`, error);
+      alert(getCheckInErrorMessage(error, `Gagal melakukan absen ${action}`));
     } finally {
       setIsLoading(false);
     }
+  }, [scanAction, selfie, loadTodayAttendance]);
+
+  const handleQrScanned = useCallback((qrToken: string) => submitPresence({ qr_token: qrToken }), [submitPresence]);
+
+  const handleUseLocation = () => {
+    if (!navigator.geolocation) {
+      alert('Perangkat tidak mendukung lokasi');
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        submitPresence({
+          location: {
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy
+          }
+        });
+      },
+      (error) => {
+        setIsLocating(false);
+        console.error('Failed to get location:', error);
+        alert('Gagal membaca lokasi, pastikan izin lokasi diaktifkan');
+      },
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 0 }
+    );
   };
 
-  // Handle attendance check-out
-  const handleAbsenPulang = async () => {
-    if (!siswaId) return;
+  const handleScanCancel = useCallback(() => {
+    setScanAction(null);
+    setSelfie(null);
+    setSelfieDone(false);
+  }, []);
+
+  // Handle leave request submission
+  const handleSubmitLeaveRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!siswaId || !newLeaveRequest.periode?.from) return;
     
     setIsLoading(true);
     try {
+      const leave = {
+        tanggal_mulai: newLeaveRequest.periode.from,
+        tanggal_selesai: newLeaveRequest.periode.to ?? newLeaveRequest.periode.from,
+        alasan: newLeaveRequest.alasan,
+        jenis: newLeaveRequest.jenis,
+        lampiran: newLeaveRequest.lampiran
+      };
       // STUB: Using mock data service for demo
-      await StubDataService.absenPulang({ siswa_id: siswaId });
-      await loadTodayAttendance();
+      if (editingRequestId) {
+        await StubDataService.updatePengajuanIzin({ id: editingRequestId, ...leave });
+      } else {
+        await StubDataService.createPengajuanIzin({ siswa_id: siswaId, ...leave });
+      }
+      
+      setNewLeaveRequest({ periode: undefined, alasan: '', jenis: 'izin', lampiran: [] });
+      setEditingRequestId(null);
+      await loadLeaveRequests();
+      alert(editingRequestId ? 'Pengajuan izin berhasil diperbarui' : 'Pengajuan izin berhasil disubmit');
     } catch (error) {
-      console.error('Failed to check out:', error);
-      alert('Gagal melakukan absen pulang');
+      console.error('Failed to submit leave request:', error);
+      alert('Gagal mengajukan izin');
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Handle leave request submission
-  const handleSubmitLeaveRequest = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!siswaId) return;
-    
+  const handleEditLeaveRequest = (request: PengajuanIzin) => {
+    setEditingRequestId(request.id);
+    setNewLeaveRequest({
+      periode: { from: request.tanggal_mulai, to: request.tanggal_selesai },
+      alasan: request.alasan,
+      jenis: request.jenis,
+      lampiran: []
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingRequestId(null);
+    setNewLeaveRequest({ periode: undefined, alasan: '', jenis: 'izin', lampiran: [] });
+  };
+
+  const handleCancelLeaveRequest = async (request: PengajuanIzin) => {
+    if (!confirm('Batalkan pengajuan izin ini?')) return;
+
     setIsLoading(true);
     try {
       // STUB: Using mock data service for demo
-      await StubDataService.createPengajuanIzin({
-        siswa_id: siswaId,
-        tanggal: new Date(newLeaveRequest.tanggal),
-        alasan: newLeaveRequest.alasan,
-        jenis: newLeaveRequest.jenis
-      });
-      
-      setNewLeaveRequest({ tanggal: '', alasan: '', jenis: 'izin' });
+      await StubDataService.cancelPengajuanIzin({ id: request.id });
+      if (editingRequestId === request.id) handleCancelEdit();
       await loadLeaveRequests();
-      alert('Pengajuan izin berhasil disubmit');
     } catch (error) {
-      console.error('Failed to submit leave request:', error);
-      alert('Gagal mengajukan izin');
+      console.error('Failed to cancel leave request:', error);
+      alert('Gagal membatalkan pengajuan izin');
     } finally {
       setIsLoading(false);
     }
@@ -154,6 +256,7 @@ export function SiswaDashboard({ user, currentPage, onPageChange }: SiswaDashboa
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'hadir': return 'text-green-600 bg-green-100';
+      case 'terlambat': return 'text-orange-600 bg-orange-100';
       case 'izin': return 'text-blue-600 bg-blue-100';
       case 'sakit': return 'text-yellow-600 bg-yellow-100';
       case 'alpha': return 'text-red-600 bg-red-100';
@@ -161,14 +264,66 @@ export function SiswaDashboard({ user, currentPage, onPageChange }: SiswaDashboa
     }
   };
 
-  const getRequestStatusColor = (status: string) => {
-    switch (status) {
-      case 'approved': return 'text-green-600 bg-green-100';
-      case 'rejected': return 'text-red-600 bg-red-100';
-      case 'pending': return 'text-yellow-600 bg-yellow-100';
-      default: return 'text-gray-600 bg-gray-100';
-    }
-  };
+  if (scanAction === 'masuk' && !selfieDone) {
+    return (
+      <div className="p-6 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800">Absen Masuk</h1>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20 max-w-lg">
+          <CardHeader>
+            <CardTitle>Foto Selfie</CardTitle>
+            <CardDescription>Opsional; foto dikirim bersama absen masuk dan dapat dilihat guru</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <SelfieCapture photo={selfie} onCapture={setSelfie} />
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={handleScanCancel} className="flex-1">
+                Batal
+              </Button>
+              <Button onClick={() => setSelfieDone(true)} className="flex-1">
+                {selfie ? 'Lanjut' : 'Lewati'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (scanAction) {
+    return (
+      <div className="p-6 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800">
+          {scanAction === 'masuk' ? 'Absen Masuk' : 'Absen Pulang'}
+        </h1>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20 max-w-lg">
+          <CardHeader>
+            <CardTitle>Pindai QR Code</CardTitle>
+            <CardDescription>Arahkan kamera ke QR code di kelas atau gerbang sekolah</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <QrScanner onScan={handleQrScanned} onCancel={handleScanCancel} />
+          </CardContent>
+        </Card>
+
+        {locationEnabled && (
+          <Card className="bg-white/80 backdrop-blur-md border-white/20 max-w-lg">
+            <CardHeader>
+              <CardTitle>Gunakan Lokasi</CardTitle>
+              <CardDescription>Absen dengan lokasi perangkat saat berada di area sekolah</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button onClick={handleUseLocation} disabled={isLocating} className="w-full">
+                <MapPin className="w-4 h-4 mr-2" />
+                {isLocating ? 'Membaca lokasi...' : 'Kirim Lokasi'}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    );
+  }
 
   if (currentPage === 'dashboard') {
     return (
@@ -204,11 +359,15 @@ export function SiswaDashboard({ user, currentPage, onPageChange }: SiswaDashboa
                     {todayAttendance.waktu_masuk && (
                       <p className="text-sm text-gray-600">
                         Masuk: {todayAttendance.waktu_masuk}
+                        {todayAttendance.menit_terlambat !== null && (
+                          <span className="ml-2 text-orange-600">(terlambat {todayAttendance.menit_terlambat} menit)</span>
+                        )}
                       </p>
                     )}
                     {todayAttendance.waktu_pulang && (
                       <p className="text-sm text-gray-600">
                         Pulang: {todayAttendance.waktu_pulang}
+                        {todayAttendance.pulang_awal && <span className="ml-2 text-orange-600">(pulang awal)</span>}
                       </p>
                     )}
                   </div>
@@ -391,6 +550,10 @@ export function SiswaDashboard({ user, currentPage, onPageChange }: SiswaDashboa
                       <div className="flex items-center space-x-4 mt-1 text-sm text-gray-600">
                         {attendance.waktu_masuk && <span>Masuk: {attendance.waktu_masuk}</span>}
                         {attendance.waktu_pulang && <span>Pulang: {attendance.waktu_pulang}</span>}
+                        {attendance.menit_terlambat !== null && (
+                          <span className="text-orange-600">Terlambat {attendance.menit_terlambat} menit</span>
+                        )}
+                        {attendance.pulang_awal && <span className="text-orange-600">Pulang awal</span>}
                       </div>
                       {attendance.keterangan && (
                         <p className="text-sm text-gray-600 mt-1">{attendance.keterangan}</p>
@@ -422,21 +585,22 @@ export function SiswaDashboard({ user, currentPage, onPageChange }: SiswaDashboa
         {/* Form Pengajuan Baru */}
         <Card className="bg-white/80 backdrop-blur-md border-white/20">
           <CardHeader>
-            <CardTitle>Ajukan Izin Baru</CardTitle>
-            <CardDescription>Isi form di bawah untuk mengajukan izin tidak masuk</CardDescription>
+            <CardTitle>{editingRequestId ? 'Ubah Pengajuan Izin' : 'Ajukan Izin Baru'}</CardTitle>
+            <CardDescription>
+              {editingRequestId
+                ? 'Perbaiki pengajuan lalu kirim ulang untuk ditinjau guru'
+                : 'Isi form di bawah untuk mengajukan izin tidak masuk'}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmitLeaveRequest} className="space-y-4">
               <div className="grid md:grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <label className="text-sm font-medium">Tanggal</label>
-                  <Input
-                    type="date"
-                    value={newLeaveRequest.tanggal}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => 
-                      setNewLeaveRequest(prev => ({ ...prev, tanggal: e.target.value }))
-                    }
-                    required
+                  <DateRangePicker
+                    value={newLeaveRequest.periode}
+                    onChange={(periode: DateRange | undefined) => setNewLeaveRequest(prev => ({ ...prev, periode }))}
+                    placeholder="Pilih satu hari atau rentang tanggal"
                   />
                 </div>
                 
@@ -471,14 +635,31 @@ export function SiswaDashboard({ user, currentPage, onPageChange }: SiswaDashboa
                 />
               </div>
               
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Lampiran</label>
+                <LampiranPicker
+                  value={newLeaveRequest.lampiran}
+                  onChange={(lampiran: LampiranInput[]) => setNewLeaveRequest(prev => ({ ...prev, lampiran }))}
+                />
+                <p className="text-xs text-gray-500">
+                  Surat dokter atau surat orang tua, berupa foto atau PDF.
+                  {lampiranSakit?.batas_hari != null && ` Wajib untuk sakit lebih dari ${lampiranSakit.batas_hari} hari sekolah.`}
+                </p>
+              </div>
+              
               <Button 
                 type="submit" 
-                disabled={isLoading}
+                disabled={isLoading || !newLeaveRequest.periode?.from}
                 className="w-full bg-blue-600 hover:bg-blue-700"
               >
                 <Plus className="w-4 h-4 mr-2" />
-                {isLoading ? 'Proses...' : 'Ajukan Izin'}
+                {isLoading ? 'Proses...' : editingRequestId ? 'Kirim Ulang' : 'Ajukan Izin'}
               </Button>
+              {editingRequestId && (
+                <Button type="button" variant="outline" onClick={handleCancelEdit} className="w-full">
+                  Batal Ubah
+                </Button>
+              )}
             </form>
           </CardContent>
         </Card>
@@ -492,26 +673,14 @@ export function SiswaDashboard({ user, currentPage, onPageChange }: SiswaDashboa
             {leaveRequests.length > 0 ? (
               <div className="space-y-4">
                 {leaveRequests.map((request: PengajuanIzin) => (
-                  <div key={request.id} className="flex items-center justify-between p-4 rounded-lg border">
-                    <div>
-                      <p className="font-medium">{request.tanggal.toLocaleDateString('id-ID')}</p>
-                      <p className="text-sm text-gray-600">{request.jenis.toUpperCase()}: {request.alasan}</p>
-                      <p className="text-xs text-gray-500 mt-1">
-                        Diajukan: {request.created_at.toLocaleDateString('id-ID')}
-                      </p>
-                    </div>
-                    <div className="text-right">
-                      <span className={`px-3 py-1 rounded-full text-sm font-medium ${getRequestStatusColor(request.status)}`}>
-                        {request.status === 'pending' ? 'MENUNGGU' : 
-                         request.status === 'approved' ? 'DISETUJUI' : 'DITOLAK'}
-                      </span>
-                      {request.reviewed_at && (
-                        <p className="text-xs text-gray-500 mt-1">
-                          Diproses: {request.reviewed_at.toLocaleDateString('id-ID')}
-                        </p>
-                      )}
-                    </div>
-                  </div>
+                  <PengajuanIzinItem
+                    key={request.id}
+                    request={request}
+                    onEdit={handleEditLeaveRequest}
+                    onCancel={handleCancelLeaveRequest}
+                    loadRiwayat={(id: number) => StubDataService.getRiwayatPengajuanIzin({ id })}
+                    disabled={isLoading}
+                  />
                 ))}
               </div>
             ) : (
@@ -559,6 +728,15 @@ export function SiswaDashboard({ user, currentPage, onPageChange }: SiswaDashboa
             </div>
           </CardContent>
         </Card>
+
+        <Card className="bg-white/80 backdrop-blur-md border-white/20">
+          <CardHeader>
+            <CardTitle>Ubah Password</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChangePasswordForm />
+          </CardContent>
+        </Card>
       </div>
     );
   }
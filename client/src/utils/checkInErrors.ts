@@ -0,0 +1,26 @@
+import { TRPCClientError } from '@trpc/client';
+import type { AppRouter } from '../../../server/src';
+import type { CheckInErrorCode } from '../../../server/src/schema';
+
+const CHECK_IN_ERROR_MESSAGES: Record<CheckInErrorCode, string> = {
+  PROOF_REQUIRED: 'Pindai QR code atau gunakan lokasi untuk absen',
+  QR_INVALID: 'QR code tidak valid',
+  QR_EXPIRED: 'QR code sudah kedaluwarsa, pindai kode terbaru di layar',
+  QR_WRONG_KELAS: 'QR code ini untuk kelas lain',
+  GEOFENCE_NOT_CONFIGURED: 'Absen dengan lokasi belum diaktifkan oleh sekolah',
+  LOCATION_INACCURATE: 'Lokasi kurang akurat, coba lagi di tempat terbuka',
+  OUTSIDE_GEOFENCE: 'Anda berada di luar area sekolah',
+  NOT_SCHOOL_DAY: 'Hari ini bukan hari sekolah untuk kelas Anda',
+  PHOTO_INVALID: 'Foto tidak dapat dibaca, ambil ulang foto selfie',
+  ALREADY_CHECKED_IN: 'Anda sudah absen masuk hari ini',
+  ABSENCE_RECORDED: 'Hari ini Anda sudah tercatat izin, sakit atau alpha'
+};
+
+// Turns a refused absen masuk/pulang into a message for the siswa
+export function getCheckInErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof TRPCClientError) {
+    const code = (error as TRPCClientError<AppRouter>).data?.checkInCode;
+    if (code) return CHECK_IN_ERROR_MESSAGES[code];
+  }
+  return fallback;
+}
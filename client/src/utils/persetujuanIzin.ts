@@ -0,0 +1,7 @@
+import type { PeranPersetujuan } from '../../../server/src/schema';
+
+export const PERAN_PERSETUJUAN_LABELS: Record<PeranPersetujuan, string> = {
+  wali_kelas: 'Wali Kelas',
+  bk: 'Guru BK',
+  kepala_sekolah: 'Kepala Sekolah'
+};
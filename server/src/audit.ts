@@ -0,0 +1,281 @@
+import { db } from './db';
+import { usersTable } from './db/schema';
+import { eq } from 'drizzle-orm';
+import { recordAuditLog } from './handlers/audit_log';
+import { getSiswaById } from './handlers/siswa';
+import { getGuruById } from './handlers/guru';
+import { getKelasById } from './handlers/kelas';
+import { getAbsensiById, getDailyAbsensiBySiswa, getAbsensiPelajaran } from './handlers/absensi';
+import { getAutoAlphaAbsensi } from './handlers/auto_alpha';
+import { getPengajuanIzinById } from './handlers/pengajuan_izin';
+import { getOrangTuaById, getOrangTuaSiswaById } from './handlers/orang_tua';
+import { getGeofence, getSchoolHours, getSchoolTimezone, getWeekend, getAutoAlpha, getDailyStatusRule, getLampiranSakit, getAlurPersetujuanIzin, getKopSurat } from './handlers/settings';
+import { getKalenderAkademikById } from './handlers/kalender_akademik';
+import { getMataPelajaranById } from './handlers/mata_pelajaran';
+import { getJadwalPelajaranById } from './handlers/jadwal_pelajaran';
+import { getPerangkatById } from './handlers/perangkat';
+import { getKartuRfidById } from './handlers/kartu_rfid';
+
+type Loader = (id: number) => Promise<unknown>;
+
+interface AuditTarget {
+  entity: string;
+  // Id of the affected row; the result is undefined when called before the mutation runs
+  entityId?: (input: unknown, result: unknown) => number | null;
+  load?: Loader;
+  // Snapshot of targets without a numeric id, such as a settings key
+  loadSingleton?: () => Promise<unknown>;
+  // Snapshot of the rows a mutation touches when no id in the input names them; the input has not been validated yet
+  loadRows?: (input: unknown) => Promise<unknown>;
+}
+
+export interface AuditSnapshot {
+  entity_id: number | null;
+  before: unknown;
+}
+
+function numberField(value: unknown, key: string): number | null {
+  if (value && typeof value === 'object' && key in value) {
+    const field = (value as Record<string, unknown>)[key];
+    return typeof field === 'number' ? field : null;
+  }
+  return null;
+}
+
+// Dates arrive as Date objects through superjson, or as strings from plain JSON clients
+function dateField(value: unknown, key: string): Date | null {
+  if (value && typeof value === 'object' && key in value) {
+    const field = (value as Record<string, unknown>)[key];
+    const date = field instanceof Date ? field : typeof field === 'string' ? new Date(field) : null;
+    return date && !isNaN(date.getTime()) ? date : null;
+  }
+  return null;
+}
+
+// Id of a row nested in a result, such as { perangkat, secret }
+function nestedId(value: unknown, key: string): number | null {
+  if (value && typeof value === 'object' && key in value) {
+    return numberField((value as Record<string, unknown>)[key], 'id');
+  }
+  return null;
+}
+
+// Updates and deletes name the row in the input, creates only in the result
+const fromInput = (key: string) => (input: unknown) => numberField(input, key);
+const fromInputOrResult = (key: string) => (input: unknown, result: unknown) =>
+  numberField(input, key) ?? numberField(result, 'id');
+
+// Password hashes never end up in the audit log
+const loadUser: Loader = async (id) => {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, id))
+    .execute();
+
+  if (users.length === 0) return null;
+
+  const { password_hash: _password_hash, ...user } = users[0];
+  return user;
+};
+
+// Daily records of every siswa on a submitted sheet
+const loadKelasSheet = async (input: unknown) => {
+  const tanggal = dateField(input, 'tanggal');
+  const entries = input && typeof input === 'object' ? (input as { entries?: unknown }).entries : null;
+  const siswaIds = Array.isArray(entries)
+    ? entries.map(entry => numberField(entry, 'siswa_id')).filter((id): id is number => id !== null)
+    : [];
+  return tanggal ? getDailyAbsensiBySiswa(siswaIds, tanggal) : null;
+};
+
+// Creates and check-ins upsert onto the record of the siswa for the day, or for the lesson, so
+// the row they replace is found by siswa and day. Check-ins carry no tanggal and happen now.
+const loadAbsensiOfDay = async (input: unknown) => {
+  const siswaId = numberField(input, 'siswa_id');
+  if (siswaId === null) return null;
+
+  const tanggal = dateField(input, 'tanggal') ?? new Date();
+  const jadwalPelajaranId = numberField(input, 'jadwal_pelajaran_id');
+  if (jadwalPelajaranId !== null) {
+    const rows = await getAbsensiPelajaran({ jadwal_pelajaran_id: jadwalPelajaranId, tanggal });
+    return rows.find(row => row.siswa.id === siswaId)?.absensi ?? null;
+  }
+
+  const [daily] = await getDailyAbsensiBySiswa([siswaId], tanggal);
+  return daily ?? null;
+};
+
+const loadAutoAlphaRun = async (input: unknown) => {
+  const tanggal = dateField(input, 'tanggal');
+  return tanggal ? getAutoAlphaAbsensi(tanggal) : null;
+};
+
+const users: AuditTarget = { entity: 'users', entityId: fromInputOrResult('id'), load: loadUser };
+const siswa: AuditTarget = { entity: 'siswa', entityId: fromInputOrResult('id'), load: getSiswaById };
+const guru: AuditTarget = { entity: 'guru', entityId: fromInputOrResult('id'), load: getGuruById };
+const orangTua: AuditTarget = { entity: 'orang_tua', entityId: fromInputOrResult('id'), load: getOrangTuaById };
+const orangTuaSiswa: AuditTarget = { entity: 'orang_tua_siswa', entityId: fromInputOrResult('id'), load: getOrangTuaSiswaById };
+const kelas: AuditTarget = { entity: 'kelas', entityId: fromInputOrResult('id'), load: getKelasById };
+const absensi: AuditTarget = { entity: 'absensi', entityId: fromInputOrResult('id'), load: getAbsensiById };
+const absensiOfDay: AuditTarget = { ...absensi, loadRows: loadAbsensiOfDay };
+const pengajuanIzin: AuditTarget = { entity: 'pengajuan_izin', entityId: fromInputOrResult('id'), load: getPengajuanIzinById };
+const kalenderAkademik: AuditTarget = { entity: 'kalender_akademik', entityId: fromInputOrResult('id'), load: getKalenderAkademikById };
+const mataPelajaran: AuditTarget = { entity: 'mata_pelajaran', entityId: fromInputOrResult('id'), load: getMataPelajaranById };
+const jadwalPelajaran: AuditTarget = { entity: 'jadwal_pelajaran', entityId: fromInputOrResult('id'), load: getJadwalPelajaranById };
+// Results carrying a fresh device secret nest the device; the loader leaves the secret hash out
+const perangkat: AuditTarget = {
+  entity: 'perangkat',
+  entityId: (input, result) => numberField(input, 'id') ?? numberField(result, 'id') ?? nestedId(result, 'perangkat'),
+  load: getPerangkatById
+};
+const kartuRfid: AuditTarget = { entity: 'kartu_rfid', entityId: fromInputOrResult('id'), load: getKartuRfidById };
+
+// Every mutation in the router; anything missing here is still logged under its procedure name
+const auditTargets: Record<string, AuditTarget> = {
+  login: {
+    entity: 'sessions',
+    entityId: (_input, result) => {
+      const user = result && typeof result === 'object' ? (result as { user?: unknown }).user : null;
+      return numberField(user, 'id');
+    }
+  },
+  logout: { entity: 'sessions' },
+  refreshSession: { entity: 'sessions' },
+  changePassword: { entity: 'users', load: loadUser },
+  resetPassword: { entity: 'users' },
+
+  createUser: users,
+  updateUser: users,
+  deleteUser: users,
+  createPasswordResetToken: { entity: 'users', entityId: fromInput('userId'), load: loadUser },
+  unlockUser: { entity: 'users', entityId: fromInput('userId'), load: loadUser },
+
+  createSiswa: siswa,
+  updateSiswa: siswa,
+  deleteSiswa: siswa,
+
+  createGuru: guru,
+  updateGuru: guru,
+  deleteGuru: guru,
+
+  createOrangTua: orangTua,
+  updateOrangTua: orangTua,
+  deleteOrangTua: orangTua,
+  linkSiswaToOrangTua: orangTuaSiswa,
+  unlinkSiswaFromOrangTua: orangTuaSiswa,
+
+  createKelas: kelas,
+  updateKelas: kelas,
+  deleteKelas: kelas,
+
+  createAbsensi: absensiOfDay,
+  updateAbsensi: absensi,
+  submitKelasAbsensi: { entity: 'absensi', loadRows: loadKelasSheet },
+  deleteAbsensi: absensi,
+  absenMasuk: absensiOfDay,
+  absenPulang: absensi,
+  // Card reader taps have no acting user; the touched record is nested in the result
+  tapKartu: {
+    entity: 'absensi',
+    entityId: (_input, result) => nestedId(result, 'absensi'),
+    load: getAbsensiById
+  },
+
+  createPengajuanIzin: pengajuanIzin,
+  createPengajuanIzinForAnak: pengajuanIzin,
+  updatePengajuanIzin: pengajuanIzin,
+  cancelPengajuanIzin: pengajuanIzin,
+  reviewPengajuanIzin: pengajuanIzin,
+  revokePengajuanIzin: pengajuanIzin,
+  deletePengajuanIzin: pengajuanIzin,
+
+  updateGeofence: { entity: 'settings', loadSingleton: getGeofence },
+  updateSchoolHours: { entity: 'settings', loadSingleton: getSchoolHours },
+  updateSchoolTimezone: { entity: 'settings', loadSingleton: getSchoolTimezone },
+  updateWeekend: { entity: 'settings', loadSingleton: getWeekend },
+  updateAutoAlpha: { entity: 'settings', loadSingleton: getAutoAlpha },
+  runAutoAlpha: { entity: 'absensi', loadRows: loadAutoAlphaRun },
+
+  createKalenderAkademik: kalenderAkademik,
+  updateKalenderAkademik: kalenderAkademik,
+  deleteKalenderAkademik: kalenderAkademik,
+
+  updateDailyStatusRule: { entity: 'settings', loadSingleton: getDailyStatusRule },
+  updateLampiranSakit: { entity: 'settings', loadSingleton: getLampiranSakit },
+  updateAlurPersetujuanIzin: { entity: 'settings', loadSingleton: getAlurPersetujuanIzin },
+  updateKopSurat: { entity: 'settings', loadSingleton: getKopSurat },
+  createMataPelajaran: mataPelajaran,
+  updateMataPelajaran: mataPelajaran,
+  deleteMataPelajaran: mataPelajaran,
+  createJadwalPelajaran: jadwalPelajaran,
+  updateJadwalPelajaran: jadwalPelajaran,
+  deleteJadwalPelajaran: jadwalPelajaran,
+  createPerangkat: perangkat,
+  updatePerangkat: perangkat,
+  rotatePerangkatSecret: perangkat,
+  deletePerangkat: perangkat,
+  createKartuRfid: kartuRfid,
+  deleteKartuRfid: kartuRfid,
+
+  exportAbsensiToPDF: { entity: 'absensi' },
+  exportAbsensiToExcel: { entity: 'absensi' },
+  generateRekapAbsensi: { entity: 'absensi' }
+};
+
+function getTarget(procedure: string, actorId: number | null): AuditTarget {
+  const target = auditTargets[procedure] ?? { entity: procedure };
+
+  // changePassword acts on the caller, whose id never appears in the input
+  if (procedure === 'changePassword' && actorId !== null) {
+    return { ...target, entityId: () => actorId };
+  }
+
+  return target;
+}
+
+async function loadTarget(target: AuditTarget, entityId: number | null, input: unknown): Promise<unknown> {
+  if (entityId !== null && target.load) return target.load(entityId);
+  if (target.loadSingleton) return target.loadSingleton();
+  if (target.loadRows) return target.loadRows(input);
+  return null;
+}
+
+// Loads the row a mutation is about to change. This runs before the caller is authenticated
+// and before the input is validated, so a failure leaves the snapshot empty instead of
+// failing the call; the procedure then reports its own error, such as UNAUTHORIZED.
+export async function snapshotBeforeMutation(
+  procedure: string,
+  actorId: number | null,
+  input: unknown
+): Promise<AuditSnapshot> {
+  const target = getTarget(procedure, actorId);
+  const entity_id = target.entityId?.(input, undefined) ?? null;
+
+  try {
+    return { entity_id, before: await loadTarget(target, entity_id, input) };
+  } catch (error) {
+    console.error('Audit snapshot failed:', error);
+    return { entity_id, before: null };
+  }
+}
+
+export async function recordMutation(
+  procedure: string,
+  actorId: number | null,
+  input: unknown,
+  result: unknown,
+  snapshot: AuditSnapshot
+): Promise<void> {
+  const target = getTarget(procedure, actorId);
+  const entity_id = snapshot.entity_id ?? target.entityId?.(input, result) ?? null;
+  const after = await loadTarget(target, entity_id, input);
+
+  await recordAuditLog({
+    actor_id: actorId,
+    procedure,
+    entity: target.entity,
+    entity_id,
+    before: snapshot.before ?? null,
+    after: after ?? null
+  });
+}
@@ -0,0 +1,187 @@
+import { TRPCError } from '@trpc/server';
+import { type AuthResponse } from './schema';
+import { getKelasById } from './handlers/kelas';
+import { getSiswaById } from './handlers/siswa';
+import { getAbsensiById } from './handlers/absensi';
+import { getPengajuanIzinById } from './handlers/pengajuan_izin';
+import { isAnakOfOrangTua } from './handlers/orang_tua';
+import { getJadwalPelajaranById } from './handlers/jadwal_pelajaran';
+import { getPeranPersetujuanGuru, isApprover } from './handlers/persetujuan_izin';
+
+type SessionUser = NonNullable<AuthResponse['user']>;
+
+function forbidden(message: string): TRPCError {
+  return new TRPCError({ code: 'FORBIDDEN', message });
+}
+
+// Profile id of the logged in guru (guru.id, not users.id)
+export function requireGuruId(user: SessionUser): number {
+  if (user.role !== 'guru' || !user.profile) {
+    throw forbidden('Akun ini tidak memiliki profil guru');
+  }
+  return user.profile.id;
+}
+
+// Profile id of the logged in siswa (siswa.id, not users.id)
+export function requireSiswaId(user: SessionUser): number {
+  if (user.role !== 'siswa' || !user.profile) {
+    throw forbidden('Akun ini tidak memiliki profil siswa');
+  }
+  return user.profile.id;
+}
+
+// Profile id of the logged in parent (orang_tua.id, not users.id)
+export function requireOrangTuaId(user: SessionUser): number {
+  if (user.role !== 'orang_tua' || !user.profile) {
+    throw forbidden('Akun ini tidak memiliki profil orang tua');
+  }
+  return user.profile.id;
+}
+
+// Admins may access any kelas; a guru only the kelas they are wali kelas of
+export async function assertKelasAccess(user: SessionUser, kelasId: number): Promise<void> {
+  if (user.role === 'admin') return;
+
+  if (user.role === 'guru') {
+    const kelas = await getKelasById(kelasId);
+    if (kelas && kelas.wali_kelas_id === requireGuruId(user)) return;
+  }
+
+  throw forbidden('Anda tidak memiliki akses ke kelas ini');
+}
+
+// Admins may access any siswa; a siswa only themselves; a parent only their children;
+// a guru only siswa in their kelas
+export async function assertSiswaAccess(user: SessionUser, siswaId: number): Promise<void> {
+  if (user.role === 'admin') return;
+
+  if (user.role === 'siswa') {
+    if (requireSiswaId(user) === siswaId) return;
+    throw forbidden('Anda hanya dapat mengakses data Anda sendiri');
+  }
+
+  if (user.role === 'orang_tua') {
+    if (await isAnakOfOrangTua(requireOrangTuaId(user), siswaId)) return;
+    throw forbidden('Anda hanya dapat mengakses data anak Anda sendiri');
+  }
+
+  if (user.role === 'guru') {
+    const siswa = await getSiswaById(siswaId);
+    if (siswa) {
+      const kelas = await getKelasById(siswa.kelas_id);
+      if (kelas && kelas.wali_kelas_id === requireGuruId(user)) return;
+    }
+  }
+
+  throw forbidden('Anda tidak memiliki akses ke data siswa ini');
+}
+
+// Admins may take attendance in any lesson; a guru only in the lessons they teach
+export async function assertJadwalPelajaranAccess(user: SessionUser, jadwalPelajaranId: number): Promise<void> {
+  const jadwal = await getJadwalPelajaranById(jadwalPelajaranId);
+  if (!jadwal) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Jadwal pelajaran not found' });
+  }
+
+  if (user.role === 'admin') return;
+  if (user.role === 'guru' && jadwal.guru_id === requireGuruId(user)) return;
+
+  throw forbidden('Anda tidak mengajar pelajaran ini');
+}
+
+// Access to an absensi row follows access to its kelas; lesson records also to the guru of the lesson
+export async function assertAbsensiAccess(user: SessionUser, absensiId: number): Promise<void> {
+  const absensi = await getAbsensiById(absensiId);
+  if (!absensi) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Absensi not found' });
+  }
+
+  if (absensi.jadwal_pelajaran_id !== null) {
+    const jadwal = await getJadwalPelajaranById(absensi.jadwal_pelajaran_id);
+    if (user.role === 'guru' && jadwal && jadwal.guru_id === requireGuruId(user)) return;
+  }
+
+  await assertKelasAccess(user, absensi.kelas_id);
+}
+
+// Access to a pengajuan izin follows access to the siswa who filed it; a BK counselor or the
+// principal may also see the requests their role appears in the approval chain of
+export async function assertPengajuanIzinAccess(user: SessionUser, pengajuanId: number): Promise<void> {
+  const pengajuan = await getPengajuanIzinById(pengajuanId);
+  if (!pengajuan) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Pengajuan izin not found' });
+  }
+
+  if (user.role === 'guru') {
+    const peran = await getPeranPersetujuanGuru(requireGuruId(user));
+    if (pengajuan.alur.some(p => peran.includes(p))) return;
+  }
+
+  await assertSiswaAccess(user, pengajuan.siswa_id);
+}
+
+// Admins may decide any step; a guru only the step of a pending request waiting for them
+export async function assertPengajuanIzinReviewAccess(user: SessionUser, pengajuanId: number): Promise<void> {
+  const pengajuan = await getPengajuanIzinById(pengajuanId);
+  if (!pengajuan) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Pengajuan izin not found' });
+  }
+
+  if (user.role === 'admin') return;
+
+  if (user.role === 'guru') {
+    const siswa = await getSiswaById(pengajuan.siswa_id);
+    const kelas = siswa ? await getKelasById(siswa.kelas_id) : null;
+    const peran = pengajuan.alur[pengajuan.langkah - 1];
+    if (kelas && await isApprover(requireGuruId(user), peran, kelas.wali_kelas_id)) return;
+  }
+
+  throw forbidden('Pengajuan ini tidak sedang menunggu persetujuan Anda');
+}
+
+// A guru may only read their own guru data; admins may read anyone's
+export function assertGuruAccess(user: SessionUser, guruId: number): void {
+  if (user.role === 'admin') return;
+  if (user.role === 'guru' && requireGuruId(user) === guruId) return;
+
+  throw forbidden('Anda hanya dapat mengakses data Anda sendiri');
+}
+
+// A parent may only read their own orang tua data; admins may read anyone's
+export function assertOrangTuaAccess(user: SessionUser, orangTuaId: number): void {
+  if (user.role === 'admin') return;
+  if (user.role === 'orang_tua' && requireOrangTuaId(user) === orangTuaId) return;
+
+  throw forbidden('Anda hanya dapat mengakses data Anda sendiri');
+}
+
+// A guru may show check-in codes for their own kelas; location codes valid for every kelas are admin-only
+export async function assertQrTokenAccess(user: SessionUser, kelasId: number | null): Promise<void> {
+  if (user.role === 'admin') return;
+
+  if (kelasId === null) {
+    throw forbidden('Hanya admin yang dapat membuat QR untuk lokasi');
+  }
+
+  await assertKelasAccess(user, kelasId);
+}
+
+// Filters that scope a query to a kelas or a siswa must name one the user may access
+export async function assertScopedAccess(
+  user: SessionUser,
+  scope: { kelasId?: number; siswaId?: number }
+): Promise<void> {
+  if (user.role === 'admin') return;
+
+  if (scope.siswaId !== undefined) {
+    await assertSiswaAccess(user, scope.siswaId);
+  }
+
+  if (scope.kelasId !== undefined) {
+    await assertKelasAccess(user, scope.kelasId);
+  }
+
+  if (scope.siswaId === undefined && scope.kelasId === undefined) {
+    throw forbidden('Pilih kelas atau siswa terlebih dahulu');
+  }
+}
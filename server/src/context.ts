@@ -0,0 +1,88 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { resolveSession } from './handlers/session';
+
+export const SESSION_COOKIE_NAME = 'absenku_session';
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    const name = part.slice(0, index).trim();
+    const value = part.slice(index + 1).trim();
+    // A malformed cookie, possibly set by another app on the domain, must not break the request
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      continue;
+    }
+  }
+
+  return cookies;
+}
+
+// Browsers send the HTTP-only cookie; other clients may use "Authorization: Bearer <token>"
+export function getSessionToken(req: IncomingMessage): string | null {
+  const authorization = req.headers.authorization;
+  if (authorization && authorization.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  return parseCookies(req.headers.cookie)[SESSION_COOKIE_NAME] || null;
+}
+
+// Behind a reverse proxy the socket address is the proxy, so trust X-Forwarded-For only when told to.
+// Each proxy appends the address it received the request from, so only entries added by our own
+// proxies are trustworthy: count TRUST_PROXY_HOPS (default 1) from the right, never the client-supplied left.
+export function getClientIp(req: IncomingMessage): string | null {
+  if (process.env['TRUST_PROXY'] === 'true') {
+    const hops = Math.max(1, Math.floor(Number(process.env['TRUST_PROXY_HOPS'] || 1)) || 1);
+    const forwarded = req.headers['x-forwarded-for'];
+    const entries = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded ?? '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean);
+    const client = entries[Math.max(0, entries.length - hops)];
+    if (client) return client;
+  }
+
+  return req.socket.remoteAddress ?? null;
+}
+
+export function setSessionCookie(res: ServerResponse, token: string, expiresAt: Date): void {
+  const attributes = [
+    `${SESSION_COOKIE_NAME}=${encodeURIComponent(token)}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Strict',
+    `Expires=${expiresAt.toUTCString()}`
+  ];
+
+  if (process.env['SESSION_COOKIE_SECURE'] === 'true') {
+    attributes.push('Secure');
+  }
+
+  res.setHeader('Set-Cookie', attributes.join('; '));
+}
+
+export function clearSessionCookie(res: ServerResponse): void {
+  res.setHeader('Set-Cookie', `${SESSION_COOKIE_NAME}=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0`);
+}
+
+export async function createContext({ req, res }: CreateHTTPContextOptions) {
+  const sessionToken = getSessionToken(req);
+  const user = sessionToken ? await resolveSession(sessionToken) : null;
+
+  return {
+    req,
+    res,
+    sessionToken,
+    user,
+    ip: getClientIp(req)
+  };
+}
+
+export type Context = Awaited<ReturnType<typeof createContext>>;
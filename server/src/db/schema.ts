@@ -1,19 +1,25 @@
-import { serial, text, pgTable, timestamp, integer, pgEnum } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, date, integer, pgEnum, boolean, jsonb, unique, uniqueIndex, doublePrecision } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
 
 // Enums
-export const roleEnum = pgEnum('role', ['admin', 'guru', 'siswa']);
-export const attendanceStatusEnum = pgEnum('attendance_status', ['hadir', 'izin', 'sakit', 'alpha']);
-export const requestStatusEnum = pgEnum('request_status', ['pending', 'approved', 'rejected']);
+export const roleEnum = pgEnum('role', ['admin', 'guru', 'siswa', 'orang_tua']);
+export const attendanceStatusEnum = pgEnum('attendance_status', ['hadir', 'terlambat', 'izin', 'sakit', 'alpha']);
+export const requestStatusEnum = pgEnum('request_status', ['pending', 'approved', 'rejected', 'cancelled', 'revision_requested', 'revoked']);
+export const jenisIzinEnum = pgEnum('jenis_izin', ['izin', 'sakit']);
+export const peranPersetujuanEnum = pgEnum('peran_persetujuan', ['wali_kelas', 'bk', 'kepala_sekolah']);
+export const lockoutScopeEnum = pgEnum('lockout_scope', ['identifier', 'ip']);
+export const lockoutEventEnum = pgEnum('lockout_event', ['locked', 'unlocked']);
+export const jenisKalenderEnum = pgEnum('jenis_kalender', ['libur_nasional', 'libur_sekolah', 'acara_sekolah', 'hari_masuk_pengganti']);
 
 // Users table
 export const usersTable = pgTable('users', {
   id: serial('id').primaryKey(),
-  username: text('username'), // Nullable for admin
+  username: text('username'), // Nullable for admin and orang_tua
   nip: text('nip'), // Nullable for guru
   nisn: text('nisn'), // Nullable for siswa
   password_hash: text('password_hash').notNull(),
   role: roleEnum('role').notNull(),
+  must_change_password: boolean('must_change_password').default(false).notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -50,6 +56,49 @@ export const guruTable = pgTable('guru', {
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Orang tua (parent / wali murid) table
+export const orangTuaTable = pgTable('orang_tua', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  nama: text('nama').notNull(),
+  no_hp: text('no_hp'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Orang tua - siswa link table; a parent may have many children and a child many parents
+export const orangTuaSiswaTable = pgTable('orang_tua_siswa', {
+  id: serial('id').primaryKey(),
+  orang_tua_id: integer('orang_tua_id').notNull().references(() => orangTuaTable.id, { onDelete: 'cascade' }),
+  siswa_id: integer('siswa_id').notNull().references(() => siswaTable.id, { onDelete: 'cascade' }),
+  hubungan: text('hubungan'), // Nullable, e.g. ayah, ibu, wali
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('orang_tua_siswa_orang_tua_id_siswa_id_unique').on(table.orang_tua_id, table.siswa_id)
+]);
+
+// Mata pelajaran (subject) table
+export const mataPelajaranTable = pgTable('mata_pelajaran', {
+  id: serial('id').primaryKey(),
+  kode: text('kode').notNull().unique(), // e.g. "MTK"
+  nama: text('nama').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Jadwal pelajaran table - one weekly timetable slot of a kelas
+export const jadwalPelajaranTable = pgTable('jadwal_pelajaran', {
+  id: serial('id').primaryKey(),
+  kelas_id: integer('kelas_id').notNull().references(() => kelasTable.id, { onDelete: 'cascade' }),
+  mata_pelajaran_id: integer('mata_pelajaran_id').notNull().references(() => mataPelajaranTable.id, { onDelete: 'cascade' }),
+  guru_id: integer('guru_id').notNull().references(() => guruTable.id, { onDelete: 'restrict' }),
+  hari: integer('hari').notNull(), // Day of week, 0 = Minggu
+  jam_mulai: text('jam_mulai').notNull(), // Time format HH:MM
+  jam_selesai: text('jam_selesai').notNull(), // Time format HH:MM, exclusive
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
 // Absensi table
 export const absensiTable = pgTable('absensi', {
   id: serial('id').primaryKey(),
@@ -58,27 +107,225 @@ export const absensiTable = pgTable('absensi', {
   kelas_id: integer('kelas_id').notNull().references(() => kelasTable.id, { onDelete: 'restrict' }),
   status: attendanceStatusEnum('status').notNull(),
   tanggal: timestamp('tanggal').notNull(),
+  // School day the record belongs to, in the school timezone; keys the one-record-per-day constraints
+  tanggal_hari: date('tanggal_hari', { mode: 'string' }).notNull(),
   waktu_masuk: text('waktu_masuk'), // Time format HH:MM:SS, nullable
   waktu_pulang: text('waktu_pulang'), // Time format HH:MM:SS, nullable
   keterangan: text('keterangan'), // Nullable
+  menit_terlambat: integer('menit_terlambat'), // Minutes after jam_masuk for terlambat check-ins, nullable
+  pulang_awal: boolean('pulang_awal').notNull().default(false), // Checked out before jam_pulang
+  // Set on per-lesson records; null marks the daily record that stats and reports count
+  jadwal_pelajaran_id: integer('jadwal_pelajaran_id').references(() => jadwalPelajaranTable.id, { onDelete: 'cascade' }),
+  // Device location reported at check-in and check-out, kept for audit; nullable
+  latitude_masuk: doublePrecision('latitude_masuk'),
+  longitude_masuk: doublePrecision('longitude_masuk'),
+  accuracy_masuk: doublePrecision('accuracy_masuk'), // Meters
+  latitude_pulang: doublePrecision('latitude_pulang'),
+  longitude_pulang: doublePrecision('longitude_pulang'),
+  accuracy_pulang: doublePrecision('accuracy_pulang'), // Meters
+  foto_masuk: text('foto_masuk'), // File storage key of the selfie taken at check-in, nullable
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
-});
+}, (table) => [
+  // One daily record per siswa per day, and at most one record per lesson per day
+  uniqueIndex('absensi_siswa_id_tanggal_hari_unique')
+    .on(table.siswa_id, table.tanggal_hari)
+    .where(sql`${table.jadwal_pelajaran_id} IS NULL`),
+  uniqueIndex('absensi_siswa_id_jadwal_pelajaran_id_tanggal_hari_unique')
+    .on(table.siswa_id, table.jadwal_pelajaran_id, table.tanggal_hari)
+]);
 
 // Pengajuan Izin table
 export const pengajuanIzinTable = pgTable('pengajuan_izin', {
   id: serial('id').primaryKey(),
   siswa_id: integer('siswa_id').notNull().references(() => siswaTable.id, { onDelete: 'cascade' }),
-  tanggal: timestamp('tanggal').notNull(),
+  // First and last day of the leave, compared by school day like kalender akademik entries
+  tanggal_mulai: timestamp('tanggal_mulai').notNull(),
+  tanggal_selesai: timestamp('tanggal_selesai').notNull(),
   alasan: text('alasan').notNull(),
   status: requestStatusEnum('status').notNull().default('pending'),
-  jenis: pgEnum('jenis_izin', ['izin', 'sakit'])('jenis').notNull(),
+  jenis: jenisIzinEnum('jenis').notNull(),
   reviewer_id: integer('reviewer_id').references(() => usersTable.id, { onDelete: 'set null' }), // Nullable
   reviewed_at: timestamp('reviewed_at'), // Nullable
+  catatan_reviewer: text('catatan_reviewer'), // Nullable; the reviewer's comment shown to the siswa, required for a revision
+  versi: integer('versi').default(1).notNull(), // Raised each time the request is edited or resubmitted
+  // Approvers of the current version in order, chosen from the approval rules when it was submitted
+  alur: jsonb('alur').$type<('wali_kelas' | 'bk' | 'kepala_sekolah')[]>().default(['wali_kelas']).notNull(),
+  langkah: integer('langkah').default(1).notNull(), // 1-based step of alur waiting for a decision
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Persetujuan izin table - the decision taken at each approval step of a pengajuan izin version
+export const persetujuanIzinTable = pgTable('persetujuan_izin', {
+  id: serial('id').primaryKey(),
+  pengajuan_izin_id: integer('pengajuan_izin_id').notNull().references(() => pengajuanIzinTable.id, { onDelete: 'cascade' }),
+  versi: integer('versi').notNull(),
+  langkah: integer('langkah').notNull(),
+  peran: peranPersetujuanEnum('peran').notNull(),
+  status: requestStatusEnum('status').notNull(), // approved, rejected or revision_requested
+  reviewer_id: integer('reviewer_id').references(() => usersTable.id, { onDelete: 'set null' }), // Nullable
+  catatan: text('catatan'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('persetujuan_izin_pengajuan_izin_id_versi_langkah_unique').on(table.pengajuan_izin_id, table.versi, table.langkah)
+]);
+
+// Pengajuan izin versi table - earlier versions of an edited or resubmitted pengajuan izin
+export const pengajuanIzinVersiTable = pgTable('pengajuan_izin_versi', {
+  id: serial('id').primaryKey(),
+  pengajuan_izin_id: integer('pengajuan_izin_id').notNull().references(() => pengajuanIzinTable.id, { onDelete: 'cascade' }),
+  versi: integer('versi').notNull(),
+  tanggal_mulai: timestamp('tanggal_mulai').notNull(),
+  tanggal_selesai: timestamp('tanggal_selesai').notNull(),
+  alasan: text('alasan').notNull(),
+  jenis: jenisIzinEnum('jenis').notNull(),
+  status: requestStatusEnum('status').notNull(), // Status the version had when it was replaced
+  reviewer_id: integer('reviewer_id').references(() => usersTable.id, { onDelete: 'set null' }), // Nullable
+  reviewed_at: timestamp('reviewed_at'), // Nullable
+  catatan_reviewer: text('catatan_reviewer'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull() // When the version was replaced
+}, (table) => [
+  unique('pengajuan_izin_versi_pengajuan_izin_id_versi_unique').on(table.pengajuan_izin_id, table.versi)
+]);
+
+// Pengajuan izin absensi table - daily records written when a pengajuan izin was approved,
+// with what each record held before so a revocation can put it back
+export const pengajuanIzinAbsensiTable = pgTable('pengajuan_izin_absensi', {
+  id: serial('id').primaryKey(),
+  pengajuan_izin_id: integer('pengajuan_izin_id').notNull().references(() => pengajuanIzinTable.id, { onDelete: 'cascade' }),
+  absensi_id: integer('absensi_id').notNull().references(() => absensiTable.id, { onDelete: 'cascade' }),
+  status_sebelum: attendanceStatusEnum('status_sebelum'), // Null when the approval created the record
+  keterangan_sebelum: text('keterangan_sebelum'), // Nullable
+  guru_id_sebelum: integer('guru_id_sebelum').references(() => guruTable.id, { onDelete: 'set null' }), // Nullable
+  menit_terlambat_sebelum: integer('menit_terlambat_sebelum'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('pengajuan_izin_absensi_pengajuan_izin_id_absensi_id_unique').on(table.pengajuan_izin_id, table.absensi_id)
+]);
+
+// Lampiran izin table - supporting documents of a pengajuan izin, such as a doctor's note
+export const lampiranIzinTable = pgTable('lampiran_izin', {
+  id: serial('id').primaryKey(),
+  pengajuan_izin_id: integer('pengajuan_izin_id').notNull().references(() => pengajuanIzinTable.id, { onDelete: 'cascade' }),
+  nama_file: text('nama_file').notNull(), // Name of the file on the uploader's device
+  mime_type: text('mime_type').notNull(), // Detected from the content, not the name
+  ukuran: integer('ukuran').notNull(), // Bytes
+  storage_key: text('storage_key').notNull(), // Key in the file storage
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Sessions table - one row per issued login session
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  token_hash: text('token_hash').notNull().unique(), // HMAC of the session token, never the token itself
+  expires_at: timestamp('expires_at').notNull(),
+  last_used_at: timestamp('last_used_at').defaultNow().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Password reset tokens table - one-time tokens issued by an admin
+export const passwordResetTokensTable = pgTable('password_reset_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  token_hash: text('token_hash').notNull().unique(), // SHA-256 of the reset token, never the token itself
+  created_by: integer('created_by').references(() => usersTable.id, { onDelete: 'set null' }), // Nullable
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'), // Nullable, set once the token has been redeemed
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Login attempts table - failed login counters when LOGIN_ATTEMPT_STORE=postgres
+export const loginAttemptsTable = pgTable('login_attempts', {
+  key: text('key').primaryKey(), // "identifier:<role>:<identifier>" or "ip:<address>"
+  failures: integer('failures').notNull().default(0),
+  lockouts: integer('lockouts').notNull().default(0), // Consecutive lockouts, drives the exponential backoff
+  locked_until: timestamp('locked_until'), // Nullable
+  last_failure_at: timestamp('last_failure_at').notNull()
+});
+
+// Lockout events table - lets admins see which accounts and addresses are being targeted
+export const lockoutEventsTable = pgTable('lockout_events', {
+  id: serial('id').primaryKey(),
+  event: lockoutEventEnum('event').notNull(),
+  scope: lockoutScopeEnum('scope').notNull(),
+  key: text('key').notNull(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'set null' }), // Nullable, unknown identifiers have no user
+  ip: text('ip'), // Nullable
+  failures: integer('failures').notNull(),
+  locked_until: timestamp('locked_until'), // Nullable
+  actor_id: integer('actor_id').references(() => usersTable.id, { onDelete: 'set null' }), // Nullable, admin who unlocked
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Audit log table - one row per successful mutation
+export const auditLogTable = pgTable('audit_log', {
+  id: serial('id').primaryKey(),
+  actor_id: integer('actor_id').references(() => usersTable.id, { onDelete: 'set null' }), // Nullable, e.g. for login
+  procedure: text('procedure').notNull(), // tRPC procedure name, e.g. "updateAbsensi"
+  entity: text('entity').notNull(), // Table name of the affected entity
+  entity_id: integer('entity_id'), // Nullable when the mutation has no single target
+  before: jsonb('before'), // Nullable, snapshot before the mutation
+  after: jsonb('after'), // Nullable, snapshot after the mutation
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Settings table - school-wide configuration managed by admins, one JSON value per key
+export const settingsTable = pgTable('settings', {
+  key: text('key').primaryKey(), // e.g. "geofence"
+  value: jsonb('value').notNull(),
+  updated_by: integer('updated_by').references(() => usersTable.id, { onDelete: 'set null' }), // Nullable
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Kalender akademik table - holidays, events and per-kelas exceptions to the regular school week
+export const kalenderAkademikTable = pgTable('kalender_akademik', {
+  id: serial('id').primaryKey(),
+  tanggal_mulai: timestamp('tanggal_mulai').notNull(),
+  tanggal_selesai: timestamp('tanggal_selesai').notNull(), // Inclusive, equal to tanggal_mulai for a single day
+  jenis: jenisKalenderEnum('jenis').notNull(),
+  keterangan: text('keterangan').notNull(), // e.g. "Hari Kemerdekaan", "Study tour"
+  hari_sekolah: boolean('hari_sekolah').notNull(), // Whether attendance is expected on these days
+  kelas_id: integer('kelas_id').references(() => kelasTable.id, { onDelete: 'cascade' }), // Nullable, null applies to every kelas
+  created_by: integer('created_by').references(() => usersTable.id, { onDelete: 'set null' }), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Perangkat table - card readers at the school gates, authenticated with their own API secret
+export const perangkatTable = pgTable('perangkat', {
+  id: serial('id').primaryKey(),
+  kode: text('kode').notNull().unique(), // Device id the reader sends, e.g. "GERBANG-UTARA-1"
+  nama: text('nama').notNull(),
+  lokasi: text('lokasi').notNull(), // e.g. "Gerbang utara"
+  secret_hash: text('secret_hash').notNull(), // SHA-256 of the API secret, never the secret itself
+  aktif: boolean('aktif').default(true).notNull(),
+  last_seen_at: timestamp('last_seen_at'), // Nullable until the reader first connects
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Kartu RFID table - RFID/NFC cards handed out to siswa; a siswa may hold more than one
+export const kartuRfidTable = pgTable('kartu_rfid', {
+  id: serial('id').primaryKey(),
+  uid: text('uid').notNull().unique(), // Uppercase hex without separators, e.g. "04A1B2C3"
+  siswa_id: integer('siswa_id').notNull().references(() => siswaTable.id, { onDelete: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// File ekspor table - generated reports waiting to be downloaded by the user who asked for them
+export const fileEksporTable = pgTable('file_ekspor', {
+  id: text('id').primaryKey(), // Random UUID, part of the download URL
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  nama_file: text('nama_file').notNull(),
+  mime_type: text('mime_type').notNull(),
+  ukuran: integer('ukuran').notNull(), // Bytes
+  storage_key: text('storage_key').notNull(), // Key in the file storage
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
 // Relations
 export const usersRelations = relations(usersTable, ({ one }) => ({
   siswa: one(siswaTable, {
@@ -89,6 +336,10 @@ export const usersRelations = relations(usersTable, ({ one }) => ({
     fields: [usersTable.id],
     references: [guruTable.user_id],
   }),
+  orangTua: one(orangTuaTable, {
+    fields: [usersTable.id],
+    references: [orangTuaTable.user_id],
+  }),
 }));
 
 export const siswaRelations = relations(siswaTable, ({ one, many }) => ({
@@ -102,6 +353,8 @@ export const siswaRelations = relations(siswaTable, ({ one, many }) => ({
   }),
   absensi: many(absensiTable),
   pengajuanIzin: many(pengajuanIzinTable),
+  orangTua: many(orangTuaSiswaTable),
+  kartuRfid: many(kartuRfidTable),
 }));
 
 export const guruRelations = relations(guruTable, ({ one, many }) => ({
@@ -111,6 +364,26 @@ export const guruRelations = relations(guruTable, ({ one, many }) => ({
   }),
   kelasWaliKelas: many(kelasTable),
   absensiVerified: many(absensiTable),
+  jadwalPelajaran: many(jadwalPelajaranTable),
+}));
+
+export const orangTuaRelations = relations(orangTuaTable, ({ one, many }) => ({
+  user: one(usersTable, {
+    fields: [orangTuaTable.user_id],
+    references: [usersTable.id],
+  }),
+  anak: many(orangTuaSiswaTable),
+}));
+
+export const orangTuaSiswaRelations = relations(orangTuaSiswaTable, ({ one }) => ({
+  orangTua: one(orangTuaTable, {
+    fields: [orangTuaSiswaTable.orang_tua_id],
+    references: [orangTuaTable.id],
+  }),
+  siswa: one(siswaTable, {
+    fields: [orangTuaSiswaTable.siswa_id],
+    references: [siswaTable.id],
+  }),
 }));
 
 export const kelasRelations = relations(kelasTable, ({ one, many }) => ({
@@ -120,6 +393,27 @@ export const kelasRelations = relations(kelasTable, ({ one, many }) => ({
   }),
   siswa: many(siswaTable),
   absensi: many(absensiTable),
+  jadwalPelajaran: many(jadwalPelajaranTable),
+}));
+
+export const mataPelajaranRelations = relations(mataPelajaranTable, ({ many }) => ({
+  jadwalPelajaran: many(jadwalPelajaranTable),
+}));
+
+export const jadwalPelajaranRelations = relations(jadwalPelajaranTable, ({ one, many }) => ({
+  kelas: one(kelasTable, {
+    fields: [jadwalPelajaranTable.kelas_id],
+    references: [kelasTable.id],
+  }),
+  mataPelajaran: one(mataPelajaranTable, {
+    fields: [jadwalPelajaranTable.mata_pelajaran_id],
+    references: [mataPelajaranTable.id],
+  }),
+  guru: one(guruTable, {
+    fields: [jadwalPelajaranTable.guru_id],
+    references: [guruTable.id],
+  }),
+  absensi: many(absensiTable),
 }));
 
 export const absensiRelations = relations(absensiTable, ({ one }) => ({
@@ -135,9 +429,59 @@ export const absensiRelations = relations(absensiTable, ({ one }) => ({
     fields: [absensiTable.kelas_id],
     references: [kelasTable.id],
   }),
+  jadwalPelajaran: one(jadwalPelajaranTable, {
+    fields: [absensiTable.jadwal_pelajaran_id],
+    references: [jadwalPelajaranTable.id],
+  }),
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const passwordResetTokensRelations = relations(passwordResetTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [passwordResetTokensTable.user_id],
+    references: [usersTable.id],
+  }),
 }));
 
-export const pengajuanIzinRelations = relations(pengajuanIzinTable, ({ one }) => ({
+export const lockoutEventsRelations = relations(lockoutEventsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [lockoutEventsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const auditLogRelations = relations(auditLogTable, ({ one }) => ({
+  actor: one(usersTable, {
+    fields: [auditLogTable.actor_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const settingsRelations = relations(settingsTable, ({ one }) => ({
+  updatedBy: one(usersTable, {
+    fields: [settingsTable.updated_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const kalenderAkademikRelations = relations(kalenderAkademikTable, ({ one }) => ({
+  kelas: one(kelasTable, {
+    fields: [kalenderAkademikTable.kelas_id],
+    references: [kelasTable.id],
+  }),
+  createdBy: one(usersTable, {
+    fields: [kalenderAkademikTable.created_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const pengajuanIzinRelations = relations(pengajuanIzinTable, ({ one, many }) => ({
   siswa: one(siswaTable, {
     fields: [pengajuanIzinTable.siswa_id],
     references: [siswaTable.id],
@@ -146,6 +490,60 @@ export const pengajuanIzinRelations = relations(pengajuanIzinTable, ({ one }) =>
     fields: [pengajuanIzinTable.reviewer_id],
     references: [usersTable.id],
   }),
+  lampiran: many(lampiranIzinTable),
+  versi: many(pengajuanIzinVersiTable),
+  absensi: many(pengajuanIzinAbsensiTable),
+  persetujuan: many(persetujuanIzinTable),
+}));
+
+export const persetujuanIzinRelations = relations(persetujuanIzinTable, ({ one }) => ({
+  pengajuanIzin: one(pengajuanIzinTable, {
+    fields: [persetujuanIzinTable.pengajuan_izin_id],
+    references: [pengajuanIzinTable.id],
+  }),
+  reviewer: one(usersTable, {
+    fields: [persetujuanIzinTable.reviewer_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const pengajuanIzinAbsensiRelations = relations(pengajuanIzinAbsensiTable, ({ one }) => ({
+  pengajuanIzin: one(pengajuanIzinTable, {
+    fields: [pengajuanIzinAbsensiTable.pengajuan_izin_id],
+    references: [pengajuanIzinTable.id],
+  }),
+  absensi: one(absensiTable, {
+    fields: [pengajuanIzinAbsensiTable.absensi_id],
+    references: [absensiTable.id],
+  }),
+}));
+
+export const pengajuanIzinVersiRelations = relations(pengajuanIzinVersiTable, ({ one }) => ({
+  pengajuanIzin: one(pengajuanIzinTable, {
+    fields: [pengajuanIzinVersiTable.pengajuan_izin_id],
+    references: [pengajuanIzinTable.id],
+  }),
+}));
+
+export const lampiranIzinRelations = relations(lampiranIzinTable, ({ one }) => ({
+  pengajuanIzin: one(pengajuanIzinTable, {
+    fields: [lampiranIzinTable.pengajuan_izin_id],
+    references: [pengajuanIzinTable.id],
+  }),
+}));
+
+export const kartuRfidRelations = relations(kartuRfidTable, ({ one }) => ({
+  siswa: one(siswaTable, {
+    fields: [kartuRfidTable.siswa_id],
+    references: [siswaTable.id],
+  }),
+}));
+
+export const fileEksporRelations = relations(fileEksporTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [fileEksporTable.user_id],
+    references: [usersTable.id],
+  }),
 }));
 
 // TypeScript types for table schemas
@@ -158,21 +556,93 @@ export type NewSiswa = typeof siswaTable.$inferInsert;
 export type Guru = typeof guruTable.$inferSelect;
 export type NewGuru = typeof guruTable.$inferInsert;
 
+export type OrangTua = typeof orangTuaTable.$inferSelect;
+export type NewOrangTua = typeof orangTuaTable.$inferInsert;
+
+export type OrangTuaSiswa = typeof orangTuaSiswaTable.$inferSelect;
+export type NewOrangTuaSiswa = typeof orangTuaSiswaTable.$inferInsert;
+
 export type Kelas = typeof kelasTable.$inferSelect;
 export type NewKelas = typeof kelasTable.$inferInsert;
 
+export type MataPelajaran = typeof mataPelajaranTable.$inferSelect;
+export type NewMataPelajaran = typeof mataPelajaranTable.$inferInsert;
+
+export type JadwalPelajaran = typeof jadwalPelajaranTable.$inferSelect;
+export type NewJadwalPelajaran = typeof jadwalPelajaranTable.$inferInsert;
+
 export type Absensi = typeof absensiTable.$inferSelect;
 export type NewAbsensi = typeof absensiTable.$inferInsert;
 
 export type PengajuanIzin = typeof pengajuanIzinTable.$inferSelect;
 export type NewPengajuanIzin = typeof pengajuanIzinTable.$inferInsert;
 
+export type PengajuanIzinVersi = typeof pengajuanIzinVersiTable.$inferSelect;
+export type NewPengajuanIzinVersi = typeof pengajuanIzinVersiTable.$inferInsert;
+
+export type PersetujuanIzin = typeof persetujuanIzinTable.$inferSelect;
+export type NewPersetujuanIzin = typeof persetujuanIzinTable.$inferInsert;
+
+export type PengajuanIzinAbsensi = typeof pengajuanIzinAbsensiTable.$inferSelect;
+export type NewPengajuanIzinAbsensi = typeof pengajuanIzinAbsensiTable.$inferInsert;
+
+export type LampiranIzin = typeof lampiranIzinTable.$inferSelect;
+export type NewLampiranIzin = typeof lampiranIzinTable.$inferInsert;
+
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type PasswordResetToken = typeof passwordResetTokensTable.$inferSelect;
+export type NewPasswordResetToken = typeof passwordResetTokensTable.$inferInsert;
+
+export type LoginAttempt = typeof loginAttemptsTable.$inferSelect;
+export type NewLoginAttempt = typeof loginAttemptsTable.$inferInsert;
+
+export type LockoutEvent = typeof lockoutEventsTable.$inferSelect;
+export type NewLockoutEvent = typeof lockoutEventsTable.$inferInsert;
+
+export type AuditLog = typeof auditLogTable.$inferSelect;
+export type NewAuditLog = typeof auditLogTable.$inferInsert;
+
+export type Setting = typeof settingsTable.$inferSelect;
+export type NewSetting = typeof settingsTable.$inferInsert;
+
+export type KalenderAkademik = typeof kalenderAkademikTable.$inferSelect;
+export type NewKalenderAkademik = typeof kalenderAkademikTable.$inferInsert;
+
+export type Perangkat = typeof perangkatTable.$inferSelect;
+export type NewPerangkat = typeof perangkatTable.$inferInsert;
+
+export type KartuRfid = typeof kartuRfidTable.$inferSelect;
+export type NewKartuRfid = typeof kartuRfidTable.$inferInsert;
+
+export type FileEkspor = typeof fileEksporTable.$inferSelect;
+export type NewFileEkspor = typeof fileEksporTable.$inferInsert;
+
 // Export all tables for proper query building
 export const tables = {
   users: usersTable,
   siswa: siswaTable,
   guru: guruTable,
+  orangTua: orangTuaTable,
+  orangTuaSiswa: orangTuaSiswaTable,
   kelas: kelasTable,
+  mataPelajaran: mataPelajaranTable,
+  jadwalPelajaran: jadwalPelajaranTable,
   absensi: absensiTable,
-  pengajuanIzin: pengajuanIzinTable
+  pengajuanIzin: pengajuanIzinTable,
+  pengajuanIzinVersi: pengajuanIzinVersiTable,
+  persetujuanIzin: persetujuanIzinTable,
+  pengajuanIzinAbsensi: pengajuanIzinAbsensiTable,
+  lampiranIzin: lampiranIzinTable,
+  sessions: sessionsTable,
+  passwordResetTokens: passwordResetTokensTable,
+  loginAttempts: loginAttemptsTable,
+  lockoutEvents: lockoutEventsTable,
+  auditLog: auditLogTable,
+  settings: settingsTable,
+  kalenderAkademik: kalenderAkademikTable,
+  perangkat: perangkatTable,
+  kartuRfid: kartuRfidTable,
+  fileEkspor: fileEksporTable
 };
\ No newline at end of file
@@ -0,0 +1,48 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { getSessionToken } from './context';
+import { resolveSession } from './handlers/session';
+import { getFileEkspor } from './handlers/file_ekspor';
+
+// /exports/<id>/<file name>; the name is only there so browsers save the file under it
+const EXPORT_PATH = /^\/exports\/([0-9a-f-]{36})\/[^/]+$/;
+
+function sendStatus(res: ServerResponse, statusCode: number, message: string): void {
+  res.statusCode = statusCode;
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+  res.end(message);
+}
+
+// Serves generated reports to the user who generated them, authenticated like tRPC calls.
+// Returns false for other requests so they go on to the tRPC handler.
+export async function handleExportDownload(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+  const match = EXPORT_PATH.exec(new URL(req.url ?? '/', 'http://localhost').pathname);
+  if (!match || req.method !== 'GET') return false;
+
+  try {
+    const token = getSessionToken(req);
+    const user = token ? await resolveSession(token) : null;
+    if (!user) {
+      sendStatus(res, 401, 'Silakan login terlebih dahulu');
+      return true;
+    }
+
+    // Someone else's file looks the same as a missing one
+    const file = await getFileEkspor(match[1], user.id);
+    if (!file) {
+      sendStatus(res, 404, 'File tidak ditemukan atau sudah kedaluwarsa');
+      return true;
+    }
+
+    const asciiName = file.nama_file.replace(/[^\w.-]/g, '_');
+    res.statusCode = 200;
+    res.setHeader('Content-Type', file.mime_type);
+    res.setHeader('Content-Length', file.data.length);
+    res.setHeader('Content-Disposition', `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(file.nama_file)}`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.end(file.data);
+  } catch (error) {
+    console.error('Export download failed:', error);
+    sendStatus(res, 500, 'Gagal mengunduh file');
+  }
+  return true;
+}
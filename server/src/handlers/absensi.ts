@@ -1,14 +1,105 @@
 import { db } from '../db';
-import { absensiTable, siswaTable, kelasTable, guruTable } from '../db/schema';
+import { absensiTable, siswaTable, kelasTable, guruTable, jadwalPelajaranTable } from '../db/schema';
 import { 
     type CreateAbsensiInput, 
     type UpdateAbsensiInput, 
+    type SubmitKelasAbsensiInput,
+    type KelasAbsensiResult,
     type AbsenMasukInput,
     type AbsenPulangInput,
+    type CheckInLocation,
     type GetAbsensiHistoryInput,
-    type Absensi 
+    type GetAbsensiPelajaranInput,
+    type Absensi,
+    type Siswa
 } from '../schema';
-import { eq, and, gte, lte, desc, sql } from 'drizzle-orm';
+import { eq, and, gte, lte, asc, desc, inArray, notInArray, isNull, sql } from 'drizzle-orm';
+import { type PgUpdateSetSource } from 'drizzle-orm/pg-core';
+import { verifyQrTokenForKelas } from './qr_token';
+import { getGeofence, getSchoolHours, getDailyStatusRule, resolveSchoolTimezone } from './settings';
+import { getJadwalPelajaranById } from './jadwal_pelajaran';
+import { deriveDailyStatus, DEFAULT_ATURAN_STATUS_HARIAN } from '../utils/daily_status';
+import { assertInsideGeofence } from '../utils/geofence';
+import { evaluateCheckIn, isEarlyLeave } from '../utils/school_hours';
+import { isSchoolDayForKelas, countSchoolDaysForKelas } from './kalender_akademik';
+import { CheckInError } from '../utils/check_in_error';
+import { saveFotoMasuk, deleteFoto } from './foto_absensi';
+import { startOfDay, toDateKey, toTimeOfDay } from '../utils/school_date';
+
+// A siswa proves presence by scanning the kelas or gate QR code, or with a location inside the school geofence
+async function verifyPresence(input: AbsenMasukInput | AbsenPulangInput, kelasId: number): Promise<void> {
+    if (input.qr_token) {
+        verifyQrTokenForKelas(input.qr_token, kelasId);
+    } else if (input.location) {
+        assertInsideGeofence(await getGeofence(), input.location);
+    } else {
+        throw new CheckInError('PROOF_REQUIRED', 'A QR token or location is required');
+    }
+}
+
+// School day of an instant, the value of tanggal_hari
+async function attendanceDay(tanggal: Date): Promise<string> {
+    return toDateKey(tanggal, await resolveSchoolTimezone());
+}
+
+// ON CONFLICT target matching the one-daily-record-per-day index, for inserts that should update instead
+export const dailyAbsensiConflict = {
+    target: [absensiTable.siswa_id, absensiTable.tanggal_hari],
+    targetWhere: isNull(absensiTable.jadwal_pelajaran_id)
+};
+
+// Statuses that record the siswa as absent for the whole day; check-ins and lesson records must not overwrite them
+const EXCUSED_STATUSES: Absensi['status'][] = ['izin', 'sakit', 'alpha'];
+
+// Rewrites the daily record of a siswa from their lesson records of that day, following the configured rule
+async function syncDailyAbsensi(siswaId: number, kelasId: number, tanggalHari: string): Promise<void> {
+    const lessons = await db.select({
+        status: absensiTable.status,
+        jam_mulai: jadwalPelajaranTable.jam_mulai
+    })
+        .from(absensiTable)
+        .innerJoin(jadwalPelajaranTable, eq(absensiTable.jadwal_pelajaran_id, jadwalPelajaranTable.id))
+        .where(and(
+            eq(absensiTable.siswa_id, siswaId),
+            eq(absensiTable.tanggal_hari, tanggalHari)
+        ))
+        .execute();
+
+    const rule = await getDailyStatusRule();
+    const status = deriveDailyStatus(rule?.aturan ?? DEFAULT_ATURAN_STATUS_HARIAN, lessons);
+    if (status === null) return;
+
+    const updateData: PgUpdateSetSource<typeof absensiTable> = {
+        status,
+        updated_at: new Date()
+    };
+    // Minutes late only describe a terlambat record
+    if (status !== 'terlambat') {
+        updateData.menit_terlambat = null;
+    }
+
+    // A recorded absence stays, and lateness recorded at check-in outranks being on time for the first lesson
+    const keep: Absensi['status'][] = status === 'hadir'
+        ? [...EXCUSED_STATUSES, 'hadir', 'terlambat']
+        : [...EXCUSED_STATUSES, status];
+
+    // One statement, so lesson records saved at the same time meet on the daily record instead of racing to create it
+    await db.insert(absensiTable)
+        .values({
+            siswa_id: siswaId,
+            guru_id: null,
+            kelas_id: kelasId,
+            status,
+            tanggal: startOfDay(tanggalHari, await resolveSchoolTimezone()),
+            tanggal_hari: tanggalHari
+        })
+        .onConflictDoUpdate({
+            ...dailyAbsensiConflict,
+            set: updateData,
+            setWhere: notInArray(absensiTable.status, keep)
+        })
+        .execute();
+}
 
 export async function createAbsensi(input: CreateAbsensiInput): Promise<Absensi> {
     try {
@@ -44,6 +135,34 @@ export async function createAbsensi(input: CreateAbsensiInput): Promise<Absensi>
             }
         }
 
+        const jadwalPelajaranId = input.jadwal_pelajaran_id ?? null;
+        if (jadwalPelajaranId !== null) {
+            const jadwal = await getJadwalPelajaranById(jadwalPelajaranId);
+            if (!jadwal) {
+                throw new Error('Jadwal pelajaran not found');
+            }
+
+            if (jadwal.kelas_id !== input.kelas_id || siswa[0].kelas_id !== jadwal.kelas_id) {
+                throw new Error('Siswa is not in the kelas of the jadwal pelajaran');
+            }
+        }
+
+        const updateData: PgUpdateSetSource<typeof absensiTable> = {
+            guru_id: input.guru_id,
+            kelas_id: input.kelas_id,
+            status: input.status,
+            // Times already captured at check-in survive a record that does not carry them
+            waktu_masuk: sql`coalesce(excluded.waktu_masuk, ${absensiTable.waktu_masuk})`,
+            waktu_pulang: sql`coalesce(excluded.waktu_pulang, ${absensiTable.waktu_pulang})`,
+            keterangan: input.keterangan,
+            updated_at: new Date()
+        };
+        // Minutes late only describe a terlambat record
+        if (input.status !== 'terlambat') {
+            updateData.menit_terlambat = null;
+        }
+
+        // A second record for the same day, or the same lesson of the day, replaces the first
         const result = await db.insert(absensiTable)
             .values({
                 siswa_id: input.siswa_id,
@@ -51,13 +170,22 @@ export async function createAbsensi(input: CreateAbsensiInput): Promise<Absensi>
                 kelas_id: input.kelas_id,
                 status: input.status,
                 tanggal: input.tanggal,
+                tanggal_hari: await attendanceDay(input.tanggal),
                 waktu_masuk: input.waktu_masuk,
                 waktu_pulang: input.waktu_pulang,
-                keterangan: input.keterangan
+                keterangan: input.keterangan,
+                jadwal_pelajaran_id: jadwalPelajaranId
             })
+            .onConflictDoUpdate(jadwalPelajaranId === null
+                ? { ...dailyAbsensiConflict, set: updateData }
+                : { target: [absensiTable.siswa_id, absensiTable.jadwal_pelajaran_id, absensiTable.tanggal_hari], set: updateData })
             .returning()
             .execute();
 
+        if (jadwalPelajaranId !== null) {
+            await syncDailyAbsensi(input.siswa_id, input.kelas_id, result[0].tanggal_hari);
+        }
+
         return result[0];
     } catch (error) {
         console.error('Create absensi failed:', error);
@@ -83,6 +211,10 @@ export async function updateAbsensi(input: UpdateAbsensiInput): Promise<Absensi>
 
         if (input.status !== undefined) {
             updateData.status = input.status;
+            // Minutes late only describe a terlambat record
+            if (input.status !== 'terlambat') {
+                updateData.menit_terlambat = null;
+            }
         }
         if (input.waktu_masuk !== undefined) {
             updateData.waktu_masuk = input.waktu_masuk;
@@ -100,6 +232,10 @@ export async function updateAbsensi(input: UpdateAbsensiInput): Promise<Absensi>
             .returning()
             .execute();
 
+        if (result[0].jadwal_pelajaran_id !== null) {
+            await syncDailyAbsensi(result[0].siswa_id, result[0].kelas_id, result[0].tanggal_hari);
+        }
+
         return result[0];
     } catch (error) {
         console.error('Update absensi failed:', error);
@@ -107,115 +243,303 @@ export async function updateAbsensi(input: UpdateAbsensiInput): Promise<Absensi>
     }
 }
 
-export async function absenMasuk(input: AbsenMasukInput): Promise<Absensi> {
+// Records the daily attendance of a kelas in one go: entries for siswa outside the kelas are
+// rejected, the rest update the existing daily record of the day or create one, all or nothing
+export async function submitKelasAbsensi(input: SubmitKelasAbsensiInput): Promise<KelasAbsensiResult[]> {
     try {
-        // Get siswa details to get kelas_id
-        const siswa = await db.select()
-            .from(siswaTable)
-            .where(eq(siswaTable.id, input.siswa_id))
+        const kelas = await db.select()
+            .from(kelasTable)
+            .where(eq(kelasTable.id, input.kelas_id))
             .execute();
-        
-        if (siswa.length === 0) {
-            throw new Error('Siswa not found');
+
+        if (kelas.length === 0) {
+            throw new Error('Kelas not found');
         }
 
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        const tomorrow = new Date(today);
-        tomorrow.setDate(tomorrow.getDate() + 1);
+        if (input.guru_id) {
+            const guru = await db.select()
+                .from(guruTable)
+                .where(eq(guruTable.id, input.guru_id))
+                .execute();
 
-        // Check if absensi already exists for today
-        const existingAbsensi = await db.select()
-            .from(absensiTable)
-            .where(
-                and(
-                    eq(absensiTable.siswa_id, input.siswa_id),
-                    gte(absensiTable.tanggal, today),
-                    lte(absensiTable.tanggal, tomorrow)
-                )
-            )
+            if (guru.length === 0) {
+                throw new Error('Guru not found');
+            }
+        }
+
+        const siswaIds = input.entries.map(entry => entry.siswa_id);
+        const members = await db.select({ id: siswaTable.id })
+            .from(siswaTable)
+            .where(and(inArray(siswaTable.id, siswaIds), eq(siswaTable.kelas_id, input.kelas_id)))
             .execute();
+        const memberIds = new Set(members.map(siswa => siswa.id));
 
-        const currentTime = new Date().toTimeString().slice(0, 8); // HH:MM:SS format
-
-        if (existingAbsensi.length > 0) {
-            // Update existing absensi with waktu_masuk
-            const result = await db.update(absensiTable)
-                .set({
-                    waktu_masuk: currentTime,
-                    status: 'hadir',
-                    updated_at: new Date()
-                })
-                .where(eq(absensiTable.id, existingAbsensi[0].id))
-                .returning()
-                .execute();
+        const tanggalHari = await attendanceDay(input.tanggal);
 
-            return result[0];
-        } else {
-            // Create new absensi entry
-            const result = await db.insert(absensiTable)
-                .values({
-                    siswa_id: input.siswa_id,
-                    guru_id: null,
-                    kelas_id: siswa[0].kelas_id,
-                    status: 'hadir',
-                    tanggal: new Date(),
-                    waktu_masuk: currentTime,
-                    waktu_pulang: null,
-                    keterangan: null
-                })
-                .returning()
+        return await db.transaction(async (tx) => {
+            // Two sheets submitted for the same kelas at once must not both create a record
+            await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('absensi_kelas'), ${input.kelas_id})`);
+
+            const existing = memberIds.size === 0 ? [] : await tx.select()
+                .from(absensiTable)
+                .where(and(
+                    inArray(absensiTable.siswa_id, [...memberIds]),
+                    isNull(absensiTable.jadwal_pelajaran_id),
+                    eq(absensiTable.tanggal_hari, tanggalHari)
+                ))
                 .execute();
 
-            return result[0];
-        }
+            const results: KelasAbsensiResult[] = [];
+            for (const entry of input.entries) {
+                if (!memberIds.has(entry.siswa_id)) {
+                    results.push({ siswa_id: entry.siswa_id, hasil: 'ditolak', absensi: null, alasan: 'Siswa is not in the kelas' });
+                    continue;
+                }
+
+                const record = existing.find(row => row.siswa_id === entry.siswa_id);
+                if (record) {
+                    const [updated] = await tx.update(absensiTable)
+                        .set({
+                            status: entry.status,
+                            keterangan: entry.keterangan,
+                            guru_id: input.guru_id,
+                            // Minutes late only describe a terlambat record
+                            menit_terlambat: entry.status === 'terlambat' ? record.menit_terlambat : null,
+                            updated_at: new Date()
+                        })
+                        .where(eq(absensiTable.id, record.id))
+                        .returning()
+                        .execute();
+                    results.push({ siswa_id: entry.siswa_id, hasil: 'diperbarui', absensi: updated, alasan: null });
+                } else {
+                    // A check-in or auto-alpha run may have created the record since it was read;
+                    // the sheet then updates that record like the branch above
+                    const [created] = await tx.insert(absensiTable)
+                        .values({
+                            siswa_id: entry.siswa_id,
+                            guru_id: input.guru_id,
+                            kelas_id: input.kelas_id,
+                            status: entry.status,
+                            tanggal: input.tanggal,
+                            tanggal_hari: tanggalHari,
+                            keterangan: entry.keterangan
+                        })
+                        .onConflictDoUpdate({
+                            ...dailyAbsensiConflict,
+                            set: {
+                                status: entry.status,
+                                keterangan: entry.keterangan,
+                                guru_id: input.guru_id,
+                                ...(entry.status === 'terlambat' ? {} : { menit_terlambat: null }),
+                                updated_at: new Date()
+                            }
+                        })
+                        .returning()
+                        .execute();
+                    const hasil = created.updated_at.getTime() === created.created_at.getTime() ? 'dibuat' : 'diperbarui';
+                    results.push({ siswa_id: entry.siswa_id, hasil, absensi: created, alasan: null });
+                }
+            }
+
+            return results;
+        });
     } catch (error) {
-        console.error('Absen masuk failed:', error);
+        console.error('Submit kelas absensi failed:', error);
         throw error;
     }
 }
 
-export async function absenPulang(input: AbsenPulangInput): Promise<Absensi> {
-    try {
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        const tomorrow = new Date(today);
-        tomorrow.setDate(tomorrow.getDate() + 1);
+// A day can only be checked into once, and not after it was recorded as an absence
+function assertCanCheckIn(daily: Absensi): void {
+    if (daily.waktu_masuk !== null) {
+        throw new CheckInError('ALREADY_CHECKED_IN', 'Already checked in today');
+    }
+    if (EXCUSED_STATUSES.includes(daily.status)) {
+        throw new CheckInError('ABSENCE_RECORDED', `Today is already recorded as ${daily.status}`);
+    }
+}
 
-        // Find today's absensi entry
-        const existingAbsensi = await db.select()
-            .from(absensiTable)
-            .where(
-                and(
-                    eq(absensiTable.siswa_id, input.siswa_id),
-                    gte(absensiTable.tanggal, today),
-                    lte(absensiTable.tanggal, tomorrow)
-                )
-            )
-            .execute();
+// Proves the siswa is at school before a check-in or check-out is recorded
+type PresenceCheck = (kelasId: number) => Promise<void>;
+
+async function recordAbsenMasuk(siswaId: number, location: CheckInLocation | undefined, foto: string | undefined, checkPresence: PresenceCheck): Promise<Absensi> {
+    // Get siswa details to get kelas_id
+    const siswa = await db.select()
+        .from(siswaTable)
+        .where(eq(siswaTable.id, siswaId))
+        .execute();
+    
+    if (siswa.length === 0) {
+        throw new Error('Siswa not found');
+    }
 
-        if (existingAbsensi.length === 0) {
-            throw new Error('No absensi entry found for today. Please absen masuk first.');
-        }
+    if (!await isSchoolDayForKelas(new Date(), siswa[0].kelas_id)) {
+        throw new CheckInError('NOT_SCHOOL_DAY', 'Today is not a school day');
+    }
 
-        const currentTime = new Date().toTimeString().slice(0, 8); // HH:MM:SS format
+    await checkPresence(siswa[0].kelas_id);
+
+    const now = new Date();
+    const timezone = await resolveSchoolTimezone();
+    const tanggalHari = toDateKey(now, timezone);
+
+    const existing = await db.select()
+        .from(absensiTable)
+        .where(and(
+            eq(absensiTable.siswa_id, siswaId),
+            isNull(absensiTable.jadwal_pelajaran_id),
+            eq(absensiTable.tanggal_hari, tanggalHari)
+        ))
+        .execute();
+    if (existing.length > 0) {
+        assertCanCheckIn(existing[0]);
+    }
 
-        const result = await db.update(absensiTable)
-            .set({
-                waktu_pulang: currentTime,
-                updated_at: new Date()
+    const { status, menit_terlambat } = evaluateCheckIn(await getSchoolHours(), now, timezone);
+
+    const checkIn = {
+        status,
+        waktu_masuk: toTimeOfDay(now, timezone),
+        menit_terlambat,
+        latitude_masuk: location?.latitude ?? null,
+        longitude_masuk: location?.longitude ?? null,
+        accuracy_masuk: location?.accuracy ?? null,
+        ...(foto ? { foto_masuk: await saveFotoMasuk(siswaId, tanggalHari, foto) } : {})
+    };
+
+    // A record already made for today without a check-in (e.g. a guru marking hadir) takes the
+    // check-in instead of getting a twin; the conditions repeat the check above for concurrent taps.
+    // The selfie is already stored, so a failed write must not leave it behind.
+    let result: typeof absensiTable.$inferSelect[];
+    try {
+        result = await db.insert(absensiTable)
+            .values({
+                siswa_id: siswaId,
+                guru_id: null,
+                kelas_id: siswa[0].kelas_id,
+                tanggal: now,
+                tanggal_hari: tanggalHari,
+                waktu_pulang: null,
+                keterangan: null,
+                ...checkIn
+            })
+            .onConflictDoUpdate({
+                ...dailyAbsensiConflict,
+                set: { ...checkIn, updated_at: new Date() },
+                setWhere: and(
+                    isNull(absensiTable.waktu_masuk),
+                    notInArray(absensiTable.status, EXCUSED_STATUSES)
+                )
             })
-            .where(eq(absensiTable.id, existingAbsensi[0].id))
             .returning()
             .execute();
+    } catch (error) {
+        if (checkIn.foto_masuk) await deleteFoto(checkIn.foto_masuk);
+        throw error;
+    }
 
-        return result[0];
+    if (result.length === 0) {
+        if (checkIn.foto_masuk) await deleteFoto(checkIn.foto_masuk);
+        const [current] = await db.select()
+            .from(absensiTable)
+            .where(and(
+                eq(absensiTable.siswa_id, siswaId),
+                isNull(absensiTable.jadwal_pelajaran_id),
+                eq(absensiTable.tanggal_hari, tanggalHari)
+            ))
+            .execute();
+        assertCanCheckIn(current);
+    }
+
+    return result[0];
+}
+
+async function recordAbsenPulang(siswaId: number, location: CheckInLocation | undefined, checkPresence: PresenceCheck): Promise<Absensi> {
+    const siswa = await db.select()
+        .from(siswaTable)
+        .where(eq(siswaTable.id, siswaId))
+        .execute();
+
+    if (siswa.length === 0) {
+        throw new Error('Siswa not found');
+    }
+
+    await checkPresence(siswa[0].kelas_id);
+
+    const now = new Date();
+    const timezone = await resolveSchoolTimezone();
+
+    // Find today's absensi entry
+    const existingAbsensi = await db.select()
+        .from(absensiTable)
+        .where(
+            and(
+                eq(absensiTable.siswa_id, siswaId),
+                isNull(absensiTable.jadwal_pelajaran_id),
+                eq(absensiTable.tanggal_hari, toDateKey(now, timezone))
+            )
+        )
+        .execute();
+
+    if (existingAbsensi.length === 0) {
+        throw new Error('No absensi entry found for today. Please absen masuk first.');
+    }
+
+    const result = await db.update(absensiTable)
+        .set({
+            waktu_pulang: toTimeOfDay(now, timezone),
+            pulang_awal: isEarlyLeave(await getSchoolHours(), now, timezone),
+            latitude_pulang: location?.latitude ?? null,
+            longitude_pulang: location?.longitude ?? null,
+            accuracy_pulang: location?.accuracy ?? null,
+            updated_at: new Date()
+        })
+        .where(eq(absensiTable.id, existingAbsensi[0].id))
+        .returning()
+        .execute();
+
+    return result[0];
+}
+
+export async function absenMasuk(input: AbsenMasukInput): Promise<Absensi> {
+    try {
+        return await recordAbsenMasuk(input.siswa_id, input.location, input.foto, kelasId => verifyPresence(input, kelasId));
+    } catch (error) {
+        console.error('Absen masuk failed:', error);
+        throw error;
+    }
+}
+
+export async function absenPulang(input: AbsenPulangInput): Promise<Absensi> {
+    try {
+        return await recordAbsenPulang(input.siswa_id, input.location, kelasId => verifyPresence(input, kelasId));
     } catch (error) {
         console.error('Absen pulang failed:', error);
         throw error;
     }
 }
 
+// A registered card reader has already vouched that the siswa is at the gate
+const presentAtReader: PresenceCheck = async () => {};
+
+export async function absenMasukPerangkat(siswaId: number): Promise<Absensi> {
+    try {
+        return await recordAbsenMasuk(siswaId, undefined, undefined, presentAtReader);
+    } catch (error) {
+        console.error('Absen masuk from perangkat failed:', error);
+        throw error;
+    }
+}
+
+export async function absenPulangPerangkat(siswaId: number): Promise<Absensi> {
+    try {
+        return await recordAbsenPulang(siswaId, undefined, presentAtReader);
+    } catch (error) {
+        console.error('Absen pulang from perangkat failed:', error);
+        throw error;
+    }
+}
+
 export async function getAbsensiHistory(input: GetAbsensiHistoryInput): Promise<Absensi[]> {
     try {
         // Start with base query
@@ -232,12 +556,17 @@ export async function getAbsensiHistory(input: GetAbsensiHistoryInput): Promise<
             conditions.push(eq(absensiTable.kelas_id, input.kelas_id));
         }
 
+        conditions.push(input.jadwal_pelajaran_id !== undefined
+            ? eq(absensiTable.jadwal_pelajaran_id, input.jadwal_pelajaran_id)
+            : isNull(absensiTable.jadwal_pelajaran_id));
+
+        // The period covers whole school days, so records are matched by their day rather than instant
         if (input.start_date !== undefined) {
-            conditions.push(gte(absensiTable.tanggal, input.start_date));
+            conditions.push(gte(absensiTable.tanggal_hari, await attendanceDay(input.start_date)));
         }
 
         if (input.end_date !== undefined) {
-            conditions.push(lte(absensiTable.tanggal, input.end_date));
+            conditions.push(lte(absensiTable.tanggal_hari, await attendanceDay(input.end_date)));
         }
 
         // Apply conditions to query
@@ -252,7 +581,7 @@ export async function getAbsensiHistory(input: GetAbsensiHistoryInput): Promise<
 
         // Apply ordering and pagination
         const results = await query
-            .orderBy(desc(absensiTable.tanggal))
+            .orderBy(desc(absensiTable.tanggal_hari), desc(absensiTable.tanggal))
             .limit(input.limit)
             .offset(input.offset)
             .execute();
@@ -264,20 +593,37 @@ export async function getAbsensiHistory(input: GetAbsensiHistoryInput): Promise<
     }
 }
 
+// Daily records of the given siswa on the school day of tanggal
+export async function getDailyAbsensiBySiswa(siswaIds: number[], tanggal: Date): Promise<Absensi[]> {
+    try {
+        if (siswaIds.length === 0) return [];
+
+        return await db.select()
+            .from(absensiTable)
+            .where(and(
+                inArray(absensiTable.siswa_id, siswaIds),
+                isNull(absensiTable.jadwal_pelajaran_id),
+                eq(absensiTable.tanggal_hari, await attendanceDay(tanggal))
+            ))
+            .orderBy(asc(absensiTable.siswa_id))
+            .execute();
+    } catch (error) {
+        console.error('Get daily absensi failed:', error);
+        throw error;
+    }
+}
+
 export async function getTodayAbsensi(siswaId?: number, kelasId?: number): Promise<Absensi[]> {
     try {
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        const tomorrow = new Date(today);
-        tomorrow.setDate(tomorrow.getDate() + 1);
+        const today = await attendanceDay(new Date());
 
         // Start with base query
         const baseQuery = db.select().from(absensiTable);
 
-        // Build conditions array - always include date range
+        // Build conditions array - always today's school day, daily records only
         const conditions = [
-            gte(absensiTable.tanggal, today),
-            lte(absensiTable.tanggal, tomorrow)
+            isNull(absensiTable.jadwal_pelajaran_id),
+            eq(absensiTable.tanggal_hari, today)
         ];
 
         if (siswaId !== undefined) {
@@ -303,9 +649,12 @@ export async function getTodayAbsensi(siswaId?: number, kelasId?: number): Promi
 
 export async function getAbsensiStats(kelasId?: number, startDate?: Date, endDate?: Date): Promise<{
     hadir: number;
+    terlambat: number;
     izin: number;
     sakit: number;
     alpha: number;
+    pulang_awal: number;
+    hari_efektif: number | null;
 }> {
     try {
         // Start with base query for stats
@@ -314,42 +663,47 @@ export async function getAbsensiStats(kelasId?: number, startDate?: Date, endDat
             count: sql<number>`count(*)::int`
         }).from(absensiTable);
 
-        // Build conditions array
-        const conditions = [];
+        // Build conditions array; lesson records are already summed up in the daily record
+        const conditions = [isNull(absensiTable.jadwal_pelajaran_id)];
 
         if (kelasId !== undefined) {
             conditions.push(eq(absensiTable.kelas_id, kelasId));
         }
 
         if (startDate !== undefined) {
-            conditions.push(gte(absensiTable.tanggal, startDate));
+            conditions.push(gte(absensiTable.tanggal_hari, await attendanceDay(startDate)));
         }
 
         if (endDate !== undefined) {
-            conditions.push(lte(absensiTable.tanggal, endDate));
+            conditions.push(lte(absensiTable.tanggal_hari, await attendanceDay(endDate)));
         }
 
-        // Apply conditions to query
-        let query;
-        if (conditions.length === 0) {
-            query = baseQuery;
-        } else if (conditions.length === 1) {
-            query = baseQuery.where(conditions[0]);
-        } else {
-            query = baseQuery.where(and(...conditions));
-        }
+        const where = and(...conditions);
 
         // Execute query with grouping
-        const results = await query
+        const results = await baseQuery
+            .where(where)
             .groupBy(absensiTable.status)
             .execute();
 
+        // Early leaves are counted across statuses
+        const [earlyLeaves] = await db.select({ count: sql<number>`count(*)::int` })
+            .from(absensiTable)
+            .where(and(where, eq(absensiTable.pulang_awal, true)))
+            .execute();
+
         // Initialize stats
         const stats = {
             hadir: 0,
+            terlambat: 0,
             izin: 0,
             sakit: 0,
-            alpha: 0
+            alpha: 0,
+            pulang_awal: earlyLeaves.count,
+            // School days in the period, only known when the period is bounded
+            hari_efektif: startDate !== undefined && endDate !== undefined
+                ? await countSchoolDaysForKelas(startDate, endDate, kelasId ?? null)
+                : null
         };
 
         // Populate stats from results
@@ -364,6 +718,20 @@ export async function getAbsensiStats(kelasId?: number, startDate?: Date, endDat
     }
 }
 
+export async function getAbsensiById(id: number): Promise<Absensi | null> {
+    try {
+        const result = await db.select()
+            .from(absensiTable)
+            .where(eq(absensiTable.id, id))
+            .execute();
+
+        return result.length > 0 ? result[0] : null;
+    } catch (error) {
+        console.error('Get absensi by id failed:', error);
+        throw error;
+    }
+}
+
 export async function deleteAbsensi(id: number): Promise<{ success: boolean; message: string }> {
     try {
         // Check if absensi exists
@@ -380,6 +748,14 @@ export async function deleteAbsensi(id: number): Promise<{ success: boolean; mes
             .where(eq(absensiTable.id, id))
             .execute();
 
+        if (existing[0].foto_masuk !== null) {
+            await deleteFoto(existing[0].foto_masuk);
+        }
+
+        if (existing[0].jadwal_pelajaran_id !== null) {
+            await syncDailyAbsensi(existing[0].siswa_id, existing[0].kelas_id, existing[0].tanggal_hari);
+        }
+
         return {
             success: true,
             message: 'Absensi deleted successfully'
@@ -388,4 +764,38 @@ export async function deleteAbsensi(id: number): Promise<{ success: boolean; mes
         console.error('Delete absensi failed:', error);
         throw error;
     }
-}
\ No newline at end of file
+}
+// Attendance sheet of one lesson: every siswa of the slot's kelas with their record for that day, if any
+export async function getAbsensiPelajaran(input: GetAbsensiPelajaranInput): Promise<{ siswa: Siswa; absensi: Absensi | null }[]> {
+    try {
+        const jadwal = await getJadwalPelajaranById(input.jadwal_pelajaran_id);
+        if (!jadwal) {
+            throw new Error('Jadwal pelajaran not found');
+        }
+
+        const tanggalHari = await attendanceDay(input.tanggal);
+
+        const [siswaList, records] = await Promise.all([
+            db.select()
+                .from(siswaTable)
+                .where(eq(siswaTable.kelas_id, jadwal.kelas_id))
+                .orderBy(asc(siswaTable.nama))
+                .execute(),
+            db.select()
+                .from(absensiTable)
+                .where(and(
+                    eq(absensiTable.jadwal_pelajaran_id, jadwal.id),
+                    eq(absensiTable.tanggal_hari, tanggalHari)
+                ))
+                .execute()
+        ]);
+
+        return siswaList.map(siswa => ({
+            siswa,
+            absensi: records.find(record => record.siswa_id === siswa.id) ?? null
+        }));
+    } catch (error) {
+        console.error('Get absensi pelajaran failed:', error);
+        throw error;
+    }
+}
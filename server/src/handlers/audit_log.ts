@@ -0,0 +1,56 @@
+import { db } from '../db';
+import { auditLogTable } from '../db/schema';
+import { type AuditLog, type GetAuditLogsInput } from '../schema';
+import { eq, and, gte, lte, desc, type SQL } from 'drizzle-orm';
+
+export async function recordAuditLog(entry: typeof auditLogTable.$inferInsert): Promise<AuditLog> {
+  try {
+    const result = await db.insert(auditLogTable)
+      .values(entry)
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Audit log recording failed:', error);
+    throw error;
+  }
+}
+
+export async function getAuditLogs(input: GetAuditLogsInput = {}): Promise<AuditLog[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.entity !== undefined) {
+      conditions.push(eq(auditLogTable.entity, input.entity));
+    }
+
+    if (input.entity_id !== undefined) {
+      conditions.push(eq(auditLogTable.entity_id, input.entity_id));
+    }
+
+    if (input.actor_id !== undefined) {
+      conditions.push(eq(auditLogTable.actor_id, input.actor_id));
+    }
+
+    if (input.start_date !== undefined) {
+      conditions.push(gte(auditLogTable.created_at, input.start_date));
+    }
+
+    if (input.end_date !== undefined) {
+      conditions.push(lte(auditLogTable.created_at, input.end_date));
+    }
+
+    const results = await db.select()
+      .from(auditLogTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLogTable.created_at), desc(auditLogTable.id))
+      .limit(input.limit ?? 100)
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Get audit logs failed:', error);
+    throw error;
+  }
+}
@@ -1,13 +1,15 @@
 import { db } from '../db';
-import { usersTable, siswaTable, guruTable } from '../db/schema';
+import { usersTable, siswaTable, guruTable, orangTuaTable } from '../db/schema';
 import { type LoginInput, type AuthResponse } from '../schema';
 import { eq, and } from 'drizzle-orm';
-import { createHash, timingSafeEqual } from 'crypto';
+import { hashPassword, verifyPassword, needsRehash } from '../utils/password';
+import { getLoginLockout, recordLoginFailure, recordLoginSuccess } from './login_protection';
 
-export async function login(input: LoginInput): Promise<AuthResponse> {
+export async function login(input: LoginInput, ip: string | null = null): Promise<AuthResponse> {
   try {
     // Validate role-specific credentials
     let whereCondition;
+    let identifier: string;
     
     switch (input.role) {
       case 'admin':
@@ -18,6 +20,7 @@ export async function login(input: LoginInput): Promise<AuthResponse> {
             message: 'Username is required for admin login'
           };
         }
+        identifier = input.username;
         whereCondition = and(
           eq(usersTable.role, 'admin'),
           eq(usersTable.username, input.username)
@@ -32,6 +35,7 @@ export async function login(input: LoginInput): Promise<AuthResponse> {
             message: 'NIP is required for guru login'
           };
         }
+        identifier = input.nip;
         whereCondition = and(
           eq(usersTable.role, 'guru'),
           eq(usersTable.nip, input.nip)
@@ -46,12 +50,28 @@ export async function login(input: LoginInput): Promise<AuthResponse> {
             message: 'NISN is required for siswa login'
           };
         }
+        identifier = input.nisn;
         whereCondition = and(
           eq(usersTable.role, 'siswa'),
           eq(usersTable.nisn, input.nisn)
         );
         break;
         
+      case 'orang_tua':
+        if (!input.username) {
+          return {
+            success: false,
+            user: null,
+            message: 'Username is required for orang tua login'
+          };
+        }
+        identifier = input.username;
+        whereCondition = and(
+          eq(usersTable.role, 'orang_tua'),
+          eq(usersTable.username, input.username)
+        );
+        break;
+        
       default:
         return {
           success: false,
@@ -60,6 +80,16 @@ export async function login(input: LoginInput): Promise<AuthResponse> {
         };
     }
 
+    // Refuse locked identifiers and addresses before touching the password at all
+    const lockedSeconds = await getLoginLockout(input.role, identifier, ip);
+    if (lockedSeconds > 0) {
+      return {
+        success: false,
+        user: null,
+        message: `Too many failed login attempts. Try again in ${Math.ceil(lockedSeconds / 60)} minute(s)`
+      };
+    }
+
     // Find user by role-specific identifier
     const users = await db.select()
       .from(usersTable)
@@ -67,6 +97,8 @@ export async function login(input: LoginInput): Promise<AuthResponse> {
       .execute();
 
     if (users.length === 0) {
+      // Guessing identifiers counts as a failed attempt too
+      await recordLoginFailure(input.role, identifier, ip, null);
       return {
         success: false,
         user: null,
@@ -76,15 +108,10 @@ export async function login(input: LoginInput): Promise<AuthResponse> {
 
     const user = users[0];
 
-    // Verify password - using simple hash comparison for demo
-    // In production, use proper password hashing like bcrypt
-    const hashedInput = createHash('sha256').update(input.password).digest('hex');
-    const isPasswordValid = timingSafeEqual(
-      Buffer.from(user.password_hash, 'hex'),
-      Buffer.from(hashedInput, 'hex')
-    );
+    const isPasswordValid = await verifyPassword(input.password, user.password_hash);
     
     if (!isPasswordValid) {
+      await recordLoginFailure(input.role, identifier, ip, user.id);
       return {
         success: false,
         user: null,
@@ -92,6 +119,16 @@ export async function login(input: LoginInput): Promise<AuthResponse> {
       };
     }
 
+    await recordLoginSuccess(input.role, identifier);
+
+    // Transparently upgrade legacy or weaker hashes now that we know the plaintext
+    if (needsRehash(user.password_hash)) {
+      await db.update(usersTable)
+        .set({ password_hash: await hashPassword(input.password) })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+    }
+
     // Get user profile data based on role
     const userProfile = await getCurrentUser(user.id);
     
@@ -153,6 +190,20 @@ export async function getCurrentUser(userId: number): Promise<AuthResponse['user
           foto: guru.foto
         };
       }
+    } else if (user.role === 'orang_tua') {
+      const orangTuaData = await db.select()
+        .from(orangTuaTable)
+        .where(eq(orangTuaTable.user_id, userId))
+        .execute();
+
+      if (orangTuaData.length > 0) {
+        const orangTua = orangTuaData[0];
+        profile = {
+          id: orangTua.id,
+          nama: orangTua.nama,
+          foto: null
+        };
+      }
     } else if (user.role === 'admin') {
       // Admin doesn't have additional profile data
       profile = {
@@ -168,6 +219,7 @@ export async function getCurrentUser(userId: number): Promise<AuthResponse['user
       username: user.username,
       nip: user.nip,
       nisn: user.nisn,
+      must_change_password: user.must_change_password,
       profile
     };
 
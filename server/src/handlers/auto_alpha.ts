@@ -0,0 +1,149 @@
+import { db } from '../db';
+import { absensiTable, kelasTable, pengajuanIzinTable, siswaTable } from '../db/schema';
+import { type Absensi, type AutoAlphaResult } from '../schema';
+import { and, asc, eq, gte, inArray, lt, sql } from 'drizzle-orm';
+import { getAutoAlpha, resolveSchoolTimezone } from './settings';
+import { isSchoolDayForKelas } from './kalender_akademik';
+import { dayRange, toDateKey, toTimeOfDay } from '../utils/school_date';
+
+const AUTO_ALPHA_KETERANGAN = 'Otomatis: tidak ada absensi';
+
+// Checked by the scheduler before every tick; overridable so a deployment can poll less often
+const DEFAULT_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Marks every siswa without an absensi row or an approved pengajuan izin on the given day as alpha.
+// Running it again for the same day creates nothing, so backfills and restarts are safe.
+export async function runAutoAlpha(tanggal: Date): Promise<AutoAlphaResult> {
+  try {
+    const timezone = await resolveSchoolTimezone();
+    const tanggalHari = toDateKey(tanggal, timezone);
+    const { start: startOfDay, end: nextDay } = dayRange(tanggalHari, timezone);
+
+    if (tanggalHari > toDateKey(new Date(), timezone)) {
+      throw new Error('Cannot run auto alpha for a future date');
+    }
+
+    const kelasList = await db.select().from(kelasTable).execute();
+
+    const schoolDayKelasIds: number[] = [];
+    for (const kelas of kelasList) {
+      if (await isSchoolDayForKelas(startOfDay, kelas.id)) {
+        schoolDayKelasIds.push(kelas.id);
+      }
+    }
+
+    const created = schoolDayKelasIds.length === 0 ? [] : await db.transaction(async (tx) => {
+      // Serialize runs so the scheduler and a manual backfill cannot both insert the same siswa
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('auto_alpha'))`);
+
+      const siswaList = await tx.select()
+        .from(siswaTable)
+        .where(inArray(siswaTable.kelas_id, schoolDayKelasIds))
+        .execute();
+
+      const recorded = await tx.select({ siswa_id: absensiTable.siswa_id })
+        .from(absensiTable)
+        .where(eq(absensiTable.tanggal_hari, tanggalHari))
+        .execute();
+
+      const excused = await tx.select({ siswa_id: pengajuanIzinTable.siswa_id })
+        .from(pengajuanIzinTable)
+        .where(and(
+          eq(pengajuanIzinTable.status, 'approved'),
+          lt(pengajuanIzinTable.tanggal_mulai, nextDay),
+          gte(pengajuanIzinTable.tanggal_selesai, startOfDay)
+        ))
+        .execute();
+
+      const accountedFor = new Set([...recorded, ...excused].map(row => row.siswa_id));
+      const missing = siswaList.filter(siswa => !accountedFor.has(siswa.id));
+
+      if (missing.length === 0) return [];
+
+      return tx.insert(absensiTable)
+        .values(missing.map(siswa => ({
+          siswa_id: siswa.id,
+          guru_id: null,
+          kelas_id: siswa.kelas_id,
+          status: 'alpha' as const,
+          tanggal: startOfDay,
+          tanggal_hari: tanggalHari,
+          keterangan: AUTO_ALPHA_KETERANGAN
+        })))
+        .onConflictDoNothing() // A check-in that landed after the lookup wins
+        .returning()
+        .execute();
+    });
+
+    return {
+      tanggal: startOfDay,
+      total_alpha: created.length,
+      kelas_diproses: schoolDayKelasIds.length,
+      kelas_libur: kelasList.length - schoolDayKelasIds.length
+    };
+  } catch (error) {
+    console.error('Auto alpha run failed:', error);
+    throw error;
+  }
+}
+
+// Alpha records the job has created on the school day of tanggal
+export async function getAutoAlphaAbsensi(tanggal: Date): Promise<Absensi[]> {
+  try {
+    const tanggalHari = toDateKey(tanggal, await resolveSchoolTimezone());
+
+    return await db.select()
+      .from(absensiTable)
+      .where(and(
+        eq(absensiTable.tanggal_hari, tanggalHari),
+        eq(absensiTable.status, 'alpha'),
+        eq(absensiTable.keterangan, AUTO_ALPHA_KETERANGAN)
+      ))
+      .orderBy(asc(absensiTable.siswa_id))
+      .execute();
+  } catch (error) {
+    console.error('Get auto alpha absensi failed:', error);
+    throw error;
+  }
+}
+
+// One scheduler tick: runs the job for today once the configured cutoff has passed.
+// Returns null when nothing was due.
+export async function runAutoAlphaIfDue(now: Date, lastRunDateKey: string | null): Promise<AutoAlphaResult | null> {
+  const setting = await getAutoAlpha();
+  if (!setting) return null;
+
+  const timezone = await resolveSchoolTimezone();
+  const currentTime = toTimeOfDay(now, timezone).slice(0, 5); // HH:MM
+  if (currentTime < setting.jam_cutoff || lastRunDateKey === toDateKey(now, timezone)) {
+    return null;
+  }
+
+  return runAutoAlpha(now);
+}
+
+// Polls inside the server process; returns a function that stops the scheduler
+export function startAutoAlphaScheduler(intervalMs: number = DEFAULT_CHECK_INTERVAL_MS): () => void {
+  let lastRunDateKey: string | null = null;
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const now = new Date();
+      const result = await runAutoAlphaIfDue(now, lastRunDateKey);
+      if (result) {
+        lastRunDateKey = toDateKey(now, await resolveSchoolTimezone());
+        console.log(`Auto alpha for ${lastRunDateKey}: ${result.total_alpha} siswa marked alpha`);
+      }
+    } catch {
+      // Already logged by runAutoAlpha; the next tick retries
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  return () => clearInterval(timer);
+}
@@ -1,15 +1,21 @@
 import { db } from '../db';
 import { usersTable, siswaTable, guruTable, kelasTable, absensiTable } from '../db/schema';
 import { type DashboardStats } from '../schema';
-import { count, eq, and, gte, lte, sql } from 'drizzle-orm';
+import { count, eq, and, gte, lte, isNull, sql } from 'drizzle-orm';
 import { SQL } from 'drizzle-orm';
+import { countSchoolDaysForKelas } from './kalender_akademik';
+import { resolveSchoolTimezone } from './settings';
+import { endOfMonth, startOfDay, startOfMonth, toDateKey } from '../utils/school_date';
+
+// Today's school day and the timezone it was read in
+async function schoolToday(): Promise<{ today: string; timezone: string }> {
+  const timezone = await resolveSchoolTimezone();
+  return { today: toDateKey(new Date(), timezone), timezone };
+}
 
 export async function getDashboardStats(): Promise<DashboardStats> {
   try {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    const { today } = await schoolToday();
 
     // Get total counts
     const [totalSiswaResult] = await db.select({ count: count() }).from(siswaTable).execute();
@@ -23,8 +29,8 @@ export async function getDashboardStats(): Promise<DashboardStats> {
     })
     .from(absensiTable)
     .where(and(
-      gte(absensiTable.tanggal, today),
-      lte(absensiTable.tanggal, tomorrow)
+      isNull(absensiTable.jadwal_pelajaran_id),
+      eq(absensiTable.tanggal_hari, today)
     ))
     .groupBy(absensiTable.status)
     .execute();
@@ -39,6 +45,7 @@ export async function getDashboardStats(): Promise<DashboardStats> {
     // Process attendance data
     const attendanceStats = {
       hadir: 0,
+      terlambat: 0,
       izin: 0,
       sakit: 0,
       alpha: 0
@@ -65,6 +72,7 @@ export async function getGuruDashboardStats(guruId: number): Promise<{
   total_siswa_kelas: number;
   absensi_hari_ini: {
     hadir: number;
+    terlambat: number;
     izin: number;
     sakit: number;
     alpha: number;
@@ -72,10 +80,7 @@ export async function getGuruDashboardStats(guruId: number): Promise<{
   pengajuan_pending: number;
 }> {
   try {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    const { today } = await schoolToday();
 
     // Get total students in classes where this guru is wali kelas
     const [totalSiswaKelasResult] = await db.select({ count: count() })
@@ -94,8 +99,8 @@ export async function getGuruDashboardStats(guruId: number): Promise<{
     .innerJoin(kelasTable, eq(siswaTable.kelas_id, kelasTable.id))
     .where(and(
       eq(kelasTable.wali_kelas_id, guruId),
-      gte(absensiTable.tanggal, today),
-      lte(absensiTable.tanggal, tomorrow)
+      isNull(absensiTable.jadwal_pelajaran_id),
+      eq(absensiTable.tanggal_hari, today)
     ))
     .groupBy(absensiTable.status)
     .execute();
@@ -115,6 +120,7 @@ export async function getGuruDashboardStats(guruId: number): Promise<{
     // Process attendance data
     const attendanceStats = {
       hadir: 0,
+      terlambat: 0,
       izin: 0,
       sakit: 0,
       alpha: 0
@@ -138,26 +144,24 @@ export async function getGuruDashboardStats(guruId: number): Promise<{
 export async function getSiswaDashboardStats(siswaId: number): Promise<{
   absensi_bulan_ini: {
     hadir: number;
+    terlambat: number;
     izin: number;
     sakit: number;
     alpha: number;
   };
+  hari_efektif_bulan_ini: number;
   pengajuan_pending: number;
   absensi_hari_ini: {
     status: string | null;
     waktu_masuk: string | null;
     waktu_pulang: string | null;
+    menit_terlambat: number | null;
+    pulang_awal: boolean;
   };
 }> {
   try {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-
-    // Get start of current month
-    const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-    const endOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0, 23, 59, 59);
+    const { today, timezone } = await schoolToday();
+    const monthStart = startOfMonth(today);
 
     // Get this month's attendance by status
     const absensibulanIni = await db.select({
@@ -167,12 +171,20 @@ export async function getSiswaDashboardStats(siswaId: number): Promise<{
     .from(absensiTable)
     .where(and(
       eq(absensiTable.siswa_id, siswaId),
-      gte(absensiTable.tanggal, startOfMonth),
-      lte(absensiTable.tanggal, endOfMonth)
+      isNull(absensiTable.jadwal_pelajaran_id),
+      gte(absensiTable.tanggal_hari, monthStart),
+      lte(absensiTable.tanggal_hari, endOfMonth(today))
     ))
     .groupBy(absensiTable.status)
     .execute();
 
+    // School days of the siswa's kelas so far this month
+    const siswa = await db.select({ kelas_id: siswaTable.kelas_id })
+      .from(siswaTable)
+      .where(eq(siswaTable.id, siswaId))
+      .execute();
+    const hariEfektifBulanIni = await countSchoolDaysForKelas(startOfDay(monthStart, timezone), startOfDay(today, timezone), siswa[0]?.kelas_id ?? null);
+
     // Get pending leave requests for this student - temporarily disabled due to schema enum issue
     // const [pengajuanPendingResult] = await db.select({ count: count() })
     //   .from(pengajuanIzinTable)
@@ -187,19 +199,22 @@ export async function getSiswaDashboardStats(siswaId: number): Promise<{
     const todayAttendance = await db.select({
       status: absensiTable.status,
       waktu_masuk: absensiTable.waktu_masuk,
-      waktu_pulang: absensiTable.waktu_pulang
+      waktu_pulang: absensiTable.waktu_pulang,
+      menit_terlambat: absensiTable.menit_terlambat,
+      pulang_awal: absensiTable.pulang_awal
     })
     .from(absensiTable)
     .where(and(
       eq(absensiTable.siswa_id, siswaId),
-      gte(absensiTable.tanggal, today),
-      lte(absensiTable.tanggal, tomorrow)
+      isNull(absensiTable.jadwal_pelajaran_id),
+      eq(absensiTable.tanggal_hari, today)
     ))
     .execute();
 
     // Process monthly attendance data
     const monthlyAttendanceStats = {
       hadir: 0,
+      terlambat: 0,
       izin: 0,
       sakit: 0,
       alpha: 0
@@ -213,7 +228,9 @@ export async function getSiswaDashboardStats(siswaId: number): Promise<{
     const todayStats = {
       status: null as string | null,
       waktu_masuk: null as string | null,
-      waktu_pulang: null as string | null
+      waktu_pulang: null as string | null,
+      menit_terlambat: null as number | null,
+      pulang_awal: false
     };
 
     if (todayAttendance.length > 0) {
@@ -221,10 +238,13 @@ export async function getSiswaDashboardStats(siswaId: number): Promise<{
       todayStats.status = todayRecord.status;
       todayStats.waktu_masuk = todayRecord.waktu_masuk;
       todayStats.waktu_pulang = todayRecord.waktu_pulang;
+      todayStats.menit_terlambat = todayRecord.menit_terlambat;
+      todayStats.pulang_awal = todayRecord.pulang_awal;
     }
 
     return {
       absensi_bulan_ini: monthlyAttendanceStats,
+      hari_efektif_bulan_ini: hariEfektifBulanIni,
       pengajuan_pending: pengajuanPendingResult.count,
       absensi_hari_ini: todayStats
     };
@@ -1,18 +1,26 @@
 import { db } from '../db';
 import { absensiTable, siswaTable, kelasTable, guruTable } from '../db/schema';
-import { type GetAbsensiHistoryInput } from '../schema';
-import { eq, and, gte, lte, desc, SQL } from 'drizzle-orm';
-// Simple date formatting helper
-function formatDate(date: Date): string {
+import { type Absensi, type ExportAbsensiInput } from '../schema';
+import { eq, and, gte, lte, desc, isNull, SQL } from 'drizzle-orm';
+import { countSchoolDaysForKelas } from './kalender_akademik';
+import { getKopSurat, resolveSchoolTimezone } from './settings';
+import { saveFileEkspor } from './file_ekspor';
+import { toDateKey, toTimeOfDay } from '../utils/school_date';
+import { renderPdfReport, type PdfReportTable } from '../utils/pdf_report';
+import { renderXlsx, type XlsxCell, type XlsxSheet, type XlsxValue } from '../utils/xlsx';
+// Simple date formatting helpers; dates are shown as the school reads them
+function formatDate(date: Date, timezone: string): string {
   return date.toLocaleDateString('id-ID', {
+    timeZone: timezone,
     day: '2-digit',
     month: '2-digit',
     year: 'numeric'
   });
 }
 
-function formatDateTime(date: Date): string {
+function formatDateTime(date: Date, timezone: string): string {
   return date.toLocaleString('id-ID', {
+    timeZone: timezone,
     day: '2-digit',
     month: '2-digit',
     year: 'numeric',
@@ -22,38 +30,56 @@ function formatDateTime(date: Date): string {
   });
 }
 
-function formatFileDate(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  const hours = String(date.getHours()).padStart(2, '0');
-  const minutes = String(date.getMinutes()).padStart(2, '0');
-  const seconds = String(date.getSeconds()).padStart(2, '0');
-  return `${year}${month}${day}_${hours}${minutes}${seconds}`;
+function formatFileDate(date: Date, timezone: string): string {
+  return `${toDateKey(date, timezone).replace(/-/g, '')}_${toTimeOfDay(date, timezone).replace(/:/g, '')}`;
 }
 
-// Helper function to get absensi data with joins
-async function getAbsensiData(input: GetAbsensiHistoryInput) {
-  // Build conditions array
+// School day of an instant, the value of tanggal_hari
+async function attendanceDay(tanggal: Date): Promise<string> {
+  return toDateKey(tanggal, await resolveSchoolTimezone());
+}
+
+// Most records one file may hold; larger exports are refused rather than cut short
+const EXPORT_MAX_ROWS = Number(process.env['EXPORT_MAX_ROWS'] || 20000);
+
+const TOO_MANY_ROWS_MESSAGE = `Data absensi melebihi ${EXPORT_MAX_ROWS} record, persempit periode atau pilih kelas/siswa tertentu`;
+
+// Records an export covers; the data table and the statistics of one report use the same filter
+type AbsensiFilter = Omit<ExportAbsensiInput, 'limit' | 'offset'>;
+
+async function absensiConditions(filter: AbsensiFilter): Promise<SQL<unknown>[]> {
   const conditions: SQL<unknown>[] = [];
 
-  if (input.siswa_id !== undefined) {
-    conditions.push(eq(absensiTable.siswa_id, input.siswa_id));
+  if (filter.siswa_id !== undefined) {
+    conditions.push(eq(absensiTable.siswa_id, filter.siswa_id));
   }
 
-  if (input.kelas_id !== undefined) {
-    conditions.push(eq(absensiTable.kelas_id, input.kelas_id));
+  if (filter.kelas_id !== undefined) {
+    conditions.push(eq(absensiTable.kelas_id, filter.kelas_id));
   }
 
-  if (input.start_date !== undefined) {
-    conditions.push(gte(absensiTable.tanggal, input.start_date));
+  // Daily records unless a lesson is chosen; lesson records are already summed up in the daily record
+  conditions.push(filter.jadwal_pelajaran_id !== undefined
+    ? eq(absensiTable.jadwal_pelajaran_id, filter.jadwal_pelajaran_id)
+    : isNull(absensiTable.jadwal_pelajaran_id));
+
+  // Whole school days of the period, like the attendance screens
+  if (filter.start_date !== undefined) {
+    conditions.push(gte(absensiTable.tanggal_hari, await attendanceDay(filter.start_date)));
   }
 
-  if (input.end_date !== undefined) {
-    conditions.push(lte(absensiTable.tanggal, input.end_date));
+  if (filter.end_date !== undefined) {
+    conditions.push(lte(absensiTable.tanggal_hari, await attendanceDay(filter.end_date)));
   }
 
-  // Build complete query based on whether we have conditions
+  return conditions;
+}
+
+// Helper function to get absensi data with joins; one record more than the cap is read so that
+// callers can tell a full export from one that would be cut off
+async function getAbsensiData(input: ExportAbsensiInput) {
+  const conditions = await absensiConditions(input);
+
   const baseQuery = db.select({
     absensi: absensiTable,
     siswa: siswaTable,
@@ -65,15 +91,12 @@ async function getAbsensiData(input: GetAbsensiHistoryInput) {
   .innerJoin(kelasTable, eq(absensiTable.kelas_id, kelasTable.id))
   .leftJoin(guruTable, eq(absensiTable.guru_id, guruTable.id));
 
-  const finalQuery = conditions.length > 0
-    ? baseQuery.where(conditions.length === 1 ? conditions[0] : and(...conditions))
-    : baseQuery;
-
   // Execute query with ordering and pagination
-  const results = await finalQuery
-    .orderBy(desc(absensiTable.tanggal))
-    .limit(input.limit)
-    .offset(input.offset)
+  const results = await baseQuery
+    .where(and(...conditions))
+    .orderBy(desc(absensiTable.tanggal_hari), desc(absensiTable.tanggal))
+    .limit(Math.min(input.limit ?? Infinity, EXPORT_MAX_ROWS + 1))
+    .offset(input.offset ?? 0)
     .execute();
 
   return results.map(result => ({
@@ -83,9 +106,12 @@ async function getAbsensiData(input: GetAbsensiHistoryInput) {
     kelas_id: result.absensi.kelas_id,
     status: result.absensi.status,
     tanggal: result.absensi.tanggal,
+    tanggal_hari: result.absensi.tanggal_hari,
     waktu_masuk: result.absensi.waktu_masuk,
     waktu_pulang: result.absensi.waktu_pulang,
     keterangan: result.absensi.keterangan,
+    menit_terlambat: result.absensi.menit_terlambat,
+    pulang_awal: result.absensi.pulang_awal,
     siswa_nama: result.siswa.nama,
     siswa_nisn: result.siswa.nisn,
     kelas_nama: result.kelas.nama_kelas,
@@ -95,54 +121,105 @@ async function getAbsensiData(input: GetAbsensiHistoryInput) {
   }));
 }
 
-// Helper function to get attendance statistics
-async function getAttendanceStats(kelasId?: number, startDate?: Date, endDate?: Date) {
-  // Build conditions array
-  const conditions: SQL<unknown>[] = [];
-
-  if (kelasId !== undefined) {
-    conditions.push(eq(absensiTable.kelas_id, kelasId));
-  }
-
-  if (startDate !== undefined) {
-    conditions.push(gte(absensiTable.tanggal, startDate));
-  }
-
-  if (endDate !== undefined) {
-    conditions.push(lte(absensiTable.tanggal, endDate));
-  }
-
-  // Build complete query based on whether we have conditions
-  const baseQuery = db.select({
+// Helper function to get attendance statistics of the records matching the filter
+async function getAttendanceStats(filter: AbsensiFilter) {
+  const results = await db.select({
     status: absensiTable.status,
-    count: absensiTable.id
+    pulang_awal: absensiTable.pulang_awal
   })
-  .from(absensiTable);
-
-  const finalQuery = conditions.length > 0
-    ? baseQuery.where(conditions.length === 1 ? conditions[0] : and(...conditions))
-    : baseQuery;
-
-  const results = await finalQuery.execute();
+  .from(absensiTable)
+  .where(and(...await absensiConditions(filter)))
+  .execute();
 
   // Count occurrences by status
   const stats = {
     hadir: 0,
+    terlambat: 0,
     izin: 0,
     sakit: 0,
-    alpha: 0
+    alpha: 0,
+    pulang_awal: 0 // Counted across statuses, not part of the status total
   };
 
   results.forEach(result => {
-    if (result.status in stats) {
-      stats[result.status as keyof typeof stats]++;
+    stats[result.status]++;
+    if (result.pulang_awal) {
+      stats.pulang_awal++;
     }
   });
 
   return stats;
 }
 
-export async function exportAbsensiToPDF(input: GetAbsensiHistoryInput): Promise<{
+type AttendanceStats = Awaited<ReturnType<typeof getAttendanceStats>>;
+
+function statistikTable(stats: AttendanceStats): PdfReportTable {
+  return {
+    title: 'Statistik Kehadiran',
+    width: 0.35,
+    columns: [
+      { header: 'Status', width: 2 },
+      { header: 'Jumlah', width: 1, align: 'right' }
+    ],
+    rows: [
+      ['HADIR', String(stats.hadir)],
+      ['TERLAMBAT', String(stats.terlambat)],
+      ['IZIN', String(stats.izin)],
+      ['SAKIT', String(stats.sakit)],
+      ['ALPHA', String(stats.alpha)],
+      ['TOTAL', String(stats.hadir + stats.terlambat + stats.izin + stats.sakit + stats.alpha)],
+      ['PULANG AWAL', String(stats.pulang_awal)]
+    ]
+  };
+}
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Status colours of Excel exports, as in the status badges of the app
+const STATUS_FILLS: Record<Absensi['status'], string> = {
+  hadir: 'C6EFCE',
+  terlambat: 'FCE4D6',
+  izin: 'BDD7EE',
+  sakit: 'FFEB9C',
+  alpha: 'FFC7CE'
+};
+
+function statusCell(status: Absensi['status']): XlsxCell {
+  return { value: status.toUpperCase(), fill: STATUS_FILLS[status] };
+}
+
+function statistikSheet(stats: AttendanceStats): XlsxSheet {
+  const total = stats.hadir + stats.terlambat + stats.izin + stats.sakit + stats.alpha;
+  const share = (count: number) => total > 0 ? count / total : 0;
+  const statuses = ['hadir', 'terlambat', 'izin', 'sakit', 'alpha'] as const;
+
+  return {
+    name: 'Statistik',
+    columns: [
+      { header: 'Status', width: 16 },
+      { header: 'Jumlah', width: 10, type: 'number' },
+      { header: 'Persentase', width: 12, type: 'percent' }
+    ],
+    rows: [
+      ...statuses.map(status => [statusCell(status), stats[status], share(stats[status])]),
+      [{ value: 'TOTAL', bold: true }, { value: total, bold: true }, { value: share(total), bold: true }],
+      ['PULANG AWAL', stats.pulang_awal, share(stats.pulang_awal)]
+    ]
+  };
+}
+
+// Letterhead, report title and filter lines above the table of the summary sheet
+async function excelPreamble(title: string, info: [string, string | number][]): Promise<XlsxValue[][]> {
+  const kopSurat = await getKopSurat();
+  return [
+    ...(kopSurat ? [[{ value: kopSurat.nama_sekolah, bold: true }]] : []),
+    [{ value: title, bold: true }],
+    ...info.map(([label, value]) => [label, value]),
+    []
+  ];
+}
+
+export async function exportAbsensiToPDF(input: ExportAbsensiInput, userId: number): Promise<{
     success: boolean;
     downloadUrl?: string;
     message: string;
@@ -158,44 +235,68 @@ export async function exportAbsensiToPDF(input: GetAbsensiHistoryInput): Promise
       };
     }
 
-    // Get statistics for the report
-    const stats = await getAttendanceStats(input.kelas_id, input.start_date, input.end_date);
+    if (absensiData.length > EXPORT_MAX_ROWS) {
+      return { success: false, message: TOO_MANY_ROWS_MESSAGE };
+    }
 
-    // In a real implementation, you would use a PDF generation library like puppeteer, jsPDF, or PDFKit
-    // For this implementation, we'll simulate the PDF generation process
-    const fileName = `absensi_report_${formatFileDate(new Date())}.pdf`;
-    const downloadUrl = `/exports/pdf/${fileName}`;
+    // Get statistics for the report
+    const stats = await getAttendanceStats(input);
+    const timezone = await resolveSchoolTimezone();
+    const now = new Date();
+
+    const fileName = `absensi_report_${formatFileDate(now, timezone)}.pdf`;
+
+    // Filtered exports only hold that kelas or siswa, so the first record names them
+    const info: [string, string][] = [
+      ['Periode', `${input.start_date ? formatDate(input.start_date, timezone) : 'Semua'} - ${input.end_date ? formatDate(input.end_date, timezone) : 'Semua'}`],
+      ['Kelas', input.kelas_id !== undefined ? absensiData[0].kelas_nama : 'Semua Kelas']
+    ];
+    if (input.siswa_id !== undefined) {
+      info.push(['Siswa', `${absensiData[0].siswa_nama} (${absensiData[0].siswa_nisn})`]);
+    }
+    info.push(['Jumlah Record', String(absensiData.length)]);
 
-    // Simulate PDF generation with attendance data
-    const reportData = {
+    const pdf = renderPdfReport({
+      kopSurat: await getKopSurat(),
       title: 'Laporan Absensi Siswa',
-      generatedAt: new Date(),
-      dateRange: {
-        start: input.start_date ? formatDate(input.start_date) : 'Semua',
-        end: input.end_date ? formatDate(input.end_date) : 'Semua'
-      },
-      totalRecords: absensiData.length,
-      statistics: stats,
-      records: absensiData.map(record => ({
-        tanggal: formatDate(record.tanggal),
-        siswa: record.siswa_nama,
-        nisn: record.siswa_nisn,
-        kelas: record.kelas_nama,
-        status: record.status.toUpperCase(),
-        waktu_masuk: record.waktu_masuk || '-',
-        waktu_pulang: record.waktu_pulang || '-',
-        guru: record.guru_nama || '-',
-        keterangan: record.keterangan || '-'
-      }))
-    };
-
-    // Log the PDF generation (in real implementation, this would create the actual PDF)
-    console.log('PDF Export Data:', {
-      fileName,
-      recordCount: reportData.totalRecords,
-      statistics: reportData.statistics,
-      dateRange: reportData.dateRange
+      info,
+      tables: [
+        statistikTable(stats),
+        {
+          title: 'Data Absensi',
+          columns: [
+            { header: 'No', width: 3, align: 'right' },
+            { header: 'Tanggal', width: 7 },
+            { header: 'NISN', width: 8 },
+            { header: 'Nama Siswa', width: 14 },
+            { header: 'Kelas', width: 7 },
+            { header: 'Status', width: 7 },
+            { header: 'Masuk', width: 5 },
+            { header: 'Pulang', width: 5 },
+            { header: 'Terlambat (menit)', width: 6, align: 'right' },
+            { header: 'Pulang Awal', width: 5 },
+            { header: 'Guru Pencatat', width: 11 },
+            { header: 'Keterangan', width: 16 }
+          ],
+          rows: absensiData.map((record, index) => [
+            String(index + 1),
+            formatDate(record.tanggal, timezone),
+            record.siswa_nisn,
+            record.siswa_nama,
+            record.kelas_nama,
+            record.status.toUpperCase(),
+            record.waktu_masuk || '-',
+            record.waktu_pulang || '-',
+            record.menit_terlambat === null ? '-' : String(record.menit_terlambat),
+            record.pulang_awal ? 'Ya' : '-',
+            record.guru_nama || '-',
+            record.keterangan || '-'
+          ])
+        }
+      ],
+      footer: `Dicetak ${formatDateTime(now, timezone)}`
     });
+    const downloadUrl = await saveFileEkspor(userId, fileName, 'application/pdf', pdf);
 
     return {
       success: true,
@@ -208,7 +309,7 @@ export async function exportAbsensiToPDF(input: GetAbsensiHistoryInput): Promise
   }
 }
 
-export async function exportAbsensiToExcel(input: GetAbsensiHistoryInput): Promise<{
+export async function exportAbsensiToExcel(input: ExportAbsensiInput, userId: number): Promise<{
     success: boolean;
     downloadUrl?: string;
     message: string;
@@ -224,58 +325,114 @@ export async function exportAbsensiToExcel(input: GetAbsensiHistoryInput): Promi
       };
     }
 
+    if (absensiData.length > EXPORT_MAX_ROWS) {
+      return { success: false, message: TOO_MANY_ROWS_MESSAGE };
+    }
+
     // Get statistics for the summary sheet
-    const stats = await getAttendanceStats(input.kelas_id, input.start_date, input.end_date);
-
-    // In a real implementation, you would use a library like ExcelJS or xlsx
-    // For this implementation, we'll simulate the Excel generation process
-    const fileName = `absensi_export_${formatFileDate(new Date())}.xlsx`;
-    const downloadUrl = `/exports/excel/${fileName}`;
-
-    // Prepare Excel data with multiple sheets
-    const excelData = {
-      sheets: {
-        'Data Absensi': absensiData.map(record => ({
-          'Tanggal': formatDate(record.tanggal),
-          'NISN': record.siswa_nisn,
-          'Nama Siswa': record.siswa_nama,
-          'Kelas': record.kelas_nama,
-          'Status': record.status.toUpperCase(),
-          'Waktu Masuk': record.waktu_masuk || '',
-          'Waktu Pulang': record.waktu_pulang || '',
-          'Guru Pencatat': record.guru_nama || '',
-          'Keterangan': record.keterangan || ''
-        })),
-        'Statistik': [
-          { 'Status': 'HADIR', 'Jumlah': stats.hadir },
-          { 'Status': 'IZIN', 'Jumlah': stats.izin },
-          { 'Status': 'SAKIT', 'Jumlah': stats.sakit },
-          { 'Status': 'ALPHA', 'Jumlah': stats.alpha },
-          { 'Status': 'TOTAL', 'Jumlah': stats.hadir + stats.izin + stats.sakit + stats.alpha }
-        ]
+    const stats = await getAttendanceStats(input);
+    const timezone = await resolveSchoolTimezone();
+
+    const now = new Date();
+    const fileName = `absensi_export_${formatFileDate(now, timezone)}.xlsx`;
+
+    // Per-siswa totals of the exported records for the summary sheet
+    const siswaTotals = new Map<number, { nisn: string; nama: string; kelas: string; counts: AttendanceStats; total_menit_terlambat: number; total: number }>();
+    for (const record of absensiData) {
+      const totals = siswaTotals.get(record.siswa_id) ?? {
+        nisn: record.siswa_nisn,
+        nama: record.siswa_nama,
+        kelas: record.kelas_nama,
+        counts: { hadir: 0, terlambat: 0, izin: 0, sakit: 0, alpha: 0, pulang_awal: 0 },
+        total_menit_terlambat: 0,
+        total: 0
+      };
+      totals.counts[record.status]++;
+      if (record.pulang_awal) totals.counts.pulang_awal++;
+      totals.total_menit_terlambat += record.menit_terlambat ?? 0;
+      totals.total++;
+      siswaTotals.set(record.siswa_id, totals);
+    }
+
+    const preamble = await excelPreamble('Laporan Absensi Siswa', [
+      ['Periode', `${input.start_date ? formatDate(input.start_date, timezone) : 'Semua'} - ${input.end_date ? formatDate(input.end_date, timezone) : 'Semua'}`],
+      ['Kelas', input.kelas_id !== undefined ? absensiData[0].kelas_nama : 'Semua Kelas'],
+      ...(input.siswa_id !== undefined ? [['Siswa', `${absensiData[0].siswa_nama} (${absensiData[0].siswa_nisn})`] as [string, string]] : []),
+      ['Jumlah Record', absensiData.length],
+      ['Dicetak', formatDateTime(now, timezone)]
+    ]);
+
+    const sheets: XlsxSheet[] = [
+      {
+        name: 'Ringkasan',
+        preamble,
+        columns: [
+          { header: 'NISN', width: 14 },
+          { header: 'Nama Siswa', width: 30 },
+          { header: 'Kelas', width: 12 },
+          { header: 'Hadir', width: 9, type: 'number' },
+          { header: 'Terlambat', width: 11, type: 'number' },
+          { header: 'Izin', width: 9, type: 'number' },
+          { header: 'Sakit', width: 9, type: 'number' },
+          { header: 'Alpha', width: 9, type: 'number' },
+          { header: 'Pulang Awal', width: 12, type: 'number' },
+          { header: 'Total Menit Terlambat', width: 20, type: 'number' },
+          { header: 'Jumlah Record', width: 14, type: 'number' }
+        ],
+        rows: [...siswaTotals.values()]
+          .sort((a, b) => a.kelas.localeCompare(b.kelas) || a.nama.localeCompare(b.nama))
+          .map(siswa => [
+            siswa.nisn,
+            siswa.nama,
+            siswa.kelas,
+            siswa.counts.hadir,
+            siswa.counts.terlambat,
+            siswa.counts.izin,
+            siswa.counts.sakit,
+            siswa.counts.alpha,
+            siswa.counts.pulang_awal,
+            siswa.total_menit_terlambat,
+            siswa.total
+          ])
       },
-      metadata: {
-        title: 'Export Absensi Siswa',
-        generatedAt: formatDateTime(new Date()),
-        dateRange: {
-          start: input.start_date ? formatDate(input.start_date) : 'Semua',
-          end: input.end_date ? formatDate(input.end_date) : 'Semua'
-        }
-      }
-    };
+      {
+        name: 'Data Absensi',
+        columns: [
+          { header: 'Tanggal', width: 12, type: 'date' },
+          { header: 'NISN', width: 14 },
+          { header: 'Nama Siswa', width: 30 },
+          { header: 'Kelas', width: 12 },
+          { header: 'Status', width: 12 },
+          { header: 'Waktu Masuk', width: 12, type: 'time' },
+          { header: 'Waktu Pulang', width: 12, type: 'time' },
+          { header: 'Menit Terlambat', width: 15, type: 'number' },
+          { header: 'Pulang Awal', width: 12 },
+          { header: 'Guru Pencatat', width: 24 },
+          { header: 'Keterangan', width: 40 }
+        ],
+        rows: absensiData.map(record => [
+          record.tanggal_hari,
+          record.siswa_nisn,
+          record.siswa_nama,
+          record.kelas_nama,
+          statusCell(record.status),
+          record.waktu_masuk,
+          record.waktu_pulang,
+          record.menit_terlambat,
+          record.pulang_awal ? 'Ya' : null,
+          record.guru_nama,
+          record.keterangan
+        ])
+      },
+      statistikSheet(stats)
+    ];
 
-    // Log the Excel generation (in real implementation, this would create the actual Excel file)
-    console.log('Excel Export Data:', {
-      fileName,
-      recordCount: absensiData.length,
-      sheets: Object.keys(excelData.sheets),
-      statistics: stats
-    });
+    const downloadUrl = await saveFileEkspor(userId, fileName, XLSX_MIME_TYPE, renderXlsx(sheets));
 
     return {
       success: true,
       downloadUrl,
-      message: `Excel berhasil dibuat dengan ${absensiData.length} record absensi dalam 2 sheet`
+      message: `Excel berhasil dibuat dengan ${absensiData.length} record absensi dalam ${sheets.length} sheet`
     };
   } catch (error) {
     console.error('Excel export failed:', error);
@@ -288,19 +445,17 @@ export async function generateRekapAbsensi(input: {
     startDate: Date;
     endDate: Date;
     format: 'pdf' | 'excel';
-}): Promise<{
+}, userId: number): Promise<{
     success: boolean;
     downloadUrl?: string;
     message: string;
 }> {
   try {
     // Get comprehensive attendance data for recap
-    const rekapInput: GetAbsensiHistoryInput = {
+    const rekapInput: ExportAbsensiInput = {
       kelas_id: input.kelasId,
       start_date: input.startDate,
-      end_date: input.endDate,
-      limit: 1000, // Higher limit for comprehensive recap
-      offset: 0
+      end_date: input.endDate
     };
 
     const absensiData = await getAbsensiData(rekapInput);
@@ -312,13 +467,17 @@ export async function generateRekapAbsensi(input: {
       };
     }
 
+    if (absensiData.length > EXPORT_MAX_ROWS) {
+      return { success: false, message: TOO_MANY_ROWS_MESSAGE };
+    }
+
     // Get detailed statistics
-    const stats = await getAttendanceStats(input.kelasId, input.startDate, input.endDate);
+    const stats = await getAttendanceStats(rekapInput);
+    const timezone = await resolveSchoolTimezone();
 
-    // Calculate additional metrics
-    const totalDays = Math.ceil((input.endDate.getTime() - input.startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-    const totalRecords = stats.hadir + stats.izin + stats.sakit + stats.alpha;
-    const attendanceRate = totalRecords > 0 ? ((stats.hadir / totalRecords) * 100).toFixed(2) : '0';
+    // Calculate additional metrics; weekends, holidays and kelas exceptions are not school days
+    const hariEfektif = await countSchoolDaysForKelas(input.startDate, input.endDate, input.kelasId ?? null);
+    const totalRecords = stats.hadir + stats.terlambat + stats.izin + stats.sakit + stats.alpha;
 
     // Group data by student for individual statistics
     const studentStats = absensiData.reduce((acc, record) => {
@@ -327,51 +486,74 @@ export async function generateRekapAbsensi(input: {
         acc[key] = {
           siswa_nama: record.siswa_nama,
           siswa_nisn: record.siswa_nisn,
+          kelas_id: record.kelas_id,
           kelas_nama: record.kelas_nama,
           hadir: 0,
+          terlambat: 0,
           izin: 0,
           sakit: 0,
           alpha: 0,
-          total: 0
+          total: 0,
+          total_menit_terlambat: 0,
+          pulang_awal: 0
         };
       }
       acc[key][record.status]++;
       acc[key].total++;
+      acc[key].total_menit_terlambat += record.menit_terlambat ?? 0;
+      if (record.pulang_awal) {
+        acc[key].pulang_awal++;
+      }
       return acc;
     }, {} as Record<string, any>);
 
-    const startDateStr = formatFileDate(input.startDate).substring(0, 8); // YYYYMMDD
-    const endDateStr = formatFileDate(input.endDate).substring(0, 8); // YYYYMMDD
+    // Each siswa is expected on the school days of their own kelas
+    const kelasIds = [...new Set(Object.values(studentStats).map((student: any) => student.kelas_id as number))];
+    const hariEfektifPerKelas = new Map(await Promise.all(kelasIds.map(async kelasId =>
+      [kelasId, await countSchoolDaysForKelas(input.startDate, input.endDate, kelasId)] as const
+    )));
+    const expectedAttendances = Object.values(studentStats)
+      .reduce((sum: number, student: any) => sum + (hariEfektifPerKelas.get(student.kelas_id) ?? 0), 0);
+    // Late arrivals were present, so they count towards the attendance rate
+    const attendanceRate = expectedAttendances > 0
+      ? (((stats.hadir + stats.terlambat) / expectedAttendances) * 100).toFixed(2)
+      : '0';
+
+    const startDateStr = formatFileDate(input.startDate, timezone).substring(0, 8); // YYYYMMDD
+    const endDateStr = formatFileDate(input.endDate, timezone).substring(0, 8); // YYYYMMDD
     const fileName = input.format === 'pdf' 
       ? `rekap_absensi_${startDateStr}_${endDateStr}.pdf`
       : `rekap_absensi_${startDateStr}_${endDateStr}.xlsx`;
-    
-    const downloadUrl = `/exports/${input.format}/${fileName}`;
 
     // Prepare comprehensive recap data
     const rekapData = {
       metadata: {
         title: 'Rekap Absensi Siswa',
-        periode: `${formatDate(input.startDate)} - ${formatDate(input.endDate)}`,
-        totalHari: totalDays,
-        generatedAt: formatDateTime(new Date()),
-        kelasFilter: input.kelasId ? 'Kelas Tertentu' : 'Semua Kelas'
+        periode: `${formatDate(input.startDate, timezone)} - ${formatDate(input.endDate, timezone)}`,
+        hariEfektif,
+        generatedAt: formatDateTime(new Date(), timezone),
+        kelasFilter: input.kelasId !== undefined ? absensiData[0].kelas_nama : 'Semua Kelas'
       },
       summary: {
         totalRecords,
         attendanceRate: `${attendanceRate}%`,
         statistics: stats
       },
-      studentDetails: Object.values(studentStats).map((student: any) => ({
-        ...student,
-        attendanceRate: student.total > 0 ? `${((student.hadir / student.total) * 100).toFixed(1)}%` : '0%'
-      })),
+      studentDetails: Object.values(studentStats).map((student: any) => {
+        const hariEfektifSiswa = hariEfektifPerKelas.get(student.kelas_id) ?? 0;
+        return {
+          ...student,
+          hari_efektif: hariEfektifSiswa,
+          attendanceRate: hariEfektifSiswa > 0 ? `${(((student.hadir + student.terlambat) / hariEfektifSiswa) * 100).toFixed(1)}%` : '0%'
+        };
+      }),
       dailyBreakdown: absensiData.reduce((acc, record) => {
-        const dateKey = record.tanggal.toISOString().substring(0, 10); // YYYY-MM-DD
+        const dateKey = record.tanggal_hari; // YYYY-MM-DD
         if (!acc[dateKey]) {
           acc[dateKey] = {
-            tanggal: formatDate(record.tanggal),
+            tanggal: formatDate(record.tanggal, timezone),
             hadir: 0,
+            terlambat: 0,
             izin: 0,
             sakit: 0,
             alpha: 0
@@ -382,16 +564,135 @@ export async function generateRekapAbsensi(input: {
       }, {} as Record<string, any>)
     };
 
-    // Log the recap generation (in real implementation, this would create the actual file)
-    console.log('Rekap Absensi Generation:', {
-      format: input.format,
-      fileName,
-      periode: rekapData.metadata.periode,
-      totalRecords: rekapData.summary.totalRecords,
-      attendanceRate: rekapData.summary.attendanceRate,
-      uniqueStudents: Object.keys(studentStats).length,
-      dailyBreakdownDays: Object.keys(rekapData.dailyBreakdown).length
-    });
+    let downloadUrl: string;
+    if (input.format === 'pdf') {
+      const pdf = renderPdfReport({
+        kopSurat: await getKopSurat(),
+        title: rekapData.metadata.title,
+        info: [
+          ['Periode', rekapData.metadata.periode],
+          ['Kelas', rekapData.metadata.kelasFilter],
+          ['Hari Efektif', String(rekapData.metadata.hariEfektif)],
+          ['Tingkat Kehadiran', rekapData.summary.attendanceRate]
+        ],
+        tables: [
+          statistikTable(stats),
+          {
+            title: 'Rekap per Siswa',
+            columns: [
+              { header: 'No', width: 3, align: 'right' },
+              { header: 'NISN', width: 8 },
+              { header: 'Nama Siswa', width: 16 },
+              { header: 'Kelas', width: 7 },
+              { header: 'Hari Efektif', width: 5, align: 'right' },
+              { header: 'Hadir', width: 5, align: 'right' },
+              { header: 'Terlambat', width: 5, align: 'right' },
+              { header: 'Izin', width: 5, align: 'right' },
+              { header: 'Sakit', width: 5, align: 'right' },
+              { header: 'Alpha', width: 5, align: 'right' },
+              { header: 'Pulang Awal', width: 5, align: 'right' },
+              { header: 'Total Menit Terlambat', width: 7, align: 'right' },
+              { header: 'Kehadiran', width: 6, align: 'right' }
+            ],
+            rows: rekapData.studentDetails
+              .sort((a, b) => a.kelas_nama.localeCompare(b.kelas_nama) || a.siswa_nama.localeCompare(b.siswa_nama))
+              .map((student, index) => [
+                String(index + 1),
+                student.siswa_nisn,
+                student.siswa_nama,
+                student.kelas_nama,
+                String(student.hari_efektif),
+                String(student.hadir),
+                String(student.terlambat),
+                String(student.izin),
+                String(student.sakit),
+                String(student.alpha),
+                String(student.pulang_awal),
+                String(student.total_menit_terlambat),
+                student.attendanceRate
+              ])
+          },
+          {
+            title: 'Rekap Harian',
+            width: 0.6,
+            columns: [
+              { header: 'Tanggal', width: 2 },
+              { header: 'Hadir', width: 1, align: 'right' },
+              { header: 'Terlambat', width: 1, align: 'right' },
+              { header: 'Izin', width: 1, align: 'right' },
+              { header: 'Sakit', width: 1, align: 'right' },
+              { header: 'Alpha', width: 1, align: 'right' }
+            ],
+            rows: Object.keys(rekapData.dailyBreakdown).sort().map(dateKey => {
+              const day = rekapData.dailyBreakdown[dateKey];
+              return [day.tanggal, String(day.hadir), String(day.terlambat), String(day.izin), String(day.sakit), String(day.alpha)];
+            })
+          }
+        ],
+        footer: `Dicetak ${rekapData.metadata.generatedAt}`
+      });
+      downloadUrl = await saveFileEkspor(userId, fileName, 'application/pdf', pdf);
+    } else {
+      const xlsx = renderXlsx([
+        {
+          name: 'Ringkasan',
+          preamble: await excelPreamble(rekapData.metadata.title, [
+            ['Periode', rekapData.metadata.periode],
+            ['Kelas', rekapData.metadata.kelasFilter],
+            ['Hari Efektif', rekapData.metadata.hariEfektif],
+            ['Tingkat Kehadiran', rekapData.summary.attendanceRate],
+            ['Dicetak', rekapData.metadata.generatedAt]
+          ]),
+          columns: [
+            { header: 'NISN', width: 14 },
+            { header: 'Nama Siswa', width: 30 },
+            { header: 'Kelas', width: 12 },
+            { header: 'Hari Efektif', width: 12, type: 'number' },
+            { header: 'Hadir', width: 9, type: 'number' },
+            { header: 'Terlambat', width: 11, type: 'number' },
+            { header: 'Izin', width: 9, type: 'number' },
+            { header: 'Sakit', width: 9, type: 'number' },
+            { header: 'Alpha', width: 9, type: 'number' },
+            { header: 'Pulang Awal', width: 12, type: 'number' },
+            { header: 'Total Menit Terlambat', width: 20, type: 'number' },
+            { header: 'Kehadiran', width: 11, type: 'percent' }
+          ],
+          rows: rekapData.studentDetails
+            .sort((a, b) => a.kelas_nama.localeCompare(b.kelas_nama) || a.siswa_nama.localeCompare(b.siswa_nama))
+            .map(student => [
+              student.siswa_nisn,
+              student.siswa_nama,
+              student.kelas_nama,
+              student.hari_efektif,
+              student.hadir,
+              student.terlambat,
+              student.izin,
+              student.sakit,
+              student.alpha,
+              student.pulang_awal,
+              student.total_menit_terlambat,
+              student.hari_efektif > 0 ? (student.hadir + student.terlambat) / student.hari_efektif : 0
+            ])
+        },
+        statistikSheet(stats),
+        {
+          name: 'Rekap Harian',
+          columns: [
+            { header: 'Tanggal', width: 12, type: 'date' },
+            { header: 'Hadir', width: 9, type: 'number' },
+            { header: 'Terlambat', width: 11, type: 'number' },
+            { header: 'Izin', width: 9, type: 'number' },
+            { header: 'Sakit', width: 9, type: 'number' },
+            { header: 'Alpha', width: 9, type: 'number' }
+          ],
+          rows: Object.keys(rekapData.dailyBreakdown).sort().map(dateKey => {
+            const day = rekapData.dailyBreakdown[dateKey];
+            return [dateKey, day.hadir, day.terlambat, day.izin, day.sakit, day.alpha];
+          })
+        }
+      ]);
+      downloadUrl = await saveFileEkspor(userId, fileName, XLSX_MIME_TYPE, xlsx);
+    }
 
     return {
       success: true,
@@ -0,0 +1,93 @@
+import { randomUUID } from 'crypto';
+import { db } from '../db';
+import { fileEksporTable } from '../db/schema';
+import { and, eq, gt, lte } from 'drizzle-orm';
+import { getFileStorage } from '../utils/file_storage';
+
+// Generated reports can be downloaded for this many hours, then they are deleted
+const FILE_EKSPOR_RETENTION_HOURS = Number(process.env['FILE_EKSPOR_RETENTION_HOURS'] || 24);
+const DEFAULT_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface DownloadedFileEkspor {
+  nama_file: string;
+  mime_type: string;
+  data: Buffer;
+}
+
+// Stores a generated report for the user who asked for it and returns its download URL
+export async function saveFileEkspor(userId: number, namaFile: string, mimeType: string, data: Buffer): Promise<string> {
+  const id = randomUUID();
+  const key = `exports/${id}`;
+  await getFileStorage().put(key, data);
+  await db.insert(fileEksporTable)
+    .values({
+      id,
+      user_id: userId,
+      nama_file: namaFile,
+      mime_type: mimeType,
+      ukuran: data.length,
+      storage_key: key,
+      expires_at: new Date(Date.now() + FILE_EKSPOR_RETENTION_HOURS * 60 * 60 * 1000)
+    })
+    .execute();
+
+  return `/exports/${id}/${encodeURIComponent(namaFile)}`;
+}
+
+// The file behind a download URL; null unless it belongs to the user and has not expired
+export async function getFileEkspor(id: string, userId: number, now: Date = new Date()): Promise<DownloadedFileEkspor | null> {
+  try {
+    const rows = await db.select()
+      .from(fileEksporTable)
+      .where(and(
+        eq(fileEksporTable.id, id),
+        eq(fileEksporTable.user_id, userId),
+        gt(fileEksporTable.expires_at, now)
+      ))
+      .execute();
+    if (rows.length === 0) return null;
+
+    const data = await getFileStorage().get(rows[0].storage_key);
+    return data && { nama_file: rows[0].nama_file, mime_type: rows[0].mime_type, data };
+  } catch (error) {
+    console.error('Get file ekspor failed:', error);
+    throw error;
+  }
+}
+
+// Deletes expired reports from the storage and the table. Returns the number of files removed.
+export async function purgeExpiredFileEkspor(now: Date = new Date()): Promise<number> {
+  try {
+    const expired = await db.delete(fileEksporTable)
+      .where(lte(fileEksporTable.expires_at, now))
+      .returning({ storage_key: fileEksporTable.storage_key })
+      .execute();
+
+    for (const file of expired) {
+      await getFileStorage().delete(file.storage_key);
+    }
+
+    return expired.length;
+  } catch (error) {
+    console.error('Purge expired file ekspor failed:', error);
+    throw error;
+  }
+}
+
+// Polls inside the server process; returns a function that stops the scheduler
+export function startFileEksporRetentionScheduler(intervalMs: number = DEFAULT_PURGE_INTERVAL_MS): () => void {
+  const tick = async () => {
+    try {
+      const removed = await purgeExpiredFileEkspor();
+      if (removed > 0) {
+        console.log(`File ekspor retention: ${removed} expired export(s) removed`);
+      }
+    } catch {
+      // Already logged by purgeExpiredFileEkspor; the next tick retries
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  return () => clearInterval(timer);
+}
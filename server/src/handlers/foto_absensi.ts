@@ -0,0 +1,123 @@
+import { db } from '../db';
+import { absensiTable } from '../db/schema';
+import { type FotoAbsensi } from '../schema';
+import { and, eq, isNotNull, isNull, lt } from 'drizzle-orm';
+import { getFileStorage } from '../utils/file_storage';
+import { CheckInError } from '../utils/check_in_error';
+import { decodeDataUrl, detectMimeType, toDataUrl } from '../utils/file_type';
+import { addDays, toDateKey } from '../utils/school_date';
+import { resolveSchoolTimezone } from './settings';
+
+// Check-in selfies are deleted this many days after the school day they were taken
+const FOTO_RETENTION_DAYS = Number(process.env['FOTO_RETENTION_DAYS'] || 30);
+const DEFAULT_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+function imageMimeType(data: Buffer): string | null {
+  const mimeType = detectMimeType(data);
+  return mimeType?.startsWith('image/') ? mimeType : null;
+}
+
+// One file per daily record, so checking in again replaces the earlier photo
+function fotoMasukKey(siswaId: number, tanggalHari: string): string {
+  return `absensi/${tanggalHari}/${siswaId}-masuk`;
+}
+
+// Stores a check-in selfie given as a data URL and returns its storage key
+export async function saveFotoMasuk(siswaId: number, tanggalHari: string, dataUrl: string): Promise<string> {
+  const data = decodeDataUrl(dataUrl);
+  if (!imageMimeType(data)) {
+    throw new CheckInError('PHOTO_INVALID', 'Foto is not a JPEG, PNG or WebP image');
+  }
+
+  const key = fotoMasukKey(siswaId, tanggalHari);
+  await getFileStorage().put(key, data);
+  return key;
+}
+
+export async function deleteFoto(key: string): Promise<void> {
+  await getFileStorage().delete(key);
+}
+
+// Selfies of today's check-ins in a kelas
+export async function getTodayFotoAbsensi(kelasId: number): Promise<FotoAbsensi[]> {
+  try {
+    const today = toDateKey(new Date(), await resolveSchoolTimezone());
+    const records = await db.select({
+      id: absensiTable.id,
+      siswa_id: absensiTable.siswa_id,
+      foto_masuk: absensiTable.foto_masuk
+    })
+      .from(absensiTable)
+      .where(and(
+        eq(absensiTable.kelas_id, kelasId),
+        eq(absensiTable.tanggal_hari, today),
+        isNull(absensiTable.jadwal_pelajaran_id),
+        isNotNull(absensiTable.foto_masuk)
+      ))
+      .execute();
+
+    const fotos: FotoAbsensi[] = [];
+    for (const record of records) {
+      const data = await getFileStorage().get(record.foto_masuk!);
+      const mimeType = data && imageMimeType(data);
+      if (!data || !mimeType) continue;
+
+      fotos.push({
+        absensi_id: record.id,
+        siswa_id: record.siswa_id,
+        foto: toDataUrl(mimeType, data)
+      });
+    }
+
+    return fotos;
+  } catch (error) {
+    console.error('Get today foto absensi failed:', error);
+    throw error;
+  }
+}
+
+// Deletes selfies older than the retention period and unlinks them from their records.
+// Returns the number of photos removed.
+export async function purgeExpiredFotoAbsensi(now: Date = new Date()): Promise<number> {
+  try {
+    const cutoff = addDays(toDateKey(now, await resolveSchoolTimezone()), -FOTO_RETENTION_DAYS);
+    const expired = await db.select({ id: absensiTable.id, foto_masuk: absensiTable.foto_masuk })
+      .from(absensiTable)
+      .where(and(
+        isNotNull(absensiTable.foto_masuk),
+        lt(absensiTable.tanggal_hari, cutoff)
+      ))
+      .execute();
+
+    for (const record of expired) {
+      await deleteFoto(record.foto_masuk!);
+      await db.update(absensiTable)
+        .set({ foto_masuk: null })
+        .where(eq(absensiTable.id, record.id))
+        .execute();
+    }
+
+    return expired.length;
+  } catch (error) {
+    console.error('Purge expired foto absensi failed:', error);
+    throw error;
+  }
+}
+
+// Polls inside the server process; returns a function that stops the scheduler
+export function startFotoRetentionScheduler(intervalMs: number = DEFAULT_PURGE_INTERVAL_MS): () => void {
+  const tick = async () => {
+    try {
+      const removed = await purgeExpiredFotoAbsensi();
+      if (removed > 0) {
+        console.log(`Foto retention: ${removed} expired check-in photo(s) removed`);
+      }
+    } catch {
+      // Already logged by purgeExpiredFotoAbsensi; the next tick retries
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,229 @@
+import { db } from '../db';
+import { guruTable, jadwalPelajaranTable, kelasTable, mataPelajaranTable } from '../db/schema';
+import {
+  type CreateJadwalPelajaranInput,
+  type UpdateJadwalPelajaranInput,
+  type GetJadwalPelajaranInput,
+  type JadwalPelajaran,
+  type JadwalPelajaranDetail
+} from '../schema';
+import { and, asc, eq, gt, lt, lte, ne, or, type SQL } from 'drizzle-orm';
+import { isSchoolDayForKelas } from './kalender_akademik';
+import { resolveSchoolTimezone } from './settings';
+import { dayOfWeek, toDateKey, toTimeOfDay } from '../utils/school_date';
+
+type Slot = Pick<JadwalPelajaran, 'kelas_id' | 'mata_pelajaran_id' | 'guru_id' | 'hari' | 'jam_mulai' | 'jam_selesai'>;
+
+async function assertReferencesExist(slot: Slot): Promise<void> {
+  const [kelas, mataPelajaran, guru] = await Promise.all([
+    db.select().from(kelasTable).where(eq(kelasTable.id, slot.kelas_id)).execute(),
+    db.select().from(mataPelajaranTable).where(eq(mataPelajaranTable.id, slot.mata_pelajaran_id)).execute(),
+    db.select().from(guruTable).where(eq(guruTable.id, slot.guru_id)).execute()
+  ]);
+
+  if (kelas.length === 0) {
+    throw new Error('Kelas not found');
+  }
+  if (mataPelajaran.length === 0) {
+    throw new Error('Mata pelajaran not found');
+  }
+  if (guru.length === 0) {
+    throw new Error('Guru not found');
+  }
+}
+
+// Neither the kelas nor the guru can be in two lessons at once
+async function assertNoOverlap(slot: Slot, exceptId?: number): Promise<void> {
+  const conditions: (SQL | undefined)[] = [
+    eq(jadwalPelajaranTable.hari, slot.hari),
+    lt(jadwalPelajaranTable.jam_mulai, slot.jam_selesai),
+    gt(jadwalPelajaranTable.jam_selesai, slot.jam_mulai),
+    or(eq(jadwalPelajaranTable.kelas_id, slot.kelas_id), eq(jadwalPelajaranTable.guru_id, slot.guru_id))
+  ];
+  if (exceptId !== undefined) {
+    conditions.push(ne(jadwalPelajaranTable.id, exceptId));
+  }
+
+  const overlapping = await db.select()
+    .from(jadwalPelajaranTable)
+    .where(and(...conditions))
+    .execute();
+
+  if (overlapping.some(other => other.kelas_id === slot.kelas_id)) {
+    throw new Error('Jadwal overlaps with another lesson of the kelas');
+  }
+  if (overlapping.length > 0) {
+    throw new Error('Jadwal overlaps with another lesson of the guru');
+  }
+}
+
+function selectDetail() {
+  return db.select({
+    jadwal: jadwalPelajaranTable,
+    nama_kelas: kelasTable.nama_kelas,
+    nama_mata_pelajaran: mataPelajaranTable.nama,
+    nama_guru: guruTable.nama
+  })
+    .from(jadwalPelajaranTable)
+    .innerJoin(kelasTable, eq(jadwalPelajaranTable.kelas_id, kelasTable.id))
+    .innerJoin(mataPelajaranTable, eq(jadwalPelajaranTable.mata_pelajaran_id, mataPelajaranTable.id))
+    .innerJoin(guruTable, eq(jadwalPelajaranTable.guru_id, guruTable.id));
+}
+
+type DetailRow = Awaited<ReturnType<ReturnType<typeof selectDetail>['execute']>>[number];
+
+const toDetail = (row: DetailRow): JadwalPelajaranDetail => ({
+  ...row.jadwal,
+  nama_kelas: row.nama_kelas,
+  nama_mata_pelajaran: row.nama_mata_pelajaran,
+  nama_guru: row.nama_guru
+});
+
+export async function createJadwalPelajaran(input: CreateJadwalPelajaranInput): Promise<JadwalPelajaran> {
+  try {
+    await assertReferencesExist(input);
+    await assertNoOverlap(input);
+
+    const result = await db.insert(jadwalPelajaranTable)
+      .values({
+        kelas_id: input.kelas_id,
+        mata_pelajaran_id: input.mata_pelajaran_id,
+        guru_id: input.guru_id,
+        hari: input.hari,
+        jam_mulai: input.jam_mulai,
+        jam_selesai: input.jam_selesai
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Jadwal pelajaran creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateJadwalPelajaran(input: UpdateJadwalPelajaranInput): Promise<JadwalPelajaran> {
+  try {
+    const existing = await getJadwalPelajaranById(input.id);
+    if (!existing) {
+      throw new Error('Jadwal pelajaran not found');
+    }
+
+    const slot: Slot = {
+      kelas_id: input.kelas_id ?? existing.kelas_id,
+      mata_pelajaran_id: input.mata_pelajaran_id ?? existing.mata_pelajaran_id,
+      guru_id: input.guru_id ?? existing.guru_id,
+      hari: input.hari ?? existing.hari,
+      jam_mulai: input.jam_mulai ?? existing.jam_mulai,
+      jam_selesai: input.jam_selesai ?? existing.jam_selesai
+    };
+
+    if (slot.jam_mulai >= slot.jam_selesai) {
+      throw new Error('jam_mulai must be before jam_selesai');
+    }
+
+    await assertReferencesExist(slot);
+    await assertNoOverlap(slot, input.id);
+
+    const result = await db.update(jadwalPelajaranTable)
+      .set({ ...slot, updated_at: new Date() })
+      .where(eq(jadwalPelajaranTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Jadwal pelajaran update failed:', error);
+    throw error;
+  }
+}
+
+// Removes the slot together with the lesson records taken in it
+export async function deleteJadwalPelajaran(id: number): Promise<{ success: boolean; message: string }> {
+  try {
+    const result = await db.delete(jadwalPelajaranTable)
+      .where(eq(jadwalPelajaranTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Jadwal pelajaran not found');
+    }
+
+    return {
+      success: true,
+      message: 'Jadwal pelajaran deleted successfully'
+    };
+  } catch (error) {
+    console.error('Jadwal pelajaran deletion failed:', error);
+    throw error;
+  }
+}
+
+export async function getJadwalPelajaran(input: GetJadwalPelajaranInput): Promise<JadwalPelajaranDetail[]> {
+  try {
+    const conditions: SQL[] = [];
+
+    if (input.kelas_id !== undefined) {
+      conditions.push(eq(jadwalPelajaranTable.kelas_id, input.kelas_id));
+    }
+
+    if (input.guru_id !== undefined) {
+      conditions.push(eq(jadwalPelajaranTable.guru_id, input.guru_id));
+    }
+
+    if (input.hari !== undefined) {
+      conditions.push(eq(jadwalPelajaranTable.hari, input.hari));
+    }
+
+    const results = await selectDetail()
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(jadwalPelajaranTable.hari), asc(jadwalPelajaranTable.jam_mulai))
+      .execute();
+
+    return results.map(toDetail);
+  } catch (error) {
+    console.error('Get jadwal pelajaran failed:', error);
+    throw error;
+  }
+}
+
+export async function getJadwalPelajaranById(id: number): Promise<JadwalPelajaran | null> {
+  try {
+    const result = await db.select()
+      .from(jadwalPelajaranTable)
+      .where(eq(jadwalPelajaranTable.id, id))
+      .execute();
+
+    return result.length > 0 ? result[0] : null;
+  } catch (error) {
+    console.error('Get jadwal pelajaran by ID failed:', error);
+    throw error;
+  }
+}
+
+// The lesson the guru is teaching at the given moment, if the day is a school day for its kelas
+export async function getJadwalSaatIni(guruId: number, now: Date = new Date()): Promise<JadwalPelajaranDetail | null> {
+  try {
+    const timezone = await resolveSchoolTimezone();
+    const currentTime = toTimeOfDay(now, timezone).slice(0, 5); // HH:MM
+
+    const results = await selectDetail()
+      .where(and(
+        eq(jadwalPelajaranTable.guru_id, guruId),
+        eq(jadwalPelajaranTable.hari, dayOfWeek(toDateKey(now, timezone))),
+        lte(jadwalPelajaranTable.jam_mulai, currentTime),
+        gt(jadwalPelajaranTable.jam_selesai, currentTime)
+      ))
+      .execute();
+
+    if (results.length === 0) return null;
+
+    const jadwal = toDetail(results[0]);
+    return await isSchoolDayForKelas(now, jadwal.kelas_id) ? jadwal : null;
+  } catch (error) {
+    console.error('Get jadwal saat ini failed:', error);
+    throw error;
+  }
+}
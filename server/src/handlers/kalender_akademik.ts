@@ -0,0 +1,214 @@
+import { db } from '../db';
+import { kalenderAkademikTable, kelasTable } from '../db/schema';
+import {
+  type CreateKalenderAkademikInput,
+  type UpdateKalenderAkademikInput,
+  type GetKalenderAkademikInput,
+  type KalenderAkademik
+} from '../schema';
+import { and, asc, eq, gte, isNull, lt, or, type SQL } from 'drizzle-orm';
+import { getWeekend, resolveSchoolTimezone } from './settings';
+import { isSchoolDay, countSchoolDays, schoolDays } from '../utils/school_calendar';
+import { startOfDay, addDays, toDateKey } from '../utils/school_date';
+
+async function assertKelasExists(kelasId: number | null): Promise<void> {
+  if (kelasId === null) return;
+
+  const kelas = await db.select()
+    .from(kelasTable)
+    .where(eq(kelasTable.id, kelasId))
+    .execute();
+
+  if (kelas.length === 0) {
+    throw new Error('Kelas not found');
+  }
+}
+
+// Entries touching any school day from startKey to endKey; with a kelas only school-wide entries and those of the kelas
+async function loadEntries(startKey: string, endKey: string, kelasId: number | null, timezone: string): Promise<KalenderAkademik[]> {
+  const startOfFirstDay = startOfDay(startKey, timezone);
+  const startOfNextDay = startOfDay(addDays(endKey, 1), timezone);
+
+  const conditions: (SQL | undefined)[] = [
+    lt(kalenderAkademikTable.tanggal_mulai, startOfNextDay),
+    gte(kalenderAkademikTable.tanggal_selesai, startOfFirstDay)
+  ];
+
+  if (kelasId !== null) {
+    conditions.push(or(isNull(kalenderAkademikTable.kelas_id), eq(kalenderAkademikTable.kelas_id, kelasId)));
+  }
+
+  return db.select()
+    .from(kalenderAkademikTable)
+    .where(and(...conditions))
+    .orderBy(asc(kalenderAkademikTable.tanggal_mulai))
+    .execute();
+}
+
+export async function createKalenderAkademik(input: CreateKalenderAkademikInput, actorId: number | null): Promise<KalenderAkademik> {
+  try {
+    await assertKelasExists(input.kelas_id);
+
+    const result = await db.insert(kalenderAkademikTable)
+      .values({
+        tanggal_mulai: input.tanggal_mulai,
+        tanggal_selesai: input.tanggal_selesai,
+        jenis: input.jenis,
+        keterangan: input.keterangan,
+        hari_sekolah: input.hari_sekolah,
+        kelas_id: input.kelas_id,
+        created_by: actorId
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Kalender akademik creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateKalenderAkademik(input: UpdateKalenderAkademikInput): Promise<KalenderAkademik> {
+  try {
+    const existing = await getKalenderAkademikById(input.id);
+    if (!existing) {
+      throw new Error('Kalender akademik entry not found');
+    }
+
+    const tanggalMulai = input.tanggal_mulai ?? existing.tanggal_mulai;
+    const tanggalSelesai = input.tanggal_selesai ?? existing.tanggal_selesai;
+    if (tanggalMulai > tanggalSelesai) {
+      throw new Error('tanggal_mulai must not be after tanggal_selesai');
+    }
+
+    if (input.kelas_id !== undefined) {
+      await assertKelasExists(input.kelas_id);
+    }
+
+    // Build update object with only provided fields
+    const updateData: Partial<typeof kalenderAkademikTable.$inferInsert> = {
+      tanggal_mulai: tanggalMulai,
+      tanggal_selesai: tanggalSelesai,
+      updated_at: new Date()
+    };
+
+    if (input.jenis !== undefined) {
+      updateData.jenis = input.jenis;
+    }
+
+    if (input.keterangan !== undefined) {
+      updateData.keterangan = input.keterangan;
+    }
+
+    if (input.hari_sekolah !== undefined) {
+      updateData.hari_sekolah = input.hari_sekolah;
+    }
+
+    if (input.kelas_id !== undefined) {
+      updateData.kelas_id = input.kelas_id;
+    }
+
+    const result = await db.update(kalenderAkademikTable)
+      .set(updateData)
+      .where(eq(kalenderAkademikTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Kalender akademik update failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteKalenderAkademik(id: number): Promise<{ success: boolean; message: string }> {
+  try {
+    const result = await db.delete(kalenderAkademikTable)
+      .where(eq(kalenderAkademikTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Kalender akademik entry not found');
+    }
+
+    return {
+      success: true,
+      message: 'Kalender akademik entry deleted successfully'
+    };
+  } catch (error) {
+    console.error('Kalender akademik deletion failed:', error);
+    throw error;
+  }
+}
+
+export async function getKalenderAkademik(input: GetKalenderAkademikInput): Promise<KalenderAkademik[]> {
+  try {
+    const timezone = await resolveSchoolTimezone();
+    return await loadEntries(
+      toDateKey(input.start_date, timezone),
+      toDateKey(input.end_date, timezone),
+      input.kelas_id ?? null,
+      timezone
+    );
+  } catch (error) {
+    console.error('Get kalender akademik failed:', error);
+    throw error;
+  }
+}
+
+export async function getKalenderAkademikById(id: number): Promise<KalenderAkademik | null> {
+  try {
+    const result = await db.select()
+      .from(kalenderAkademikTable)
+      .where(eq(kalenderAkademikTable.id, id))
+      .execute();
+
+    return result.length > 0 ? result[0] : null;
+  } catch (error) {
+    console.error('Get kalender akademik by ID failed:', error);
+    throw error;
+  }
+}
+
+// Whether attendance is expected from the kelas on the school day of the given instant; null asks for the whole school
+export async function isSchoolDayForKelas(date: Date, kelasId: number | null): Promise<boolean> {
+  try {
+    const timezone = await resolveSchoolTimezone();
+    const dateKey = toDateKey(date, timezone);
+    const [weekend, entries] = await Promise.all([getWeekend(), loadEntries(dateKey, dateKey, kelasId, timezone)]);
+    return isSchoolDay(dateKey, kelasId, weekend?.days ?? [], entries, timezone);
+  } catch (error) {
+    console.error('School day check failed:', error);
+    throw error;
+  }
+}
+
+// Effective school days from start to end inclusive, the denominator of every attendance rate
+export async function countSchoolDaysForKelas(start: Date, end: Date, kelasId: number | null): Promise<number> {
+  try {
+    const timezone = await resolveSchoolTimezone();
+    const startKey = toDateKey(start, timezone);
+    const endKey = toDateKey(end, timezone);
+    const [weekend, entries] = await Promise.all([getWeekend(), loadEntries(startKey, endKey, kelasId, timezone)]);
+    return countSchoolDays(startKey, endKey, kelasId, weekend?.days ?? [], entries, timezone);
+  } catch (error) {
+    console.error('School day count failed:', error);
+    throw error;
+  }
+}
+
+// Effective school days from start to end inclusive, as date keys in the school timezone
+export async function getSchoolDaysForKelas(start: Date, end: Date, kelasId: number | null): Promise<string[]> {
+  try {
+    const timezone = await resolveSchoolTimezone();
+    const startKey = toDateKey(start, timezone);
+    const endKey = toDateKey(end, timezone);
+    const [weekend, entries] = await Promise.all([getWeekend(), loadEntries(startKey, endKey, kelasId, timezone)]);
+    return schoolDays(startKey, endKey, kelasId, weekend?.days ?? [], entries, timezone);
+  } catch (error) {
+    console.error('School days lookup failed:', error);
+    throw error;
+  }
+}
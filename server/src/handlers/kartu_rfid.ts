@@ -0,0 +1,106 @@
+import { db } from '../db';
+import { kartuRfidTable, siswaTable } from '../db/schema';
+import {
+  type CreateKartuRfidInput,
+  type GetKartuRfidInput,
+  type KartuRfid,
+  type KartuRfidDetail
+} from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+export async function createKartuRfid(input: CreateKartuRfidInput): Promise<KartuRfid> {
+  try {
+    const siswa = await db.select()
+      .from(siswaTable)
+      .where(eq(siswaTable.id, input.siswa_id))
+      .execute();
+
+    if (siswa.length === 0) {
+      throw new Error('Siswa not found');
+    }
+
+    // A card belongs to one siswa; hand it to another by deleting it first
+    const existing = await db.select()
+      .from(kartuRfidTable)
+      .where(eq(kartuRfidTable.uid, input.uid))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error('Kartu is already assigned to a siswa');
+    }
+
+    const result = await db.insert(kartuRfidTable)
+      .values({
+        uid: input.uid,
+        siswa_id: input.siswa_id
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Kartu RFID creation failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteKartuRfid(id: number): Promise<{ success: boolean; message: string }> {
+  try {
+    const result = await db.delete(kartuRfidTable)
+      .where(eq(kartuRfidTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Kartu RFID not found');
+    }
+
+    return {
+      success: true,
+      message: 'Kartu RFID deleted successfully'
+    };
+  } catch (error) {
+    console.error('Kartu RFID deletion failed:', error);
+    throw error;
+  }
+}
+
+export async function getKartuRfid(input: GetKartuRfidInput): Promise<KartuRfidDetail[]> {
+  try {
+    const query = db.select({
+      id: kartuRfidTable.id,
+      uid: kartuRfidTable.uid,
+      siswa_id: kartuRfidTable.siswa_id,
+      created_at: kartuRfidTable.created_at,
+      nama_siswa: siswaTable.nama,
+      nisn: siswaTable.nisn
+    })
+      .from(kartuRfidTable)
+      .innerJoin(siswaTable, eq(kartuRfidTable.siswa_id, siswaTable.id));
+
+    const filtered = input.siswa_id !== undefined
+      ? query.where(eq(kartuRfidTable.siswa_id, input.siswa_id))
+      : query;
+
+    return await filtered
+      .orderBy(asc(siswaTable.nama), asc(kartuRfidTable.uid))
+      .execute();
+  } catch (error) {
+    console.error('Get kartu RFID failed:', error);
+    throw error;
+  }
+}
+
+export async function getKartuRfidById(id: number): Promise<KartuRfid | null> {
+  try {
+    const result = await db.select()
+      .from(kartuRfidTable)
+      .where(eq(kartuRfidTable.id, id))
+      .execute();
+
+    return result.length > 0 ? result[0] : null;
+  } catch (error) {
+    console.error('Get kartu RFID by ID failed:', error);
+    throw error;
+  }
+}
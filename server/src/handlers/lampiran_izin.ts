@@ -0,0 +1,84 @@
+import { randomUUID } from 'crypto';
+import { db } from '../db';
+import { lampiranIzinTable } from '../db/schema';
+import { type LampiranInput, type LampiranIzin } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import { getFileStorage } from '../utils/file_storage';
+import { decodeDataUrl, detectMimeType, toDataUrl } from '../utils/file_type';
+
+// Largest attachment accepted, after decoding
+const LAMPIRAN_MAX_BYTES = Number(process.env['LAMPIRAN_MAX_BYTES'] || 5 * 1024 * 1024);
+
+export interface PreparedLampiran {
+  nama_file: string;
+  mime_type: string;
+  data: Buffer;
+}
+
+// Decodes and checks uploaded attachments before anything is stored, so a bad
+// file rejects the whole request
+export function prepareLampiran(inputs: LampiranInput[]): PreparedLampiran[] {
+  return inputs.map((input) => {
+    const data = decodeDataUrl(input.data);
+    const mimeType = detectMimeType(data);
+    if (!mimeType) {
+      throw new Error(`Lampiran ${input.nama_file} is not a JPEG, PNG or WebP image or a PDF`);
+    }
+    if (data.length > LAMPIRAN_MAX_BYTES) {
+      throw new Error(`Lampiran ${input.nama_file} is larger than ${Math.floor(LAMPIRAN_MAX_BYTES / 1024 / 1024)} MB`);
+    }
+    return { nama_file: input.nama_file, mime_type: mimeType, data };
+  });
+}
+
+// Stores prepared attachments of a pengajuan izin
+export async function saveLampiran(pengajuanIzinId: number, lampiran: PreparedLampiran[]): Promise<void> {
+  for (const file of lampiran) {
+    const key = `pengajuan_izin/${pengajuanIzinId}/${randomUUID()}`;
+    await getFileStorage().put(key, file.data);
+    await db.insert(lampiranIzinTable)
+      .values({
+        pengajuan_izin_id: pengajuanIzinId,
+        nama_file: file.nama_file,
+        mime_type: file.mime_type,
+        ukuran: file.data.length,
+        storage_key: key
+      })
+      .execute();
+  }
+}
+
+export async function getLampiranPengajuanIzin(pengajuanIzinId: number): Promise<LampiranIzin[]> {
+  try {
+    const rows = await db.select()
+      .from(lampiranIzinTable)
+      .where(eq(lampiranIzinTable.pengajuan_izin_id, pengajuanIzinId))
+      .orderBy(asc(lampiranIzinTable.id))
+      .execute();
+
+    const lampiran: LampiranIzin[] = [];
+    for (const { storage_key, ...row } of rows) {
+      const data = await getFileStorage().get(storage_key);
+      if (!data) continue;
+
+      lampiran.push({ ...row, data: toDataUrl(row.mime_type, data) });
+    }
+
+    return lampiran;
+  } catch (error) {
+    console.error('Get lampiran pengajuan izin failed:', error);
+    throw error;
+  }
+}
+
+// Removes the stored files; the rows go with their pengajuan izin
+export async function deleteLampiranFiles(pengajuanIzinId: number): Promise<void> {
+  const rows = await db.select({ storage_key: lampiranIzinTable.storage_key })
+    .from(lampiranIzinTable)
+    .where(eq(lampiranIzinTable.pengajuan_izin_id, pengajuanIzinId))
+    .execute();
+
+  for (const row of rows) {
+    await getFileStorage().delete(row.storage_key);
+  }
+}
@@ -0,0 +1,207 @@
+import { db } from '../db';
+import { usersTable, lockoutEventsTable } from '../db/schema';
+import { type Role, type LockoutEvent, type GetLockoutEventsInput } from '../schema';
+import { eq, and, desc, type SQL } from 'drizzle-orm';
+import {
+  createLoginAttemptStore,
+  type LoginAttemptStore,
+  type LoginAttemptState
+} from '../utils/login_attempt_store';
+
+const MAX_ATTEMPTS = Number(process.env['LOGIN_MAX_ATTEMPTS'] || 5);
+const IP_MAX_ATTEMPTS = Number(process.env['LOGIN_IP_MAX_ATTEMPTS'] || 20);
+const LOCKOUT_SECONDS = Number(process.env['LOGIN_LOCKOUT_SECONDS'] || 60);
+const LOCKOUT_MAX_SECONDS = Number(process.env['LOGIN_LOCKOUT_MAX_SECONDS'] || 3600);
+const ATTEMPT_WINDOW_MINUTES = Number(process.env['LOGIN_ATTEMPT_WINDOW_MINUTES'] || 15);
+const LOCKOUT_RESET_HOURS = Number(process.env['LOGIN_LOCKOUT_RESET_HOURS'] || 24);
+
+// Counters older than the lockout reset are ignored anyway, so the store may forget them
+let store: LoginAttemptStore = createLoginAttemptStore(LOCKOUT_RESET_HOURS * 60 * 60 * 1000);
+
+export function setLoginAttemptStore(newStore: LoginAttemptStore): void {
+  store = newStore;
+}
+
+function identifierKey(role: Role, identifier: string): string {
+  return `identifier:${role}:${identifier.trim().toLowerCase()}`;
+}
+
+function ipKey(ip: string): string {
+  return `ip:${ip}`;
+}
+
+// Seconds until the key may try again, or 0 when it is not locked
+function remainingLockSeconds(state: LoginAttemptState | null, now: Date): number {
+  if (!state || !state.locked_until) return 0;
+  return Math.max(0, Math.ceil((state.locked_until.getTime() - now.getTime()) / 1000));
+}
+
+// Returns how many seconds the caller has to wait, or 0 when the attempt may proceed
+export async function getLoginLockout(role: Role, identifier: string, ip: string | null): Promise<number> {
+  try {
+    const now = new Date();
+    const identifierState = await store.get(identifierKey(role, identifier));
+    const ipState = ip ? await store.get(ipKey(ip)) : null;
+
+    return Math.max(
+      remainingLockSeconds(identifierState, now),
+      remainingLockSeconds(ipState, now)
+    );
+  } catch (error) {
+    console.error('Login lockout check failed:', error);
+    throw error;
+  }
+}
+
+async function registerFailure(
+  key: string,
+  maxAttempts: number,
+  event: Omit<typeof lockoutEventsTable.$inferInsert, 'event' | 'key' | 'failures' | 'locked_until'>
+): Promise<void> {
+  const now = new Date();
+  let state = await store.get(key);
+
+  // A long quiet period forgives earlier lockouts entirely
+  if (state && now.getTime() - state.last_failure_at.getTime() > LOCKOUT_RESET_HOURS * 60 * 60 * 1000) {
+    state = null;
+  }
+
+  const withinWindow = state !== null
+    && now.getTime() - state.last_failure_at.getTime() <= ATTEMPT_WINDOW_MINUTES * 60 * 1000;
+
+  const next: LoginAttemptState = {
+    failures: withinWindow ? state!.failures + 1 : 1,
+    lockouts: state?.lockouts ?? 0,
+    locked_until: null,
+    last_failure_at: now
+  };
+
+  if (next.failures >= maxAttempts) {
+    // Each consecutive lockout doubles the wait, up to the configured maximum
+    const seconds = Math.min(LOCKOUT_SECONDS * 2 ** next.lockouts, LOCKOUT_MAX_SECONDS);
+    next.lockouts += 1;
+    next.locked_until = new Date(now.getTime() + seconds * 1000);
+
+    await db.insert(lockoutEventsTable)
+      .values({
+        ...event,
+        event: 'locked',
+        key,
+        failures: next.failures,
+        locked_until: next.locked_until
+      })
+      .execute();
+
+    next.failures = 0;
+  }
+
+  await store.set(key, next);
+}
+
+export async function recordLoginFailure(
+  role: Role,
+  identifier: string,
+  ip: string | null,
+  userId: number | null
+): Promise<void> {
+  try {
+    await registerFailure(identifierKey(role, identifier), MAX_ATTEMPTS, {
+      scope: 'identifier',
+      user_id: userId,
+      ip
+    });
+
+    if (ip) {
+      await registerFailure(ipKey(ip), IP_MAX_ATTEMPTS, {
+        scope: 'ip',
+        user_id: null,
+        ip
+      });
+    }
+  } catch (error) {
+    console.error('Recording login failure failed:', error);
+    throw error;
+  }
+}
+
+// Only the identifier is cleared; a successful login must not reset an attacking IP
+export async function recordLoginSuccess(role: Role, identifier: string): Promise<void> {
+  try {
+    await store.delete(identifierKey(role, identifier));
+  } catch (error) {
+    console.error('Recording login success failed:', error);
+    throw error;
+  }
+}
+
+export async function unlockUser(userId: number, actorId: number | null): Promise<{ success: boolean; message: string }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const user = users[0];
+    const identifier = user.role === 'admin' || user.role === 'orang_tua' ? user.username
+      : user.role === 'guru' ? user.nip
+      : user.nisn;
+
+    if (!identifier) {
+      throw new Error('User has no login identifier');
+    }
+
+    const key = identifierKey(user.role, identifier);
+    const state = await store.get(key);
+
+    await store.delete(key);
+
+    await db.insert(lockoutEventsTable)
+      .values({
+        event: 'unlocked',
+        scope: 'identifier',
+        key,
+        user_id: user.id,
+        failures: state?.failures ?? 0,
+        actor_id: actorId
+      })
+      .execute();
+
+    return {
+      success: true,
+      message: 'User unlocked successfully'
+    };
+  } catch (error) {
+    console.error('User unlock failed:', error);
+    throw error;
+  }
+}
+
+export async function getLockoutEvents(input: GetLockoutEventsInput = {}): Promise<LockoutEvent[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.user_id !== undefined) {
+      conditions.push(eq(lockoutEventsTable.user_id, input.user_id));
+    }
+
+    if (input.scope !== undefined) {
+      conditions.push(eq(lockoutEventsTable.scope, input.scope));
+    }
+
+    const results = await db.select()
+      .from(lockoutEventsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(lockoutEventsTable.created_at), desc(lockoutEventsTable.id))
+      .limit(input.limit ?? 100)
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Get lockout events failed:', error);
+    throw error;
+  }
+}
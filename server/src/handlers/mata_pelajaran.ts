@@ -0,0 +1,123 @@
+import { db } from '../db';
+import { mataPelajaranTable } from '../db/schema';
+import {
+  type CreateMataPelajaranInput,
+  type UpdateMataPelajaranInput,
+  type MataPelajaran
+} from '../schema';
+import { and, asc, eq, ne } from 'drizzle-orm';
+
+async function assertKodeAvailable(kode: string, exceptId?: number): Promise<void> {
+  const conditions = [eq(mataPelajaranTable.kode, kode)];
+  if (exceptId !== undefined) {
+    conditions.push(ne(mataPelajaranTable.id, exceptId));
+  }
+
+  const existing = await db.select()
+    .from(mataPelajaranTable)
+    .where(and(...conditions))
+    .execute();
+
+  if (existing.length > 0) {
+    throw new Error('Kode mata pelajaran already exists');
+  }
+}
+
+export async function createMataPelajaran(input: CreateMataPelajaranInput): Promise<MataPelajaran> {
+  try {
+    await assertKodeAvailable(input.kode);
+
+    const result = await db.insert(mataPelajaranTable)
+      .values({
+        kode: input.kode,
+        nama: input.nama
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Mata pelajaran creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateMataPelajaran(input: UpdateMataPelajaranInput): Promise<MataPelajaran> {
+  try {
+    const updateData: Partial<typeof mataPelajaranTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.kode !== undefined) {
+      await assertKodeAvailable(input.kode, input.id);
+      updateData.kode = input.kode;
+    }
+
+    if (input.nama !== undefined) {
+      updateData.nama = input.nama;
+    }
+
+    const result = await db.update(mataPelajaranTable)
+      .set(updateData)
+      .where(eq(mataPelajaranTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Mata pelajaran not found');
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Mata pelajaran update failed:', error);
+    throw error;
+  }
+}
+
+// Removes the subject together with its timetable slots and their lesson records
+export async function deleteMataPelajaran(id: number): Promise<{ success: boolean; message: string }> {
+  try {
+    const result = await db.delete(mataPelajaranTable)
+      .where(eq(mataPelajaranTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Mata pelajaran not found');
+    }
+
+    return {
+      success: true,
+      message: 'Mata pelajaran deleted successfully'
+    };
+  } catch (error) {
+    console.error('Mata pelajaran deletion failed:', error);
+    throw error;
+  }
+}
+
+export async function getAllMataPelajaran(): Promise<MataPelajaran[]> {
+  try {
+    return await db.select()
+      .from(mataPelajaranTable)
+      .orderBy(asc(mataPelajaranTable.nama))
+      .execute();
+  } catch (error) {
+    console.error('Get all mata pelajaran failed:', error);
+    throw error;
+  }
+}
+
+export async function getMataPelajaranById(id: number): Promise<MataPelajaran | null> {
+  try {
+    const result = await db.select()
+      .from(mataPelajaranTable)
+      .where(eq(mataPelajaranTable.id, id))
+      .execute();
+
+    return result.length > 0 ? result[0] : null;
+  } catch (error) {
+    console.error('Get mata pelajaran by ID failed:', error);
+    throw error;
+  }
+}
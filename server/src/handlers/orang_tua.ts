@@ -0,0 +1,268 @@
+import { db } from '../db';
+import { orangTuaTable, orangTuaSiswaTable, siswaTable, usersTable } from '../db/schema';
+import {
+  type CreateOrangTuaInput,
+  type UpdateOrangTuaInput,
+  type LinkOrangTuaSiswaInput,
+  type OrangTua,
+  type OrangTuaSiswa,
+  type Siswa
+} from '../schema';
+import { eq, and } from 'drizzle-orm';
+
+export async function createOrangTua(input: CreateOrangTuaInput): Promise<OrangTua> {
+  try {
+    // Verify that the user exists and has the 'orang_tua' role
+    const user = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .execute();
+
+    if (user.length === 0) {
+      throw new Error('User not found');
+    }
+
+    if (user[0].role !== 'orang_tua') {
+      throw new Error('User must have orang_tua role');
+    }
+
+    // Check if orang tua profile already exists for this user
+    const existingOrangTua = await db.select()
+      .from(orangTuaTable)
+      .where(eq(orangTuaTable.user_id, input.user_id))
+      .execute();
+
+    if (existingOrangTua.length > 0) {
+      throw new Error('Orang tua profile already exists for this user');
+    }
+
+    const result = await db.insert(orangTuaTable)
+      .values({
+        user_id: input.user_id,
+        nama: input.nama,
+        no_hp: input.no_hp
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Orang tua creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateOrangTua(input: UpdateOrangTuaInput): Promise<OrangTua> {
+  try {
+    const existingOrangTua = await db.select()
+      .from(orangTuaTable)
+      .where(eq(orangTuaTable.id, input.id))
+      .execute();
+
+    if (existingOrangTua.length === 0) {
+      throw new Error('Orang tua not found');
+    }
+
+    // Build update object with only provided fields
+    const updateData: Partial<typeof orangTuaTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.nama !== undefined) {
+      updateData.nama = input.nama;
+    }
+
+    if (input.no_hp !== undefined) {
+      updateData.no_hp = input.no_hp;
+    }
+
+    const result = await db.update(orangTuaTable)
+      .set(updateData)
+      .where(eq(orangTuaTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Orang tua update failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteOrangTua(id: number): Promise<{ success: boolean; message: string }> {
+  try {
+    const existingOrangTua = await db.select()
+      .from(orangTuaTable)
+      .where(eq(orangTuaTable.id, id))
+      .execute();
+
+    if (existingOrangTua.length === 0) {
+      throw new Error('Orang tua not found');
+    }
+
+    // Links to children are removed by the cascade
+    await db.delete(orangTuaTable)
+      .where(eq(orangTuaTable.id, id))
+      .execute();
+
+    return {
+      success: true,
+      message: 'Orang tua deleted successfully'
+    };
+  } catch (error) {
+    console.error('Orang tua deletion failed:', error);
+    throw error;
+  }
+}
+
+export async function getAllOrangTua(): Promise<OrangTua[]> {
+  try {
+    const result = await db.select()
+      .from(orangTuaTable)
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Get all orang tua failed:', error);
+    throw error;
+  }
+}
+
+export async function getOrangTuaById(id: number): Promise<OrangTua | null> {
+  try {
+    const result = await db.select()
+      .from(orangTuaTable)
+      .where(eq(orangTuaTable.id, id))
+      .execute();
+
+    return result.length > 0 ? result[0] : null;
+  } catch (error) {
+    console.error('Get orang tua by ID failed:', error);
+    throw error;
+  }
+}
+
+export async function linkSiswaToOrangTua(input: LinkOrangTuaSiswaInput): Promise<OrangTuaSiswa> {
+  try {
+    const orangTua = await getOrangTuaById(input.orang_tua_id);
+    if (!orangTua) {
+      throw new Error('Orang tua not found');
+    }
+
+    const siswa = await db.select()
+      .from(siswaTable)
+      .where(eq(siswaTable.id, input.siswa_id))
+      .execute();
+
+    if (siswa.length === 0) {
+      throw new Error('Siswa not found');
+    }
+
+    const existingLink = await db.select()
+      .from(orangTuaSiswaTable)
+      .where(and(
+        eq(orangTuaSiswaTable.orang_tua_id, input.orang_tua_id),
+        eq(orangTuaSiswaTable.siswa_id, input.siswa_id)
+      ))
+      .execute();
+
+    if (existingLink.length > 0) {
+      throw new Error('Siswa is already linked to this orang tua');
+    }
+
+    const result = await db.insert(orangTuaSiswaTable)
+      .values({
+        orang_tua_id: input.orang_tua_id,
+        siswa_id: input.siswa_id,
+        hubungan: input.hubungan
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Linking siswa to orang tua failed:', error);
+    throw error;
+  }
+}
+
+export async function unlinkSiswaFromOrangTua(id: number): Promise<{ success: boolean; message: string }> {
+  try {
+    const result = await db.delete(orangTuaSiswaTable)
+      .where(eq(orangTuaSiswaTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Link not found');
+    }
+
+    return {
+      success: true,
+      message: 'Siswa unlinked successfully'
+    };
+  } catch (error) {
+    console.error('Unlinking siswa from orang tua failed:', error);
+    throw error;
+  }
+}
+
+export async function getOrangTuaSiswaById(id: number): Promise<OrangTuaSiswa | null> {
+  try {
+    const result = await db.select()
+      .from(orangTuaSiswaTable)
+      .where(eq(orangTuaSiswaTable.id, id))
+      .execute();
+
+    return result.length > 0 ? result[0] : null;
+  } catch (error) {
+    console.error('Get orang tua siswa link by ID failed:', error);
+    throw error;
+  }
+}
+
+export async function getLinksByOrangTua(orangTuaId: number): Promise<OrangTuaSiswa[]> {
+  try {
+    const result = await db.select()
+      .from(orangTuaSiswaTable)
+      .where(eq(orangTuaSiswaTable.orang_tua_id, orangTuaId))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Get orang tua siswa links failed:', error);
+    throw error;
+  }
+}
+
+export async function getAnakByOrangTua(orangTuaId: number): Promise<Siswa[]> {
+  try {
+    const results = await db.select()
+      .from(orangTuaSiswaTable)
+      .innerJoin(siswaTable, eq(orangTuaSiswaTable.siswa_id, siswaTable.id))
+      .where(eq(orangTuaSiswaTable.orang_tua_id, orangTuaId))
+      .execute();
+
+    return results.map(result => result.siswa);
+  } catch (error) {
+    console.error('Get anak by orang tua failed:', error);
+    throw error;
+  }
+}
+
+export async function isAnakOfOrangTua(orangTuaId: number, siswaId: number): Promise<boolean> {
+  try {
+    const result = await db.select()
+      .from(orangTuaSiswaTable)
+      .where(and(
+        eq(orangTuaSiswaTable.orang_tua_id, orangTuaId),
+        eq(orangTuaSiswaTable.siswa_id, siswaId)
+      ))
+      .execute();
+
+    return result.length > 0;
+  } catch (error) {
+    console.error('Orang tua link check failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,156 @@
+import { db } from '../db';
+import { usersTable, passwordResetTokensTable, sessionsTable } from '../db/schema';
+import {
+  type ChangePasswordInput,
+  type ResetPasswordInput,
+  type PasswordResetTokenResult
+} from '../schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { createHash, randomBytes } from 'crypto';
+import { hashPassword, verifyPassword } from '../utils/password';
+import { deleteOtherSessions } from './session';
+
+const PASSWORD_RESET_TTL_HOURS = Number(process.env['PASSWORD_RESET_TTL_HOURS'] || 24);
+
+// Reset tokens are 256 random bits, so a plain SHA-256 is enough to keep them unusable if leaked
+function hashResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// The session making the change stays signed in; every other session of the user is ended
+export async function changePassword(input: ChangePasswordInput, currentSessionToken?: string): Promise<{ success: boolean; message: string }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const isPasswordValid = await verifyPassword(input.old_password, users[0].password_hash);
+    if (!isPasswordValid) {
+      throw new Error('Password lama salah');
+    }
+
+    if (input.old_password === input.new_password) {
+      throw new Error('Password baru harus berbeda dari password lama');
+    }
+
+    const password_hash = await hashPassword(input.new_password);
+
+    await db.transaction(async (tx) => {
+      await tx.update(usersTable)
+        .set({
+          password_hash,
+          must_change_password: false,
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, input.user_id))
+        .execute();
+
+      // Anyone else still holding a session with the old password is logged out
+      await deleteOtherSessions(input.user_id, currentSessionToken, tx);
+    });
+
+    return {
+      success: true,
+      message: 'Password berhasil diubah'
+    };
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+}
+
+export async function createPasswordResetToken(userId: number, createdBy: number | null): Promise<PasswordResetTokenResult> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    // Only the most recently issued token stays valid
+    await db.delete(passwordResetTokensTable)
+      .where(and(
+        eq(passwordResetTokensTable.user_id, userId),
+        isNull(passwordResetTokensTable.used_at)
+      ))
+      .execute();
+
+    const token = randomBytes(32).toString('base64url');
+    const expires_at = new Date(Date.now() + PASSWORD_RESET_TTL_HOURS * 60 * 60 * 1000);
+
+    await db.insert(passwordResetTokensTable)
+      .values({
+        user_id: userId,
+        token_hash: hashResetToken(token),
+        created_by: createdBy,
+        expires_at
+      })
+      .execute();
+
+    return { token, expires_at };
+  } catch (error) {
+    console.error('Password reset token creation failed:', error);
+    throw error;
+  }
+}
+
+export async function resetPassword(input: ResetPasswordInput): Promise<{ success: boolean; message: string }> {
+  try {
+    const tokens = await db.select()
+      .from(passwordResetTokensTable)
+      .where(eq(passwordResetTokensTable.token_hash, hashResetToken(input.token)))
+      .execute();
+
+    if (tokens.length === 0 || tokens[0].used_at !== null || tokens[0].expires_at.getTime() <= Date.now()) {
+      throw new Error('Token reset tidak valid atau sudah kedaluwarsa');
+    }
+
+    const resetToken = tokens[0];
+
+    await db.transaction(async (tx) => {
+      // Mark the token used first so a concurrent redemption of the same token loses
+      const claimed = await tx.update(passwordResetTokensTable)
+        .set({ used_at: new Date() })
+        .where(and(
+          eq(passwordResetTokensTable.id, resetToken.id),
+          isNull(passwordResetTokensTable.used_at)
+        ))
+        .returning()
+        .execute();
+
+      if (claimed.length === 0) {
+        throw new Error('Token reset tidak valid atau sudah kedaluwarsa');
+      }
+
+      await tx.update(usersTable)
+        .set({
+          password_hash: await hashPassword(input.new_password),
+          must_change_password: false,
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, resetToken.user_id))
+        .execute();
+
+      // Anyone still holding a session with the old password is logged out
+      await tx.delete(sessionsTable)
+        .where(eq(sessionsTable.user_id, resetToken.user_id))
+        .execute();
+    });
+
+    return {
+      success: true,
+      message: 'Password berhasil direset'
+    };
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
+}
@@ -2,14 +2,142 @@ import { db } from '../db';
 import { 
     siswaTable, 
     kelasTable,
-    absensiTable
+    guruTable,
+    absensiTable,
+    pengajuanIzinAbsensiTable,
+    persetujuanIzinTable,
+    pengajuanIzinTable
 } from '../db/schema';
 import { 
     type CreatePengajuanIzinInput, 
+    type UpdatePengajuanIzinInput,
     type ReviewPengajuanIzinInput, 
-    type PengajuanIzin 
+    type RevokePengajuanIzinInput,
+    type PengajuanIzin,
+    type PengajuanIzinVersi
 } from '../schema';
-import { eq, sql } from 'drizzle-orm';
+import { and, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { dailyAbsensiConflict } from './absensi';
+import { getLampiranSakit, resolveSchoolTimezone } from './settings';
+import { getSchoolDaysForKelas } from './kalender_akademik';
+import { deleteLampiranFiles, prepareLampiran, saveLampiran } from './lampiran_izin';
+import { getPeranPersetujuanGuru, resolveAlur } from './persetujuan_izin';
+import { addDays, startOfDay, toDateKey } from '../utils/school_date';
+
+// Requests the siswa may still cancel, edit or resubmit
+const OPEN_STATUSES = ['pending', 'revision_requested'];
+
+// Longest period one request may cover, in calendar days including both ends
+const MAX_RANGE_DAYS = Number(process.env['PENGAJUAN_IZIN_MAX_DAYS'] || 30);
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A pengajuan_izin row as returned by the raw queries, with the kelas of the siswa when joined
+type PengajuanIzinRow = typeof pengajuanIzinTable.$inferSelect;
+type PengajuanIzinKelasRow = PengajuanIzinRow & { kelas_id: number };
+
+function toPengajuanIzin(row: any): PengajuanIzin {
+    return {
+        id: row.id,
+        siswa_id: row.siswa_id,
+        tanggal_mulai: new Date(row.tanggal_mulai),
+        tanggal_selesai: new Date(row.tanggal_selesai),
+        alasan: row.alasan,
+        status: row.status,
+        jenis: row.jenis,
+        reviewer_id: row.reviewer_id,
+        reviewed_at: row.reviewed_at ? new Date(row.reviewed_at) : null,
+        catatan_reviewer: row.catatan_reviewer,
+        versi: row.versi,
+        alur: row.alur,
+        langkah: row.langkah,
+        created_at: new Date(row.created_at),
+        updated_at: new Date(row.updated_at)
+    };
+}
+
+interface LeaveDetails {
+    siswa_id: number;
+    kelas_id: number;
+    tanggal_mulai: Date;
+    tanggal_selesai: Date;
+    jenis: 'izin' | 'sakit';
+}
+
+// Checks shared by new and edited requests; excludeId is the request being edited.
+// lampiranCount counts the attachments the request will have.
+async function validateLeave(leave: LeaveDetails, lampiranCount: number, excludeId: number | null): Promise<void> {
+    // Ranges are compared by school day, like kalender akademik entries
+    const timezone = await resolveSchoolTimezone();
+    const mulai = toDateKey(leave.tanggal_mulai, timezone);
+    const selesai = toDateKey(leave.tanggal_selesai, timezone);
+    if (mulai > selesai) {
+        throw new Error('tanggal_mulai must not be after tanggal_selesai');
+    }
+    if (selesai > addDays(mulai, MAX_RANGE_DAYS - 1)) {
+        throw new Error(`Pengajuan izin cannot cover more than ${MAX_RANGE_DAYS} day(s)`);
+    }
+
+    // A day can only be covered by one open or approved request
+    const existing = await db.execute(sql`
+        SELECT tanggal_mulai, tanggal_selesai FROM pengajuan_izin
+        WHERE siswa_id = ${leave.siswa_id} AND status IN ('pending', 'revision_requested', 'approved')
+          AND id <> ${excludeId ?? 0}
+    `);
+    const overlaps = (existing.rows as any[]).some(row =>
+        toDateKey(new Date(row.tanggal_mulai), timezone) <= selesai &&
+        toDateKey(new Date(row.tanggal_selesai), timezone) >= mulai
+    );
+    if (overlaps) {
+        throw new Error('Pengajuan izin overlaps an existing request of the siswa');
+    }
+
+    // Long sick leave needs a doctor's note or parent letter once an admin has set a limit
+    const batasHari = (await getLampiranSakit())?.batas_hari ?? null;
+    if (leave.jenis === 'sakit' && batasHari !== null && lampiranCount === 0) {
+        const days = await getSchoolDaysForKelas(leave.tanggal_mulai, leave.tanggal_selesai, leave.kelas_id);
+        if (days.length > batasHari) {
+            throw new Error(`Sakit longer than ${batasHari} school day(s) requires a lampiran`);
+        }
+    }
+}
+
+
+// Keeps the current state of a request in pengajuan_izin_versi before it is replaced
+async function saveVersi(tx: Transaction, row: any): Promise<void> {
+    await tx.execute(sql`
+        INSERT INTO pengajuan_izin_versi (pengajuan_izin_id, versi, tanggal_mulai, tanggal_selesai, alasan, jenis,
+            status, reviewer_id, reviewed_at, catatan_reviewer, created_at)
+        VALUES (${row.id}, ${row.versi}, ${row.tanggal_mulai}, ${row.tanggal_selesai}, ${row.alasan}, ${row.jenis},
+            ${row.status}, ${row.reviewer_id}, ${row.reviewed_at}, ${row.catatan_reviewer}, NOW())
+    `);
+}
+
+// Loads a request with the kelas of the siswa, locked until the transaction ends
+async function lockPengajuanIzin(tx: Transaction, id: number): Promise<PengajuanIzinKelasRow> {
+    const result = await tx.execute<PengajuanIzinKelasRow>(sql`
+        SELECT p.*, s.kelas_id
+        FROM pengajuan_izin p
+        INNER JOIN siswa s ON p.siswa_id = s.id
+        WHERE p.id = ${id}
+        FOR UPDATE OF p
+    `);
+
+    if (result.rows.length === 0) {
+        throw new Error('Pengajuan izin not found');
+    }
+
+    return result.rows[0];
+}
+
+// Locks a request the siswa may still change; a decision committed first wins
+async function lockOpenPengajuanIzin(tx: Transaction, id: number): Promise<PengajuanIzinKelasRow> {
+    const row = await lockPengajuanIzin(tx, id);
+    if (!OPEN_STATUSES.includes(row.status)) {
+        throw new Error('Only pending pengajuan izin can be changed');
+    }
+    return row;
+}
 
 export async function createPengajuanIzin(input: CreatePengajuanIzinInput): Promise<PengajuanIzin> {
     try {
@@ -23,92 +151,314 @@ export async function createPengajuanIzin(input: CreatePengajuanIzinInput): Prom
             throw new Error('Siswa not found');
         }
 
+        const lampiran = prepareLampiran(input.lampiran ?? []);
+        const leave = { ...input, kelas_id: siswa[0].kelas_id };
+        await validateLeave(leave, lampiran.length, null);
+        const alur = await resolveAlur(leave);
+
         // Use raw SQL to insert into pengajuan_izin table to avoid enum issues
         const result = await db.execute(sql`
-            INSERT INTO pengajuan_izin (siswa_id, tanggal, alasan, jenis, status, created_at, updated_at)
-            VALUES (${input.siswa_id}, ${input.tanggal}, ${input.alasan}, ${input.jenis}, 'pending', NOW(), NOW())
+            INSERT INTO pengajuan_izin (siswa_id, tanggal_mulai, tanggal_selesai, alasan, jenis, status, alur, langkah, created_at, updated_at)
+            VALUES (${input.siswa_id}, ${input.tanggal_mulai}, ${input.tanggal_selesai}, ${input.alasan}, ${input.jenis}, 'pending',
+                ${JSON.stringify(alur)}::jsonb, 1, NOW(), NOW())
             RETURNING *
         `);
 
         const row = result.rows[0] as any;
-        return {
+        await saveLampiran(row.id, lampiran);
+
+        return toPengajuanIzin(row);
+    } catch (error) {
+        console.error('Pengajuan izin creation failed:', error);
+        throw error;
+    }
+}
+
+// Edits a pending request, or resubmits one sent back for revision. The replaced
+// version is kept in pengajuan_izin_versi and the request waits for review again.
+export async function updatePengajuanIzin(input: UpdatePengajuanIzinInput): Promise<PengajuanIzin> {
+    try {
+        const lampiran = prepareLampiran(input.lampiran ?? []);
+
+        const row = await db.transaction(async (tx) => {
+            // Locked so that a review cannot decide the version being replaced meanwhile
+            const current = await lockOpenPengajuanIzin(tx, input.id);
+
+            const attached = await tx.execute<{ jumlah: number }>(sql`
+                SELECT count(*)::int AS jumlah FROM lampiran_izin WHERE pengajuan_izin_id = ${input.id}
+            `);
+            const lampiranCount = attached.rows[0].jumlah + lampiran.length;
+            const leave = { ...input, siswa_id: current.siswa_id, kelas_id: current.kelas_id };
+            await validateLeave(leave, lampiranCount, input.id);
+            // The new version starts its approval chain from the first step again
+            const alur = await resolveAlur(leave);
+
+            await saveVersi(tx, current);
+
+            const result = await tx.execute<PengajuanIzinRow>(sql`
+                UPDATE pengajuan_izin
+                SET tanggal_mulai = ${input.tanggal_mulai}, tanggal_selesai = ${input.tanggal_selesai},
+                    alasan = ${input.alasan}, jenis = ${input.jenis}, status = 'pending',
+                    reviewer_id = NULL, reviewed_at = NULL, catatan_reviewer = NULL,
+                    versi = versi + 1, alur = ${JSON.stringify(alur)}::jsonb, langkah = 1, updated_at = NOW()
+                WHERE id = ${input.id} AND status IN ('pending', 'revision_requested')
+                RETURNING *
+            `);
+            if (result.rows.length === 0) {
+                throw new Error('Only pending pengajuan izin can be changed');
+            }
+            return result.rows[0];
+        });
+
+        await saveLampiran(row.id, lampiran);
+
+        return toPengajuanIzin(row);
+    } catch (error) {
+        console.error('Pengajuan izin update failed:', error);
+        throw error;
+    }
+}
+
+// Withdraws a request that has not been decided yet; it stays in the history as cancelled
+export async function cancelPengajuanIzin(id: number): Promise<PengajuanIzin> {
+    try {
+        const row = await db.transaction(async (tx) => {
+            await lockOpenPengajuanIzin(tx, id);
+
+            const result = await tx.execute<PengajuanIzinRow>(sql`
+                UPDATE pengajuan_izin
+                SET status = 'cancelled', updated_at = NOW()
+                WHERE id = ${id} AND status IN ('pending', 'revision_requested')
+                RETURNING *
+            `);
+            if (result.rows.length === 0) {
+                throw new Error('Only pending pengajuan izin can be changed');
+            }
+            return result.rows[0];
+        });
+
+        return toPengajuanIzin(row);
+    } catch (error) {
+        console.error('Pengajuan izin cancellation failed:', error);
+        throw error;
+    }
+}
+
+// Earlier versions of a request, oldest first; the request itself is the latest version
+export async function getRiwayatPengajuanIzin(id: number): Promise<PengajuanIzinVersi[]> {
+    try {
+        const result = await db.execute(sql`
+            SELECT * FROM pengajuan_izin_versi
+            WHERE pengajuan_izin_id = ${id}
+            ORDER BY versi ASC
+        `);
+
+        return result.rows.map((row: any) => ({
             id: row.id,
-            siswa_id: row.siswa_id,
-            tanggal: new Date(row.tanggal),
+            pengajuan_izin_id: row.pengajuan_izin_id,
+            versi: row.versi,
+            tanggal_mulai: new Date(row.tanggal_mulai),
+            tanggal_selesai: new Date(row.tanggal_selesai),
             alasan: row.alasan,
-            status: row.status,
             jenis: row.jenis,
+            status: row.status,
             reviewer_id: row.reviewer_id,
             reviewed_at: row.reviewed_at ? new Date(row.reviewed_at) : null,
-            created_at: new Date(row.created_at),
-            updated_at: new Date(row.updated_at)
-        };
+            catatan_reviewer: row.catatan_reviewer,
+            created_at: new Date(row.created_at)
+        }));
     } catch (error) {
-        console.error('Pengajuan izin creation failed:', error);
+        console.error('Get riwayat pengajuan izin failed:', error);
         throw error;
     }
 }
 
+// Decides the current approval step of a pending request. Approving a step hands the request
+// to the next approver; the last approval records the leave on every school day of the range
+// and remembers what each day held before. A rejection or revision request at any step ends
+// the review. Everything happens in one transaction.
 export async function reviewPengajuanIzin(input: ReviewPengajuanIzinInput): Promise<PengajuanIzin> {
     try {
-        // Get the pengajuan izin record first using raw SQL
-        const pengajuanResult = await db.execute(sql`
-            SELECT p.*, s.kelas_id 
-            FROM pengajuan_izin p
-            INNER JOIN siswa s ON p.siswa_id = s.id
-            WHERE p.id = ${input.id}
-        `);
-
-        if (pengajuanResult.rows.length === 0) {
-            throw new Error('Pengajuan izin not found');
+        const catatan = input.catatan_reviewer?.trim() || null;
+        if (input.status === 'revision_requested' && !catatan) {
+            throw new Error('A revision request needs a catatan_reviewer');
         }
 
-        const pengajuanData = pengajuanResult.rows[0] as any;
+        // reviewer_id is a users.id; absensi.guru_id references the guru profile (admins have none)
+        const reviewerGuru = await db.select()
+            .from(guruTable)
+            .where(eq(guruTable.user_id, input.reviewer_id))
+            .execute();
 
-        // Update the pengajuan status using raw SQL
-        const result = await db.execute(sql`
-            UPDATE pengajuan_izin 
-            SET status = ${input.status}, reviewer_id = ${input.reviewer_id}, 
-                reviewed_at = NOW(), updated_at = NOW()
-            WHERE id = ${input.id}
-            RETURNING *
-        `);
+        const row = await db.transaction(async (tx) => {
+            const pengajuanData = await lockPengajuanIzin(tx, input.id);
+            if (pengajuanData.status !== 'pending') {
+                throw new Error('Only pending pengajuan izin can be reviewed');
+            }
 
-        // If approved, create corresponding absensi entry
-        if (input.status === 'approved') {
-            const absensiStatus = pengajuanData.jenis === 'sakit' ? 'sakit' : 'izin';
-            
-            await db.insert(absensiTable)
+            await tx.insert(persetujuanIzinTable)
                 .values({
-                    siswa_id: pengajuanData.siswa_id,
-                    kelas_id: pengajuanData.kelas_id,
-                    status: absensiStatus as any,
-                    tanggal: new Date(pengajuanData.tanggal),
-                    keterangan: `Approved: ${pengajuanData.alasan}`,
-                    guru_id: input.reviewer_id
+                    pengajuan_izin_id: input.id,
+                    versi: pengajuanData.versi,
+                    langkah: pengajuanData.langkah,
+                    peran: pengajuanData.alur[pengajuanData.langkah - 1],
+                    status: input.status,
+                    reviewer_id: input.reviewer_id,
+                    catatan
                 })
                 .execute();
-        }
 
-        const row = result.rows[0] as any;
-        return {
-            id: row.id,
-            siswa_id: row.siswa_id,
-            tanggal: new Date(row.tanggal),
-            alasan: row.alasan,
-            status: row.status,
-            jenis: row.jenis,
-            reviewer_id: row.reviewer_id,
-            reviewed_at: row.reviewed_at ? new Date(row.reviewed_at) : null,
-            created_at: new Date(row.created_at),
-            updated_at: new Date(row.updated_at)
-        };
+            if (input.status === 'approved' && pengajuanData.langkah < pengajuanData.alur.length) {
+                const next = await tx.execute(sql`
+                    UPDATE pengajuan_izin
+                    SET langkah = langkah + 1, catatan_reviewer = ${catatan}, updated_at = NOW()
+                    WHERE id = ${input.id}
+                    RETURNING *
+                `);
+                return next.rows[0] as any;
+            }
+
+            const result = await tx.execute(sql`
+                UPDATE pengajuan_izin 
+                SET status = ${input.status}, reviewer_id = ${input.reviewer_id}, 
+                    reviewed_at = NOW(), catatan_reviewer = ${catatan}, updated_at = NOW()
+                WHERE id = ${input.id}
+                RETURNING *
+            `);
+
+            if (input.status === 'approved') {
+                await recordApprovedLeave(tx, pengajuanData, reviewerGuru.length > 0 ? reviewerGuru[0].id : null);
+            }
+
+            return result.rows[0] as any;
+        });
+
+        return toPengajuanIzin(row);
     } catch (error) {
         console.error('Pengajuan izin review failed:', error);
         throw error;
     }
 }
 
+// Writes the leave as the daily record of each school day of the range, replacing any
+// earlier record, and links each record to the request with the values it replaced
+async function recordApprovedLeave(tx: Transaction, pengajuanData: any, guruId: number | null): Promise<void> {
+    const excused = {
+        status: (pengajuanData.jenis === 'sakit' ? 'sakit' : 'izin') as 'sakit' | 'izin',
+        keterangan: `Approved: ${pengajuanData.alasan}`,
+        guru_id: guruId
+    };
+
+    const timezone = await resolveSchoolTimezone();
+    const days = await getSchoolDaysForKelas(
+        new Date(pengajuanData.tanggal_mulai),
+        new Date(pengajuanData.tanggal_selesai),
+        pengajuanData.kelas_id
+    );
+    if (days.length === 0) return;
+
+    const previous = await tx.select()
+        .from(absensiTable)
+        .where(and(
+            eq(absensiTable.siswa_id, pengajuanData.siswa_id),
+            inArray(absensiTable.tanggal_hari, days),
+            isNull(absensiTable.jadwal_pelajaran_id)
+        ))
+        .for('update')
+        .execute();
+
+    const recorded = await tx.insert(absensiTable)
+        .values(days.map(day => ({
+            siswa_id: pengajuanData.siswa_id,
+            kelas_id: pengajuanData.kelas_id,
+            tanggal: startOfDay(day, timezone),
+            tanggal_hari: day,
+            ...excused
+        })))
+        .onConflictDoUpdate({
+            ...dailyAbsensiConflict,
+            set: { ...excused, menit_terlambat: null, updated_at: new Date() }
+        })
+        .returning({ id: absensiTable.id })
+        .execute();
+
+    await tx.insert(pengajuanIzinAbsensiTable)
+        .values(recorded.map(({ id }) => {
+            const before = previous.find(record => record.id === id);
+            return {
+                pengajuan_izin_id: pengajuanData.id,
+                absensi_id: id,
+                status_sebelum: before?.status ?? null,
+                keterangan_sebelum: before?.keterangan ?? null,
+                guru_id_sebelum: before?.guru_id ?? null,
+                menit_terlambat_sebelum: before?.menit_terlambat ?? null
+            };
+        }))
+        .execute();
+}
+
+// Takes back an approval: each daily record the approval wrote is removed, or given back
+// the values it had, unless it has been changed since. The request ends as revoked with
+// the reason as its catatan, and the approved version is kept in the history.
+export async function revokePengajuanIzin(input: RevokePengajuanIzinInput): Promise<PengajuanIzin> {
+    try {
+        const catatan = input.catatan_reviewer.trim();
+        if (!catatan) {
+            throw new Error('Revoking a pengajuan izin needs a catatan_reviewer');
+        }
+
+        const row = await db.transaction(async (tx) => {
+            const pengajuanData = await lockPengajuanIzin(tx, input.id);
+            if (pengajuanData.status !== 'approved') {
+                throw new Error('Only approved pengajuan izin can be revoked');
+            }
+
+            const leaveStatus = pengajuanData.jenis === 'sakit' ? 'sakit' : 'izin';
+            const links = await tx.select()
+                .from(pengajuanIzinAbsensiTable)
+                .where(eq(pengajuanIzinAbsensiTable.pengajuan_izin_id, input.id))
+                .execute();
+
+            for (const link of links) {
+                const stillExcused = and(eq(absensiTable.id, link.absensi_id), eq(absensiTable.status, leaveStatus));
+                if (link.status_sebelum === null) {
+                    await tx.delete(absensiTable).where(stillExcused).execute();
+                } else {
+                    await tx.update(absensiTable)
+                        .set({
+                            status: link.status_sebelum,
+                            keterangan: link.keterangan_sebelum,
+                            guru_id: link.guru_id_sebelum,
+                            menit_terlambat: link.menit_terlambat_sebelum,
+                            updated_at: new Date()
+                        })
+                        .where(stillExcused)
+                        .execute();
+                }
+            }
+
+            await tx.delete(pengajuanIzinAbsensiTable)
+                .where(eq(pengajuanIzinAbsensiTable.pengajuan_izin_id, input.id))
+                .execute();
+
+            await saveVersi(tx, pengajuanData);
+            const result = await tx.execute(sql`
+                UPDATE pengajuan_izin
+                SET status = 'revoked', reviewer_id = ${input.reviewer_id}, reviewed_at = NOW(),
+                    catatan_reviewer = ${catatan}, versi = versi + 1, updated_at = NOW()
+                WHERE id = ${input.id}
+                RETURNING *
+            `);
+            return result.rows[0] as any;
+        });
+
+        return toPengajuanIzin(row);
+    } catch (error) {
+        console.error('Pengajuan izin revocation failed:', error);
+        throw error;
+    }
+}
+
 export async function getPengajuanIzinBySiswa(siswaId: number): Promise<PengajuanIzin[]> {
     try {
         // Validate siswa exists
@@ -127,83 +477,116 @@ export async function getPengajuanIzinBySiswa(siswaId: number): Promise<Pengajua
             ORDER BY created_at DESC
         `);
 
-        return result.rows.map((row: any) => ({
-            id: row.id,
-            siswa_id: row.siswa_id,
-            tanggal: new Date(row.tanggal),
-            alasan: row.alasan,
-            status: row.status,
-            jenis: row.jenis,
-            reviewer_id: row.reviewer_id,
-            reviewed_at: row.reviewed_at ? new Date(row.reviewed_at) : null,
-            created_at: new Date(row.created_at),
-            updated_at: new Date(row.updated_at)
-        }));
+        return result.rows.map(toPengajuanIzin);
     } catch (error) {
         console.error('Get pengajuan izin by siswa failed:', error);
         throw error;
     }
 }
 
-export async function getPendingPengajuanIzin(kelasId?: number): Promise<PengajuanIzin[]> {
+export async function getPengajuanIzinById(id: number): Promise<PengajuanIzin | null> {
     try {
-        if (kelasId !== undefined) {
-            // Validate kelas exists first
-            const kelas = await db.select()
-                .from(kelasTable)
-                .where(eq(kelasTable.id, kelasId))
-                .execute();
+        const result = await db.execute(sql`
+            SELECT * FROM pengajuan_izin WHERE id = ${id}
+        `);
 
-            if (kelas.length === 0) {
-                throw new Error('Kelas not found');
-            }
+        if (result.rows.length === 0) {
+            return null;
+        }
 
-            const result = await db.execute(sql`
-                SELECT p.* FROM pengajuan_izin p
-                INNER JOIN siswa s ON p.siswa_id = s.id
-                WHERE p.status = 'pending' AND s.kelas_id = ${kelasId}
-                ORDER BY p.created_at ASC
-            `);
+        const row = result.rows[0] as any;
+        return toPengajuanIzin(row);
+    } catch (error) {
+        console.error('Get pengajuan izin by id failed:', error);
+        throw error;
+    }
+}
 
-            return result.rows.map((row: any) => ({
-                id: row.id,
-                siswa_id: row.siswa_id,
-                tanggal: new Date(row.tanggal),
-                alasan: row.alasan,
-                status: row.status,
-                jenis: row.jenis,
-                reviewer_id: row.reviewer_id,
-                reviewed_at: row.reviewed_at ? new Date(row.reviewed_at) : null,
-                created_at: new Date(row.created_at),
-                updated_at: new Date(row.updated_at)
-            }));
-        } else {
-            // No kelas filter, get all pending
-            const result = await db.execute(sql`
-                SELECT * FROM pengajuan_izin 
-                WHERE status = 'pending'
-                ORDER BY created_at ASC
-            `);
+export async function getPendingPengajuanIzin(kelasId?: number): Promise<PengajuanIzin[]> {
+    try {
+        return await getPengajuanIzinByStatus('pending', kelasId);
+    } catch (error) {
+        console.error('Get pending pengajuan izin failed:', error);
+        throw error;
+    }
+}
 
-            return result.rows.map((row: any) => ({
-                id: row.id,
-                siswa_id: row.siswa_id,
-                tanggal: new Date(row.tanggal),
-                alasan: row.alasan,
-                status: row.status,
-                jenis: row.jenis,
-                reviewer_id: row.reviewer_id,
-                reviewed_at: row.reviewed_at ? new Date(row.reviewed_at) : null,
-                created_at: new Date(row.created_at),
-                updated_at: new Date(row.updated_at)
-            }));
+// Pending requests whose current step the guru decides, oldest first; admins see every
+// pending request. Pass null for an admin.
+export async function getAntrianPersetujuanIzin(guruId: number | null): Promise<PengajuanIzin[]> {
+    try {
+        const result = await db.execute(sql`
+            SELECT p.*, k.wali_kelas_id
+            FROM pengajuan_izin p
+            INNER JOIN siswa s ON p.siswa_id = s.id
+            INNER JOIN kelas k ON s.kelas_id = k.id
+            WHERE p.status = 'pending'
+            ORDER BY p.created_at ASC
+        `);
+
+        const rows = result.rows as any[];
+        if (guruId === null) {
+            return rows.map(toPengajuanIzin);
         }
+
+        const peranGuru = await getPeranPersetujuanGuru(guruId);
+        return rows
+            .filter(row => {
+                const peran = row.alur[row.langkah - 1];
+                return peran === 'wali_kelas' ? row.wali_kelas_id === guruId : peranGuru.includes(peran);
+            })
+            .map(toPengajuanIzin);
     } catch (error) {
-        console.error('Get pending pengajuan izin failed:', error);
+        console.error('Get antrian persetujuan izin failed:', error);
+        throw error;
+    }
+}
+
+// Approved requests, newest decision first, for a reviewer who may need to revoke one
+export async function getApprovedPengajuanIzin(kelasId?: number): Promise<PengajuanIzin[]> {
+    try {
+        return await getPengajuanIzinByStatus('approved', kelasId);
+    } catch (error) {
+        console.error('Get approved pengajuan izin failed:', error);
         throw error;
     }
 }
 
+async function getPengajuanIzinByStatus(status: 'pending' | 'approved', kelasId?: number): Promise<PengajuanIzin[]> {
+    // Pending requests are handled oldest first, decided ones are looked up newest first
+    const order = status === 'pending' ? sql`p.created_at ASC` : sql`p.reviewed_at DESC`;
+
+    if (kelasId !== undefined) {
+        // Validate kelas exists first
+        const kelas = await db.select()
+            .from(kelasTable)
+            .where(eq(kelasTable.id, kelasId))
+            .execute();
+
+        if (kelas.length === 0) {
+            throw new Error('Kelas not found');
+        }
+
+        const result = await db.execute(sql`
+            SELECT p.* FROM pengajuan_izin p
+            INNER JOIN siswa s ON p.siswa_id = s.id
+            WHERE p.status = ${status} AND s.kelas_id = ${kelasId}
+            ORDER BY ${order}
+        `);
+
+        return result.rows.map(toPengajuanIzin);
+    }
+
+    // No kelas filter, get all with the status
+    const result = await db.execute(sql`
+        SELECT p.* FROM pengajuan_izin p
+        WHERE p.status = ${status}
+        ORDER BY ${order}
+    `);
+
+    return result.rows.map(toPengajuanIzin);
+}
+
 export async function getAllPengajuanIzin(): Promise<PengajuanIzin[]> {
     try {
         const result = await db.execute(sql`
@@ -211,18 +594,7 @@ export async function getAllPengajuanIzin(): Promise<PengajuanIzin[]> {
             ORDER BY created_at DESC
         `);
 
-        return result.rows.map((row: any) => ({
-            id: row.id,
-            siswa_id: row.siswa_id,
-            tanggal: new Date(row.tanggal),
-            alasan: row.alasan,
-            status: row.status,
-            jenis: row.jenis,
-            reviewer_id: row.reviewer_id,
-            reviewed_at: row.reviewed_at ? new Date(row.reviewed_at) : null,
-            created_at: new Date(row.created_at),
-            updated_at: new Date(row.updated_at)
-        }));
+        return result.rows.map(toPengajuanIzin);
     } catch (error) {
         console.error('Get all pengajuan izin failed:', error);
         throw error;
@@ -240,7 +612,8 @@ export async function deletePengajuanIzin(id: number): Promise<{ success: boolea
             throw new Error('Pengajuan izin not found');
         }
 
-        // Delete the pengajuan izin
+        // Delete the pengajuan izin; its lampiran rows cascade, their files do not
+        await deleteLampiranFiles(id);
         await db.execute(sql`
             DELETE FROM pengajuan_izin WHERE id = ${id}
         `);
@@ -0,0 +1,257 @@
+import { db } from '../db';
+import { perangkatTable, kartuRfidTable, siswaTable } from '../db/schema';
+import {
+  type CreatePerangkatInput,
+  type UpdatePerangkatInput,
+  type Perangkat,
+  type PerangkatWithSecret,
+  type TapKartuInput,
+  type TapKartuResult
+} from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { absenMasukPerangkat, absenPulangPerangkat, getTodayAbsensi } from './absensi';
+import { resolveSchoolTimezone } from './settings';
+import { CheckInError } from '../utils/check_in_error';
+import { toTimeOfDay } from '../utils/school_date';
+
+// A second tap of the same card within this window is a reader bounce, not a check-out
+const DOUBLE_TAP_SECONDS = Number(process.env['RFID_DOUBLE_TAP_SECONDS'] || 60);
+
+// Secrets are 256 random bits, so a plain SHA-256 is enough to keep them unusable if leaked
+function hashSecret(secret: string): Buffer {
+  return createHash('sha256').update(secret).digest();
+}
+
+function newSecret(): { secret: string; secret_hash: string } {
+  const secret = randomBytes(32).toString('base64url');
+  return { secret, secret_hash: hashSecret(secret).toString('hex') };
+}
+
+function toPerangkat(row: typeof perangkatTable.$inferSelect): Perangkat {
+  const { secret_hash: _secret_hash, ...perangkat } = row;
+  return perangkat;
+}
+
+export async function createPerangkat(input: CreatePerangkatInput): Promise<PerangkatWithSecret> {
+  try {
+    const existing = await db.select()
+      .from(perangkatTable)
+      .where(eq(perangkatTable.kode, input.kode))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error('Kode perangkat already exists');
+    }
+
+    const { secret, secret_hash } = newSecret();
+    const result = await db.insert(perangkatTable)
+      .values({
+        kode: input.kode,
+        nama: input.nama,
+        lokasi: input.lokasi,
+        secret_hash
+      })
+      .returning()
+      .execute();
+
+    return { perangkat: toPerangkat(result[0]), secret };
+  } catch (error) {
+    console.error('Perangkat creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updatePerangkat(input: UpdatePerangkatInput): Promise<Perangkat> {
+  try {
+    const updateData: Partial<typeof perangkatTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.nama !== undefined) {
+      updateData.nama = input.nama;
+    }
+
+    if (input.lokasi !== undefined) {
+      updateData.lokasi = input.lokasi;
+    }
+
+    if (input.aktif !== undefined) {
+      updateData.aktif = input.aktif;
+    }
+
+    const result = await db.update(perangkatTable)
+      .set(updateData)
+      .where(eq(perangkatTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Perangkat not found');
+    }
+
+    return toPerangkat(result[0]);
+  } catch (error) {
+    console.error('Perangkat update failed:', error);
+    throw error;
+  }
+}
+
+// Issues a new API secret; the old one stops working immediately
+export async function rotatePerangkatSecret(id: number): Promise<PerangkatWithSecret> {
+  try {
+    const { secret, secret_hash } = newSecret();
+    const result = await db.update(perangkatTable)
+      .set({ secret_hash, updated_at: new Date() })
+      .where(eq(perangkatTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Perangkat not found');
+    }
+
+    return { perangkat: toPerangkat(result[0]), secret };
+  } catch (error) {
+    console.error('Perangkat secret rotation failed:', error);
+    throw error;
+  }
+}
+
+export async function deletePerangkat(id: number): Promise<{ success: boolean; message: string }> {
+  try {
+    const result = await db.delete(perangkatTable)
+      .where(eq(perangkatTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Perangkat not found');
+    }
+
+    return {
+      success: true,
+      message: 'Perangkat deleted successfully'
+    };
+  } catch (error) {
+    console.error('Perangkat deletion failed:', error);
+    throw error;
+  }
+}
+
+export async function getAllPerangkat(): Promise<Perangkat[]> {
+  try {
+    const result = await db.select()
+      .from(perangkatTable)
+      .orderBy(asc(perangkatTable.kode))
+      .execute();
+
+    return result.map(toPerangkat);
+  } catch (error) {
+    console.error('Get all perangkat failed:', error);
+    throw error;
+  }
+}
+
+export async function getPerangkatById(id: number): Promise<Perangkat | null> {
+  try {
+    const result = await db.select()
+      .from(perangkatTable)
+      .where(eq(perangkatTable.id, id))
+      .execute();
+
+    return result.length > 0 ? toPerangkat(result[0]) : null;
+  } catch (error) {
+    console.error('Get perangkat by ID failed:', error);
+    throw error;
+  }
+}
+
+// Returns the active reader the credentials belong to, or null; marks it as seen
+export async function authenticatePerangkat(kode: string, secret: string): Promise<Perangkat | null> {
+  try {
+    const result = await db.select()
+      .from(perangkatTable)
+      .where(eq(perangkatTable.kode, kode))
+      .execute();
+
+    if (result.length === 0 || !result[0].aktif) return null;
+
+    const expected = Buffer.from(result[0].secret_hash, 'hex');
+    const actual = hashSecret(secret);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    const [seen] = await db.update(perangkatTable)
+      .set({ last_seen_at: new Date() })
+      .where(eq(perangkatTable.id, result[0].id))
+      .returning()
+      .execute();
+
+    return toPerangkat(seen);
+  } catch (error) {
+    console.error('Perangkat authentication failed:', error);
+    throw error;
+  }
+}
+
+function secondsOfDay(time: string): number {
+  const [hours, minutes, seconds] = time.split(':').map(Number);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+// The first tap of the day checks the siswa in, later taps check them out
+export async function tapKartu(input: TapKartuInput): Promise<TapKartuResult> {
+  try {
+    const kartu = await db.select({
+      siswa_id: kartuRfidTable.siswa_id,
+      nama_siswa: siswaTable.nama
+    })
+      .from(kartuRfidTable)
+      .innerJoin(siswaTable, eq(kartuRfidTable.siswa_id, siswaTable.id))
+      .where(eq(kartuRfidTable.uid, input.uid))
+      .execute();
+
+    if (kartu.length === 0) {
+      return { hasil: 'ditolak', nama_siswa: null, absensi: null, pesan: 'Kartu tidak terdaftar' };
+    }
+
+    const { siswa_id, nama_siswa } = kartu[0];
+    const [today] = await getTodayAbsensi(siswa_id);
+
+    const lastTap = today?.waktu_pulang ?? today?.waktu_masuk ?? null;
+    if (lastTap !== null) {
+      const now = toTimeOfDay(new Date(), await resolveSchoolTimezone());
+      if (secondsOfDay(now) - secondsOfDay(lastTap) < DOUBLE_TAP_SECONDS) {
+        return { hasil: 'diabaikan', nama_siswa, absensi: today, pesan: 'Kartu sudah dibaca' };
+      }
+    }
+
+    // A day is checked out once; later taps must not move the recorded time
+    if (today?.waktu_pulang) {
+      return { hasil: 'diabaikan', nama_siswa, absensi: today, pesan: 'Sudah absen pulang hari ini' };
+    }
+
+    try {
+      if (!today?.waktu_masuk) {
+        const absensi = await absenMasukPerangkat(siswa_id);
+        const pesan = absensi.status === 'terlambat'
+          ? `Terlambat ${absensi.menit_terlambat} menit`
+          : 'Absen masuk berhasil';
+        return { hasil: 'masuk', nama_siswa, absensi, pesan };
+      }
+
+      const absensi = await absenPulangPerangkat(siswa_id);
+      const pesan = absensi.pulang_awal ? 'Absen pulang berhasil (pulang awal)' : 'Absen pulang berhasil';
+      return { hasil: 'pulang', nama_siswa, absensi, pesan };
+    } catch (error) {
+      // Refusals such as a holiday are shown on the reader instead of failing the request
+      if (error instanceof CheckInError) {
+        return { hasil: 'ditolak', nama_siswa, absensi: null, pesan: error.message };
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Tap kartu failed:', error);
+    throw error;
+  }
+}
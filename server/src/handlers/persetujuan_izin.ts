@@ -0,0 +1,65 @@
+import { db } from '../db';
+import { persetujuanIzinTable, pengajuanIzinTable } from '../db/schema';
+import { type PeranPersetujuan, type PersetujuanIzin } from '../schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { getAlurPersetujuanIzin } from './settings';
+import { getSchoolDaysForKelas } from './kalender_akademik';
+
+interface LeaveForAlur {
+  jenis: 'izin' | 'sakit';
+  tanggal_mulai: Date;
+  tanggal_selesai: Date;
+  kelas_id: number;
+}
+
+// Approvers a request has to pass, from the rule with the highest min_hari the request reaches
+export async function resolveAlur(leave: LeaveForAlur): Promise<PeranPersetujuan[]> {
+  const { aturan } = await getAlurPersetujuanIzin();
+  const candidates = aturan.filter(a => a.jenis === null || a.jenis === leave.jenis);
+  if (candidates.length === 0) return ['wali_kelas'];
+
+  const days = await getSchoolDaysForKelas(leave.tanggal_mulai, leave.tanggal_selesai, leave.kelas_id);
+  const matching = candidates
+    .filter(a => days.length >= a.min_hari)
+    .sort((a, b) => b.min_hari - a.min_hari);
+
+  return matching.length > 0 ? matching[0].langkah : ['wali_kelas'];
+}
+
+// The school-wide approver roles a guru holds; being wali kelas depends on the kelas
+export async function getPeranPersetujuanGuru(guruId: number): Promise<PeranPersetujuan[]> {
+  const alur = await getAlurPersetujuanIzin();
+  const peran: PeranPersetujuan[] = [];
+  if (alur.guru_bk.includes(guruId)) peran.push('bk');
+  if (alur.kepala_sekolah.includes(guruId)) peran.push('kepala_sekolah');
+  return peran;
+}
+
+// Whether the guru decides the given step for a siswa of a kelas with that wali kelas
+export async function isApprover(guruId: number, peran: PeranPersetujuan, waliKelasId: number): Promise<boolean> {
+  if (peran === 'wali_kelas') return waliKelasId === guruId;
+  return (await getPeranPersetujuanGuru(guruId)).includes(peran);
+}
+
+// Decisions taken so far on the current version of a request, in step order
+export async function getPersetujuanIzin(pengajuanIzinId: number): Promise<PersetujuanIzin[]> {
+  try {
+    const rows = await db.select({ persetujuan: persetujuanIzinTable })
+      .from(persetujuanIzinTable)
+      .innerJoin(pengajuanIzinTable, and(
+        eq(pengajuanIzinTable.id, persetujuanIzinTable.pengajuan_izin_id),
+        eq(pengajuanIzinTable.versi, persetujuanIzinTable.versi)
+      ))
+      .where(eq(persetujuanIzinTable.pengajuan_izin_id, pengajuanIzinId))
+      .orderBy(asc(persetujuanIzinTable.langkah))
+      .execute();
+
+    return rows.map(({ persetujuan }) => ({
+      ...persetujuan,
+      status: persetujuan.status as PersetujuanIzin['status']
+    }));
+  } catch (error) {
+    console.error('Get persetujuan izin failed:', error);
+    throw error;
+  }
+}
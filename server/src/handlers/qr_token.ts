@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { kelasTable } from '../db/schema';
+import { type GenerateQrTokenInput, type QrToken } from '../schema';
+import { signQrToken, verifyQrToken, type QrTokenPayload } from '../utils/qr_token';
+import { CheckInError } from '../utils/check_in_error';
+import { eq } from 'drizzle-orm';
+
+export async function generateQrToken(input: GenerateQrTokenInput): Promise<QrToken> {
+  try {
+    if (input.kelas_id === null && !input.lokasi) {
+      throw new Error('Either kelas_id or lokasi is required');
+    }
+
+    if (input.kelas_id !== null) {
+      const kelas = await db.select()
+        .from(kelasTable)
+        .where(eq(kelasTable.id, input.kelas_id))
+        .execute();
+
+      if (kelas.length === 0) {
+        throw new Error('Kelas not found');
+      }
+    }
+
+    const { token, expires_at } = signQrToken({ kelas_id: input.kelas_id, lokasi: input.lokasi });
+
+    return {
+      token,
+      kelas_id: input.kelas_id,
+      lokasi: input.lokasi,
+      expires_at
+    };
+  } catch (error) {
+    console.error('QR token generation failed:', error);
+    throw error;
+  }
+}
+
+// Validates a scanned token for a siswa of the given kelas; location codes are valid for every kelas
+export function verifyQrTokenForKelas(token: string, kelasId: number): QrTokenPayload {
+  const payload = verifyQrToken(token);
+
+  if (payload.kelas_id !== null && payload.kelas_id !== kelasId) {
+    throw new CheckInError('QR_WRONG_KELAS', 'QR token belongs to another kelas');
+  }
+
+  return payload;
+}
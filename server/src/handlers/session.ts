@@ -0,0 +1,141 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { type AuthResponse } from '../schema';
+import { getCurrentUser } from './auth';
+import { eq, and, ne } from 'drizzle-orm';
+import { createHmac, randomBytes } from 'crypto';
+
+const SESSION_TTL_HOURS = Number(process.env['SESSION_TTL_HOURS'] || 12);
+
+// The database, or a transaction the sessions change is part of
+type Executor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Without SESSION_SECRET every restart invalidates all sessions, which is fine for development only
+const fallbackSecret = randomBytes(32).toString('hex');
+
+function getSessionSecret(): string {
+  return process.env['SESSION_SECRET'] || fallbackSecret;
+}
+
+// Only the HMAC of a token is stored, so a leaked sessions table cannot be replayed
+function hashToken(token: string): string {
+  return createHmac('sha256', getSessionSecret()).update(token).digest('hex');
+}
+
+function getExpiryDate(): Date {
+  return new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000);
+}
+
+export async function createSession(userId: number): Promise<{ token: string; expires_at: Date }> {
+  try {
+    const token = randomBytes(32).toString('base64url');
+    const expires_at = getExpiryDate();
+
+    await db.insert(sessionsTable)
+      .values({
+        user_id: userId,
+        token_hash: hashToken(token),
+        expires_at
+      })
+      .execute();
+
+    return { token, expires_at };
+  } catch (error) {
+    console.error('Session creation failed:', error);
+    throw error;
+  }
+}
+
+export async function resolveSession(token: string): Promise<AuthResponse['user']> {
+  try {
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashToken(token)))
+      .execute();
+
+    if (sessions.length === 0) {
+      return null;
+    }
+
+    const session = sessions[0];
+
+    if (session.expires_at.getTime() <= Date.now()) {
+      await db.delete(sessionsTable)
+        .where(eq(sessionsTable.id, session.id))
+        .execute();
+      return null;
+    }
+
+    await db.update(sessionsTable)
+      .set({ last_used_at: new Date() })
+      .where(eq(sessionsTable.id, session.id))
+      .execute();
+
+    return getCurrentUser(session.user_id);
+  } catch (error) {
+    console.error('Session resolution failed:', error);
+    throw error;
+  }
+}
+
+export async function refreshSession(token: string): Promise<{ token: string; expires_at: Date }> {
+  try {
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashToken(token)))
+      .execute();
+
+    if (sessions.length === 0 || sessions[0].expires_at.getTime() <= Date.now()) {
+      throw new Error('Session not found or expired');
+    }
+
+    // Rotate the token so a refreshed session cannot be reused with the old one
+    const newToken = randomBytes(32).toString('base64url');
+    const expires_at = getExpiryDate();
+
+    await db.update(sessionsTable)
+      .set({
+        token_hash: hashToken(newToken),
+        expires_at,
+        last_used_at: new Date()
+      })
+      .where(eq(sessionsTable.id, sessions[0].id))
+      .execute();
+
+    return { token: newToken, expires_at };
+  } catch (error) {
+    console.error('Session refresh failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteSession(token: string): Promise<{ success: boolean; message: string }> {
+  try {
+    await db.delete(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashToken(token)))
+      .execute();
+
+    return {
+      success: true,
+      message: 'Logout successful'
+    };
+  } catch (error) {
+    console.error('Session deletion failed:', error);
+    throw error;
+  }
+}
+
+// Logs a user out everywhere except the session given, which stays signed in
+export async function deleteOtherSessions(userId: number, keepToken?: string, executor: Executor = db): Promise<void> {
+  try {
+    await executor.delete(sessionsTable)
+      .where(and(
+        eq(sessionsTable.user_id, userId),
+        keepToken ? ne(sessionsTable.token_hash, hashToken(keepToken)) : undefined
+      ))
+      .execute();
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,250 @@
+import { db } from '../db';
+import { settingsTable } from '../db/schema';
+import {
+  geofenceSchema,
+  schoolHoursSchema,
+  weekendSchema,
+  schoolTimezoneSchema,
+  autoAlphaSchema,
+  dailyStatusRuleSchema,
+  lampiranSakitSchema,
+  alurPersetujuanIzinSchema,
+  kopSuratSchema,
+  type Geofence,
+  type SchoolHours,
+  type Weekend,
+  type SchoolTimezone,
+  type AutoAlpha,
+  type DailyStatusRule,
+  type LampiranSakit,
+  type AlurPersetujuanIzin,
+  type KopSurat
+} from '../schema';
+import { eq } from 'drizzle-orm';
+import { serverTimezone } from '../utils/school_date';
+
+const GEOFENCE_KEY = 'geofence';
+const SCHOOL_HOURS_KEY = 'school_hours';
+const WEEKEND_KEY = 'weekend';
+const SCHOOL_TIMEZONE_KEY = 'school_timezone';
+const AUTO_ALPHA_KEY = 'auto_alpha';
+const DAILY_STATUS_RULE_KEY = 'daily_status_rule';
+const LAMPIRAN_SAKIT_KEY = 'lampiran_sakit';
+const ALUR_PERSETUJUAN_IZIN_KEY = 'alur_persetujuan_izin';
+const KOP_SURAT_KEY = 'kop_surat';
+
+async function getSetting(key: string): Promise<unknown> {
+  const result = await db.select()
+    .from(settingsTable)
+    .where(eq(settingsTable.key, key))
+    .execute();
+
+  return result.length > 0 ? result[0].value : null;
+}
+
+async function putSetting(key: string, value: unknown, actorId: number | null): Promise<void> {
+  await db.insert(settingsTable)
+    .values({ key, value, updated_by: actorId })
+    .onConflictDoUpdate({
+      target: settingsTable.key,
+      set: { value, updated_by: actorId, updated_at: new Date() }
+    })
+    .execute();
+}
+
+// Returns null until an admin has configured the school area
+export async function getGeofence(): Promise<Geofence | null> {
+  try {
+    const value = await getSetting(GEOFENCE_KEY);
+    return value === null ? null : geofenceSchema.parse(value);
+  } catch (error) {
+    console.error('Get geofence failed:', error);
+    throw error;
+  }
+}
+
+export async function updateGeofence(input: Geofence, actorId: number | null): Promise<Geofence> {
+  try {
+    await putSetting(GEOFENCE_KEY, input, actorId);
+    return input;
+  } catch (error) {
+    console.error('Update geofence failed:', error);
+    throw error;
+  }
+}
+
+// Returns null until an admin has configured the school hours; lateness is not tracked until then
+export async function getSchoolHours(): Promise<SchoolHours | null> {
+  try {
+    const value = await getSetting(SCHOOL_HOURS_KEY);
+    return value === null ? null : schoolHoursSchema.parse(value);
+  } catch (error) {
+    console.error('Get school hours failed:', error);
+    throw error;
+  }
+}
+
+export async function updateSchoolHours(input: SchoolHours, actorId: number | null): Promise<SchoolHours> {
+  try {
+    await putSetting(SCHOOL_HOURS_KEY, input, actorId);
+    return input;
+  } catch (error) {
+    console.error('Update school hours failed:', error);
+    throw error;
+  }
+}
+
+// Returns null until an admin has configured the weekend; every day is a school day until then
+export async function getWeekend(): Promise<Weekend | null> {
+  try {
+    const value = await getSetting(WEEKEND_KEY);
+    return value === null ? null : weekendSchema.parse(value);
+  } catch (error) {
+    console.error('Get weekend failed:', error);
+    throw error;
+  }
+}
+
+export async function updateWeekend(input: Weekend, actorId: number | null): Promise<Weekend> {
+  try {
+    await putSetting(WEEKEND_KEY, input, actorId);
+    return input;
+  } catch (error) {
+    console.error('Update weekend failed:', error);
+    throw error;
+  }
+}
+
+// Returns null until an admin has configured the school timezone
+export async function getSchoolTimezone(): Promise<SchoolTimezone | null> {
+  try {
+    const value = await getSetting(SCHOOL_TIMEZONE_KEY);
+    return value === null ? null : schoolTimezoneSchema.parse(value);
+  } catch (error) {
+    console.error('Get school timezone failed:', error);
+    throw error;
+  }
+}
+
+export async function updateSchoolTimezone(input: SchoolTimezone, actorId: number | null): Promise<SchoolTimezone> {
+  try {
+    await putSetting(SCHOOL_TIMEZONE_KEY, input, actorId);
+    return input;
+  } catch (error) {
+    console.error('Update school timezone failed:', error);
+    throw error;
+  }
+}
+
+// Timezone every "today" is computed in; the server clock's zone keeps the old behaviour until configured
+export async function resolveSchoolTimezone(): Promise<string> {
+  return (await getSchoolTimezone())?.timezone ?? serverTimezone();
+}
+
+// Returns null until an admin has configured the cutoff; the scheduled alpha job stays idle until then
+export async function getAutoAlpha(): Promise<AutoAlpha | null> {
+  try {
+    const value = await getSetting(AUTO_ALPHA_KEY);
+    return value === null ? null : autoAlphaSchema.parse(value);
+  } catch (error) {
+    console.error('Get auto alpha failed:', error);
+    throw error;
+  }
+}
+
+export async function updateAutoAlpha(input: AutoAlpha, actorId: number | null): Promise<AutoAlpha> {
+  try {
+    await putSetting(AUTO_ALPHA_KEY, input, actorId);
+    return input;
+  } catch (error) {
+    console.error('Update auto alpha failed:', error);
+    throw error;
+  }
+}
+
+// Returns null until an admin has picked a rule; the daily status then follows the default rule
+export async function getDailyStatusRule(): Promise<DailyStatusRule | null> {
+  try {
+    const value = await getSetting(DAILY_STATUS_RULE_KEY);
+    return value === null ? null : dailyStatusRuleSchema.parse(value);
+  } catch (error) {
+    console.error('Get daily status rule failed:', error);
+    throw error;
+  }
+}
+
+export async function updateDailyStatusRule(input: DailyStatusRule, actorId: number | null): Promise<DailyStatusRule> {
+  try {
+    await putSetting(DAILY_STATUS_RULE_KEY, input, actorId);
+    return input;
+  } catch (error) {
+    console.error('Update daily status rule failed:', error);
+    throw error;
+  }
+}
+
+// Returns null until an admin has set a limit; attachments stay optional until then
+export async function getLampiranSakit(): Promise<LampiranSakit | null> {
+  try {
+    const value = await getSetting(LAMPIRAN_SAKIT_KEY);
+    return value === null ? null : lampiranSakitSchema.parse(value);
+  } catch (error) {
+    console.error('Get lampiran sakit failed:', error);
+    throw error;
+  }
+}
+
+export async function updateLampiranSakit(input: LampiranSakit, actorId: number | null): Promise<LampiranSakit> {
+  try {
+    await putSetting(LAMPIRAN_SAKIT_KEY, input, actorId);
+    return input;
+  } catch (error) {
+    console.error('Update lampiran sakit failed:', error);
+    throw error;
+  }
+}
+
+// Until an admin adds rules every request only needs its wali kelas
+export async function getAlurPersetujuanIzin(): Promise<AlurPersetujuanIzin> {
+  try {
+    const value = await getSetting(ALUR_PERSETUJUAN_IZIN_KEY);
+    return value === null
+      ? { aturan: [], guru_bk: [], kepala_sekolah: [] }
+      : alurPersetujuanIzinSchema.parse(value);
+  } catch (error) {
+    console.error('Get alur persetujuan izin failed:', error);
+    throw error;
+  }
+}
+
+// Applies to requests submitted or resubmitted afterwards; requests already in review keep their chain
+export async function updateAlurPersetujuanIzin(input: AlurPersetujuanIzin, actorId: number | null): Promise<AlurPersetujuanIzin> {
+  try {
+    await putSetting(ALUR_PERSETUJUAN_IZIN_KEY, input, actorId);
+    return input;
+  } catch (error) {
+    console.error('Update alur persetujuan izin failed:', error);
+    throw error;
+  }
+}
+
+// Returns null until an admin has entered the school's letterhead; reports then start with their title
+export async function getKopSurat(): Promise<KopSurat | null> {
+  try {
+    const value = await getSetting(KOP_SURAT_KEY);
+    return value === null ? null : kopSuratSchema.parse(value);
+  } catch (error) {
+    console.error('Get kop surat failed:', error);
+    throw error;
+  }
+}
+
+export async function updateKopSurat(input: KopSurat, actorId: number | null): Promise<KopSurat> {
+  try {
+    await putSetting(KOP_SURAT_KEY, input, actorId);
+    return input;
+  } catch (error) {
+    console.error('Update kop surat failed:', error);
+    throw error;
+  }
+}
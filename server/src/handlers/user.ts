@@ -2,31 +2,17 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type CreateUserInput, type UpdateUserInput, type User } from '../schema';
 import { eq, or, and } from 'drizzle-orm';
-import { createHash, randomBytes, pbkdf2Sync } from 'crypto';
-
-// Helper function to hash passwords
-function hashPassword(password: string): string {
-  const salt = randomBytes(32).toString('hex');
-  const hash = pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex');
-  return `${salt}:${hash}`;
-}
-
-// Helper function to verify passwords
-function verifyPassword(password: string, hashedPassword: string): boolean {
-  const [salt, hash] = hashedPassword.split(':');
-  const verifyHash = pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex');
-  return hash === verifyHash;
-}
+import { hashPassword } from '../utils/password';
 
 export async function createUser(input: CreateUserInput): Promise<User> {
   try {
     // Hash the password
-    const password_hash = hashPassword(input.password);
+    const password_hash = await hashPassword(input.password);
 
     // Validate unique constraints based on role
     const conditions = [];
     
-    if (input.role === 'admin' && input.username !== null) {
+    if ((input.role === 'admin' || input.role === 'orang_tua') && input.username !== null) {
       conditions.push(eq(usersTable.username, input.username));
     }
     
@@ -138,9 +124,14 @@ export async function updateUser(input: UpdateUserInput): Promise<User> {
     if (input.nisn !== undefined) updateValues.nisn = input.nisn;
     if (input.role !== undefined) updateValues.role = input.role;
     
-    // Hash new password if provided
+    // Hash new password if provided; a password set by an admin is only temporary
     if (input.password !== undefined) {
-      updateValues.password_hash = hashPassword(input.password);
+      updateValues.password_hash = await hashPassword(input.password);
+      updateValues.must_change_password = true;
+    }
+
+    if (input.must_change_password !== undefined) {
+      updateValues.must_change_password = input.must_change_password;
     }
 
     // Update user
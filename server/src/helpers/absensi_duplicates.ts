@@ -0,0 +1,135 @@
+import { db } from '../db';
+import { absensiTable } from '../db/schema';
+import { inArray, sql, eq } from 'drizzle-orm';
+import { resolveSchoolTimezone } from '../handlers/settings';
+import { serverTimezone } from '../utils/school_date';
+
+export interface AbsensiDuplicateMerge {
+  siswa_id: number;
+  tanggal: string; // YYYY-MM-DD
+  jadwal_pelajaran_id: number | null; // Null for daily records
+  kept_id: number;
+  removed_ids: number[];
+  statuses: string[]; // Status of every merged row, the kept one first
+}
+
+// Columns the kept row borrows from its duplicates when it has no value of its own
+const FILLABLE_COLUMNS = [
+  'guru_id',
+  'waktu_masuk',
+  'waktu_pulang',
+  'keterangan',
+  'latitude_masuk',
+  'longitude_masuk',
+  'accuracy_masuk',
+  'latitude_pulang',
+  'longitude_pulang',
+  'accuracy_pulang'
+] as const;
+
+// An absensi row with its school day as text, as the duplicate lookup returns it
+type DuplicateAbsensiRow = typeof absensiTable.$inferSelect & { hari: string };
+
+export const tableExists = async (name: string): Promise<boolean> => {
+  const table = await db.execute(sql`SELECT to_regclass(${`public.${name}`}) AS name`);
+  return (table.rows[0] as { name: string | null }).name !== null;
+};
+
+// Fills tanggal_hari with the school day of tanggal in the school timezone, so the
+// column can be made NOT NULL. Rows written while it was generated from the UTC date
+// are recomputed as well. Returns the number of rows filled.
+export const backfillTanggalHari = async (): Promise<number> => {
+  if (!await tableExists('absensi')) return 0;
+
+  // A database older than the settings table has no school timezone configured yet
+  const timezone = await tableExists('settings') ? await resolveSchoolTimezone() : serverTimezone();
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`ALTER TABLE absensi ADD COLUMN IF NOT EXISTS tanggal_hari date`);
+
+    const column = await tx.execute(sql`
+      SELECT is_generated FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'absensi' AND column_name = 'tanggal_hari'
+    `);
+    const generated = (column.rows[0] as { is_generated: string }).is_generated === 'ALWAYS';
+    if (generated) {
+      await tx.execute(sql`ALTER TABLE absensi ALTER COLUMN tanggal_hari DROP EXPRESSION`);
+    }
+
+    // tanggal holds UTC wall clock time
+    const filled = await tx.execute(sql`
+      UPDATE absensi
+      SET tanggal_hari = (tanggal AT TIME ZONE 'UTC' AT TIME ZONE ${timezone})::date
+      WHERE ${generated ? sql`true` : sql`tanggal_hari IS NULL`}
+    `);
+    return filled.rowCount ?? 0;
+  });
+};
+
+// Merges absensi rows recorded twice for the same siswa, day and lesson so the
+// one-record-per-day indexes can be created. The most recently updated row of each
+// group is kept and completed from the others, which are deleted. Run
+// backfillTanggalHari first on tables that predate the column.
+export const mergeDuplicateAbsensi = async (): Promise<AbsensiDuplicateMerge[]> => {
+  if (!await tableExists('absensi')) return [];
+
+  return db.transaction(async (tx) => {
+    const duplicates = await tx.execute<DuplicateAbsensiRow>(sql`
+      SELECT a.*, a.tanggal_hari::text AS hari
+      FROM absensi a
+      WHERE (a.siswa_id, a.tanggal_hari, coalesce(a.jadwal_pelajaran_id, 0)) IN (
+        SELECT siswa_id, tanggal_hari, coalesce(jadwal_pelajaran_id, 0)
+        FROM absensi
+        GROUP BY 1, 2, 3
+        HAVING count(*) > 1
+      )
+      ORDER BY a.siswa_id, hari, a.jadwal_pelajaran_id, a.updated_at DESC, a.id DESC
+    `);
+
+    const groups = new Map<string, DuplicateAbsensiRow[]>();
+    for (const row of duplicates.rows) {
+      const key = `${row.siswa_id}:${row.hari}:${row.jadwal_pelajaran_id}`;
+      groups.set(key, [...(groups.get(key) ?? []), row]);
+    }
+
+    const report: AbsensiDuplicateMerge[] = [];
+    for (const [kept, ...others] of groups.values()) {
+      const merged: Partial<typeof absensiTable.$inferInsert> = {};
+      for (const column of FILLABLE_COLUMNS) {
+        const donor = others.find(row => row[column] !== null);
+        if (kept[column] === null && donor) {
+          Object.assign(merged, { [column]: donor[column] });
+        }
+      }
+      // Minutes late only describe a terlambat record
+      if (kept.status === 'terlambat' && kept.menit_terlambat === null) {
+        merged.menit_terlambat = others.find(row => row.menit_terlambat !== null)?.menit_terlambat ?? null;
+      }
+      if (!kept.pulang_awal && others.some(row => row.pulang_awal)) {
+        merged.pulang_awal = true;
+      }
+
+      const removedIds = others.map(row => row.id);
+      await tx.delete(absensiTable)
+        .where(inArray(absensiTable.id, removedIds))
+        .execute();
+
+      if (Object.keys(merged).length > 0) {
+        await tx.update(absensiTable)
+          .set({ ...merged, updated_at: new Date() })
+          .where(eq(absensiTable.id, kept.id))
+          .execute();
+      }
+
+      report.push({
+        siswa_id: kept.siswa_id,
+        tanggal: kept.hari,
+        jadwal_pelajaran_id: kept.jadwal_pelajaran_id,
+        kept_id: kept.id,
+        removed_ids: removedIds,
+        statuses: [kept, ...others].map(row => row.status)
+      });
+    }
+
+    return report;
+  });
+};
@@ -0,0 +1,18 @@
+import { backfillTanggalHari, mergeDuplicateAbsensi } from './absensi_duplicates';
+
+// Run before db:push so tanggal_hari can be made NOT NULL and the one-record-per-day indexes can be created
+backfillTanggalHari().then(async (filled) => {
+  console.log(`Filled tanggal_hari of ${filled} absensi record(s)`);
+  const report = await mergeDuplicateAbsensi();
+  for (const merge of report) {
+    const lesson = merge.jadwal_pelajaran_id === null ? 'daily' : `jadwal ${merge.jadwal_pelajaran_id}`;
+    console.log(
+      `siswa ${merge.siswa_id} on ${merge.tanggal} (${lesson}): kept #${merge.kept_id} [${merge.statuses[0]}], ` +
+      `removed ${merge.removed_ids.map(id => `#${id}`).join(', ')} [${merge.statuses.slice(1).join(', ')}]`
+    );
+  }
+  console.log(`Merged ${report.length} duplicate absensi group(s)`);
+}).catch((error) => {
+  console.error('Merging duplicate absensi failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,9 @@
+import { migratePengajuanIzinRange } from './pengajuan_izin_range';
+
+// Run before db:push so existing pengajuan izin keep their day as a one-day range
+migratePengajuanIzinRange().then((converted) => {
+  console.log(`Converted ${converted} pengajuan izin to a date range`);
+}).catch((error) => {
+  console.error('Migrating pengajuan izin failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+import { tableExists } from './absensi_duplicates';
+
+// Turns the single tanggal of pengajuan izin into a one-day range, so db:push can add the
+// NOT NULL tanggal_mulai and tanggal_selesai columns without dropping existing requests.
+// Returns the number of requests converted.
+export const migratePengajuanIzinRange = async (): Promise<number> => {
+  if (!await tableExists('pengajuan_izin')) return 0;
+
+  return db.transaction(async (tx) => {
+    const column = await tx.execute(sql`
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'pengajuan_izin' AND column_name = 'tanggal'
+    `);
+    if (column.rows.length === 0) return 0;
+
+    await tx.execute(sql`ALTER TABLE pengajuan_izin RENAME COLUMN tanggal TO tanggal_mulai`);
+    await tx.execute(sql`ALTER TABLE pengajuan_izin ADD COLUMN tanggal_selesai timestamp`);
+    const converted = await tx.execute(sql`UPDATE pengajuan_izin SET tanggal_selesai = tanggal_mulai`);
+    return converted.rowCount ?? 0;
+  });
+};
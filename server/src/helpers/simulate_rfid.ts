@@ -0,0 +1,59 @@
+import 'dotenv/config';
+import { createInterface } from 'readline';
+
+// Plays a gate card reader against a running server: each UID given as an argument,
+// or typed one per line when there are none, is posted to tapKartu.
+//
+//   RFID_DEVICE_ID=GATE-1 RFID_DEVICE_SECRET=... bun run simulate:rfid 04A21B7C
+const serverUrl = process.env['RFID_SERVER_URL'] || `http://localhost:${process.env['SERVER_PORT'] || 2022}`;
+const deviceId = process.env['RFID_DEVICE_ID'];
+const deviceSecret = process.env['RFID_DEVICE_SECRET'];
+
+async function tap(uid: string): Promise<void> {
+  const response = await fetch(`${serverUrl}/tapKartu`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-device-id': deviceId!,
+      'x-device-secret': deviceSecret!
+    },
+    // Plain values serialize the same with or without superjson
+    body: JSON.stringify({ json: { uid } })
+  });
+  const body = await response.json() as {
+    result?: { data: { json: { hasil: string; nama_siswa: string | null; pesan: string } } };
+    error?: { json: { message: string } };
+  };
+
+  if (!body.result) {
+    console.log(`${uid}: error ${response.status} - ${body.error?.json.message ?? 'unknown error'}`);
+    return;
+  }
+
+  const { hasil, nama_siswa, pesan } = body.result.data.json;
+  console.log(`${uid}: ${hasil.toUpperCase()}${nama_siswa ? ` ${nama_siswa}` : ''} - ${pesan}`);
+}
+
+async function main(): Promise<void> {
+  if (!deviceId || !deviceSecret) {
+    console.error('Set RFID_DEVICE_ID and RFID_DEVICE_SECRET to a registered perangkat');
+    process.exit(1);
+  }
+
+  const uids = process.argv.slice(2);
+  if (uids.length > 0) {
+    for (const uid of uids) await tap(uid);
+    return;
+  }
+
+  console.log(`Tapping against ${serverUrl} as ${deviceId}; type a card UID per line, Ctrl+D to stop`);
+  for await (const line of createInterface({ input: process.stdin })) {
+    const uid = line.trim();
+    if (uid) await tap(uid);
+  }
+}
+
+main().catch((error) => {
+  console.error('RFID simulator failed:', error);
+  process.exit(1);
+});
@@ -1,4 +1,4 @@
-import { initTRPC } from '@trpc/server';
+import { initTRPC, TRPCError } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
@@ -13,54 +13,279 @@ import {
   updateSiswaInputSchema,
   createGuruInputSchema,
   updateGuruInputSchema,
+  createOrangTuaInputSchema,
+  updateOrangTuaInputSchema,
+  linkOrangTuaSiswaInputSchema,
   createKelasInputSchema,
   updateKelasInputSchema,
   createAbsensiInputSchema,
   updateAbsensiInputSchema,
+  submitKelasAbsensiInputSchema,
   absenMasukInputSchema,
   absenPulangInputSchema,
+  generateQrTokenInputSchema,
   getAbsensiHistoryInputSchema,
+  exportAbsensiInputSchema,
   createPengajuanIzinInputSchema,
-  reviewPengajuanIzinInputSchema
+  updatePengajuanIzinInputSchema,
+  reviewPengajuanIzinInputSchema,
+  revokePengajuanIzinInputSchema,
+  changePasswordInputSchema,
+  resetPasswordInputSchema,
+  getLockoutEventsInputSchema,
+  getAuditLogsInputSchema,
+  geofenceSchema,
+  schoolHoursSchema,
+  schoolTimezoneSchema,
+  weekendSchema,
+  autoAlphaSchema,
+  runAutoAlphaInputSchema,
+  createKalenderAkademikInputSchema,
+  updateKalenderAkademikInputSchema,
+  getKalenderAkademikInputSchema,
+  dailyStatusRuleSchema,
+  lampiranSakitSchema,
+  alurPersetujuanIzinSchema,
+  kopSuratSchema,
+  createMataPelajaranInputSchema,
+  updateMataPelajaranInputSchema,
+  createJadwalPelajaranInputSchema,
+  updateJadwalPelajaranInputSchema,
+  getJadwalPelajaranInputSchema,
+  getAbsensiPelajaranInputSchema,
+  createPerangkatInputSchema,
+  updatePerangkatInputSchema,
+  createKartuRfidInputSchema,
+  getKartuRfidInputSchema,
+  tapKartuInputSchema,
+  type Role
 } from './schema';
 
 // Import handlers
-import { login, getCurrentUser } from './handlers/auth';
+import { login } from './handlers/auth';
 import { createUser, updateUser, deleteUser, getAllUsers } from './handlers/user';
 import { createSiswa, updateSiswa, deleteSiswa, getAllSiswa, getSiswaByKelas, getSiswaById } from './handlers/siswa';
 import { createGuru, updateGuru, deleteGuru, getAllGuru, getGuruById } from './handlers/guru';
+import {
+  createOrangTua,
+  updateOrangTua,
+  deleteOrangTua,
+  getAllOrangTua,
+  getOrangTuaById,
+  linkSiswaToOrangTua,
+  unlinkSiswaFromOrangTua,
+  getLinksByOrangTua,
+  getAnakByOrangTua
+} from './handlers/orang_tua';
 import { createKelas, updateKelas, deleteKelas, getAllKelas, getKelasByWaliKelas, getKelasById } from './handlers/kelas';
 import { 
   createAbsensi, 
   updateAbsensi, 
+  submitKelasAbsensi,
   absenMasuk, 
   absenPulang, 
   getAbsensiHistory, 
   getTodayAbsensi, 
   getAbsensiStats, 
-  deleteAbsensi 
+  deleteAbsensi,
+  getAbsensiPelajaran
 } from './handlers/absensi';
+import {
+  createMataPelajaran,
+  updateMataPelajaran,
+  deleteMataPelajaran,
+  getAllMataPelajaran
+} from './handlers/mata_pelajaran';
+import {
+  createJadwalPelajaran,
+  updateJadwalPelajaran,
+  deleteJadwalPelajaran,
+  getJadwalPelajaran,
+  getJadwalSaatIni
+} from './handlers/jadwal_pelajaran';
 import { 
   createPengajuanIzin, 
+  updatePengajuanIzin,
+  cancelPengajuanIzin,
+  getRiwayatPengajuanIzin,
   reviewPengajuanIzin, 
+  revokePengajuanIzin,
   getPengajuanIzinBySiswa, 
   getPendingPengajuanIzin, 
+  getApprovedPengajuanIzin,
+  getAntrianPersetujuanIzin,
   getAllPengajuanIzin, 
   deletePengajuanIzin 
 } from './handlers/pengajuan_izin';
+import { createSession, refreshSession, deleteSession } from './handlers/session';
+import { changePassword, createPasswordResetToken, resetPassword } from './handlers/password';
+import { unlockUser, getLockoutEvents } from './handlers/login_protection';
+import { getAuditLogs } from './handlers/audit_log';
 import { getDashboardStats, getGuruDashboardStats, getSiswaDashboardStats } from './handlers/dashboard';
+import { generateQrToken } from './handlers/qr_token';
+import {
+  getGeofence,
+  updateGeofence,
+  getSchoolHours,
+  updateSchoolHours,
+  getSchoolTimezone,
+  updateSchoolTimezone,
+  getWeekend,
+  updateWeekend,
+  getAutoAlpha,
+  updateAutoAlpha,
+  getDailyStatusRule,
+  updateDailyStatusRule,
+  getLampiranSakit,
+  updateLampiranSakit,
+  getAlurPersetujuanIzin,
+  updateAlurPersetujuanIzin,
+  getKopSurat,
+  updateKopSurat
+} from './handlers/settings';
+import { runAutoAlpha, startAutoAlphaScheduler } from './handlers/auto_alpha';
+import {
+  createKalenderAkademik,
+  updateKalenderAkademik,
+  deleteKalenderAkademik,
+  getKalenderAkademik
+} from './handlers/kalender_akademik';
 import { exportAbsensiToPDF, exportAbsensiToExcel, generateRekapAbsensi } from './handlers/export';
 
 // Import Zod for validation
 import { z } from 'zod';
+import { createContext, setSessionCookie, clearSessionCookie, type Context } from './context';
+import {
+  requireGuruId,
+  requireSiswaId,
+  requireOrangTuaId,
+  assertKelasAccess,
+  assertSiswaAccess,
+  assertGuruAccess,
+  assertOrangTuaAccess,
+  assertAbsensiAccess,
+  assertJadwalPelajaranAccess,
+  assertPengajuanIzinAccess,
+  assertPengajuanIzinReviewAccess,
+  assertQrTokenAccess,
+  assertScopedAccess
+} from './authorization';
+import { snapshotBeforeMutation, recordMutation } from './audit';
+import {
+  createPerangkat,
+  updatePerangkat,
+  rotatePerangkatSecret,
+  deletePerangkat,
+  getAllPerangkat,
+  authenticatePerangkat,
+  tapKartu
+} from './handlers/perangkat';
+import { createKartuRfid, deleteKartuRfid, getKartuRfid } from './handlers/kartu_rfid';
+import { getTodayFotoAbsensi, startFotoRetentionScheduler } from './handlers/foto_absensi';
+import { getLampiranPengajuanIzin } from './handlers/lampiran_izin';
+import { startFileEksporRetentionScheduler } from './handlers/file_ekspor';
+import { handleExportDownload } from './download';
+import { getPersetujuanIzin } from './handlers/persetujuan_izin';
+import { CheckInError } from './utils/check_in_error';
 
-const t = initTRPC.create({
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
+  // Refused check-ins carry a code the siswa dashboard turns into a message
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        checkInCode: error.cause instanceof CheckInError ? error.cause.code : null
+      }
+    };
+  },
 });
 
-const publicProcedure = t.procedure;
+// Records every successful mutation with before/after snapshots of the affected row
+const auditMiddleware = t.middleware(async ({ ctx, path, type, getRawInput, next }) => {
+  if (type !== 'mutation') {
+    return next();
+  }
+
+  const actorId = ctx.user?.id ?? null;
+  const input = await getRawInput();
+  const snapshot = await snapshotBeforeMutation(path, actorId, input);
+
+  const result = await next();
+
+  if (result.ok) {
+    try {
+      await recordMutation(path, actorId, input, result.data, snapshot);
+    } catch (error) {
+      // The mutation has already happened, so a failed audit write must not turn it into an error
+      console.error('Audit log failed:', error);
+    }
+  }
+
+  return result;
+});
+
+const publicProcedure = t.procedure.use(auditMiddleware);
 const router = t.router;
 
+// Requires a valid session; the acting user is always taken from ctx.user, never from input
+const authenticatedProcedure = publicProcedure.use(({ ctx, next }) => {
+  if (!ctx.user || !ctx.sessionToken) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Silakan login terlebih dahulu' });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user, sessionToken: ctx.sessionToken } });
+});
+
+// Users flagged with must_change_password can do nothing else until they change it
+const protectedProcedure = authenticatedProcedure.use(({ ctx, next }) => {
+  if (ctx.user.must_change_password) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Anda harus mengganti password terlebih dahulu' });
+  }
+  return next();
+});
+
+// Restricts a procedure to the given roles
+const roleProcedure = (...roles: Role[]) => protectedProcedure.use(({ ctx, next }) => {
+  if (!roles.includes(ctx.user.role)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Anda tidak memiliki akses untuk tindakan ini' });
+  }
+  return next();
+});
+
+const adminProcedure = roleProcedure('admin');
+
+// Admins can do everything a guru can; per-kelas ownership is checked in each procedure
+const guruProcedure = roleProcedure('admin', 'guru');
+
+// Exposes the siswa profile id of the logged in student as ctx.siswaId
+const siswaProcedure = roleProcedure('siswa').use(({ ctx, next }) => {
+  return next({ ctx: { siswaId: requireSiswaId(ctx.user) } });
+});
+
+// Exposes the orang tua profile id of the logged in parent as ctx.orangTuaId
+const orangTuaProcedure = roleProcedure('orang_tua').use(({ ctx, next }) => {
+  return next({ ctx: { orangTuaId: requireOrangTuaId(ctx.user) } });
+});
+
+// Siswa and their parents file leave, and may withdraw or correct it while it is pending
+const pemohonIzinProcedure = roleProcedure('siswa', 'orang_tua');
+
+// Card readers sign every request with their kode and API secret instead of a session;
+// the reader is exposed as ctx.perangkat
+const deviceProcedure = publicProcedure.use(async ({ ctx, next }) => {
+  const kode = ctx.req.headers['x-device-id'];
+  const secret = ctx.req.headers['x-device-secret'];
+  const perangkat = typeof kode === 'string' && typeof secret === 'string'
+    ? await authenticatePerangkat(kode, secret)
+    : null;
+
+  if (!perangkat) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Perangkat tidak dikenal atau tidak aktif' });
+  }
+  return next({ ctx: { perangkat } });
+});
+
 const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
@@ -70,189 +295,595 @@ const appRouter = router({
   // Authentication routes
   login: publicProcedure
     .input(loginInputSchema)
-    .mutation(({ input }) => login(input)),
+    .mutation(async ({ input, ctx }) => {
+      const result = await login(input, ctx.ip);
+      if (result.success && result.user) {
+        const session = await createSession(result.user.id);
+        setSessionCookie(ctx.res, session.token, session.expires_at);
+      }
+      return result;
+    }),
+
+  logout: publicProcedure
+    .mutation(async ({ ctx }) => {
+      clearSessionCookie(ctx.res);
+      if (!ctx.sessionToken) {
+        return { success: true, message: 'Logout successful' };
+      }
+      return deleteSession(ctx.sessionToken);
+    }),
+
+  refreshSession: authenticatedProcedure
+    .mutation(async ({ ctx }) => {
+      const session = await refreshSession(ctx.sessionToken);
+      setSessionCookie(ctx.res, session.token, session.expires_at);
+      return { success: true, expires_at: session.expires_at };
+    }),
   
   getCurrentUser: publicProcedure
-    .input(z.object({ userId: z.number() }))
-    .query(({ input }) => getCurrentUser(input.userId)),
+    .query(({ ctx }) => ctx.user),
+
+  changePassword: authenticatedProcedure
+    .input(changePasswordInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => changePassword({ ...input, user_id: ctx.user.id }, ctx.sessionToken)),
+
+  resetPassword: publicProcedure
+    .input(resetPasswordInputSchema)
+    .mutation(({ input }) => resetPassword(input)),
 
   // User management routes (Admin only)
-  createUser: publicProcedure
+  createUser: adminProcedure
     .input(createUserInputSchema)
     .mutation(({ input }) => createUser(input)),
   
-  updateUser: publicProcedure
+  updateUser: adminProcedure
     .input(updateUserInputSchema)
     .mutation(({ input }) => updateUser(input)),
   
-  deleteUser: publicProcedure
+  deleteUser: adminProcedure
     .input(z.object({ id: z.number() }))
     .mutation(({ input }) => deleteUser(input.id)),
   
-  getAllUsers: publicProcedure
+  getAllUsers: adminProcedure
     .query(() => getAllUsers()),
 
+  createPasswordResetToken: adminProcedure
+    .input(z.object({ userId: z.number() }))
+    .mutation(({ input, ctx }) => createPasswordResetToken(input.userId, ctx.user.id)),
+
+  unlockUser: adminProcedure
+    .input(z.object({ userId: z.number() }))
+    .mutation(({ input, ctx }) => unlockUser(input.userId, ctx.user.id)),
+
+  getLockoutEvents: adminProcedure
+    .input(getLockoutEventsInputSchema)
+    .query(({ input }) => getLockoutEvents(input)),
+
+  getAuditLogs: adminProcedure
+    .input(getAuditLogsInputSchema)
+    .query(({ input }) => getAuditLogs(input)),
+
+  // School settings; every logged in user may read them, e.g. to offer location check-in
+  getGeofence: protectedProcedure
+    .query(() => getGeofence()),
+
+  updateGeofence: adminProcedure
+    .input(geofenceSchema)
+    .mutation(({ input, ctx }) => updateGeofence(input, ctx.user.id)),
+
+  getSchoolHours: protectedProcedure
+    .query(() => getSchoolHours()),
+
+  updateSchoolHours: adminProcedure
+    .input(schoolHoursSchema)
+    .mutation(({ input, ctx }) => updateSchoolHours(input, ctx.user.id)),
+
+  getSchoolTimezone: protectedProcedure
+    .query(() => getSchoolTimezone()),
+
+  updateSchoolTimezone: adminProcedure
+    .input(schoolTimezoneSchema)
+    .mutation(({ input, ctx }) => updateSchoolTimezone(input, ctx.user.id)),
+
+  getWeekend: protectedProcedure
+    .query(() => getWeekend()),
+
+  updateWeekend: adminProcedure
+    .input(weekendSchema)
+    .mutation(({ input, ctx }) => updateWeekend(input, ctx.user.id)),
+
+  getAutoAlpha: adminProcedure
+    .query(() => getAutoAlpha()),
+
+  updateAutoAlpha: adminProcedure
+    .input(autoAlphaSchema)
+    .mutation(({ input, ctx }) => updateAutoAlpha(input, ctx.user.id)),
+
+  // Backfill for days the scheduler missed; safe to repeat
+  runAutoAlpha: adminProcedure
+    .input(runAutoAlphaInputSchema)
+    .mutation(({ input }) => runAutoAlpha(input.tanggal)),
+
+  // Kalender akademik routes; everyone may read it, only admins maintain it
+  createKalenderAkademik: adminProcedure
+    .input(createKalenderAkademikInputSchema)
+    .mutation(({ input, ctx }) => createKalenderAkademik(input, ctx.user.id)),
+
+  updateKalenderAkademik: adminProcedure
+    .input(updateKalenderAkademikInputSchema)
+    .mutation(({ input }) => updateKalenderAkademik(input)),
+
+  deleteKalenderAkademik: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteKalenderAkademik(input.id)),
+
+  getKalenderAkademik: protectedProcedure
+    .input(getKalenderAkademikInputSchema)
+    .query(({ input }) => getKalenderAkademik(input)),
+
+  getDailyStatusRule: adminProcedure
+    .query(() => getDailyStatusRule()),
+
+  updateDailyStatusRule: adminProcedure
+    .input(dailyStatusRuleSchema)
+    .mutation(({ input, ctx }) => updateDailyStatusRule(input, ctx.user.id)),
+
+  // Read by the leave forms to tell whether a sick note is needed
+  getLampiranSakit: protectedProcedure
+    .query(() => getLampiranSakit()),
+
+  updateLampiranSakit: adminProcedure
+    .input(lampiranSakitSchema)
+    .mutation(({ input, ctx }) => updateLampiranSakit(input, ctx.user.id)),
+
+  getAlurPersetujuanIzin: adminProcedure
+    .query(() => getAlurPersetujuanIzin()),
+
+  updateAlurPersetujuanIzin: adminProcedure
+    .input(alurPersetujuanIzinSchema)
+    .mutation(({ input, ctx }) => updateAlurPersetujuanIzin(input, ctx.user.id)),
+
+  getKopSurat: adminProcedure
+    .query(() => getKopSurat()),
+
+  updateKopSurat: adminProcedure
+    .input(kopSuratSchema)
+    .mutation(({ input, ctx }) => updateKopSurat(input, ctx.user.id)),
+
+  // Mata pelajaran and timetable routes; everyone may read them, only admins maintain them
+  createMataPelajaran: adminProcedure
+    .input(createMataPelajaranInputSchema)
+    .mutation(({ input }) => createMataPelajaran(input)),
+
+  updateMataPelajaran: adminProcedure
+    .input(updateMataPelajaranInputSchema)
+    .mutation(({ input }) => updateMataPelajaran(input)),
+
+  deleteMataPelajaran: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteMataPelajaran(input.id)),
+
+  getAllMataPelajaran: protectedProcedure
+    .query(() => getAllMataPelajaran()),
+
+  createJadwalPelajaran: adminProcedure
+    .input(createJadwalPelajaranInputSchema)
+    .mutation(({ input }) => createJadwalPelajaran(input)),
+
+  updateJadwalPelajaran: adminProcedure
+    .input(updateJadwalPelajaranInputSchema)
+    .mutation(({ input }) => updateJadwalPelajaran(input)),
+
+  deleteJadwalPelajaran: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteJadwalPelajaran(input.id)),
+
+  getJadwalPelajaran: protectedProcedure
+    .input(getJadwalPelajaranInputSchema)
+    .query(({ input }) => getJadwalPelajaran(input)),
+
+  getJadwalSaatIni: guruProcedure
+    .input(z.object({ guruId: z.number() }))
+    .query(({ input, ctx }) => {
+      assertGuruAccess(ctx.user, input.guruId);
+      return getJadwalSaatIni(input.guruId);
+    }),
+
+  // Card reader routes; admins register readers and cards, readers report taps
+  createPerangkat: adminProcedure
+    .input(createPerangkatInputSchema)
+    .mutation(({ input }) => createPerangkat(input)),
+
+  updatePerangkat: adminProcedure
+    .input(updatePerangkatInputSchema)
+    .mutation(({ input }) => updatePerangkat(input)),
+
+  rotatePerangkatSecret: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => rotatePerangkatSecret(input.id)),
+
+  deletePerangkat: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deletePerangkat(input.id)),
+
+  getAllPerangkat: adminProcedure
+    .query(() => getAllPerangkat()),
+
+  createKartuRfid: adminProcedure
+    .input(createKartuRfidInputSchema)
+    .mutation(({ input }) => createKartuRfid(input)),
+
+  deleteKartuRfid: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteKartuRfid(input.id)),
+
+  getKartuRfid: adminProcedure
+    .input(getKartuRfidInputSchema)
+    .query(({ input }) => getKartuRfid(input)),
+
+  tapKartu: deviceProcedure
+    .input(tapKartuInputSchema)
+    .mutation(({ input }) => tapKartu(input)),
+
   // Siswa management routes
-  createSiswa: publicProcedure
+  createSiswa: adminProcedure
     .input(createSiswaInputSchema)
     .mutation(({ input }) => createSiswa(input)),
   
-  updateSiswa: publicProcedure
+  updateSiswa: adminProcedure
     .input(updateSiswaInputSchema)
     .mutation(({ input }) => updateSiswa(input)),
   
-  deleteSiswa: publicProcedure
+  deleteSiswa: adminProcedure
     .input(z.object({ id: z.number() }))
     .mutation(({ input }) => deleteSiswa(input.id)),
   
-  getAllSiswa: publicProcedure
+  getAllSiswa: adminProcedure
     .query(() => getAllSiswa()),
   
-  getSiswaByKelas: publicProcedure
+  getSiswaByKelas: guruProcedure
     .input(z.object({ kelasId: z.number() }))
-    .query(({ input }) => getSiswaByKelas(input.kelasId)),
+    .query(async ({ input, ctx }) => {
+      await assertKelasAccess(ctx.user, input.kelasId);
+      return getSiswaByKelas(input.kelasId);
+    }),
   
-  getSiswaById: publicProcedure
+  getSiswaById: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .query(({ input }) => getSiswaById(input.id)),
+    .query(async ({ input, ctx }) => {
+      await assertSiswaAccess(ctx.user, input.id);
+      return getSiswaById(input.id);
+    }),
 
   // Guru management routes
-  createGuru: publicProcedure
+  createGuru: adminProcedure
     .input(createGuruInputSchema)
     .mutation(({ input }) => createGuru(input)),
   
-  updateGuru: publicProcedure
+  updateGuru: adminProcedure
     .input(updateGuruInputSchema)
     .mutation(({ input }) => updateGuru(input)),
   
-  deleteGuru: publicProcedure
+  deleteGuru: adminProcedure
     .input(z.object({ id: z.number() }))
     .mutation(({ input }) => deleteGuru(input.id)),
   
-  getAllGuru: publicProcedure
+  getAllGuru: adminProcedure
     .query(() => getAllGuru()),
   
-  getGuruById: publicProcedure
+  getGuruById: guruProcedure
     .input(z.object({ id: z.number() }))
-    .query(({ input }) => getGuruById(input.id)),
+    .query(({ input, ctx }) => {
+      assertGuruAccess(ctx.user, input.id);
+      return getGuruById(input.id);
+    }),
+
+  // Orang tua management routes
+  createOrangTua: adminProcedure
+    .input(createOrangTuaInputSchema)
+    .mutation(({ input }) => createOrangTua(input)),
+  
+  updateOrangTua: adminProcedure
+    .input(updateOrangTuaInputSchema)
+    .mutation(({ input }) => updateOrangTua(input)),
+  
+  deleteOrangTua: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteOrangTua(input.id)),
+  
+  getAllOrangTua: adminProcedure
+    .query(() => getAllOrangTua()),
+  
+  getOrangTuaById: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(({ input, ctx }) => {
+      assertOrangTuaAccess(ctx.user, input.id);
+      return getOrangTuaById(input.id);
+    }),
+
+  linkSiswaToOrangTua: adminProcedure
+    .input(linkOrangTuaSiswaInputSchema)
+    .mutation(({ input }) => linkSiswaToOrangTua(input)),
+  
+  unlinkSiswaFromOrangTua: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => unlinkSiswaFromOrangTua(input.id)),
+  
+  getLinksByOrangTua: adminProcedure
+    .input(z.object({ orangTuaId: z.number() }))
+    .query(({ input }) => getLinksByOrangTua(input.orangTuaId)),
+  
+  getAnakByOrangTua: protectedProcedure
+    .input(z.object({ orangTuaId: z.number() }))
+    .query(({ input, ctx }) => {
+      assertOrangTuaAccess(ctx.user, input.orangTuaId);
+      return getAnakByOrangTua(input.orangTuaId);
+    }),
 
   // Kelas management routes
-  createKelas: publicProcedure
+  createKelas: adminProcedure
     .input(createKelasInputSchema)
     .mutation(({ input }) => createKelas(input)),
   
-  updateKelas: publicProcedure
+  updateKelas: adminProcedure
     .input(updateKelasInputSchema)
     .mutation(({ input }) => updateKelas(input)),
   
-  deleteKelas: publicProcedure
+  deleteKelas: adminProcedure
     .input(z.object({ id: z.number() }))
     .mutation(({ input }) => deleteKelas(input.id)),
   
-  getAllKelas: publicProcedure
+  getAllKelas: adminProcedure
     .query(() => getAllKelas()),
   
-  getKelasByWaliKelas: publicProcedure
+  getKelasByWaliKelas: guruProcedure
     .input(z.object({ guruId: z.number() }))
-    .query(({ input }) => getKelasByWaliKelas(input.guruId)),
+    .query(({ input, ctx }) => {
+      assertGuruAccess(ctx.user, input.guruId);
+      return getKelasByWaliKelas(input.guruId);
+    }),
   
-  getKelasById: publicProcedure
+  getKelasById: guruProcedure
     .input(z.object({ id: z.number() }))
-    .query(({ input }) => getKelasById(input.id)),
+    .query(async ({ input, ctx }) => {
+      await assertKelasAccess(ctx.user, input.id);
+      return getKelasById(input.id);
+    }),
 
   // Absensi routes
-  createAbsensi: publicProcedure
+  createAbsensi: guruProcedure
     .input(createAbsensiInputSchema)
-    .mutation(({ input }) => createAbsensi(input)),
-  
-  updateAbsensi: publicProcedure
+    .mutation(async ({ input, ctx }) => {
+      // The guru of a lesson records it even when they are not the wali kelas
+      if (input.jadwal_pelajaran_id) {
+        await assertJadwalPelajaranAccess(ctx.user, input.jadwal_pelajaran_id);
+      } else {
+        await assertKelasAccess(ctx.user, input.kelas_id);
+        await assertSiswaAccess(ctx.user, input.siswa_id);
+      }
+      // A guru always records attendance under their own name
+      const guru_id = ctx.user.role === 'guru' ? requireGuruId(ctx.user) : input.guru_id;
+      return createAbsensi({ ...input, guru_id });
+    }),
+  
+  submitKelasAbsensi: guruProcedure
+    .input(submitKelasAbsensiInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      await assertKelasAccess(ctx.user, input.kelas_id);
+      const guru_id = ctx.user.role === 'guru' ? requireGuruId(ctx.user) : input.guru_id;
+      return submitKelasAbsensi({ ...input, guru_id });
+    }),
+
+  updateAbsensi: guruProcedure
     .input(updateAbsensiInputSchema)
-    .mutation(({ input }) => updateAbsensi(input)),
+    .mutation(async ({ input, ctx }) => {
+      await assertAbsensiAccess(ctx.user, input.id);
+      return updateAbsensi(input);
+    }),
   
-  deleteAbsensi: publicProcedure
+  deleteAbsensi: guruProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(({ input }) => deleteAbsensi(input.id)),
-  
-  absenMasuk: publicProcedure
-    .input(absenMasukInputSchema)
-    .mutation(({ input }) => absenMasuk(input)),
-  
-  absenPulang: publicProcedure
-    .input(absenPulangInputSchema)
-    .mutation(({ input }) => absenPulang(input)),
-  
-  getAbsensiHistory: publicProcedure
+    .mutation(async ({ input, ctx }) => {
+      await assertAbsensiAccess(ctx.user, input.id);
+      return deleteAbsensi(input.id);
+    }),
+  
+  getAbsensiPelajaran: guruProcedure
+    .input(getAbsensiPelajaranInputSchema)
+    .query(async ({ input, ctx }) => {
+      await assertJadwalPelajaranAccess(ctx.user, input.jadwal_pelajaran_id);
+      return getAbsensiPelajaran(input);
+    }),
+
+  // Rotating code for the kelas or gate screen; a query so each refresh is not written to the audit log
+  generateQrToken: guruProcedure
+    .input(generateQrTokenInputSchema)
+    .query(async ({ input, ctx }) => {
+      await assertQrTokenAccess(ctx.user, input.kelas_id);
+      return generateQrToken(input);
+    }),
+  
+  absenMasuk: siswaProcedure
+    .input(absenMasukInputSchema.omit({ siswa_id: true }))
+    .mutation(({ input, ctx }) => absenMasuk({ ...input, siswa_id: ctx.siswaId })),
+  
+  absenPulang: siswaProcedure
+    .input(absenPulangInputSchema.omit({ siswa_id: true }))
+    .mutation(({ input, ctx }) => absenPulang({ ...input, siswa_id: ctx.siswaId })),
+  
+  getTodayFotoAbsensi: guruProcedure
+    .input(z.object({ kelasId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await assertKelasAccess(ctx.user, input.kelasId);
+      return getTodayFotoAbsensi(input.kelasId);
+    }),
+
+  getAbsensiHistory: protectedProcedure
     .input(getAbsensiHistoryInputSchema)
-    .query(({ input }) => getAbsensiHistory(input)),
+    .query(async ({ input, ctx }) => {
+      await assertScopedAccess(ctx.user, { kelasId: input.kelas_id, siswaId: input.siswa_id });
+      return getAbsensiHistory(input);
+    }),
   
-  getTodayAbsensi: publicProcedure
+  getTodayAbsensi: protectedProcedure
     .input(z.object({ 
       siswaId: z.number().optional(), 
       kelasId: z.number().optional() 
     }))
-    .query(({ input }) => getTodayAbsensi(input.siswaId, input.kelasId)),
+    .query(async ({ input, ctx }) => {
+      await assertScopedAccess(ctx.user, input);
+      return getTodayAbsensi(input.siswaId, input.kelasId);
+    }),
   
-  getAbsensiStats: publicProcedure
+  getAbsensiStats: guruProcedure
     .input(z.object({
       kelasId: z.number().optional(),
       startDate: z.coerce.date().optional(),
       endDate: z.coerce.date().optional()
     }))
-    .query(({ input }) => getAbsensiStats(input.kelasId, input.startDate, input.endDate)),
+    .query(async ({ input, ctx }) => {
+      await assertScopedAccess(ctx.user, { kelasId: input.kelasId });
+      return getAbsensiStats(input.kelasId, input.startDate, input.endDate);
+    }),
 
   // Pengajuan Izin routes
-  createPengajuanIzin: publicProcedure
-    .input(createPengajuanIzinInputSchema)
-    .mutation(({ input }) => createPengajuanIzin(input)),
+  createPengajuanIzin: siswaProcedure
+    .input(createPengajuanIzinInputSchema.omit({ siswa_id: true }))
+    .mutation(({ input, ctx }) => createPengajuanIzin({ ...input, siswa_id: ctx.siswaId })),
   
-  reviewPengajuanIzin: publicProcedure
-    .input(reviewPengajuanIzinInputSchema)
-    .mutation(({ input }) => reviewPengajuanIzin(input)),
+  // Parents file leave on behalf of one of their children
+  createPengajuanIzinForAnak: orangTuaProcedure
+    .input(createPengajuanIzinInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      await assertSiswaAccess(ctx.user, input.siswa_id);
+      return createPengajuanIzin(input);
+    }),
+  
+  updatePengajuanIzin: pemohonIzinProcedure
+    .input(updatePengajuanIzinInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      await assertPengajuanIzinAccess(ctx.user, input.id);
+      return updatePengajuanIzin(input);
+    }),
+  
+  cancelPengajuanIzin: pemohonIzinProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await assertPengajuanIzinAccess(ctx.user, input.id);
+      return cancelPengajuanIzin(input.id);
+    }),
   
-  getPengajuanIzinBySiswa: publicProcedure
+  getRiwayatPengajuanIzin: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await assertPengajuanIzinAccess(ctx.user, input.id);
+      return getRiwayatPengajuanIzin(input.id);
+    }),
+  
+  reviewPengajuanIzin: guruProcedure
+    .input(reviewPengajuanIzinInputSchema.omit({ reviewer_id: true }))
+    .mutation(async ({ input, ctx }) => {
+      await assertPengajuanIzinReviewAccess(ctx.user, input.id);
+      return reviewPengajuanIzin({ ...input, reviewer_id: ctx.user.id });
+    }),
+  
+  revokePengajuanIzin: guruProcedure
+    .input(revokePengajuanIzinInputSchema.omit({ reviewer_id: true }))
+    .mutation(async ({ input, ctx }) => {
+      await assertPengajuanIzinAccess(ctx.user, input.id);
+      return revokePengajuanIzin({ ...input, reviewer_id: ctx.user.id });
+    }),
+  
+  getPengajuanIzinBySiswa: protectedProcedure
     .input(z.object({ siswaId: z.number() }))
-    .query(({ input }) => getPengajuanIzinBySiswa(input.siswaId)),
-  
-  getPendingPengajuanIzin: publicProcedure
+    .query(async ({ input, ctx }) => {
+      await assertSiswaAccess(ctx.user, input.siswaId);
+      return getPengajuanIzinBySiswa(input.siswaId);
+    }),
+  
+  getLampiranPengajuanIzin: protectedProcedure
+    .input(z.object({ pengajuanIzinId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await assertPengajuanIzinAccess(ctx.user, input.pengajuanIzinId);
+      return getLampiranPengajuanIzin(input.pengajuanIzinId);
+    }),
+  
+  getPendingPengajuanIzin: guruProcedure
     .input(z.object({ kelasId: z.number().optional() }))
-    .query(({ input }) => getPendingPengajuanIzin(input.kelasId)),
+    .query(async ({ input, ctx }) => {
+      await assertScopedAccess(ctx.user, { kelasId: input.kelasId });
+      return getPendingPengajuanIzin(input.kelasId);
+    }),
+  
+  // Requests waiting for the logged in approver's decision
+  getAntrianPersetujuanIzin: guruProcedure
+    .query(({ ctx }) => getAntrianPersetujuanIzin(ctx.user.role === 'admin' ? null : requireGuruId(ctx.user))),
+  
+  getPersetujuanIzin: protectedProcedure
+    .input(z.object({ pengajuanIzinId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await assertPengajuanIzinAccess(ctx.user, input.pengajuanIzinId);
+      return getPersetujuanIzin(input.pengajuanIzinId);
+    }),
+  
+  getApprovedPengajuanIzin: guruProcedure
+    .input(z.object({ kelasId: z.number().optional() }))
+    .query(async ({ input, ctx }) => {
+      await assertScopedAccess(ctx.user, { kelasId: input.kelasId });
+      return getApprovedPengajuanIzin(input.kelasId);
+    }),
   
-  getAllPengajuanIzin: publicProcedure
+  getAllPengajuanIzin: adminProcedure
     .query(() => getAllPengajuanIzin()),
   
-  deletePengajuanIzin: publicProcedure
+  deletePengajuanIzin: adminProcedure
     .input(z.object({ id: z.number() }))
     .mutation(({ input }) => deletePengajuanIzin(input.id)),
 
   // Dashboard routes
-  getDashboardStats: publicProcedure
+  getDashboardStats: adminProcedure
     .query(() => getDashboardStats()),
   
-  getGuruDashboardStats: publicProcedure
+  getGuruDashboardStats: guruProcedure
     .input(z.object({ guruId: z.number() }))
-    .query(({ input }) => getGuruDashboardStats(input.guruId)),
+    .query(({ input, ctx }) => {
+      assertGuruAccess(ctx.user, input.guruId);
+      return getGuruDashboardStats(input.guruId);
+    }),
   
-  getSiswaDashboardStats: publicProcedure
+  getSiswaDashboardStats: protectedProcedure
     .input(z.object({ siswaId: z.number() }))
-    .query(({ input }) => getSiswaDashboardStats(input.siswaId)),
+    .query(async ({ input, ctx }) => {
+      await assertSiswaAccess(ctx.user, input.siswaId);
+      return getSiswaDashboardStats(input.siswaId);
+    }),
 
   // Export routes
-  exportAbsensiToPDF: publicProcedure
-    .input(getAbsensiHistoryInputSchema)
-    .mutation(({ input }) => exportAbsensiToPDF(input)),
-  
-  exportAbsensiToExcel: publicProcedure
-    .input(getAbsensiHistoryInputSchema)
-    .mutation(({ input }) => exportAbsensiToExcel(input)),
-  
-  generateRekapAbsensi: publicProcedure
+  exportAbsensiToPDF: guruProcedure
+    .input(exportAbsensiInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      await assertScopedAccess(ctx.user, { kelasId: input.kelas_id, siswaId: input.siswa_id });
+      return exportAbsensiToPDF(input, ctx.user.id);
+    }),
+  
+  exportAbsensiToExcel: guruProcedure
+    .input(exportAbsensiInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      await assertScopedAccess(ctx.user, { kelasId: input.kelas_id, siswaId: input.siswa_id });
+      return exportAbsensiToExcel(input, ctx.user.id);
+    }),
+  
+  generateRekapAbsensi: guruProcedure
     .input(z.object({
       kelasId: z.number().optional(),
       startDate: z.coerce.date(),
       endDate: z.coerce.date(),
       format: z.enum(['pdf', 'excel'])
     }))
-    .mutation(({ input }) => generateRekapAbsensi(input)),
+    .mutation(async ({ input, ctx }) => {
+      await assertScopedAccess(ctx.user, { kelasId: input.kelasId });
+      return generateRekapAbsensi(input, ctx.user.id);
+    }),
 });
 
 export type AppRouter = typeof appRouter;
@@ -261,15 +892,28 @@ async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        handleExportDownload(req, res).then(handled => {
+          if (!handled) next();
+        }).catch(error => {
+          console.error('Export download failed:', error);
+          if (!res.headersSent) {
+            res.statusCode = 500;
+            res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+          }
+          res.end('Gagal mengunduh file');
+        });
+      });
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
+
+  startAutoAlphaScheduler();
+  startFotoRetentionScheduler();
+  startFileEksporRetentionScheduler();
 }
 
 start();
\ No newline at end of file
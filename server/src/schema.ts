@@ -1,18 +1,27 @@
 import { z } from 'zod';
 
 // Enums
-export const roleEnum = z.enum(['admin', 'guru', 'siswa']);
-export const attendanceStatusEnum = z.enum(['hadir', 'izin', 'sakit', 'alpha']);
-export const requestStatusEnum = z.enum(['pending', 'approved', 'rejected']);
+export const roleEnum = z.enum(['admin', 'guru', 'siswa', 'orang_tua']);
+export const attendanceStatusEnum = z.enum(['hadir', 'terlambat', 'izin', 'sakit', 'alpha']);
+export const requestStatusEnum = z.enum(['pending', 'approved', 'rejected', 'cancelled', 'revision_requested', 'revoked']);
+export const lockoutScopeEnum = z.enum(['identifier', 'ip']);
+export const lockoutEventEnum = z.enum(['locked', 'unlocked']);
+export const jenisKalenderEnum = z.enum(['libur_nasional', 'libur_sekolah', 'acara_sekolah', 'hari_masuk_pengganti']);
+// Who decides a step of a leave request: the wali kelas of the siswa, a BK counselor or the principal
+export const peranPersetujuanEnum = z.enum(['wali_kelas', 'bk', 'kepala_sekolah']);
+
+export type Role = z.infer<typeof roleEnum>;
+export type PeranPersetujuan = z.infer<typeof peranPersetujuanEnum>;
 
 // User schema
 export const userSchema = z.object({
   id: z.number(),
-  username: z.string().nullable(), // For admin
+  username: z.string().nullable(), // For admin and orang_tua
   nip: z.string().nullable(), // For guru
   nisn: z.string().nullable(), // For siswa
   password_hash: z.string(),
   role: roleEnum,
+  must_change_password: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -46,6 +55,29 @@ export const guruSchema = z.object({
 
 export type Guru = z.infer<typeof guruSchema>;
 
+// Orang tua schema
+export const orangTuaSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  nama: z.string(),
+  no_hp: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type OrangTua = z.infer<typeof orangTuaSchema>;
+
+// Orang tua - siswa link schema
+export const orangTuaSiswaSchema = z.object({
+  id: z.number(),
+  orang_tua_id: z.number(),
+  siswa_id: z.number(),
+  hubungan: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type OrangTuaSiswa = z.infer<typeof orangTuaSiswaSchema>;
+
 // Kelas schema
 export const kelasSchema = z.object({
   id: z.number(),
@@ -65,9 +97,20 @@ export const absensiSchema = z.object({
   kelas_id: z.number(),
   status: attendanceStatusEnum,
   tanggal: z.coerce.date(),
+  tanggal_hari: z.string(), // YYYY-MM-DD, the school day of tanggal in the school timezone
   waktu_masuk: z.string().nullable(),
   waktu_pulang: z.string().nullable(),
   keterangan: z.string().nullable(),
+  menit_terlambat: z.number().int().nullable(),
+  pulang_awal: z.boolean(),
+  jadwal_pelajaran_id: z.number().nullable(), // Null for the daily record
+  latitude_masuk: z.number().nullable(),
+  longitude_masuk: z.number().nullable(),
+  accuracy_masuk: z.number().nullable(),
+  latitude_pulang: z.number().nullable(),
+  longitude_pulang: z.number().nullable(),
+  accuracy_pulang: z.number().nullable(),
+  foto_masuk: z.string().nullable(), // File storage key of the check-in selfie; cleared after the retention period
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -78,22 +121,60 @@ export type Absensi = z.infer<typeof absensiSchema>;
 export const pengajuanIzinSchema = z.object({
   id: z.number(),
   siswa_id: z.number(),
-  tanggal: z.coerce.date(),
+  tanggal_mulai: z.coerce.date(),
+  tanggal_selesai: z.coerce.date(),
   alasan: z.string(),
   status: requestStatusEnum,
   jenis: z.enum(['izin', 'sakit']),
   reviewer_id: z.number().nullable(),
   reviewed_at: z.coerce.date().nullable(),
+  catatan_reviewer: z.string().nullable(),
+  versi: z.number().int(),
+  alur: z.array(peranPersetujuanEnum), // Approvers of the current version, in order
+  langkah: z.number().int(), // 1-based step of alur waiting for a decision
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type PengajuanIzin = z.infer<typeof pengajuanIzinSchema>;
 
+// Decision on one approval step of a pengajuan izin version
+export const persetujuanIzinSchema = z.object({
+  id: z.number(),
+  pengajuan_izin_id: z.number(),
+  versi: z.number().int(),
+  langkah: z.number().int(),
+  peran: peranPersetujuanEnum,
+  status: z.enum(['approved', 'rejected', 'revision_requested']),
+  reviewer_id: z.number().nullable(),
+  catatan: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type PersetujuanIzin = z.infer<typeof persetujuanIzinSchema>;
+
+// An earlier version of a pengajuan izin, kept when it is edited or resubmitted
+export const pengajuanIzinVersiSchema = z.object({
+  id: z.number(),
+  pengajuan_izin_id: z.number(),
+  versi: z.number().int(),
+  tanggal_mulai: z.coerce.date(),
+  tanggal_selesai: z.coerce.date(),
+  alasan: z.string(),
+  jenis: z.enum(['izin', 'sakit']),
+  status: requestStatusEnum, // Status when it was replaced
+  reviewer_id: z.number().nullable(),
+  reviewed_at: z.coerce.date().nullable(),
+  catatan_reviewer: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type PengajuanIzinVersi = z.infer<typeof pengajuanIzinVersiSchema>;
+
 // Login input schemas
 export const loginInputSchema = z.object({
   role: roleEnum,
-  username: z.string().optional(),
+  username: z.string().optional(), // For admin and orang_tua
   nip: z.string().optional(),
   nisn: z.string().optional(),
   password: z.string()
@@ -119,11 +200,37 @@ export const updateUserInputSchema = z.object({
   nip: z.string().nullable().optional(),
   nisn: z.string().nullable().optional(),
   password: z.string().optional(),
-  role: roleEnum.optional()
+  role: roleEnum.optional(),
+  must_change_password: z.boolean().optional()
 });
 
 export type UpdateUserInput = z.infer<typeof updateUserInputSchema>;
 
+// Change password input schema (the user is taken from the session)
+export const changePasswordInputSchema = z.object({
+  user_id: z.number(),
+  old_password: z.string(),
+  new_password: z.string().min(8)
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+// Reset password with an admin-issued one-time token
+export const resetPasswordInputSchema = z.object({
+  token: z.string(),
+  new_password: z.string().min(8)
+});
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
+
+// Admin-issued password reset token, returned once in plaintext
+export const passwordResetTokenSchema = z.object({
+  token: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type PasswordResetTokenResult = z.infer<typeof passwordResetTokenSchema>;
+
 // Create siswa input schema
 export const createSiswaInputSchema = z.object({
   user_id: z.number(),
@@ -164,6 +271,33 @@ export const updateGuruInputSchema = z.object({
 
 export type UpdateGuruInput = z.infer<typeof updateGuruInputSchema>;
 
+// Create orang tua input schema
+export const createOrangTuaInputSchema = z.object({
+  user_id: z.number(),
+  nama: z.string(),
+  no_hp: z.string().nullable()
+});
+
+export type CreateOrangTuaInput = z.infer<typeof createOrangTuaInputSchema>;
+
+// Update orang tua input schema
+export const updateOrangTuaInputSchema = z.object({
+  id: z.number(),
+  nama: z.string().optional(),
+  no_hp: z.string().nullable().optional()
+});
+
+export type UpdateOrangTuaInput = z.infer<typeof updateOrangTuaInputSchema>;
+
+// Link a siswa to an orang tua
+export const linkOrangTuaSiswaInputSchema = z.object({
+  orang_tua_id: z.number(),
+  siswa_id: z.number(),
+  hubungan: z.string().nullable()
+});
+
+export type LinkOrangTuaSiswaInput = z.infer<typeof linkOrangTuaSiswaInputSchema>;
+
 // Create kelas input schema
 export const createKelasInputSchema = z.object({
   nama_kelas: z.string(),
@@ -190,7 +324,9 @@ export const createAbsensiInputSchema = z.object({
   tanggal: z.coerce.date(),
   waktu_masuk: z.string().nullable(),
   waktu_pulang: z.string().nullable(),
-  keterangan: z.string().nullable()
+  keterangan: z.string().nullable(),
+  // Records attendance for one lesson instead of the whole day
+  jadwal_pelajaran_id: z.number().nullable().optional()
 });
 
 export type CreateAbsensiInput = z.infer<typeof createAbsensiInputSchema>;
@@ -206,42 +342,170 @@ export const updateAbsensiInputSchema = z.object({
 
 export type UpdateAbsensiInput = z.infer<typeof updateAbsensiInputSchema>;
 
-// Absen masuk/pulang input schema
+// Daily attendance of a whole kelas submitted at once from the guru attendance sheet
+export const submitKelasAbsensiInputSchema = z.object({
+  kelas_id: z.number(),
+  guru_id: z.number().nullable(),
+  tanggal: z.coerce.date(),
+  entries: z.array(z.object({
+    siswa_id: z.number(),
+    status: attendanceStatusEnum,
+    keterangan: z.string().nullable()
+  })).min(1)
+}).refine(
+  input => new Set(input.entries.map(entry => entry.siswa_id)).size === input.entries.length,
+  { message: 'Each siswa may only appear once', path: ['entries'] }
+);
+
+export type SubmitKelasAbsensiInput = z.infer<typeof submitKelasAbsensiInputSchema>;
+
+export const hasilAbsensiKelasEnum = z.enum(['dibuat', 'diperbarui', 'ditolak']);
+
+export const kelasAbsensiResultSchema = z.object({
+  siswa_id: z.number(),
+  hasil: hasilAbsensiKelasEnum,
+  absensi: absensiSchema.nullable(), // Null when the entry was rejected
+  alasan: z.string().nullable() // Why the entry was rejected
+});
+
+export type KelasAbsensiResult = z.infer<typeof kelasAbsensiResultSchema>;
+
+// Device location as reported by the browser geolocation API
+export const checkInLocationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().nonnegative() // Meters
+});
+
+export type CheckInLocation = z.infer<typeof checkInLocationSchema>;
+
+// Absen masuk/pulang input schema; proof of presence is either the QR code scanned
+// from the kelas or gate screen, or a location inside the school geofence
+// Selfie as a base64 data URL; the client shrinks it before sending
+export const fotoDataUrlSchema = z.string()
+  .max(2_000_000)
+  .regex(/^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/]+={0,2}$/, 'Foto must be a base64 encoded JPEG, PNG or WebP image');
+
 export const absenMasukInputSchema = z.object({
-  siswa_id: z.number()
+  siswa_id: z.number(),
+  qr_token: z.string().optional(),
+  location: checkInLocationSchema.optional(),
+  foto: fotoDataUrlSchema.optional() // Optional evidence that the siswa checked in themselves
 });
 
 export type AbsenMasukInput = z.infer<typeof absenMasukInputSchema>;
 
 export const absenPulangInputSchema = z.object({
-  siswa_id: z.number()
+  siswa_id: z.number(),
+  qr_token: z.string().optional(),
+  location: checkInLocationSchema.optional()
 });
 
 export type AbsenPulangInput = z.infer<typeof absenPulangInputSchema>;
 
-// Create pengajuan izin input schema
+// Check-in selfie of one daily record, for the guru reviewing the day
+export const fotoAbsensiSchema = z.object({
+  absensi_id: z.number(),
+  siswa_id: z.number(),
+  foto: z.string() // Data URL
+});
+
+export type FotoAbsensi = z.infer<typeof fotoAbsensiSchema>;
+
+// Rotating check-in QR code for one kelas, or for a location (kelas_id null) shared by all kelas
+export const generateQrTokenInputSchema = z.object({
+  kelas_id: z.number().nullable(),
+  lokasi: z.string().nullable()
+});
+
+export type GenerateQrTokenInput = z.infer<typeof generateQrTokenInputSchema>;
+
+export const qrTokenSchema = z.object({
+  token: z.string(),
+  kelas_id: z.number().nullable(),
+  lokasi: z.string().nullable(),
+  expires_at: z.coerce.date()
+});
+
+export type QrToken = z.infer<typeof qrTokenSchema>;
+
+// Supporting document as a base64 data URL, such as a photo or scan of a doctor's note.
+// The handler checks the decoded size and the actual file type.
+export const lampiranDataUrlSchema = z.string()
+  .max(7_000_000)
+  .regex(/^data:(image\/(jpeg|png|webp)|application\/pdf);base64,[A-Za-z0-9+/]+={0,2}$/, 'Lampiran must be a base64 encoded JPEG, PNG or WebP image or a PDF');
+
+export const lampiranInputSchema = z.object({
+  nama_file: z.string().min(1).max(255),
+  data: lampiranDataUrlSchema
+});
+
+export type LampiranInput = z.infer<typeof lampiranInputSchema>;
+
+// Create pengajuan izin input schema; leave for one day or a range of days,
+// the handler checks the order of the dates
 export const createPengajuanIzinInputSchema = z.object({
   siswa_id: z.number(),
-  tanggal: z.coerce.date(),
+  tanggal_mulai: z.coerce.date(),
+  tanggal_selesai: z.coerce.date(),
   alasan: z.string(),
-  jenis: z.enum(['izin', 'sakit'])
+  jenis: z.enum(['izin', 'sakit']),
+  lampiran: z.array(lampiranInputSchema).max(5).optional()
 });
 
 export type CreatePengajuanIzinInput = z.infer<typeof createPengajuanIzinInputSchema>;
 
-// Review pengajuan izin input schema
+// Attachment of a pengajuan izin with its content, for previewing before review
+export const lampiranIzinSchema = z.object({
+  id: z.number(),
+  pengajuan_izin_id: z.number(),
+  nama_file: z.string(),
+  mime_type: z.string(),
+  ukuran: z.number().int(), // Bytes
+  data: z.string(), // Data URL
+  created_at: z.coerce.date()
+});
+
+export type LampiranIzin = z.infer<typeof lampiranIzinSchema>;
+
+// Edit a pending pengajuan izin, or resubmit one sent back for revision;
+// new lampiran are added to the ones already attached
+export const updatePengajuanIzinInputSchema = z.object({
+  id: z.number(),
+  tanggal_mulai: z.coerce.date(),
+  tanggal_selesai: z.coerce.date(),
+  alasan: z.string(),
+  jenis: z.enum(['izin', 'sakit']),
+  lampiran: z.array(lampiranInputSchema).max(5).optional()
+});
+
+export type UpdatePengajuanIzinInput = z.infer<typeof updatePengajuanIzinInputSchema>;
+
+// Review pengajuan izin input schema; catatan_reviewer is shown to the siswa, and
+// asking for a revision needs one telling the siswa what to change
 export const reviewPengajuanIzinInputSchema = z.object({
   id: z.number(),
-  status: z.enum(['approved', 'rejected']),
-  reviewer_id: z.number()
+  status: z.enum(['approved', 'rejected', 'revision_requested']),
+  reviewer_id: z.number(),
+  catatan_reviewer: z.string().max(1000).optional()
 });
 
 export type ReviewPengajuanIzinInput = z.infer<typeof reviewPengajuanIzinInputSchema>;
 
+// Revoke pengajuan izin input schema; the reason is shown to the siswa
+export const revokePengajuanIzinInputSchema = z.object({
+  id: z.number(),
+  reviewer_id: z.number(),
+  catatan_reviewer: z.string().min(1).max(1000)
+});
+
+export type RevokePengajuanIzinInput = z.infer<typeof revokePengajuanIzinInputSchema>;
+
 // Get absensi history input schema
 export const getAbsensiHistoryInputSchema = z.object({
   siswa_id: z.number().optional(),
   kelas_id: z.number().optional(),
+  jadwal_pelajaran_id: z.number().optional(), // Per-lesson records of this slot instead of daily records
   start_date: z.coerce.date().optional(),
   end_date: z.coerce.date().optional(),
   limit: z.number().default(50),
@@ -250,6 +514,14 @@ export const getAbsensiHistoryInputSchema = z.object({
 
 export type GetAbsensiHistoryInput = z.infer<typeof getAbsensiHistoryInputSchema>;
 
+// Export input; without a limit every matching record goes into the file
+export const exportAbsensiInputSchema = getAbsensiHistoryInputSchema.extend({
+  limit: z.number().int().positive().optional(),
+  offset: z.number().int().min(0).optional()
+});
+
+export type ExportAbsensiInput = z.infer<typeof exportAbsensiInputSchema>;
+
 // Dashboard statistics schema
 export const dashboardStatsSchema = z.object({
   total_siswa: z.number(),
@@ -257,6 +529,7 @@ export const dashboardStatsSchema = z.object({
   total_kelas: z.number(),
   absensi_hari_ini: z.object({
     hadir: z.number(),
+    terlambat: z.number(),
     izin: z.number(),
     sakit: z.number(),
     alpha: z.number()
@@ -266,6 +539,100 @@ export const dashboardStatsSchema = z.object({
 
 export type DashboardStats = z.infer<typeof dashboardStatsSchema>;
 
+// Lockout event schema
+export const lockoutEventSchema = z.object({
+  id: z.number(),
+  event: lockoutEventEnum,
+  scope: lockoutScopeEnum,
+  key: z.string(),
+  user_id: z.number().nullable(),
+  ip: z.string().nullable(),
+  failures: z.number().int(),
+  locked_until: z.coerce.date().nullable(),
+  actor_id: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type LockoutEvent = z.infer<typeof lockoutEventSchema>;
+
+// Lockout events filter input schema
+export const getLockoutEventsInputSchema = z.object({
+  user_id: z.number().optional(),
+  scope: lockoutScopeEnum.optional(),
+  limit: z.number().int().positive().max(500).optional()
+});
+
+export type GetLockoutEventsInput = z.infer<typeof getLockoutEventsInputSchema>;
+
+// Machine-readable reasons a check-in is refused, shown by the siswa dashboard
+export const checkInErrorCodeSchema = z.enum([
+  'PROOF_REQUIRED',
+  'QR_INVALID',
+  'QR_EXPIRED',
+  'QR_WRONG_KELAS',
+  'GEOFENCE_NOT_CONFIGURED',
+  'LOCATION_INACCURATE',
+  'OUTSIDE_GEOFENCE',
+  'NOT_SCHOOL_DAY',
+  'PHOTO_INVALID',
+  'ALREADY_CHECKED_IN',
+  'ABSENCE_RECORDED'
+]);
+
+export type CheckInErrorCode = z.infer<typeof checkInErrorCodeSchema>;
+
+// School geofence; either a circle around a point or a polygon of at least three points
+export const geoPointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180)
+});
+
+export type GeoPoint = z.infer<typeof geoPointSchema>;
+
+export const geofenceSchema = z.object({
+  enabled: z.boolean(),
+  max_accuracy_meters: z.number().positive(), // Fixes less accurate than this are refused
+  area: z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('radius'),
+      center: geoPointSchema,
+      radius_meters: z.number().positive()
+    }),
+    z.object({
+      type: z.literal('polygon'),
+      points: z.array(geoPointSchema).min(3)
+    })
+  ])
+});
+
+export type Geofence = z.infer<typeof geofenceSchema>;
+
+// Audit log schema
+export const auditLogSchema = z.object({
+  id: z.number(),
+  actor_id: z.number().nullable(),
+  procedure: z.string(),
+  entity: z.string(),
+  entity_id: z.number().nullable(),
+  before: z.unknown(),
+  after: z.unknown(),
+  created_at: z.coerce.date()
+});
+
+export type AuditLog = z.infer<typeof auditLogSchema>;
+
+// Audit log filter input schema
+export const getAuditLogsInputSchema = z.object({
+  entity: z.string().optional(),
+  entity_id: z.number().optional(),
+  actor_id: z.number().optional(),
+  start_date: z.coerce.date().optional(),
+  end_date: z.coerce.date().optional(),
+  limit: z.number().int().positive().max(500).optional()
+});
+
+export type GetAuditLogsInput = z.infer<typeof getAuditLogsInputSchema>;
+
 // Authentication response schema
 export const authResponseSchema = z.object({
   success: z.boolean(),
@@ -275,6 +642,7 @@ export const authResponseSchema = z.object({
     username: z.string().nullable(),
     nip: z.string().nullable(),
     nisn: z.string().nullable(),
+    must_change_password: z.boolean(),
     profile: z.object({
       id: z.number(),
       nama: z.string(),
@@ -285,4 +653,364 @@ export const authResponseSchema = z.object({
   message: z.string()
 });
 
-export type AuthResponse = z.infer<typeof authResponseSchema>;
\ No newline at end of file
+export type AuthResponse = z.infer<typeof authResponseSchema>;
+const dayOfWeekSchema = z.number().int().min(0).max(6); // 0 = Sunday
+
+// "HH:MM" in 24 hour format
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+
+// School hours per day of week; days without an entry have no official hours
+export const schoolHoursSchema = z.object({
+  grace_minutes: z.number().int().min(0), // Check-ins up to this many minutes after jam_masuk are still on time
+  days: z.array(z.object({
+    day_of_week: dayOfWeekSchema,
+    jam_masuk: timeOfDaySchema,
+    jam_pulang: timeOfDaySchema
+  }))
+    .refine(days => new Set(days.map(d => d.day_of_week)).size === days.length, 'Each day may only be configured once')
+    .refine(days => days.every(d => d.jam_masuk < d.jam_pulang), 'jam_masuk must be before jam_pulang')
+});
+
+export type SchoolHours = z.infer<typeof schoolHoursSchema>;
+
+
+// Timezone school days and times are counted in: WIB, WITA or WIT
+export const schoolTimezoneEnum = z.enum(['Asia/Jakarta', 'Asia/Makassar', 'Asia/Jayapura']);
+
+export const schoolTimezoneSchema = z.object({
+  timezone: schoolTimezoneEnum
+});
+
+export type SchoolTimezone = z.infer<typeof schoolTimezoneSchema>;
+
+// Days of the week without school, unless the kalender akademik says otherwise
+export const weekendSchema = z.object({
+  days: z.array(dayOfWeekSchema)
+    .refine(days => new Set(days).size === days.length, 'Each day may only be listed once')
+});
+
+export type Weekend = z.infer<typeof weekendSchema>;
+
+// Sakit requests covering more school days than batas_hari must come with a lampiran;
+// null leaves attachments optional
+export const lampiranSakitSchema = z.object({
+  batas_hari: z.number().int().min(0).nullable()
+});
+
+export type LampiranSakit = z.infer<typeof lampiranSakitSchema>;
+
+// Letterhead printed at the top of exported reports
+export const kopSuratSchema = z.object({
+  nama_sekolah: z.string().trim().min(1).max(200),
+  alamat: z.string().trim().max(300), // Empty when not printed
+  kontak: z.string().trim().max(200) // Phone, email or website line; empty when not printed
+});
+
+export type KopSurat = z.infer<typeof kopSuratSchema>;
+
+// Requests of the given jenis (null for both) covering at least min_hari school days go
+// through the listed approvers in order; the rule with the highest matching min_hari wins
+export const aturanPersetujuanIzinSchema = z.object({
+  jenis: z.enum(['izin', 'sakit']).nullable(),
+  min_hari: z.number().int().min(1),
+  langkah: z.array(peranPersetujuanEnum).min(1)
+    .refine(langkah => new Set(langkah).size === langkah.length, 'Each approver may only be listed once')
+});
+
+export type AturanPersetujuanIzin = z.infer<typeof aturanPersetujuanIzinSchema>;
+
+// Approval chains of leave requests and the guru holding the BK and principal roles;
+// requests no rule matches only need the wali kelas
+export const alurPersetujuanIzinSchema = z.object({
+  aturan: z.array(aturanPersetujuanIzinSchema),
+  guru_bk: z.array(z.number().int()),
+  kepala_sekolah: z.array(z.number().int())
+}).refine(
+  alur => new Set(alur.aturan.map(a => `${a.jenis}:${a.min_hari}`)).size === alur.aturan.length,
+  { message: 'Each jenis and min_hari may only have one rule', path: ['aturan'] }
+).refine(
+  alur => alur.guru_bk.length > 0 || !alur.aturan.some(a => a.langkah.includes('bk')),
+  { message: 'A rule uses bk but no guru is assigned as bk', path: ['guru_bk'] }
+).refine(
+  alur => alur.kepala_sekolah.length > 0 || !alur.aturan.some(a => a.langkah.includes('kepala_sekolah')),
+  { message: 'A rule uses kepala_sekolah but no guru is assigned as kepala_sekolah', path: ['kepala_sekolah'] }
+);
+
+export type AlurPersetujuanIzin = z.infer<typeof alurPersetujuanIzinSchema>;
+
+// Time of day after which students without absensi on a school day are marked alpha
+export const autoAlphaSchema = z.object({
+  jam_cutoff: timeOfDaySchema
+});
+
+export type AutoAlpha = z.infer<typeof autoAlphaSchema>;
+
+export const runAutoAlphaInputSchema = z.object({
+  tanggal: z.coerce.date()
+});
+
+export type RunAutoAlphaInput = z.infer<typeof runAutoAlphaInputSchema>;
+
+export const autoAlphaResultSchema = z.object({
+  tanggal: z.coerce.date(),
+  total_alpha: z.number().int(), // Rows created by this run; zero when it already ran for the date
+  kelas_diproses: z.number().int(),
+  kelas_libur: z.number().int() // Kelas for which the date is not a school day
+});
+
+export type AutoAlphaResult = z.infer<typeof autoAlphaResultSchema>;
+
+// Kalender akademik schema
+export const kalenderAkademikSchema = z.object({
+  id: z.number(),
+  tanggal_mulai: z.coerce.date(),
+  tanggal_selesai: z.coerce.date(),
+  jenis: jenisKalenderEnum,
+  keterangan: z.string(),
+  hari_sekolah: z.boolean(),
+  kelas_id: z.number().nullable(),
+  created_by: z.number().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type KalenderAkademik = z.infer<typeof kalenderAkademikSchema>;
+
+// Create kalender akademik input schema
+export const createKalenderAkademikInputSchema = z.object({
+  tanggal_mulai: z.coerce.date(),
+  tanggal_selesai: z.coerce.date(),
+  jenis: jenisKalenderEnum,
+  keterangan: z.string().min(1),
+  hari_sekolah: z.boolean(),
+  kelas_id: z.number().nullable()
+}).refine(input => input.tanggal_mulai <= input.tanggal_selesai, 'tanggal_mulai must not be after tanggal_selesai');
+
+export type CreateKalenderAkademikInput = z.infer<typeof createKalenderAkademikInputSchema>;
+
+// Update kalender akademik input schema
+export const updateKalenderAkademikInputSchema = z.object({
+  id: z.number(),
+  tanggal_mulai: z.coerce.date().optional(),
+  tanggal_selesai: z.coerce.date().optional(),
+  jenis: jenisKalenderEnum.optional(),
+  keterangan: z.string().min(1).optional(),
+  hari_sekolah: z.boolean().optional(),
+  kelas_id: z.number().nullable().optional()
+});
+
+export type UpdateKalenderAkademikInput = z.infer<typeof updateKalenderAkademikInputSchema>;
+
+// Entries overlapping a period; with kelas_id only school-wide entries and those of that kelas
+export const getKalenderAkademikInputSchema = z.object({
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  kelas_id: z.number().optional()
+});
+
+export type GetKalenderAkademikInput = z.infer<typeof getKalenderAkademikInputSchema>;
+
+// How the daily status is derived from the per-lesson records of a siswa
+export const aturanStatusHarianEnum = z.enum([
+  'mayoritas', // Present when attending at least half of the recorded lessons
+  'pelajaran_pertama', // Status of the first recorded lesson of the day
+  'minimal_satu_hadir' // Present when attending any recorded lesson
+]);
+
+export type AturanStatusHarian = z.infer<typeof aturanStatusHarianEnum>;
+
+export const dailyStatusRuleSchema = z.object({
+  aturan: aturanStatusHarianEnum
+});
+
+export type DailyStatusRule = z.infer<typeof dailyStatusRuleSchema>;
+
+// Mata pelajaran schema
+export const mataPelajaranSchema = z.object({
+  id: z.number(),
+  kode: z.string(),
+  nama: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type MataPelajaran = z.infer<typeof mataPelajaranSchema>;
+
+export const createMataPelajaranInputSchema = z.object({
+  kode: z.string().min(1),
+  nama: z.string().min(1)
+});
+
+export type CreateMataPelajaranInput = z.infer<typeof createMataPelajaranInputSchema>;
+
+export const updateMataPelajaranInputSchema = z.object({
+  id: z.number(),
+  kode: z.string().min(1).optional(),
+  nama: z.string().min(1).optional()
+});
+
+export type UpdateMataPelajaranInput = z.infer<typeof updateMataPelajaranInputSchema>;
+
+// Jadwal pelajaran schema
+export const jadwalPelajaranSchema = z.object({
+  id: z.number(),
+  kelas_id: z.number(),
+  mata_pelajaran_id: z.number(),
+  guru_id: z.number(),
+  hari: dayOfWeekSchema,
+  jam_mulai: z.string(),
+  jam_selesai: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type JadwalPelajaran = z.infer<typeof jadwalPelajaranSchema>;
+
+// Timetable slot with the names the dashboards display
+export const jadwalPelajaranDetailSchema = jadwalPelajaranSchema.extend({
+  nama_kelas: z.string(),
+  nama_mata_pelajaran: z.string(),
+  nama_guru: z.string()
+});
+
+export type JadwalPelajaranDetail = z.infer<typeof jadwalPelajaranDetailSchema>;
+
+export const createJadwalPelajaranInputSchema = z.object({
+  kelas_id: z.number(),
+  mata_pelajaran_id: z.number(),
+  guru_id: z.number(),
+  hari: dayOfWeekSchema,
+  jam_mulai: timeOfDaySchema,
+  jam_selesai: timeOfDaySchema
+}).refine(input => input.jam_mulai < input.jam_selesai, 'jam_mulai must be before jam_selesai');
+
+export type CreateJadwalPelajaranInput = z.infer<typeof createJadwalPelajaranInputSchema>;
+
+export const updateJadwalPelajaranInputSchema = z.object({
+  id: z.number(),
+  kelas_id: z.number().optional(),
+  mata_pelajaran_id: z.number().optional(),
+  guru_id: z.number().optional(),
+  hari: dayOfWeekSchema.optional(),
+  jam_mulai: timeOfDaySchema.optional(),
+  jam_selesai: timeOfDaySchema.optional()
+});
+
+export type UpdateJadwalPelajaranInput = z.infer<typeof updateJadwalPelajaranInputSchema>;
+
+export const getJadwalPelajaranInputSchema = z.object({
+  kelas_id: z.number().optional(),
+  guru_id: z.number().optional(),
+  hari: dayOfWeekSchema.optional()
+});
+
+export type GetJadwalPelajaranInput = z.infer<typeof getJadwalPelajaranInputSchema>;
+
+// Siswa of the slot's kelas with their record for that lesson on the given day, if any
+export const getAbsensiPelajaranInputSchema = z.object({
+  jadwal_pelajaran_id: z.number(),
+  tanggal: z.coerce.date()
+});
+
+export type GetAbsensiPelajaranInput = z.infer<typeof getAbsensiPelajaranInputSchema>;
+
+// Perangkat (card reader) schema; the API secret hash never leaves the server
+export const perangkatSchema = z.object({
+  id: z.number(),
+  kode: z.string(),
+  nama: z.string(),
+  lokasi: z.string(),
+  aktif: z.boolean(),
+  last_seen_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Perangkat = z.infer<typeof perangkatSchema>;
+
+// The API secret is returned only when it is created or rotated
+export const perangkatWithSecretSchema = z.object({
+  perangkat: perangkatSchema,
+  secret: z.string()
+});
+
+export type PerangkatWithSecret = z.infer<typeof perangkatWithSecretSchema>;
+
+export const createPerangkatInputSchema = z.object({
+  kode: z.string().min(1),
+  nama: z.string().min(1),
+  lokasi: z.string().min(1)
+});
+
+export type CreatePerangkatInput = z.infer<typeof createPerangkatInputSchema>;
+
+export const updatePerangkatInputSchema = z.object({
+  id: z.number(),
+  nama: z.string().min(1).optional(),
+  lokasi: z.string().min(1).optional(),
+  aktif: z.boolean().optional()
+});
+
+export type UpdatePerangkatInput = z.infer<typeof updatePerangkatInputSchema>;
+
+// Readers report UIDs as "04:A1:B2:C3", "04-a1-b2-c3" or "04A1B2C3"; stored as uppercase hex
+export const cardUidSchema = z.string()
+  .transform(uid => uid.replace(/[\s:-]/g, '').toUpperCase())
+  .pipe(z.string().regex(/^[0-9A-F]{8,20}$/, 'Card UID must be 4 to 10 bytes of hex'));
+
+// Kartu RFID schema
+export const kartuRfidSchema = z.object({
+  id: z.number(),
+  uid: z.string(),
+  siswa_id: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type KartuRfid = z.infer<typeof kartuRfidSchema>;
+
+// Card with the siswa it belongs to, as the admin list shows it
+export const kartuRfidDetailSchema = kartuRfidSchema.extend({
+  nama_siswa: z.string(),
+  nisn: z.string()
+});
+
+export type KartuRfidDetail = z.infer<typeof kartuRfidDetailSchema>;
+
+export const createKartuRfidInputSchema = z.object({
+  uid: cardUidSchema,
+  siswa_id: z.number()
+});
+
+export type CreateKartuRfidInput = z.infer<typeof createKartuRfidInputSchema>;
+
+export const getKartuRfidInputSchema = z.object({
+  siswa_id: z.number().optional()
+});
+
+export type GetKartuRfidInput = z.infer<typeof getKartuRfidInputSchema>;
+
+// A card tapped on a reader; the reader itself is identified by its headers
+export const tapKartuInputSchema = z.object({
+  uid: cardUidSchema
+});
+
+export type TapKartuInput = z.infer<typeof tapKartuInputSchema>;
+
+export const hasilTapKartuEnum = z.enum([
+  'masuk', // Checked in
+  'pulang', // Checked out
+  'diabaikan', // Same card again right after the previous tap
+  'ditolak' // Unknown card, or the check-in itself was refused
+]);
+
+export type HasilTapKartu = z.infer<typeof hasilTapKartuEnum>;
+
+// What the reader displays after a tap
+export const tapKartuResultSchema = z.object({
+  hasil: hasilTapKartuEnum,
+  nama_siswa: z.string().nullable(), // Null for unknown cards
+  absensi: absensiSchema.nullable(),
+  pesan: z.string()
+});
+
+export type TapKartuResult = z.infer<typeof tapKartuResultSchema>;
@@ -6,6 +6,7 @@ import { usersTable, siswaTable, guruTable, kelasTable, absensiTable } from '../
 import { 
     type CreateAbsensiInput, 
     type UpdateAbsensiInput,
+    type SubmitKelasAbsensiInput,
     type AbsenMasukInput,
     type AbsenPulangInput,
     type GetAbsensiHistoryInput 
@@ -13,6 +14,7 @@ import {
 import { 
     createAbsensi, 
     updateAbsensi, 
+    submitKelasAbsensi,
     absenMasuk, 
     absenPulang,
     getAbsensiHistory,
@@ -20,7 +22,12 @@ import {
     getAbsensiStats,
     deleteAbsensi
 } from '../handlers/absensi';
+import { signQrToken } from '../utils/qr_token';
+import { CheckInError } from '../utils/check_in_error';
+import { updateGeofence, updateSchoolHours, updateSchoolTimezone, updateWeekend } from '../handlers/settings';
+import { createKalenderAkademik } from '../handlers/kalender_akademik';
 import { eq } from 'drizzle-orm';
+import { serverTimezone, toDateKey, toTimeOfDay } from '../utils/school_date';
 
 // Custom DB setup that only creates tables we need (avoiding problematic pengajuan_izin table)
 const createLimitedDB = async () => {
@@ -30,7 +37,7 @@ const createLimitedDB = async () => {
 
   // Create enums first
   await db.execute(sql`CREATE TYPE "role" AS ENUM('admin', 'guru', 'siswa')`);
-  await db.execute(sql`CREATE TYPE "attendance_status" AS ENUM('hadir', 'izin', 'sakit', 'alpha')`);
+  await db.execute(sql`CREATE TYPE "attendance_status" AS ENUM('hadir', 'terlambat', 'izin', 'sakit', 'alpha')`);
 
   // Create tables in dependency order
   await db.execute(sql`
@@ -41,6 +48,7 @@ const createLimitedDB = async () => {
       "nisn" text,
       "password_hash" text NOT NULL,
       "role" "role" NOT NULL,
+      "must_change_password" boolean DEFAULT false NOT NULL,
       "created_at" timestamp DEFAULT now() NOT NULL,
       "updated_at" timestamp DEFAULT now() NOT NULL
     )
@@ -91,9 +99,47 @@ const createLimitedDB = async () => {
       "kelas_id" integer NOT NULL,
       "status" "attendance_status" NOT NULL,
       "tanggal" timestamp NOT NULL,
+      "tanggal_hari" date NOT NULL,
       "waktu_masuk" text,
       "waktu_pulang" text,
       "keterangan" text,
+      "menit_terlambat" integer,
+      "pulang_awal" boolean DEFAULT false NOT NULL,
+      "jadwal_pelajaran_id" integer,
+      "latitude_masuk" double precision,
+      "longitude_masuk" double precision,
+      "accuracy_masuk" double precision,
+      "latitude_pulang" double precision,
+      "longitude_pulang" double precision,
+      "accuracy_pulang" double precision,
+      "foto_masuk" text,
+      "created_at" timestamp DEFAULT now() NOT NULL,
+      "updated_at" timestamp DEFAULT now() NOT NULL
+    )
+  `);
+  await db.execute(sql`CREATE UNIQUE INDEX "absensi_siswa_id_tanggal_hari_unique" ON "absensi" ("siswa_id", "tanggal_hari") WHERE "jadwal_pelajaran_id" IS NULL`);
+  await db.execute(sql`CREATE UNIQUE INDEX "absensi_siswa_id_jadwal_pelajaran_id_tanggal_hari_unique" ON "absensi" ("siswa_id", "jadwal_pelajaran_id", "tanggal_hari")`);
+
+  await db.execute(sql`
+    CREATE TABLE "settings" (
+      "key" text PRIMARY KEY NOT NULL,
+      "value" jsonb NOT NULL,
+      "updated_by" integer,
+      "updated_at" timestamp DEFAULT now() NOT NULL
+    )
+  `);
+
+  await db.execute(sql`CREATE TYPE "jenis_kalender" AS ENUM('libur_nasional', 'libur_sekolah', 'acara_sekolah', 'hari_masuk_pengganti')`);
+  await db.execute(sql`
+    CREATE TABLE "kalender_akademik" (
+      "id" serial PRIMARY KEY NOT NULL,
+      "tanggal_mulai" timestamp NOT NULL,
+      "tanggal_selesai" timestamp NOT NULL,
+      "jenis" "jenis_kalender" NOT NULL,
+      "keterangan" text NOT NULL,
+      "hari_sekolah" boolean NOT NULL,
+      "kelas_id" integer,
+      "created_by" integer,
       "created_at" timestamp DEFAULT now() NOT NULL,
       "updated_at" timestamp DEFAULT now() NOT NULL
     )
@@ -254,6 +300,39 @@ describe('Absensi Handlers', () => {
             expect(saved[0].status).toBe('hadir');
         });
 
+        it('should update the record of the day instead of adding a second one', async () => {
+            const first = await createAbsensi({
+                siswa_id: testSiswaId,
+                guru_id: null,
+                kelas_id: testKelasId,
+                status: 'hadir',
+                tanggal: new Date(2024, 0, 15, 7, 30),
+                waktu_masuk: '07:30:00',
+                waktu_pulang: null,
+                keterangan: null
+            });
+
+            const second = await createAbsensi({
+                siswa_id: testSiswaId,
+                guru_id: testGuruId,
+                kelas_id: testKelasId,
+                status: 'sakit',
+                tanggal: new Date(2024, 0, 15, 10, 0),
+                waktu_masuk: null,
+                waktu_pulang: null,
+                keterangan: 'Pulang karena demam'
+            });
+
+            expect(second.id).toBe(first.id);
+            expect(second.status).toBe('sakit');
+            expect(second.guru_id).toBe(testGuruId);
+            expect(second.waktu_masuk).toBe('07:30:00');
+            expect(second.keterangan).toBe('Pulang karena demam');
+
+            const saved = await db.select().from(absensiTable).execute();
+            expect(saved).toHaveLength(1);
+        });
+
         it('should throw error for invalid siswa_id', async () => {
             const testInput: CreateAbsensiInput = {
                 siswa_id: 99999,
@@ -281,6 +360,7 @@ describe('Absensi Handlers', () => {
                     kelas_id: testKelasId,
                     status: 'alpha',
                     tanggal: new Date('2024-01-15'),
+                    tanggal_hari: '2024-01-15',
                     waktu_masuk: null,
                     waktu_pulang: null,
                     keterangan: null
@@ -346,10 +426,118 @@ describe('Absensi Handlers', () => {
         });
     });
 
+    describe('submitKelasAbsensi', () => {
+        let otherSiswaId: number;
+        let outsiderSiswaId: number;
+
+        beforeEach(async () => {
+            const users = await db.insert(usersTable)
+                .values([
+                    { nisn: '1234567891', password_hash: 'hash', role: 'siswa' },
+                    { nisn: '1234567892', password_hash: 'hash', role: 'siswa' }
+                ])
+                .returning()
+                .execute();
+
+            const otherKelas = await db.insert(kelasTable)
+                .values({ nama_kelas: '12 IPA 2', wali_kelas_id: testGuruId })
+                .returning()
+                .execute();
+
+            const siswa = await db.insert(siswaTable)
+                .values([
+                    { user_id: users[0].id, nisn: '1234567891', nama: 'Siswa Dua', kelas_id: testKelasId },
+                    { user_id: users[1].id, nisn: '1234567892', nama: 'Siswa Luar', kelas_id: otherKelas[0].id }
+                ])
+                .returning()
+                .execute();
+            otherSiswaId = siswa[0].id;
+            outsiderSiswaId = siswa[1].id;
+        });
+
+        const sheet = (entries: SubmitKelasAbsensiInput['entries']): SubmitKelasAbsensiInput => ({
+            kelas_id: testKelasId,
+            guru_id: testGuruId,
+            tanggal: new Date(2024, 0, 15, 8, 0),
+            entries
+        });
+
+        it('should create a daily record for every siswa', async () => {
+            const results = await submitKelasAbsensi(sheet([
+                { siswa_id: testSiswaId, status: 'hadir', keterangan: null },
+                { siswa_id: otherSiswaId, status: 'sakit', keterangan: 'Demam' }
+            ]));
+
+            expect(results.map(result => result.hasil)).toEqual(['dibuat', 'dibuat']);
+            expect(results[1].absensi?.status).toBe('sakit');
+            expect(results[1].absensi?.keterangan).toBe('Demam');
+            expect(results[1].absensi?.guru_id).toBe(testGuruId);
+
+            const saved = await db.select().from(absensiTable).execute();
+            expect(saved).toHaveLength(2);
+        });
+
+        it('should update the record a siswa already has that day', async () => {
+            const existing = await db.insert(absensiTable)
+                .values({
+                    siswa_id: testSiswaId,
+                    guru_id: null,
+                    kelas_id: testKelasId,
+                    status: 'terlambat',
+                    tanggal: new Date(2024, 0, 15, 7, 20), tanggal_hari: '2024-01-15',
+                    waktu_masuk: '07:20:00',
+                    menit_terlambat: 20
+                })
+                .returning()
+                .execute();
+
+            const results = await submitKelasAbsensi(sheet([
+                { siswa_id: testSiswaId, status: 'hadir', keterangan: 'Dispensasi' },
+                { siswa_id: otherSiswaId, status: 'hadir', keterangan: null }
+            ]));
+
+            expect(results[0].hasil).toBe('diperbarui');
+            expect(results[0].absensi?.id).toBe(existing[0].id);
+            expect(results[0].absensi?.status).toBe('hadir');
+            expect(results[0].absensi?.waktu_masuk).toBe('07:20:00');
+            expect(results[0].absensi?.menit_terlambat).toBe(null);
+            expect(results[1].hasil).toBe('dibuat');
+
+            const saved = await db.select().from(absensiTable).execute();
+            expect(saved).toHaveLength(2);
+        });
+
+        it('should reject siswa outside the kelas and keep the rest', async () => {
+            const results = await submitKelasAbsensi(sheet([
+                { siswa_id: testSiswaId, status: 'hadir', keterangan: null },
+                { siswa_id: outsiderSiswaId, status: 'hadir', keterangan: null }
+            ]));
+
+            expect(results[0].hasil).toBe('dibuat');
+            expect(results[1]).toEqual({
+                siswa_id: outsiderSiswaId,
+                hasil: 'ditolak',
+                absensi: null,
+                alasan: 'Siswa is not in the kelas'
+            });
+
+            const saved = await db.select().from(absensiTable).execute();
+            expect(saved.map(row => row.siswa_id)).toEqual([testSiswaId]);
+        });
+
+        it('should throw error for non-existent kelas', async () => {
+            await expect(submitKelasAbsensi({
+                ...sheet([{ siswa_id: testSiswaId, status: 'hadir', keterangan: null }]),
+                kelas_id: 99999
+            })).rejects.toThrow(/kelas not found/i);
+        });
+    });
+
     describe('absenMasuk', () => {
         it('should create new absensi entry for today', async () => {
             const input: AbsenMasukInput = {
-                siswa_id: testSiswaId
+                siswa_id: testSiswaId,
+                qr_token: signQrToken({ kelas_id: testKelasId, lokasi: null }).token
             };
 
             const result = await absenMasuk(input);
@@ -362,16 +550,17 @@ describe('Absensi Handlers', () => {
             expect(result.waktu_pulang).toBe(null);
         });
 
-        it('should update existing absensi entry for today', async () => {
-            // Create existing absensi for today
+        it('should fill in the check-in of a record made earlier today', async () => {
+            // A guru marked the siswa hadir before they checked in
             const today = new Date();
-            await db.insert(absensiTable)
+            const existing = await db.insert(absensiTable)
                 .values({
                     siswa_id: testSiswaId,
                     guru_id: null,
                     kelas_id: testKelasId,
-                    status: 'alpha',
+                    status: 'hadir',
                     tanggal: today,
+                    tanggal_hari: toDateKey(today, serverTimezone()),
                     waktu_masuk: null,
                     waktu_pulang: null,
                     keterangan: null
@@ -380,23 +569,298 @@ describe('Absensi Handlers', () => {
                 .execute();
 
             const input: AbsenMasukInput = {
-                siswa_id: testSiswaId
+                siswa_id: testSiswaId,
+                qr_token: signQrToken({ kelas_id: testKelasId, lokasi: null }).token
             };
 
             const result = await absenMasuk(input);
 
+            expect(result.id).toBe(existing[0].id);
             expect(result.status).toBe('hadir');
-            expect(result.waktu_masuk).toBeDefined();
             expect(result.waktu_masuk).toMatch(/^\d{2}:\d{2}:\d{2}$/);
         });
 
+        it('should refuse a second check-in on the same day', async () => {
+            const input: AbsenMasukInput = {
+                siswa_id: testSiswaId,
+                qr_token: signQrToken({ kelas_id: testKelasId, lokasi: null }).token
+            };
+            const first = await absenMasuk(input);
+
+            const error = await absenMasuk(input).catch(e => e);
+
+            expect(error).toBeInstanceOf(CheckInError);
+            expect(error.code).toBe('ALREADY_CHECKED_IN');
+            const records = await db.select().from(absensiTable).execute();
+            expect(records).toHaveLength(1);
+            expect(records[0].waktu_masuk).toBe(first.waktu_masuk);
+        });
+
+        it('should refuse to check in over an izin, sakit or alpha record', async () => {
+            const today = new Date();
+            await db.insert(absensiTable)
+                .values({
+                    siswa_id: testSiswaId,
+                    guru_id: null,
+                    kelas_id: testKelasId,
+                    status: 'sakit',
+                    tanggal: today,
+                    tanggal_hari: toDateKey(today, serverTimezone()),
+                    keterangan: 'Demam'
+                })
+                .execute();
+
+            const error = await absenMasuk({
+                siswa_id: testSiswaId,
+                qr_token: signQrToken({ kelas_id: testKelasId, lokasi: null }).token
+            }).catch(e => e);
+
+            expect(error).toBeInstanceOf(CheckInError);
+            expect(error.code).toBe('ABSENCE_RECORDED');
+            const records = await db.select().from(absensiTable).execute();
+            expect(records[0].status).toBe('sakit');
+            expect(records[0].keterangan).toBe('Demam');
+            expect(records[0].waktu_masuk).toBeNull();
+        });
+
         it('should throw error for invalid siswa_id', async () => {
             const input: AbsenMasukInput = {
-                siswa_id: 99999
+                siswa_id: 99999,
+                qr_token: signQrToken({ kelas_id: testKelasId, lokasi: null }).token
             };
 
             await expect(absenMasuk(input)).rejects.toThrow(/siswa not found/i);
         });
+
+        it('should accept a location code shown at the gate', async () => {
+            const result = await absenMasuk({
+                siswa_id: testSiswaId,
+                qr_token: signQrToken({ kelas_id: null, lokasi: 'Gerbang Utama' }).token
+            });
+
+            expect(result.status).toBe('hadir');
+        });
+
+        it('should reject a code of another kelas', async () => {
+            const otherKelas = await db.insert(kelasTable)
+                .values({ nama_kelas: 'XII IPA 2', wali_kelas_id: testGuruId })
+                .returning()
+                .execute();
+
+            await expect(absenMasuk({
+                siswa_id: testSiswaId,
+                qr_token: signQrToken({ kelas_id: otherKelas[0].id, lokasi: null }).token
+            })).rejects.toThrow(/another kelas/i);
+        });
+
+        it('should reject expired and tampered codes', async () => {
+            const expired = signQrToken({ kelas_id: testKelasId, lokasi: null }, new Date(Date.now() - 60 * 60 * 1000));
+            await expect(absenMasuk({ siswa_id: testSiswaId, qr_token: expired.token }))
+                .rejects.toThrow(/expired/i);
+
+            const [data, signature] = signQrToken({ kelas_id: testKelasId, lokasi: null }).token.split('.');
+            const forged = Buffer.from(JSON.stringify({
+                ...JSON.parse(Buffer.from(data, 'base64url').toString()),
+                kelas_id: null
+            })).toString('base64url');
+            await expect(absenMasuk({ siswa_id: testSiswaId, qr_token: `${forged}.${signature}` }))
+                .rejects.toThrow(/invalid/i);
+
+            const rows = await db.select().from(absensiTable).execute();
+            expect(rows).toHaveLength(0);
+        });
+
+        it('should require a QR token or a location', async () => {
+            await expect(absenMasuk({ siswa_id: testSiswaId }))
+                .rejects.toMatchObject({ code: 'PROOF_REQUIRED' });
+        });
+
+        it('should refuse check-ins on the weekend', async () => {
+            await updateWeekend({ days: [new Date().getDay()] }, null);
+
+            await expect(absenMasuk({
+                siswa_id: testSiswaId,
+                qr_token: signQrToken({ kelas_id: testKelasId, lokasi: null }).token
+            })).rejects.toMatchObject({ code: 'NOT_SCHOOL_DAY' });
+        });
+
+        it('should refuse check-ins while the kelas is away and accept them on make-up days', async () => {
+            const today = new Date();
+            await updateWeekend({ days: [today.getDay()] }, null);
+            await createKalenderAkademik({
+                tanggal_mulai: today,
+                tanggal_selesai: today,
+                jenis: 'hari_masuk_pengganti',
+                keterangan: 'Masuk pengganti',
+                hari_sekolah: true,
+                kelas_id: null
+            }, null);
+
+            const result = await absenMasuk({
+                siswa_id: testSiswaId,
+                qr_token: signQrToken({ kelas_id: testKelasId, lokasi: null }).token
+            });
+            expect(result.status).toBe('hadir');
+
+            await createKalenderAkademik({
+                tanggal_mulai: today,
+                tanggal_selesai: today,
+                jenis: 'acara_sekolah',
+                keterangan: 'Study tour',
+                hari_sekolah: false,
+                kelas_id: testKelasId
+            }, null);
+
+            await expect(absenMasuk({
+                siswa_id: testSiswaId,
+                qr_token: signQrToken({ kelas_id: testKelasId, lokasi: null }).token
+            })).rejects.toMatchObject({ code: 'NOT_SCHOOL_DAY' });
+        });
+    });
+
+    describe('absenMasuk with location', () => {
+        const school = { latitude: -6.2, longitude: 106.8 };
+
+        beforeEach(async () => {
+            await updateGeofence({
+                enabled: true,
+                max_accuracy_meters: 50,
+                area: { type: 'radius', center: school, radius_meters: 200 }
+            }, null);
+        });
+
+        it('should accept and store a location inside the school area', async () => {
+            const result = await absenMasuk({
+                siswa_id: testSiswaId,
+                location: { latitude: -6.2005, longitude: 106.8, accuracy: 10 }
+            });
+
+            expect(result.status).toBe('hadir');
+            expect(result.latitude_masuk).toBeCloseTo(-6.2005);
+            expect(result.longitude_masuk).toBeCloseTo(106.8);
+            expect(result.accuracy_masuk).toBe(10);
+        });
+
+        it('should reject a location outside the school area', async () => {
+            await expect(absenMasuk({
+                siswa_id: testSiswaId,
+                location: { latitude: -6.21, longitude: 106.8, accuracy: 10 }
+            })).rejects.toMatchObject({ code: 'OUTSIDE_GEOFENCE' });
+        });
+
+        it('should reject an inaccurate location', async () => {
+            await expect(absenMasuk({
+                siswa_id: testSiswaId,
+                location: { ...school, accuracy: 500 }
+            })).rejects.toMatchObject({ code: 'LOCATION_INACCURATE' });
+        });
+
+        it('should reject locations while the geofence is disabled', async () => {
+            await updateGeofence({
+                enabled: false,
+                max_accuracy_meters: 50,
+                area: { type: 'radius', center: school, radius_meters: 200 }
+            }, null);
+
+            await expect(absenMasuk({
+                siswa_id: testSiswaId,
+                location: { ...school, accuracy: 10 }
+            })).rejects.toMatchObject({ code: 'GEOFENCE_NOT_CONFIGURED' });
+        });
+    });
+
+    describe('school hours', () => {
+        const qrToken = () => signQrToken({ kelas_id: testKelasId, lokasi: null }).token;
+
+        // Official hours spanning the whole of today, so any check-in is late and any check-out early
+        const wholeDay = (grace_minutes: number) => updateSchoolHours({
+            grace_minutes,
+            days: [{ day_of_week: new Date().getDay(), jam_masuk: '00:00', jam_pulang: '23:59' }]
+        }, null);
+
+        it('should mark a check-in after the grace period as terlambat', async () => {
+            await wholeDay(0);
+
+            const result = await absenMasuk({ siswa_id: testSiswaId, qr_token: qrToken() });
+
+            const now = new Date();
+            expect(result.status).toBe('terlambat');
+            expect(result.menit_terlambat).toBe(now.getHours() * 60 + now.getMinutes());
+        });
+
+        it('should keep a check-in within the grace period hadir', async () => {
+            await wholeDay(24 * 60);
+
+            const result = await absenMasuk({ siswa_id: testSiswaId, qr_token: qrToken() });
+
+            expect(result.status).toBe('hadir');
+            expect(result.menit_terlambat).toBeNull();
+        });
+
+        it('should not track lateness on days without official hours', async () => {
+            await updateSchoolHours({
+                grace_minutes: 0,
+                days: [{ day_of_week: (new Date().getDay() + 1) % 7, jam_masuk: '00:00', jam_pulang: '23:59' }]
+            }, null);
+
+            const masuk = await absenMasuk({ siswa_id: testSiswaId, qr_token: qrToken() });
+            const pulang = await absenPulang({ siswa_id: testSiswaId, qr_token: qrToken() });
+
+            expect(masuk.status).toBe('hadir');
+            expect(pulang.pulang_awal).toBe(false);
+        });
+
+        it('should flag a check-out before jam_pulang as early leave', async () => {
+            await wholeDay(0);
+            await absenMasuk({ siswa_id: testSiswaId, qr_token: qrToken() });
+
+            const result = await absenPulang({ siswa_id: testSiswaId, qr_token: qrToken() });
+
+            expect(result.pulang_awal).toBe(true);
+        });
+
+        it('should clear the minutes late when a guru corrects the status', async () => {
+            await wholeDay(0);
+            const masuk = await absenMasuk({ siswa_id: testSiswaId, qr_token: qrToken() });
+
+            const result = await updateAbsensi({ id: masuk.id, status: 'hadir' });
+
+            expect(result.menit_terlambat).toBeNull();
+        });
+    });
+
+    describe('school timezone', () => {
+        const qrToken = () => signQrToken({ kelas_id: testKelasId, lokasi: null }).token;
+
+        it('should record the check-in on the day and clock of the school timezone', async () => {
+            await updateSchoolTimezone({ timezone: 'Asia/Jayapura' }, null);
+
+            const before = toTimeOfDay(new Date(), 'Asia/Jayapura');
+            const result = await absenMasuk({ siswa_id: testSiswaId, qr_token: qrToken() });
+            const after = toTimeOfDay(new Date(), 'Asia/Jayapura');
+
+            expect(result.tanggal_hari).toEqual(toDateKey(new Date(), 'Asia/Jayapura'));
+            expect(result.waktu_masuk! >= before && result.waktu_masuk! <= after).toBe(true);
+
+            const today = await getTodayAbsensi(testSiswaId);
+            expect(today.map(record => record.id)).toEqual([result.id]);
+        });
+
+        it('should only count records of the current school day as today', async () => {
+            await updateSchoolTimezone({ timezone: 'Asia/Jayapura' }, null);
+            const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+            await db.insert(absensiTable)
+                .values({
+                    siswa_id: testSiswaId,
+                    kelas_id: testKelasId,
+                    status: 'hadir',
+                    tanggal: yesterday,
+                    tanggal_hari: toDateKey(yesterday, 'Asia/Jayapura')
+                })
+                .execute();
+
+            expect(await getTodayAbsensi(testSiswaId)).toEqual([]);
+        });
     });
 
     describe('absenPulang', () => {
@@ -410,6 +874,7 @@ describe('Absensi Handlers', () => {
                     kelas_id: testKelasId,
                     status: 'hadir',
                     tanggal: today,
+                    tanggal_hari: toDateKey(today, serverTimezone()),
                     waktu_masuk: '07:30:00',
                     waktu_pulang: null,
                     keterangan: null
@@ -420,7 +885,8 @@ describe('Absensi Handlers', () => {
 
         it('should update existing absensi with waktu pulang', async () => {
             const input: AbsenPulangInput = {
-                siswa_id: testSiswaId
+                siswa_id: testSiswaId,
+                qr_token: signQrToken({ kelas_id: testKelasId, lokasi: null }).token
             };
 
             const result = await absenPulang(input);
@@ -431,6 +897,31 @@ describe('Absensi Handlers', () => {
             expect(result.waktu_pulang).toMatch(/^\d{2}:\d{2}:\d{2}$/);
         });
 
+        it('should store the location of a check-out inside a polygon geofence', async () => {
+            await updateGeofence({
+                enabled: true,
+                max_accuracy_meters: 50,
+                area: {
+                    type: 'polygon',
+                    points: [
+                        { latitude: -6.199, longitude: 106.799 },
+                        { latitude: -6.199, longitude: 106.801 },
+                        { latitude: -6.201, longitude: 106.801 },
+                        { latitude: -6.201, longitude: 106.799 }
+                    ]
+                }
+            }, null);
+
+            const result = await absenPulang({
+                siswa_id: testSiswaId,
+                location: { latitude: -6.2, longitude: 106.8, accuracy: 5 }
+            });
+
+            expect(result.latitude_pulang).toBeCloseTo(-6.2);
+            expect(result.accuracy_pulang).toBe(5);
+            expect(result.latitude_masuk).toBeNull();
+        });
+
         it('should throw error if no absensi masuk found', async () => {
             // Create another siswa without absensi masuk
             const userResult2 = await db.insert(usersTable)
@@ -453,7 +944,8 @@ describe('Absensi Handlers', () => {
                 .execute();
 
             const input: AbsenPulangInput = {
-                siswa_id: siswaResult2[0].id
+                siswa_id: siswaResult2[0].id,
+                qr_token: signQrToken({ kelas_id: testKelasId, lokasi: null }).token
             };
 
             await expect(absenPulang(input)).rejects.toThrow(/no absensi entry found for today/i);
@@ -477,6 +969,7 @@ describe('Absensi Handlers', () => {
                         kelas_id: testKelasId,
                         status: 'hadir',
                         tanggal: date,
+                        tanggal_hari: toDateKey(date, serverTimezone()),
                         waktu_masuk: '07:30:00',
                         waktu_pulang: '15:00:00',
                         keterangan: null
@@ -533,6 +1026,30 @@ describe('Absensi Handlers', () => {
             });
         });
 
+        it('should include the whole school day at the end of the range', async () => {
+            await updateSchoolTimezone({ timezone: 'Asia/Jakarta' }, null);
+            // Late afternoon in Jakarta is still the same school day
+            await db.insert(absensiTable)
+                .values({
+                    siswa_id: testSiswaId,
+                    guru_id: null,
+                    kelas_id: testKelasId,
+                    status: 'terlambat',
+                    tanggal: new Date('2024-01-13T09:00:00Z'),
+                    tanggal_hari: '2024-01-13'
+                })
+                .execute();
+
+            const results = await getAbsensiHistory({
+                start_date: new Date('2024-01-13T00:00:00+07:00'),
+                end_date: new Date('2024-01-13T00:00:00+07:00'),
+                limit: 50,
+                offset: 0
+            });
+
+            expect(results.map(absensi => absensi.tanggal_hari)).toEqual(['2024-01-13']);
+        });
+
         it('should respect pagination', async () => {
             const input: GetAbsensiHistoryInput = {
                 limit: 2,
@@ -559,6 +1076,7 @@ describe('Absensi Handlers', () => {
                     kelas_id: testKelasId,
                     status: 'hadir',
                     tanggal: today,
+                    tanggal_hari: toDateKey(today, serverTimezone()),
                     waktu_masuk: '07:30:00',
                     waktu_pulang: null,
                     keterangan: null
@@ -573,6 +1091,7 @@ describe('Absensi Handlers', () => {
                     kelas_id: testKelasId,
                     status: 'hadir',
                     tanggal: yesterday,
+                    tanggal_hari: toDateKey(yesterday, serverTimezone()),
                     waktu_masuk: '07:30:00',
                     waktu_pulang: '15:00:00',
                     keterangan: null
@@ -627,6 +1146,7 @@ describe('Absensi Handlers', () => {
                         kelas_id: testKelasId,
                         status: statuses[i],
                         tanggal: date,
+                        tanggal_hari: toDateKey(date, serverTimezone()),
                         waktu_masuk: statuses[i] === 'hadir' ? '07:30:00' : null,
                         waktu_pulang: statuses[i] === 'hadir' ? '15:00:00' : null,
                         keterangan: null
@@ -665,6 +1185,43 @@ describe('Absensi Handlers', () => {
             // Should include all 4 entries we created (hadir, izin, sakit, alpha)
             expect(stats.hadir + stats.izin + stats.sakit + stats.alpha).toBe(4);
         });
+
+        it('should count late arrivals and early leaves', async () => {
+            // The day before the oldest record of the beforeEach
+            const tanggal = new Date();
+            tanggal.setDate(tanggal.getDate() - 4);
+
+            await db.insert(absensiTable)
+                .values({
+                    siswa_id: testSiswaId,
+                    guru_id: null,
+                    kelas_id: testKelasId,
+                    status: 'terlambat',
+                    tanggal,
+                    tanggal_hari: toDateKey(tanggal, serverTimezone()),
+                    waktu_masuk: '07:20:00',
+                    waktu_pulang: '12:00:00',
+                    keterangan: null,
+                    menit_terlambat: 20,
+                    pulang_awal: true
+                })
+                .execute();
+
+            const stats = await getAbsensiStats(testKelasId);
+
+            expect(stats.terlambat).toBe(1);
+            expect(stats.pulang_awal).toBe(1);
+            expect(stats.hadir).toBe(1);
+        });
+
+        it('should report effective school days for a bounded period', async () => {
+            await updateWeekend({ days: [0, 6] }, null);
+
+            // 2024-08-12 is a Monday
+            const stats = await getAbsensiStats(testKelasId, new Date(2024, 7, 12), new Date(2024, 7, 25));
+            expect(stats.hari_efektif).toBe(10);
+            expect((await getAbsensiStats(testKelasId)).hari_efektif).toBeNull();
+        });
     });
 
     describe('deleteAbsensi', () => {
@@ -678,6 +1235,7 @@ describe('Absensi Handlers', () => {
                     kelas_id: testKelasId,
                     status: 'hadir',
                     tanggal: new Date(),
+                    tanggal_hari: toDateKey(new Date(), serverTimezone()),
                     waktu_masuk: '07:30:00',
                     waktu_pulang: '15:00:00',
                     keterangan: null
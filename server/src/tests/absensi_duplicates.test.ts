@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB } from '../helpers';
+import { backfillTanggalHari, mergeDuplicateAbsensi } from '../helpers/absensi_duplicates';
+import { updateSchoolTimezone } from '../handlers/settings';
+import { db } from '../db';
+import {
+  usersTable,
+  guruTable,
+  kelasTable,
+  siswaTable,
+  mataPelajaranTable,
+  jadwalPelajaranTable,
+  absensiTable,
+  settingsTable,
+  roleEnum,
+  attendanceStatusEnum
+} from '../db/schema';
+import { asc, sql } from 'drizzle-orm';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+
+// The absensi table as it was before the one-record-per-day indexes
+const createDB = async () => {
+  const limitedSchema = {
+    roleEnum,
+    attendanceStatusEnum,
+    usersTable,
+    guruTable,
+    kelasTable,
+    siswaTable,
+    mataPelajaranTable,
+    jadwalPelajaranTable,
+    absensiTable,
+    settingsTable
+  };
+
+  const migrationStatements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson({ ...limitedSchema })
+  );
+  await db.execute(migrationStatements.join('\n'));
+
+  await db.execute(sql`DROP INDEX "absensi_siswa_id_tanggal_hari_unique"`);
+  await db.execute(sql`DROP INDEX "absensi_siswa_id_jadwal_pelajaran_id_tanggal_hari_unique"`);
+};
+
+const absensiRows = () => db.select()
+  .from(absensiTable)
+  .orderBy(asc(absensiTable.id))
+  .execute();
+
+describe('mergeDuplicateAbsensi', () => {
+  let siswaIds: number[];
+  let kelasId: number;
+  let jadwalId: number;
+
+  beforeEach(async () => {
+    await resetDB();
+    await createDB();
+
+    const [guruUser, ...siswaUsers] = await db.insert(usersTable)
+      .values([
+        { nip: '111', password_hash: 'hash', role: 'guru' },
+        { nisn: '001', password_hash: 'hash', role: 'siswa' },
+        { nisn: '002', password_hash: 'hash', role: 'siswa' }
+      ])
+      .returning()
+      .execute();
+
+    const [guru] = await db.insert(guruTable)
+      .values({ user_id: guruUser.id, nip: '111', nama: 'Guru Satu' })
+      .returning()
+      .execute();
+
+    const [kelas] = await db.insert(kelasTable)
+      .values({ nama_kelas: 'X-1', wali_kelas_id: guru.id })
+      .returning()
+      .execute();
+    kelasId = kelas.id;
+
+    const siswa = await db.insert(siswaTable)
+      .values(siswaUsers.map((user, i) => ({ user_id: user.id, nisn: user.nisn!, nama: `Siswa ${i + 1}`, kelas_id: kelas.id })))
+      .returning()
+      .execute();
+    siswaIds = siswa.map(s => s.id);
+
+    const [mapel] = await db.insert(mataPelajaranTable)
+      .values({ kode: 'MTK', nama: 'Matematika' })
+      .returning()
+      .execute();
+
+    const [jadwal] = await db.insert(jadwalPelajaranTable)
+      .values({ kelas_id: kelas.id, mata_pelajaran_id: mapel.id, guru_id: guru.id, hari: 1, jam_mulai: '07:00', jam_selesai: '08:30' })
+      .returning()
+      .execute();
+    jadwalId = jadwal.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should keep the latest record of a day and complete it from the others', async () => {
+    const [checkIn] = await db.insert(absensiTable)
+      .values({
+        siswa_id: siswaIds[0],
+        kelas_id: kelasId,
+        status: 'terlambat',
+        tanggal: new Date(2024, 7, 12, 7, 20), tanggal_hari: '2024-08-12',
+        waktu_masuk: '07:20:00',
+        menit_terlambat: 20,
+        latitude_masuk: -6.2,
+        updated_at: new Date(2024, 7, 12, 7, 20)
+      })
+      .returning()
+      .execute();
+    const [approval] = await db.insert(absensiTable)
+      .values({
+        siswa_id: siswaIds[0],
+        kelas_id: kelasId,
+        status: 'sakit',
+        tanggal: new Date(2024, 7, 12, 0, 0), tanggal_hari: '2024-08-12',
+        keterangan: 'Approved: Demam',
+        updated_at: new Date(2024, 7, 12, 10, 0)
+      })
+      .returning()
+      .execute();
+    // Another day and another siswa are not duplicates
+    await db.insert(absensiTable)
+      .values([
+        { siswa_id: siswaIds[0], kelas_id: kelasId, status: 'hadir', tanggal: new Date(2024, 7, 13, 7, 0), tanggal_hari: '2024-08-13' },
+        { siswa_id: siswaIds[1], kelas_id: kelasId, status: 'hadir', tanggal: new Date(2024, 7, 12, 7, 0), tanggal_hari: '2024-08-12' }
+      ])
+      .execute();
+
+    const report = await mergeDuplicateAbsensi();
+
+    expect(report).toEqual([{
+      siswa_id: siswaIds[0],
+      tanggal: '2024-08-12',
+      jadwal_pelajaran_id: null,
+      kept_id: approval.id,
+      removed_ids: [checkIn.id],
+      statuses: ['sakit', 'terlambat']
+    }]);
+
+    const rows = await absensiRows();
+    expect(rows).toHaveLength(3);
+
+    const kept = rows.find(row => row.id === approval.id)!;
+    expect(kept.status).toEqual('sakit');
+    expect(kept.keterangan).toEqual('Approved: Demam');
+    expect(kept.waktu_masuk).toEqual('07:20:00');
+    expect(kept.latitude_masuk).toEqual(-6.2);
+    expect(kept.menit_terlambat).toBeNull();
+  });
+
+  it('should merge lesson records separately from the daily record', async () => {
+    await db.insert(absensiTable)
+      .values([
+        { siswa_id: siswaIds[0], kelas_id: kelasId, status: 'hadir', tanggal: new Date(2024, 7, 12, 7, 5), tanggal_hari: '2024-08-12', jadwal_pelajaran_id: jadwalId, updated_at: new Date(2024, 7, 12, 7, 5) },
+        { siswa_id: siswaIds[0], kelas_id: kelasId, status: 'alpha', tanggal: new Date(2024, 7, 12, 7, 10), tanggal_hari: '2024-08-12', jadwal_pelajaran_id: jadwalId, updated_at: new Date(2024, 7, 12, 7, 10) },
+        { siswa_id: siswaIds[0], kelas_id: kelasId, status: 'hadir', tanggal: new Date(2024, 7, 12, 7, 0), tanggal_hari: '2024-08-12' }
+      ])
+      .execute();
+
+    const report = await mergeDuplicateAbsensi();
+
+    expect(report).toHaveLength(1);
+    expect(report[0].jadwal_pelajaran_id).toEqual(jadwalId);
+    expect(report[0].statuses).toEqual(['alpha', 'hadir']);
+    expect(await absensiRows()).toHaveLength(2);
+  });
+
+  it('should leave a table without duplicates ready for the unique indexes', async () => {
+    await db.insert(absensiTable)
+      .values([
+        { siswa_id: siswaIds[0], kelas_id: kelasId, status: 'hadir', tanggal: new Date(2024, 7, 12, 7, 0), tanggal_hari: '2024-08-12' },
+        { siswa_id: siswaIds[0], kelas_id: kelasId, status: 'alpha', tanggal: new Date(2024, 7, 12, 16, 0), tanggal_hari: '2024-08-12' }
+      ])
+      .execute();
+
+    expect(await mergeDuplicateAbsensi()).toHaveLength(1);
+    expect(await mergeDuplicateAbsensi()).toEqual([]);
+
+    await db.execute(sql`CREATE UNIQUE INDEX "absensi_siswa_id_tanggal_hari_unique" ON "absensi" ("siswa_id", "tanggal_hari") WHERE "jadwal_pelajaran_id" IS NULL`);
+  });
+});
+
+describe('backfillTanggalHari', () => {
+  beforeEach(async () => {
+    await resetDB();
+    await createDB();
+  });
+
+  afterEach(resetDB);
+
+  it('should recompute days generated from the UTC date in the school timezone', async () => {
+    await updateSchoolTimezone({ timezone: 'Asia/Jakarta' }, null);
+    await db.execute(sql`ALTER TABLE "absensi" DROP COLUMN "tanggal_hari"`);
+    await db.execute(sql`ALTER TABLE "absensi" ADD COLUMN "tanggal_hari" date GENERATED ALWAYS AS (("tanggal")::date) STORED NOT NULL`);
+
+    const [guruUser, user] = await db.insert(usersTable)
+      .values([
+        { nip: '111', password_hash: 'hash', role: 'guru' },
+        { nisn: '001', password_hash: 'hash', role: 'siswa' }
+      ])
+      .returning()
+      .execute();
+    const [guru] = await db.insert(guruTable)
+      .values({ user_id: guruUser.id, nip: '111', nama: 'Guru Satu' })
+      .returning()
+      .execute();
+    const [kelas] = await db.insert(kelasTable)
+      .values({ nama_kelas: 'X-1', wali_kelas_id: guru.id })
+      .returning()
+      .execute();
+    const [siswa] = await db.insert(siswaTable)
+      .values({ user_id: user.id, nisn: '001', nama: 'Siswa 1', kelas_id: kelas.id })
+      .returning()
+      .execute();
+    // 20:00 UTC is 03:00 the next morning in Jakarta
+    await db.execute(sql`
+      INSERT INTO "absensi" ("siswa_id", "kelas_id", "status", "tanggal")
+      VALUES (${siswa.id}, ${kelas.id}, 'hadir', '2024-08-12 20:00:00'), (${siswa.id}, ${kelas.id}, 'hadir', '2024-08-12 05:00:00')
+    `);
+
+    expect(await backfillTanggalHari()).toEqual(2);
+
+    const rows = await absensiRows();
+    expect(rows.map(row => row.tanggal_hari)).toEqual(['2024-08-13', '2024-08-12']);
+    // A second run finds nothing left to fill
+    expect(await backfillTanggalHari()).toEqual(0);
+  });
+});
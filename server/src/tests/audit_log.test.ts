@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  guruTable,
+  kelasTable,
+  siswaTable,
+  mataPelajaranTable,
+  jadwalPelajaranTable,
+  absensiTable,
+  auditLogTable,
+  settingsTable,
+  roleEnum,
+  attendanceStatusEnum
+} from '../db/schema';
+import { recordAuditLog, getAuditLogs } from '../handlers/audit_log';
+import { updateAbsensi, createAbsensi, submitKelasAbsensi } from '../handlers/absensi';
+import { deleteUser } from '../handlers/user';
+import { snapshotBeforeMutation, recordMutation } from '../audit';
+import { eq } from 'drizzle-orm';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { serverTimezone, toDateKey } from '../utils/school_date';
+
+// Only the tables needed for audit log tests
+const createDB = async () => {
+  const limitedSchema = {
+    roleEnum,
+    attendanceStatusEnum,
+    usersTable,
+    guruTable,
+    kelasTable,
+    siswaTable,
+    mataPelajaranTable,
+    jadwalPelajaranTable,
+    absensiTable,
+    auditLogTable,
+    settingsTable
+  };
+
+  const migrationStatements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson({ ...limitedSchema })
+  );
+  await db.execute(migrationStatements.join('\n'));
+};
+
+describe('audit log', () => {
+  let adminId: number;
+  let guruUserId: number;
+  let siswaId: number;
+  let kelasId: number;
+  let absensiId: number;
+
+  beforeEach(async () => {
+    await resetDB();
+    await createDB();
+
+    const [admin, guruUser, siswaUser] = await db.insert(usersTable)
+      .values([
+        { username: 'admin', password_hash: 'secret_hash', role: 'admin' },
+        { nip: '111', password_hash: 'secret_hash', role: 'guru' },
+        { nisn: '333', password_hash: 'secret_hash', role: 'siswa' }
+      ])
+      .returning()
+      .execute();
+    adminId = admin.id;
+    guruUserId = guruUser.id;
+
+    const [guru] = await db.insert(guruTable)
+      .values({ user_id: guruUser.id, nip: '111', nama: 'Guru Satu' })
+      .returning()
+      .execute();
+
+    const [kelas] = await db.insert(kelasTable)
+      .values({ nama_kelas: 'X-1', wali_kelas_id: guru.id })
+      .returning()
+      .execute();
+    kelasId = kelas.id;
+
+    const [siswa] = await db.insert(siswaTable)
+      .values({ user_id: siswaUser.id, nisn: '333', nama: 'Siswa Satu', kelas_id: kelas.id })
+      .returning()
+      .execute();
+    siswaId = siswa.id;
+
+    const [absensi] = await db.insert(absensiTable)
+      .values({ siswa_id: siswa.id, kelas_id: kelas.id, status: 'alpha', tanggal: new Date(), tanggal_hari: toDateKey(new Date(), serverTimezone()) })
+      .returning()
+      .execute();
+    absensiId = absensi.id;
+  });
+
+  afterEach(resetDB);
+
+  describe('recordMutation', () => {
+    it('should record before and after values of an update', async () => {
+      const input = { id: absensiId, status: 'hadir' as const };
+
+      const snapshot = await snapshotBeforeMutation('updateAbsensi', guruUserId, input);
+      const result = await updateAbsensi(input);
+      await recordMutation('updateAbsensi', guruUserId, input, result, snapshot);
+
+      const [log] = await getAuditLogs();
+      expect(log.actor_id).toEqual(guruUserId);
+      expect(log.procedure).toEqual('updateAbsensi');
+      expect(log.entity).toEqual('absensi');
+      expect(log.entity_id).toEqual(absensiId);
+      expect((log.before as { status: string }).status).toEqual('alpha');
+      expect((log.after as { status: string }).status).toEqual('hadir');
+    });
+
+    it('should take the entity id of a create from the result', async () => {
+      // A day without a record yet, so the upsert creates one
+      const yesterday = new Date();
+      yesterday.setDate(yesterday.getDate() - 1);
+      const input = { siswa_id: siswaId, kelas_id: kelasId, guru_id: null, status: 'hadir' as const, tanggal: yesterday, waktu_masuk: null, waktu_pulang: null, keterangan: null };
+
+      const snapshot = await snapshotBeforeMutation('createAbsensi', adminId, input);
+      const result = await createAbsensi(input);
+      await recordMutation('createAbsensi', adminId, input, result, snapshot);
+
+      const [log] = await getAuditLogs();
+      expect(log.entity_id).toEqual(result.id);
+      expect(log.before).toBeNull();
+      expect((log.after as { status: string }).status).toEqual('hadir');
+    });
+
+    it('should record the replaced row when a create overwrites an existing day', async () => {
+      const input = { siswa_id: siswaId, kelas_id: kelasId, guru_id: null, status: 'hadir' as const, tanggal: new Date(), waktu_masuk: null, waktu_pulang: null, keterangan: null };
+
+      const snapshot = await snapshotBeforeMutation('createAbsensi', adminId, input);
+      const result = await createAbsensi(input);
+      await recordMutation('createAbsensi', adminId, input, result, snapshot);
+
+      const [log] = await getAuditLogs();
+      expect(result.id).toEqual(absensiId);
+      expect(log.entity_id).toEqual(absensiId);
+      expect((log.before as { id: number; status: string }).status).toEqual('alpha');
+      expect((log.after as { status: string }).status).toEqual('hadir');
+    });
+
+    it('should keep the deleted row and never store password hashes', async () => {
+      const input = { id: guruUserId };
+
+      const snapshot = await snapshotBeforeMutation('deleteUser', adminId, input);
+      const result = await deleteUser(guruUserId);
+      await recordMutation('deleteUser', adminId, input, result, snapshot);
+
+      const [log] = await getAuditLogs({ entity: 'users' });
+      expect(log.entity_id).toEqual(guruUserId);
+      expect((log.before as { nip: string }).nip).toEqual('111');
+      expect(log.before).not.toHaveProperty('password_hash');
+      expect(log.after).toBeNull();
+    });
+
+    it('should record every row of a kelas sheet', async () => {
+      const input = {
+        kelas_id: kelasId,
+        guru_id: null,
+        tanggal: new Date(),
+        entries: [{ siswa_id: siswaId, status: 'sakit' as const, keterangan: 'Demam' }]
+      };
+
+      const snapshot = await snapshotBeforeMutation('submitKelasAbsensi', guruUserId, input);
+      const result = await submitKelasAbsensi(input);
+      await recordMutation('submitKelasAbsensi', guruUserId, input, result, snapshot);
+
+      const [log] = await getAuditLogs();
+      expect(log.entity).toEqual('absensi');
+      expect(log.entity_id).toBeNull();
+      expect((log.before as { id: number; status: string }[]).map(row => [row.id, row.status])).toEqual([[absensiId, 'alpha']]);
+      expect((log.after as { id: number; status: string }[]).map(row => [row.id, row.status])).toEqual([[absensiId, 'sakit']]);
+    });
+
+    it('should leave the snapshot empty when loading the row fails', async () => {
+      // Leave requests are not part of this test database, so the loader fails
+      const snapshot = await snapshotBeforeMutation('updatePengajuanIzin', null, { id: 1 });
+
+      expect(snapshot).toEqual({ entity_id: 1, before: null });
+    });
+
+    it('should log mutations without a known entity under their procedure name', async () => {
+      await recordMutation('somethingNew', adminId, {}, null, { entity_id: null, before: null });
+
+      const [log] = await getAuditLogs();
+      expect(log.entity).toEqual('somethingNew');
+      expect(log.entity_id).toBeNull();
+    });
+  });
+
+  describe('getAuditLogs', () => {
+    beforeEach(async () => {
+      await recordAuditLog({ actor_id: adminId, procedure: 'updateAbsensi', entity: 'absensi', entity_id: absensiId });
+      await recordAuditLog({ actor_id: guruUserId, procedure: 'updateAbsensi', entity: 'absensi', entity_id: absensiId });
+      await recordAuditLog({ actor_id: adminId, procedure: 'deleteUser', entity: 'users', entity_id: guruUserId });
+    });
+
+    it('should return the newest entries first', async () => {
+      const logs = await getAuditLogs();
+
+      expect(logs).toHaveLength(3);
+      expect(logs[0].procedure).toEqual('deleteUser');
+    });
+
+    it('should filter by entity and actor', async () => {
+      expect(await getAuditLogs({ entity: 'absensi' })).toHaveLength(2);
+      expect(await getAuditLogs({ actor_id: adminId })).toHaveLength(2);
+      expect(await getAuditLogs({ entity: 'absensi', actor_id: guruUserId })).toHaveLength(1);
+      expect(await getAuditLogs({ entity: 'absensi', entity_id: absensiId })).toHaveLength(2);
+    });
+
+    it('should filter by date range', async () => {
+      await db.update(auditLogTable)
+        .set({ created_at: new Date('2024-01-15T10:00:00Z') })
+        .where(eq(auditLogTable.procedure, 'deleteUser'))
+        .execute();
+
+      const logs = await getAuditLogs({
+        start_date: new Date('2024-01-01T00:00:00Z'),
+        end_date: new Date('2024-01-31T23:59:59Z')
+      });
+
+      expect(logs).toHaveLength(1);
+      expect(logs[0].procedure).toEqual('deleteUser');
+    });
+
+    it('should apply the limit', async () => {
+      expect(await getAuditLogs({ limit: 2 })).toHaveLength(2);
+    });
+  });
+});
@@ -1,20 +1,25 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, siswaTable, guruTable, kelasTable } from '../db/schema';
+import { usersTable, siswaTable, guruTable, kelasTable, orangTuaTable } from '../db/schema';
 import { type LoginInput } from '../schema';
 import { login, getCurrentUser } from '../handlers/auth';
+import { setLoginAttemptStore } from '../handlers/login_protection';
+import { hashPassword as hashWithScrypt } from '../utils/password';
+import { createMemoryLoginAttemptStore } from '../utils/login_attempt_store';
 import { createHash } from 'crypto';
-import { sql } from 'drizzle-orm';
+import { eq, sql } from 'drizzle-orm';
 
 describe('auth handlers', () => {
   // Custom DB setup that only creates needed tables, avoiding problematic pengajuanIzinTable
   const createMinimalDB = async () => {
     // Create only the enums and tables needed for auth testing
     await db.execute(sql`
-      CREATE TYPE "role" AS ENUM('admin', 'guru', 'siswa');
-      CREATE TYPE "attendance_status" AS ENUM('hadir', 'izin', 'sakit', 'alpha');
+      CREATE TYPE "role" AS ENUM('admin', 'guru', 'siswa', 'orang_tua');
+      CREATE TYPE "attendance_status" AS ENUM('hadir', 'terlambat', 'izin', 'sakit', 'alpha');
       CREATE TYPE "request_status" AS ENUM('pending', 'approved', 'rejected');
+      CREATE TYPE "lockout_scope" AS ENUM('identifier', 'ip');
+      CREATE TYPE "lockout_event" AS ENUM('locked', 'unlocked');
     `);
     
     // Create users table
@@ -26,6 +31,7 @@ describe('auth handlers', () => {
         "nisn" text,
         "password_hash" text NOT NULL,
         "role" "role" NOT NULL,
+        "must_change_password" boolean DEFAULT false NOT NULL,
         "created_at" timestamp DEFAULT now() NOT NULL,
         "updated_at" timestamp DEFAULT now() NOT NULL
       );
@@ -68,15 +74,44 @@ describe('auth handlers', () => {
         "updated_at" timestamp DEFAULT now() NOT NULL
       );
     `);
+
+    // Create orang tua table
+    await db.execute(sql`
+      CREATE TABLE "orang_tua" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" integer NOT NULL REFERENCES "users"("id") ON DELETE cascade,
+        "nama" text NOT NULL,
+        "no_hp" text,
+        "created_at" timestamp DEFAULT now() NOT NULL,
+        "updated_at" timestamp DEFAULT now() NOT NULL
+      );
+    `);
+
+    // Create lockout events table, written when repeated failures lock an account
+    await db.execute(sql`
+      CREATE TABLE "lockout_events" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "event" "lockout_event" NOT NULL,
+        "scope" "lockout_scope" NOT NULL,
+        "key" text NOT NULL,
+        "user_id" integer REFERENCES "users"("id") ON DELETE set null,
+        "ip" text,
+        "failures" integer NOT NULL,
+        "locked_until" timestamp,
+        "actor_id" integer REFERENCES "users"("id") ON DELETE set null,
+        "created_at" timestamp DEFAULT now() NOT NULL
+      );
+    `);
   };
 
   beforeEach(async () => {
     await resetDB();
     await createMinimalDB();
+    setLoginAttemptStore(createMemoryLoginAttemptStore());
   });
   afterEach(resetDB);
 
-  // Helper function to hash passwords
+  // Helper function to hash passwords in the legacy SHA-256 format
   const hashPassword = (password: string): string => {
     return createHash('sha256').update(password).digest('hex');
   };
@@ -192,6 +227,36 @@ describe('auth handlers', () => {
       expect(result.message).toEqual('Login successful');
     });
 
+    it('should login orang tua successfully', async () => {
+      const [orangTuaUser] = await db.insert(usersTable)
+        .values({
+          username: 'budi',
+          password_hash: hashPassword('ortu123'),
+          role: 'orang_tua'
+        })
+        .returning()
+        .execute();
+
+      const [orangTua] = await db.insert(orangTuaTable)
+        .values({ user_id: orangTuaUser.id, nama: 'Budi Santoso' })
+        .returning()
+        .execute();
+
+      const result = await login({ role: 'orang_tua', username: 'budi', password: 'ortu123' });
+
+      expect(result.success).toBe(true);
+      expect(result.user?.role).toEqual('orang_tua');
+      expect(result.user?.profile?.id).toEqual(orangTua.id);
+      expect(result.user?.profile?.nama).toEqual('Budi Santoso');
+    });
+
+    it('should fail when orang tua username is missing', async () => {
+      const result = await login({ role: 'orang_tua', password: 'ortu123' });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toEqual('Username is required for orang tua login');
+    });
+
     it('should fail with invalid password', async () => {
       // Create admin user
       const hashedPassword = hashPassword('admin123');
@@ -283,6 +348,113 @@ describe('auth handlers', () => {
       expect(result.message).toEqual('Invalid role specified');
     });
 
+    it('should login a user stored with a scrypt hash', async () => {
+      await db.insert(usersTable)
+        .values({
+          username: 'admin',
+          password_hash: await hashWithScrypt('admin123'),
+          role: 'admin'
+        })
+        .execute();
+
+      const result = await login({
+        role: 'admin',
+        username: 'admin',
+        password: 'admin123'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.user?.username).toEqual('admin');
+    });
+
+    it('should upgrade a legacy hash after a successful login', async () => {
+      const legacyHash = hashPassword('admin123');
+      const [admin] = await db.insert(usersTable)
+        .values({
+          username: 'admin',
+          password_hash: legacyHash,
+          role: 'admin'
+        })
+        .returning()
+        .execute();
+
+      await login({ role: 'admin', username: 'admin', password: 'admin123' });
+
+      const [updated] = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, admin.id))
+        .execute();
+
+      expect(updated.password_hash).not.toEqual(legacyHash);
+      expect(updated.password_hash.startsWith('scrypt$')).toBe(true);
+
+      // The upgraded hash must still accept the same password
+      const again = await login({ role: 'admin', username: 'admin', password: 'admin123' });
+      expect(again.success).toBe(true);
+    });
+
+    it('should not upgrade the hash after a failed login', async () => {
+      const legacyHash = hashPassword('admin123');
+      const [admin] = await db.insert(usersTable)
+        .values({
+          username: 'admin',
+          password_hash: legacyHash,
+          role: 'admin'
+        })
+        .returning()
+        .execute();
+
+      await login({ role: 'admin', username: 'admin', password: 'wrongpassword' });
+
+      const [unchanged] = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, admin.id))
+        .execute();
+
+      expect(unchanged.password_hash).toEqual(legacyHash);
+    });
+
+    it('should lock the identifier after repeated failures', async () => {
+      await db.insert(usersTable)
+        .values({
+          nisn: '1234567890',
+          password_hash: hashPassword('siswa123'),
+          role: 'siswa'
+        })
+        .execute();
+
+      for (let i = 0; i < 5; i++) {
+        const result = await login({ role: 'siswa', nisn: '1234567890', password: 'wrongpassword' }, '10.0.0.1');
+        expect(result.message).toEqual('Invalid password');
+      }
+
+      // Even the right password is refused while locked
+      const result = await login({ role: 'siswa', nisn: '1234567890', password: 'siswa123' }, '10.0.0.1');
+
+      expect(result.success).toBe(false);
+      expect(result.message).toMatch(/too many failed login attempts/i);
+    });
+
+    it('should reset the failure count after a successful login', async () => {
+      await db.insert(usersTable)
+        .values({
+          nisn: '1234567890',
+          password_hash: hashPassword('siswa123'),
+          role: 'siswa'
+        })
+        .execute();
+
+      for (let i = 0; i < 4; i++) {
+        await login({ role: 'siswa', nisn: '1234567890', password: 'wrongpassword' });
+      }
+      await login({ role: 'siswa', nisn: '1234567890', password: 'siswa123' });
+      await login({ role: 'siswa', nisn: '1234567890', password: 'wrongpassword' });
+
+      const result = await login({ role: 'siswa', nisn: '1234567890', password: 'siswa123' });
+
+      expect(result.success).toBe(true);
+    });
+
     it('should handle role mismatch correctly', async () => {
       // Create admin user
       const hashedPassword = hashPassword('admin123');
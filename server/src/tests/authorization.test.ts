@@ -0,0 +1,267 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  guruTable,
+  kelasTable,
+  siswaTable,
+  mataPelajaranTable,
+  jadwalPelajaranTable,
+  absensiTable,
+  orangTuaTable,
+  orangTuaSiswaTable,
+  roleEnum,
+  attendanceStatusEnum
+} from '../db/schema';
+import { type AuthResponse } from '../schema';
+import {
+  assertKelasAccess,
+  assertSiswaAccess,
+  assertGuruAccess,
+  assertOrangTuaAccess,
+  assertQrTokenAccess,
+  assertAbsensiAccess,
+  assertJadwalPelajaranAccess,
+  assertScopedAccess
+} from '../authorization';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { serverTimezone, toDateKey } from '../utils/school_date';
+
+type SessionUser = NonNullable<AuthResponse['user']>;
+
+// Only the tables needed for authorization tests
+const createDB = async () => {
+  const limitedSchema = {
+    roleEnum,
+    attendanceStatusEnum,
+    usersTable,
+    guruTable,
+    kelasTable,
+    siswaTable,
+    mataPelajaranTable,
+    jadwalPelajaranTable,
+    absensiTable,
+    orangTuaTable,
+    orangTuaSiswaTable
+  };
+
+  const migrationStatements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson({ ...limitedSchema })
+  );
+  await db.execute(migrationStatements.join('\n'));
+};
+
+describe('authorization', () => {
+  let admin: SessionUser;
+  let waliKelas: SessionUser;
+  let otherGuru: SessionUser;
+  let siswaUser: SessionUser;
+  let orangTuaUser: SessionUser;
+  let kelasId: number;
+  let otherKelasId: number;
+  let siswaId: number;
+  let otherSiswaId: number;
+  let absensiId: number;
+
+  beforeEach(async () => {
+    await resetDB();
+    await createDB();
+
+    const [adminRow, guruUser1, guruUser2, siswaUser1, siswaUser2, orangTuaRow] = await db.insert(usersTable)
+      .values([
+        { username: 'admin', password_hash: 'hash', role: 'admin' },
+        { nip: '111', password_hash: 'hash', role: 'guru' },
+        { nip: '222', password_hash: 'hash', role: 'guru' },
+        { nisn: '333', password_hash: 'hash', role: 'siswa' },
+        { nisn: '444', password_hash: 'hash', role: 'siswa' },
+        { username: 'budi', password_hash: 'hash', role: 'orang_tua' }
+      ])
+      .returning()
+      .execute();
+
+    const [guru1, guru2] = await db.insert(guruTable)
+      .values([
+        { user_id: guruUser1.id, nip: '111', nama: 'Guru Satu' },
+        { user_id: guruUser2.id, nip: '222', nama: 'Guru Dua' }
+      ])
+      .returning()
+      .execute();
+
+    const [kelas1, kelas2] = await db.insert(kelasTable)
+      .values([
+        { nama_kelas: 'X-1', wali_kelas_id: guru1.id },
+        { nama_kelas: 'X-2', wali_kelas_id: guru2.id }
+      ])
+      .returning()
+      .execute();
+    kelasId = kelas1.id;
+    otherKelasId = kelas2.id;
+
+    const [siswa1, siswa2] = await db.insert(siswaTable)
+      .values([
+        { user_id: siswaUser1.id, nisn: '333', nama: 'Siswa Satu', kelas_id: kelas1.id },
+        { user_id: siswaUser2.id, nisn: '444', nama: 'Siswa Dua', kelas_id: kelas2.id }
+      ])
+      .returning()
+      .execute();
+    siswaId = siswa1.id;
+    otherSiswaId = siswa2.id;
+
+    const [absensi] = await db.insert(absensiTable)
+      .values({
+        siswa_id: siswa2.id,
+        kelas_id: kelas2.id,
+        status: 'hadir',
+        tanggal: new Date(),
+        tanggal_hari: toDateKey(new Date(), serverTimezone())
+      })
+      .returning()
+      .execute();
+    absensiId = absensi.id;
+
+    const [orangTua] = await db.insert(orangTuaTable)
+      .values({ user_id: orangTuaRow.id, nama: 'Budi' })
+      .returning()
+      .execute();
+
+    await db.insert(orangTuaSiswaTable)
+      .values({ orang_tua_id: orangTua.id, siswa_id: siswa1.id, hubungan: 'ayah' })
+      .execute();
+
+    admin = { id: adminRow.id, role: 'admin', username: 'admin', nip: null, nisn: null, must_change_password: false, profile: { id: adminRow.id, nama: 'admin', foto: null } };
+    waliKelas = { id: guruUser1.id, role: 'guru', username: null, nip: '111', nisn: null, must_change_password: false, profile: { id: guru1.id, nama: 'Guru Satu', foto: null } };
+    otherGuru = { id: guruUser2.id, role: 'guru', username: null, nip: '222', nisn: null, must_change_password: false, profile: { id: guru2.id, nama: 'Guru Dua', foto: null } };
+    orangTuaUser = { id: orangTuaRow.id, role: 'orang_tua', username: 'budi', nip: null, nisn: null, must_change_password: false, profile: { id: orangTua.id, nama: 'Budi', foto: null } };
+    siswaUser = { id: siswaUser1.id, role: 'siswa', username: null, nip: null, nisn: '333', must_change_password: false, profile: { id: siswa1.id, nama: 'Siswa Satu', foto: null, kelas_id: kelas1.id } };
+  });
+
+  afterEach(resetDB);
+
+  describe('assertKelasAccess', () => {
+    it('should allow admins and the wali kelas', async () => {
+      await assertKelasAccess(admin, otherKelasId);
+      await assertKelasAccess(waliKelas, kelasId);
+    });
+
+    it('should reject a guru who is not the wali kelas', async () => {
+      await expect(assertKelasAccess(otherGuru, kelasId)).rejects.toThrow(/tidak memiliki akses/i);
+    });
+
+    it('should reject siswa', async () => {
+      await expect(assertKelasAccess(siswaUser, kelasId)).rejects.toThrow(/tidak memiliki akses/i);
+    });
+  });
+
+  describe('assertSiswaAccess', () => {
+    it('should allow a siswa to access only their own data', async () => {
+      await assertSiswaAccess(siswaUser, siswaId);
+      await expect(assertSiswaAccess(siswaUser, otherSiswaId)).rejects.toThrow(/data anda sendiri/i);
+    });
+
+    it('should allow a guru to access only siswa in their kelas', async () => {
+      await assertSiswaAccess(waliKelas, siswaId);
+      await expect(assertSiswaAccess(waliKelas, otherSiswaId)).rejects.toThrow(/tidak memiliki akses/i);
+    });
+  });
+
+  describe('assertSiswaAccess for orang tua', () => {
+    it('should allow a parent to access only their linked children', async () => {
+      await assertSiswaAccess(orangTuaUser, siswaId);
+      await expect(assertSiswaAccess(orangTuaUser, otherSiswaId)).rejects.toThrow(/anak anda sendiri/i);
+    });
+
+    it('should not give parents access to a whole kelas', async () => {
+      await expect(assertKelasAccess(orangTuaUser, kelasId)).rejects.toThrow(/tidak memiliki akses/i);
+      await expect(assertScopedAccess(orangTuaUser, { kelasId })).rejects.toThrow(/tidak memiliki akses/i);
+    });
+  });
+
+  describe('assertOrangTuaAccess', () => {
+    it('should allow a parent to read only their own data', () => {
+      expect(() => assertOrangTuaAccess(orangTuaUser, orangTuaUser.profile!.id)).not.toThrow();
+      expect(() => assertOrangTuaAccess(orangTuaUser, orangTuaUser.profile!.id + 1)).toThrow(/data anda sendiri/i);
+      expect(() => assertOrangTuaAccess(admin, orangTuaUser.profile!.id)).not.toThrow();
+      expect(() => assertOrangTuaAccess(siswaUser, orangTuaUser.profile!.id)).toThrow(/data anda sendiri/i);
+    });
+  });
+
+  describe('assertGuruAccess', () => {
+    it('should allow a guru to read only their own data', () => {
+      expect(() => assertGuruAccess(waliKelas, waliKelas.profile!.id)).not.toThrow();
+      expect(() => assertGuruAccess(waliKelas, otherGuru.profile!.id)).toThrow(/data anda sendiri/i);
+      expect(() => assertGuruAccess(admin, otherGuru.profile!.id)).not.toThrow();
+    });
+  });
+
+  describe('assertQrTokenAccess', () => {
+    it('should allow a guru to show codes only for their own kelas', async () => {
+      await assertQrTokenAccess(waliKelas, kelasId);
+      await assertQrTokenAccess(admin, otherKelasId);
+      await expect(assertQrTokenAccess(otherGuru, kelasId)).rejects.toThrow(/tidak memiliki akses/i);
+    });
+
+    it('should keep location codes for admins', async () => {
+      await assertQrTokenAccess(admin, null);
+      await expect(assertQrTokenAccess(waliKelas, null)).rejects.toThrow(/hanya admin/i);
+    });
+  });
+
+  describe('assertAbsensiAccess', () => {
+    it('should follow access to the kelas of the absensi', async () => {
+      await assertAbsensiAccess(otherGuru, absensiId);
+      await expect(assertAbsensiAccess(waliKelas, absensiId)).rejects.toThrow(/tidak memiliki akses/i);
+    });
+
+    it('should throw when the absensi does not exist', async () => {
+      await expect(assertAbsensiAccess(admin, 99999)).rejects.toThrow(/absensi not found/i);
+    });
+  });
+
+  describe('assertJadwalPelajaranAccess', () => {
+    it('should let the guru of a lesson record it in a kelas they are not wali kelas of', async () => {
+      const [mataPelajaran] = await db.insert(mataPelajaranTable)
+        .values({ kode: 'MTK', nama: 'Matematika' })
+        .returning()
+        .execute();
+      const [jadwal] = await db.insert(jadwalPelajaranTable)
+        .values({
+          kelas_id: otherKelasId,
+          mata_pelajaran_id: mataPelajaran.id,
+          guru_id: waliKelas.profile!.id,
+          hari: 1,
+          jam_mulai: '07:00',
+          jam_selesai: '08:30'
+        })
+        .returning()
+        .execute();
+      const [lesson] = await db.insert(absensiTable)
+        .values({ siswa_id: otherSiswaId, kelas_id: otherKelasId, status: 'hadir', tanggal: new Date(), tanggal_hari: toDateKey(new Date(), serverTimezone()), jadwal_pelajaran_id: jadwal.id })
+        .returning()
+        .execute();
+
+      await assertJadwalPelajaranAccess(admin, jadwal.id);
+      await assertJadwalPelajaranAccess(waliKelas, jadwal.id);
+      await expect(assertJadwalPelajaranAccess(otherGuru, jadwal.id)).rejects.toThrow(/tidak mengajar/i);
+      await expect(assertJadwalPelajaranAccess(admin, 99999)).rejects.toThrow(/jadwal pelajaran not found/i);
+
+      // The wali kelas keeps access to every record of their kelas
+      await assertAbsensiAccess(waliKelas, lesson.id);
+      await assertAbsensiAccess(otherGuru, lesson.id);
+      await expect(assertAbsensiAccess(waliKelas, absensiId)).rejects.toThrow(/tidak memiliki akses/i);
+    });
+  });
+
+  describe('assertScopedAccess', () => {
+    it('should require a kelas or siswa filter for non-admins', async () => {
+      await assertScopedAccess(admin, {});
+      await expect(assertScopedAccess(waliKelas, {})).rejects.toThrow(/pilih kelas atau siswa/i);
+    });
+
+    it('should check both filters when given', async () => {
+      await assertScopedAccess(waliKelas, { kelasId, siswaId });
+      await expect(assertScopedAccess(waliKelas, { kelasId, siswaId: otherSiswaId })).rejects.toThrow(/tidak memiliki akses/i);
+    });
+  });
+});
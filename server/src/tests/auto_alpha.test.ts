@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  guruTable,
+  kelasTable,
+  siswaTable,
+  mataPelajaranTable,
+  jadwalPelajaranTable,
+  absensiTable,
+  settingsTable,
+  kalenderAkademikTable,
+  roleEnum,
+  attendanceStatusEnum,
+  jenisKalenderEnum
+} from '../db/schema';
+import { runAutoAlpha, runAutoAlphaIfDue } from '../handlers/auto_alpha';
+import { updateAutoAlpha, updateWeekend } from '../handlers/settings';
+import { createKalenderAkademik } from '../handlers/kalender_akademik';
+import { asc, sql } from 'drizzle-orm';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+
+// Only the tables needed for auto alpha tests; pengajuan_izin is created by hand like in its own tests
+const createDB = async () => {
+  const limitedSchema = {
+    roleEnum,
+    attendanceStatusEnum,
+    jenisKalenderEnum,
+    usersTable,
+    guruTable,
+    kelasTable,
+    siswaTable,
+    mataPelajaranTable,
+    jadwalPelajaranTable,
+    absensiTable,
+    settingsTable,
+    kalenderAkademikTable
+  };
+
+  const migrationStatements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson({ ...limitedSchema })
+  );
+  await db.execute(migrationStatements.join('\n'));
+
+  await db.execute(sql`
+    CREATE TABLE pengajuan_izin (
+      id SERIAL PRIMARY KEY,
+      siswa_id INTEGER NOT NULL REFERENCES siswa(id) ON DELETE CASCADE,
+      tanggal_mulai TIMESTAMP NOT NULL,
+      tanggal_selesai TIMESTAMP NOT NULL,
+      alasan TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      jenis TEXT NOT NULL,
+      reviewer_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      reviewed_at TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `);
+};
+
+// 2024-08-16 is a Friday, 2024-08-17 a Saturday
+const friday = new Date(2024, 7, 16);
+
+describe('auto alpha', () => {
+  let adminId: number;
+  let kelasIds: number[];
+  let siswaIds: number[];
+
+  beforeEach(async () => {
+    await resetDB();
+    await createDB();
+
+    const [admin, guruUser, ...siswaUsers] = await db.insert(usersTable)
+      .values([
+        { username: 'admin', password_hash: 'hash', role: 'admin' },
+        { nip: '111', password_hash: 'hash', role: 'guru' },
+        { nisn: '001', password_hash: 'hash', role: 'siswa' },
+        { nisn: '002', password_hash: 'hash', role: 'siswa' },
+        { nisn: '003', password_hash: 'hash', role: 'siswa' },
+        { nisn: '004', password_hash: 'hash', role: 'siswa' }
+      ])
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const [guru] = await db.insert(guruTable)
+      .values({ user_id: guruUser.id, nip: '111', nama: 'Guru Satu' })
+      .returning()
+      .execute();
+
+    const kelas = await db.insert(kelasTable)
+      .values([
+        { nama_kelas: 'X-1', wali_kelas_id: guru.id },
+        { nama_kelas: 'X-2', wali_kelas_id: guru.id }
+      ])
+      .returning()
+      .execute();
+    kelasIds = kelas.map(k => k.id);
+
+    const siswa = await db.insert(siswaTable)
+      .values(siswaUsers.map((user, i) => ({
+        user_id: user.id,
+        nisn: user.nisn!,
+        nama: `Siswa ${i + 1}`,
+        kelas_id: kelasIds[i < 3 ? 0 : 1]
+      })))
+      .returning()
+      .execute();
+    siswaIds = siswa.map(s => s.id);
+  });
+
+  afterEach(resetDB);
+
+  const absensiRows = () => db.select()
+    .from(absensiTable)
+    .orderBy(asc(absensiTable.siswa_id))
+    .execute();
+
+  it('should mark only siswa without a record or an approved izin as alpha', async () => {
+    await db.insert(absensiTable)
+      .values({ siswa_id: siswaIds[0], kelas_id: kelasIds[0], status: 'hadir', tanggal: new Date(2024, 7, 16, 7, 0), tanggal_hari: '2024-08-16' })
+      .execute();
+    await db.execute(sql`
+      INSERT INTO pengajuan_izin (siswa_id, tanggal_mulai, tanggal_selesai, alasan, status, jenis) VALUES
+        (${siswaIds[1]}, ${new Date(2024, 7, 14)}, ${new Date(2024, 7, 16)}, 'Sakit', 'approved', 'sakit'),
+        (${siswaIds[2]}, ${friday}, ${friday}, 'Acara keluarga', 'pending', 'izin')
+    `);
+
+    const result = await runAutoAlpha(new Date(2024, 7, 16, 18, 0));
+
+    expect(result.tanggal).toEqual(friday);
+    expect(result.total_alpha).toEqual(2);
+    expect(result.kelas_diproses).toEqual(2);
+    expect(result.kelas_libur).toEqual(0);
+
+    const alpha = (await absensiRows()).filter(row => row.status === 'alpha');
+    expect(alpha.map(row => row.siswa_id)).toEqual([siswaIds[2], siswaIds[3]]);
+    expect(alpha[1].kelas_id).toEqual(kelasIds[1]);
+    expect(alpha[0].keterangan).toMatch(/otomatis/i);
+  });
+
+  it('should be idempotent', async () => {
+    expect((await runAutoAlpha(friday)).total_alpha).toEqual(4);
+    expect((await runAutoAlpha(friday)).total_alpha).toEqual(0);
+
+    expect(await absensiRows()).toHaveLength(4);
+  });
+
+  it('should skip kelas for which the day is not a school day', async () => {
+    await updateWeekend({ days: [0, 6] }, adminId);
+    await createKalenderAkademik({
+      tanggal_mulai: friday,
+      tanggal_selesai: friday,
+      jenis: 'acara_sekolah',
+      keterangan: 'Study tour',
+      hari_sekolah: false,
+      kelas_id: kelasIds[1]
+    }, adminId);
+
+    const result = await runAutoAlpha(friday);
+    expect(result.total_alpha).toEqual(3);
+    expect(result.kelas_libur).toEqual(1);
+
+    const saturday = await runAutoAlpha(new Date(2024, 7, 17));
+    expect(saturday.total_alpha).toEqual(0);
+    expect(saturday.kelas_diproses).toEqual(0);
+  });
+
+  it('should reject future dates', async () => {
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+
+    await expect(runAutoAlpha(tomorrow)).rejects.toThrow(/future date/i);
+  });
+
+  it('should run from the scheduler only after the cutoff and once per day', async () => {
+    const evening = new Date(2024, 7, 16, 16, 0);
+
+    // The job stays idle until the cutoff is configured
+    expect(await runAutoAlphaIfDue(evening, null)).toBeNull();
+
+    await updateAutoAlpha({ jam_cutoff: '15:00' }, adminId);
+
+    expect(await runAutoAlphaIfDue(new Date(2024, 7, 16, 14, 59), null)).toBeNull();
+    expect(await runAutoAlphaIfDue(evening, '2024-08-16')).toBeNull();
+    expect((await runAutoAlphaIfDue(evening, '2024-08-15'))?.total_alpha).toEqual(4);
+  });
+});
@@ -3,6 +3,7 @@ import { resetDB } from '../helpers';
 import { db } from '../db';
 import { sql } from 'drizzle-orm';
 import { getDashboardStats, getGuruDashboardStats, getSiswaDashboardStats } from '../handlers/dashboard';
+import { serverTimezone, toDateKey } from '../utils/school_date';
 
 // Custom DB setup without the problematic pengajuan_izin table
 const createTestDB = async () => {
@@ -12,7 +13,7 @@ const createTestDB = async () => {
   
   // Create only the enums and tables we need for testing
   await db.execute(sql`CREATE TYPE "role" AS ENUM('admin', 'guru', 'siswa')`);
-  await db.execute(sql`CREATE TYPE "attendance_status" AS ENUM('hadir', 'izin', 'sakit', 'alpha')`);
+  await db.execute(sql`CREATE TYPE "attendance_status" AS ENUM('hadir', 'terlambat', 'izin', 'sakit', 'alpha')`);
   await db.execute(sql`CREATE TYPE "request_status" AS ENUM('pending', 'approved', 'rejected')`);
   
   // Create tables in dependency order
@@ -24,6 +25,7 @@ const createTestDB = async () => {
       "nisn" text,
       "password_hash" text NOT NULL,
       "role" "role" NOT NULL,
+      "must_change_password" boolean DEFAULT false NOT NULL,
       "created_at" timestamp DEFAULT now() NOT NULL,
       "updated_at" timestamp DEFAULT now() NOT NULL
     )
@@ -72,9 +74,48 @@ const createTestDB = async () => {
       "kelas_id" integer NOT NULL REFERENCES "kelas"("id") ON DELETE RESTRICT,
       "status" "attendance_status" NOT NULL,
       "tanggal" timestamp NOT NULL,
+      "tanggal_hari" date NOT NULL,
       "waktu_masuk" text,
       "waktu_pulang" text,
       "keterangan" text,
+      "menit_terlambat" integer,
+      "pulang_awal" boolean DEFAULT false NOT NULL,
+      "jadwal_pelajaran_id" integer,
+      "latitude_masuk" double precision,
+      "longitude_masuk" double precision,
+      "accuracy_masuk" double precision,
+      "latitude_pulang" double precision,
+      "longitude_pulang" double precision,
+      "accuracy_pulang" double precision,
+      "foto_masuk" text,
+      "created_at" timestamp DEFAULT now() NOT NULL,
+      "updated_at" timestamp DEFAULT now() NOT NULL
+    )
+  `);
+  await db.execute(sql`CREATE UNIQUE INDEX "absensi_siswa_id_tanggal_hari_unique" ON "absensi" ("siswa_id", "tanggal_hari") WHERE "jadwal_pelajaran_id" IS NULL`);
+  await db.execute(sql`CREATE UNIQUE INDEX "absensi_siswa_id_jadwal_pelajaran_id_tanggal_hari_unique" ON "absensi" ("siswa_id", "jadwal_pelajaran_id", "tanggal_hari")`);
+
+  // School days come from the weekend setting and the kalender akademik
+  await db.execute(sql`
+    CREATE TABLE "settings" (
+      "key" text PRIMARY KEY NOT NULL,
+      "value" jsonb NOT NULL,
+      "updated_by" integer,
+      "updated_at" timestamp DEFAULT now() NOT NULL
+    )
+  `);
+
+  await db.execute(sql`CREATE TYPE "jenis_kalender" AS ENUM('libur_nasional', 'libur_sekolah', 'acara_sekolah', 'hari_masuk_pengganti')`);
+  await db.execute(sql`
+    CREATE TABLE "kalender_akademik" (
+      "id" serial PRIMARY KEY NOT NULL,
+      "tanggal_mulai" timestamp NOT NULL,
+      "tanggal_selesai" timestamp NOT NULL,
+      "jenis" "jenis_kalender" NOT NULL,
+      "keterangan" text NOT NULL,
+      "hari_sekolah" boolean NOT NULL,
+      "kelas_id" integer,
+      "created_by" integer,
       "created_at" timestamp DEFAULT now() NOT NULL,
       "updated_at" timestamp DEFAULT now() NOT NULL
     )
@@ -144,7 +185,8 @@ describe('Dashboard Handlers', () => {
 
       await db.execute(sql`
         INSERT INTO "users" ("username", "nip", "nisn", "password_hash", "role")
-        VALUES (NULL, NULL, '987654321', 'hashedpassword', 'siswa')
+        VALUES (NULL, NULL, '987654321', 'hashedpassword', 'siswa'),
+               (NULL, NULL, '987654322', 'hashedpassword', 'siswa')
       `);
 
       await db.execute(sql`
@@ -159,7 +201,8 @@ describe('Dashboard Handlers', () => {
 
       await db.execute(sql`
         INSERT INTO "siswa" ("user_id", "nisn", "nama", "kelas_id")
-        VALUES (3, '987654321', 'Test Siswa', 1)
+        VALUES (3, '987654321', 'Test Siswa', 1),
+               (4, '987654322', 'Test Siswa Dua', 1)
       `);
 
       // Create today's attendance records
@@ -168,18 +211,18 @@ describe('Dashboard Handlers', () => {
       const todayStr = today.toISOString();
 
       await db.execute(sql`
-        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal", "waktu_masuk")
-        VALUES (1, 1, 1, 'hadir', ${todayStr}, '07:30:00')
+        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal", "tanggal_hari", "waktu_masuk")
+        VALUES (1, 1, 1, 'hadir', ${todayStr}, ${toDateKey(today, serverTimezone())}, '07:30:00')
       `);
 
       await db.execute(sql`
-        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal")
-        VALUES (1, 1, 1, 'izin', ${todayStr})
+        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal", "tanggal_hari")
+        VALUES (2, 1, 1, 'izin', ${todayStr}, ${toDateKey(today, serverTimezone())})
       `);
 
       const result = await getDashboardStats();
 
-      expect(result.total_siswa).toBe(1);
+      expect(result.total_siswa).toBe(2);
       expect(result.total_guru).toBe(1);
       expect(result.total_kelas).toBe(1);
       expect(result.absensi_hari_ini.hadir).toBe(1);
@@ -222,8 +265,8 @@ describe('Dashboard Handlers', () => {
       const yesterdayStr = yesterday.toISOString();
 
       await db.execute(sql`
-        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal")
-        VALUES (1, 1, 1, 'hadir', ${yesterdayStr})
+        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal", "tanggal_hari")
+        VALUES (1, 1, 1, 'hadir', ${yesterdayStr}, ${toDateKey(yesterday, serverTimezone())})
       `);
 
       const result = await getDashboardStats();
@@ -318,13 +361,13 @@ describe('Dashboard Handlers', () => {
       const todayStr = today.toISOString();
 
       await db.execute(sql`
-        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal")
-        VALUES (1, 1, 1, 'hadir', ${todayStr})
+        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal", "tanggal_hari")
+        VALUES (1, 1, 1, 'hadir', ${todayStr}, ${toDateKey(today, serverTimezone())})
       `);
 
       await db.execute(sql`
-        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal")
-        VALUES (2, 2, 2, 'izin', ${todayStr})
+        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal", "tanggal_hari")
+        VALUES (2, 2, 2, 'izin', ${todayStr}, ${toDateKey(today, serverTimezone())})
       `);
 
       // Test guru1 stats
@@ -415,18 +458,18 @@ describe('Dashboard Handlers', () => {
       const midMonth = new Date(today.getFullYear(), today.getMonth(), 15);
 
       await db.execute(sql`
-        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal")
-        VALUES (1, 1, 1, 'hadir', ${startOfMonth.toISOString()})
+        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal", "tanggal_hari")
+        VALUES (1, 1, 1, 'hadir', ${startOfMonth.toISOString()}, ${toDateKey(startOfMonth, serverTimezone())})
       `);
 
       await db.execute(sql`
-        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal")
-        VALUES (1, 1, 1, 'hadir', ${midMonth.toISOString()})
+        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal", "tanggal_hari")
+        VALUES (1, 1, 1, 'hadir', ${midMonth.toISOString()}, ${toDateKey(midMonth, serverTimezone())})
       `);
 
       await db.execute(sql`
-        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal", "waktu_masuk", "waktu_pulang")
-        VALUES (1, 1, 1, 'hadir', ${today.toISOString()}, '07:30:00', '15:00:00')
+        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal", "tanggal_hari", "waktu_masuk", "waktu_pulang")
+        VALUES (1, 1, 1, 'hadir', ${today.toISOString()}, ${toDateKey(today, serverTimezone())}, '07:30:00', '15:00:00')
       `);
 
       const result = await getSiswaDashboardStats(1);
@@ -439,6 +482,48 @@ describe('Dashboard Handlers', () => {
       expect(result.absensi_hari_ini.status).toBe('hadir');
       expect(result.absensi_hari_ini.waktu_masuk).toBe('07:30:00');
       expect(result.absensi_hari_ini.waktu_pulang).toBe('15:00:00');
+      expect(result.absensi_hari_ini.menit_terlambat).toBeNull();
+      expect(result.absensi_hari_ini.pulang_awal).toBe(false);
+    });
+
+    it('should report a late arrival and early leave today', async () => {
+      await db.execute(sql`
+        INSERT INTO "users" ("username", "nip", "nisn", "password_hash", "role")
+        VALUES (NULL, NULL, '987654321', 'hashedpassword', 'siswa')
+      `);
+
+      await db.execute(sql`
+        INSERT INTO "users" ("username", "nip", "nisn", "password_hash", "role")
+        VALUES (NULL, '123456789', NULL, 'hashedpassword', 'guru')
+      `);
+
+      await db.execute(sql`
+        INSERT INTO "guru" ("user_id", "nip", "nama")
+        VALUES (2, '123456789', 'Test Guru')
+      `);
+
+      await db.execute(sql`
+        INSERT INTO "kelas" ("nama_kelas", "wali_kelas_id")
+        VALUES ('10A', 1)
+      `);
+
+      await db.execute(sql`
+        INSERT INTO "siswa" ("user_id", "nisn", "nama", "kelas_id")
+        VALUES (1, '987654321', 'Test Siswa', 1)
+      `);
+
+      await db.execute(sql`
+        INSERT INTO "absensi" ("siswa_id", "kelas_id", "status", "tanggal", "tanggal_hari", "waktu_masuk", "waktu_pulang", "menit_terlambat", "pulang_awal")
+        VALUES (1, 1, 'terlambat', ${new Date().toISOString()}, ${toDateKey(new Date(), serverTimezone())}, '07:25:00', '12:00:00', 25, true)
+      `);
+
+      const result = await getSiswaDashboardStats(1);
+
+      expect(result.absensi_bulan_ini.terlambat).toBe(1);
+      expect(result.absensi_bulan_ini.hadir).toBe(0);
+      expect(result.absensi_hari_ini.status).toBe('terlambat');
+      expect(result.absensi_hari_ini.menit_terlambat).toBe(25);
+      expect(result.absensi_hari_ini.pulang_awal).toBe(true);
     });
 
     it('should only count current month attendance', async () => {
@@ -473,8 +558,8 @@ describe('Dashboard Handlers', () => {
       lastMonth.setMonth(lastMonth.getMonth() - 1);
 
       await db.execute(sql`
-        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal")
-        VALUES (1, 1, 1, 'hadir', ${lastMonth.toISOString()})
+        INSERT INTO "absensi" ("siswa_id", "guru_id", "kelas_id", "status", "tanggal", "tanggal_hari")
+        VALUES (1, 1, 1, 'hadir', ${lastMonth.toISOString()}, ${toDateKey(lastMonth, serverTimezone())})
       `);
 
       const result = await getSiswaDashboardStats(1);
@@ -1,17 +1,22 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, siswaTable, guruTable, kelasTable, absensiTable } from '../db/schema';
+import { usersTable, siswaTable, guruTable, kelasTable, absensiTable, fileEksporTable } from '../db/schema';
 import { type GetAbsensiHistoryInput } from '../schema';
 import { exportAbsensiToPDF, exportAbsensiToExcel, generateRekapAbsensi } from '../handlers/export';
+import { getFileEkspor, purgeExpiredFileEkspor } from '../handlers/file_ekspor';
+import { updateKopSurat } from '../handlers/settings';
 import { sql } from 'drizzle-orm';
+import { inflateRawSync, inflateSync } from 'zlib';
+import { serverTimezone, toDateKey } from '../utils/school_date';
+import { createMemoryFileStorage, setFileStorage, type FileStorage } from '../utils/file_storage';
 
 // Custom createDB that only creates tables needed for export tests
 const createExportTestDB = async () => {
   // Create the tables manually without the problematic pengajuanIzinTable
   await db.execute(sql`
     CREATE TYPE role AS ENUM ('admin', 'guru', 'siswa');
-    CREATE TYPE attendance_status AS ENUM ('hadir', 'izin', 'sakit', 'alpha');
+    CREATE TYPE attendance_status AS ENUM ('hadir', 'terlambat', 'izin', 'sakit', 'alpha');
     CREATE TYPE request_status AS ENUM ('pending', 'approved', 'rejected');
     
     CREATE TABLE users (
@@ -21,6 +26,7 @@ const createExportTestDB = async () => {
       nisn TEXT,
       password_hash TEXT NOT NULL,
       role role NOT NULL,
+      must_change_password boolean DEFAULT false NOT NULL,
       created_at TIMESTAMP DEFAULT NOW() NOT NULL,
       updated_at TIMESTAMP DEFAULT NOW() NOT NULL
     );
@@ -61,9 +67,56 @@ const createExportTestDB = async () => {
       kelas_id INTEGER NOT NULL REFERENCES kelas(id) ON DELETE RESTRICT,
       status attendance_status NOT NULL,
       tanggal TIMESTAMP NOT NULL,
+      tanggal_hari DATE NOT NULL,
       waktu_masuk TEXT,
       waktu_pulang TEXT,
       keterangan TEXT,
+      menit_terlambat INTEGER,
+      pulang_awal BOOLEAN NOT NULL DEFAULT FALSE,
+      jadwal_pelajaran_id INTEGER,
+      latitude_masuk DOUBLE PRECISION,
+      longitude_masuk DOUBLE PRECISION,
+      accuracy_masuk DOUBLE PRECISION,
+      latitude_pulang DOUBLE PRECISION,
+      longitude_pulang DOUBLE PRECISION,
+      accuracy_pulang DOUBLE PRECISION,
+      foto_masuk TEXT,
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+    );
+
+    CREATE UNIQUE INDEX absensi_siswa_id_tanggal_hari_unique ON absensi (siswa_id, tanggal_hari) WHERE jadwal_pelajaran_id IS NULL;
+    CREATE UNIQUE INDEX absensi_siswa_id_jadwal_pelajaran_id_tanggal_hari_unique ON absensi (siswa_id, jadwal_pelajaran_id, tanggal_hari);
+    
+    CREATE TABLE settings (
+      key TEXT PRIMARY KEY,
+      value JSONB NOT NULL,
+      updated_by INTEGER,
+      updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+    );
+
+    CREATE TABLE file_ekspor (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      nama_file TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      ukuran INTEGER NOT NULL,
+      storage_key TEXT NOT NULL,
+      expires_at TIMESTAMP NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL
+    );
+
+    CREATE TYPE jenis_kalender AS ENUM ('libur_nasional', 'libur_sekolah', 'acara_sekolah', 'hari_masuk_pengganti');
+
+    CREATE TABLE kalender_akademik (
+      id SERIAL PRIMARY KEY,
+      tanggal_mulai TIMESTAMP NOT NULL,
+      tanggal_selesai TIMESTAMP NOT NULL,
+      jenis jenis_kalender NOT NULL,
+      keterangan TEXT NOT NULL,
+      hari_sekolah BOOLEAN NOT NULL,
+      kelas_id INTEGER REFERENCES kelas(id) ON DELETE CASCADE,
+      created_by INTEGER,
       created_at TIMESTAMP DEFAULT NOW() NOT NULL,
       updated_at TIMESTAMP DEFAULT NOW() NOT NULL
     );
@@ -74,8 +127,50 @@ const createExportTestDB = async () => {
   `);
 };
 
+// Text drawn on the pages, one string per text operation
+function pdfText(pdf: Buffer): string[] {
+  const content = pdf.toString('latin1');
+  const texts: string[] = [];
+  for (const match of content.matchAll(/stream\n([\s\S]*?)\nendstream/g)) {
+    const ops = inflateSync(Buffer.from(match[1], 'latin1')).toString('latin1');
+    for (const text of ops.matchAll(/\(((?:\\.|[^\\)])*)\) Tj/g)) {
+      texts.push(text[1].replace(/\\(.)/g, '$1'));
+    }
+  }
+  return texts;
+}
+
+// Files inside an XLSX package by name, read from the local file headers
+function xlsxParts(xlsx: Buffer): Record<string, string> {
+  const parts: Record<string, string> = {};
+  let offset = 0;
+  while (xlsx.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = xlsx.readUInt32LE(offset + 18);
+    const nameLength = xlsx.readUInt16LE(offset + 26);
+    const dataStart = offset + 30 + nameLength + xlsx.readUInt16LE(offset + 28);
+    const name = xlsx.subarray(offset + 30, offset + 30 + nameLength).toString();
+    parts[name] = inflateRawSync(xlsx.subarray(dataStart, dataStart + compressedSize)).toString();
+    offset = dataStart + compressedSize;
+  }
+  return parts;
+}
+
+function pageCount(pdf: Buffer): number {
+  return pdf.toString('latin1').match(/\/Type \/Page /g)?.length ?? 0;
+}
+
+function downloadId(downloadUrl: string | undefined): string {
+  return downloadUrl!.split('/')[2];
+}
+
 describe('Export Handlers', () => {
-  beforeEach(createExportTestDB);
+  let storage: FileStorage;
+
+  beforeEach(async () => {
+    await createExportTestDB();
+    storage = createMemoryFileStorage();
+    setFileStorage(storage);
+  });
   afterEach(resetDB);
 
   // Helper function to create test data
@@ -184,6 +279,7 @@ describe('Export Handlers', () => {
           kelas_id: kelas.id,
           status: 'hadir',
           tanggal: today,
+          tanggal_hari: toDateKey(today, serverTimezone()),
           waktu_masuk: '07:30:00',
           waktu_pulang: '15:00:00',
           keterangan: null
@@ -194,6 +290,7 @@ describe('Export Handlers', () => {
           kelas_id: kelas.id,
           status: 'izin',
           tanggal: today,
+          tanggal_hari: toDateKey(today, serverTimezone()),
           waktu_masuk: null,
           waktu_pulang: null,
           keterangan: 'Izin sakit'
@@ -204,6 +301,7 @@ describe('Export Handlers', () => {
           kelas_id: kelas.id,
           status: 'alpha',
           tanggal: yesterday,
+          tanggal_hari: toDateKey(yesterday, serverTimezone()),
           waktu_masuk: null,
           waktu_pulang: null,
           keterangan: 'Tidak hadir tanpa keterangan'
@@ -214,6 +312,7 @@ describe('Export Handlers', () => {
           kelas_id: kelas.id,
           status: 'sakit',
           tanggal: yesterday,
+          tanggal_hari: toDateKey(yesterday, serverTimezone()),
           waktu_masuk: null,
           waktu_pulang: null,
           keterangan: 'Sakit demam'
@@ -235,18 +334,18 @@ describe('Export Handlers', () => {
 
   describe('exportAbsensiToPDF', () => {
     it('should export absensi to PDF successfully', async () => {
-      await createTestData();
+      const testData = await createTestData();
 
       const input: GetAbsensiHistoryInput = {
         limit: 50,
         offset: 0
       };
 
-      const result = await exportAbsensiToPDF(input);
+      const result = await exportAbsensiToPDF(input, testData.guruUser.id);
 
       expect(result.success).toBe(true);
       expect(result.downloadUrl).toBeDefined();
-      expect(result.downloadUrl).toMatch(/\/exports\/pdf\/absensi_report_\d{8}_\d{6}\.pdf/);
+      expect(result.downloadUrl).toMatch(/^\/exports\/[0-9a-f-]{36}\/absensi_report_\d{8}_\d{6}\.pdf$/);
       expect(result.message).toContain('PDF berhasil dibuat dengan');
       expect(result.message).toContain('record absensi');
     });
@@ -260,13 +359,27 @@ describe('Export Handlers', () => {
         offset: 0
       };
 
-      const result = await exportAbsensiToPDF(input);
+      const result = await exportAbsensiToPDF(input, testData.guruUser.id);
 
       expect(result.success).toBe(true);
       expect(result.downloadUrl).toBeDefined();
       expect(result.message).toContain('2 record absensi'); // siswa1 has 2 records
     });
 
+    it('should count only the records of the chosen siswa in the PDF statistics', async () => {
+      const testData = await createTestData();
+
+      const result = await exportAbsensiToPDF({ siswa_id: testData.siswa1.id }, testData.guruUser.id);
+
+      const file = await getFileEkspor(downloadId(result.downloadUrl), testData.guruUser.id);
+      const texts = pdfText(file!.data);
+      // siswa1 was hadir today and alpha yesterday; siswa2's izin and sakit stay out
+      expect(texts[texts.indexOf('HADIR') + 1]).toBe('1');
+      expect(texts[texts.indexOf('IZIN') + 1]).toBe('0');
+      expect(texts[texts.indexOf('SAKIT') + 1]).toBe('0');
+      expect(texts[texts.indexOf('TOTAL') + 1]).toBe('2');
+    });
+
     it('should handle no data found for PDF export', async () => {
       const input: GetAbsensiHistoryInput = {
         siswa_id: 99999, // Non-existent siswa
@@ -274,7 +387,7 @@ describe('Export Handlers', () => {
         offset: 0
       };
 
-      const result = await exportAbsensiToPDF(input);
+      const result = await exportAbsensiToPDF(input, 1);
 
       expect(result.success).toBe(false);
       expect(result.downloadUrl).toBeUndefined();
@@ -282,7 +395,7 @@ describe('Export Handlers', () => {
     });
 
     it('should handle date range filtering for PDF', async () => {
-      await createTestData();
+      const testData = await createTestData();
 
       // Use start of day for proper date comparison
       const today = new Date();
@@ -297,29 +410,169 @@ describe('Export Handlers', () => {
         offset: 0
       };
 
-      const result = await exportAbsensiToPDF(input);
+      const result = await exportAbsensiToPDF(input, testData.guruUser.id);
 
       expect(result.success).toBe(true);
       expect(result.message).toContain('2 record absensi'); // Only today's records
     });
+
+    it('should store a PDF with the letterhead, period, statistics and records', async () => {
+      const testData = await createTestData();
+      await updateKopSurat({
+        nama_sekolah: 'SMA Negeri 1 Contoh',
+        alamat: 'Jl. Pendidikan No. 1 (Gedung A)',
+        kontak: ''
+      }, testData.adminUser.id);
+
+      const result = await exportAbsensiToPDF({ kelas_id: testData.kelas.id, limit: 50, offset: 0 }, testData.guruUser.id);
+
+      const file = await getFileEkspor(downloadId(result.downloadUrl), testData.guruUser.id);
+      expect(file).not.toBeNull();
+      expect(file!.mime_type).toBe('application/pdf');
+      expect(file!.nama_file).toMatch(/^absensi_report_\d{8}_\d{6}\.pdf$/);
+      expect(file!.data.subarray(0, 5).toString()).toBe('%PDF-');
+      expect(file!.data.toString('latin1').trimEnd().endsWith('%%EOF')).toBe(true);
+
+      const texts = pdfText(file!.data);
+      expect(texts).toContain('SMA NEGERI 1 CONTOH');
+      expect(texts).toContain('Jl. Pendidikan No. 1 (Gedung A)');
+      expect(texts).toContain('Laporan Absensi Siswa');
+      expect(texts).toContain('Periode');
+      expect(texts).toContain(`: ${testData.kelas.nama_kelas}`);
+      expect(texts).toContain('Statistik Kehadiran');
+      expect(texts).toContain('Data Absensi');
+      expect(texts).toContain('Siti Nurhaliza');
+      expect(texts).toContain('Sakit demam');
+      expect(texts).toContain('Halaman 1 dari 1');
+    });
+
+    it('should paginate long reports and repeat the table header on every page', async () => {
+      const testData = await createTestData();
+
+      // One record a day going back, before the records of createTestData
+      const start = new Date();
+      start.setHours(8, 0, 0, 0);
+      start.setDate(start.getDate() - 2);
+      await db.insert(absensiTable)
+        .values(Array.from({ length: 300 }, (_, index) => {
+          const tanggal = new Date(start);
+          tanggal.setDate(tanggal.getDate() - index);
+          return {
+            siswa_id: testData.siswa1.id,
+            guru_id: testData.guru.id,
+            kelas_id: testData.kelas.id,
+            status: 'hadir' as const,
+            tanggal,
+            tanggal_hari: toDateKey(tanggal, serverTimezone()),
+            waktu_masuk: '07:00:00'
+          };
+        }))
+        .execute();
+
+      const result = await exportAbsensiToPDF({ limit: 500, offset: 0 }, testData.guruUser.id);
+      expect(result.message).toContain('304 record absensi');
+
+      const file = await getFileEkspor(downloadId(result.downloadUrl), testData.guruUser.id);
+      const pages = pageCount(file!.data);
+      expect(pages).toBeGreaterThan(5);
+
+      const texts = pdfText(file!.data);
+      expect(texts.filter(text => text === 'Guru Pencatat')).toHaveLength(pages);
+      expect(texts).toContain('304');
+      expect(texts).toContain(`Halaman ${pages} dari ${pages}`);
+    });
+
+    it('should only let the user who generated an export download it', async () => {
+      const testData = await createTestData();
+
+      const result = await exportAbsensiToPDF({ limit: 50, offset: 0 }, testData.guruUser.id);
+      const id = downloadId(result.downloadUrl);
+
+      expect(await getFileEkspor(id, testData.guruUser.id)).not.toBeNull();
+      expect(await getFileEkspor(id, testData.adminUser.id)).toBeNull();
+      expect(await getFileEkspor('00000000-0000-0000-0000-000000000000', testData.guruUser.id)).toBeNull();
+    });
+
+    it('should delete expired exports', async () => {
+      const testData = await createTestData();
+
+      const result = await exportAbsensiToPDF({ limit: 50, offset: 0 }, testData.guruUser.id);
+      const id = downloadId(result.downloadUrl);
+      const later = new Date(Date.now() + 48 * 60 * 60 * 1000);
+
+      expect(await purgeExpiredFileEkspor()).toBe(0);
+      expect(await getFileEkspor(id, testData.guruUser.id, later)).toBeNull();
+      expect(await purgeExpiredFileEkspor(later)).toBe(1);
+      expect(await db.select().from(fileEksporTable).execute()).toHaveLength(0);
+      expect(await storage.get(`exports/${id}`)).toBeNull();
+    });
   });
 
   describe('exportAbsensiToExcel', () => {
     it('should export absensi to Excel successfully', async () => {
-      await createTestData();
+      const testData = await createTestData();
 
       const input: GetAbsensiHistoryInput = {
         limit: 50,
         offset: 0
       };
 
-      const result = await exportAbsensiToExcel(input);
+      const result = await exportAbsensiToExcel(input, testData.guruUser.id);
 
       expect(result.success).toBe(true);
       expect(result.downloadUrl).toBeDefined();
-      expect(result.downloadUrl).toMatch(/\/exports\/excel\/absensi_export_\d{8}_\d{6}\.xlsx/);
+      expect(result.downloadUrl).toMatch(/^\/exports\/[0-9a-f-]{36}\/absensi_export_\d{8}_\d{6}\.xlsx$/);
       expect(result.message).toContain('Excel berhasil dibuat dengan');
-      expect(result.message).toContain('dalam 2 sheet');
+      expect(result.message).toContain('dalam 3 sheet');
+    });
+
+    it('should store a workbook with typed cells, frozen filtered headers and status colours', async () => {
+      const testData = await createTestData();
+
+      const result = await exportAbsensiToExcel({ siswa_id: testData.siswa1.id, limit: 50, offset: 0 }, testData.guruUser.id);
+
+      const file = await getFileEkspor(downloadId(result.downloadUrl), testData.guruUser.id);
+      expect(file!.mime_type).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      expect(file!.data.subarray(0, 2).toString()).toBe('PK');
+
+      const parts = xlsxParts(file!.data);
+      expect(Object.keys(parts)).toEqual(expect.arrayContaining([
+        '[Content_Types].xml',
+        'xl/workbook.xml',
+        'xl/styles.xml',
+        'xl/worksheets/sheet1.xml',
+        'xl/worksheets/sheet2.xml',
+        'xl/worksheets/sheet3.xml'
+      ]));
+      expect(parts['xl/workbook.xml']).toContain('<sheet name="Ringkasan" sheetId="1" r:id="rId1"/>');
+      expect(parts['xl/workbook.xml']).toContain('<sheet name="Data Absensi" sheetId="2" r:id="rId2"/>');
+      expect(parts['xl/workbook.xml']).toContain('<sheet name="Statistik" sheetId="3" r:id="rId3"/>');
+
+      // Summary: title and filter lines, then one row per siswa below the frozen header
+      const ringkasan = parts['xl/worksheets/sheet1.xml'];
+      expect(ringkasan).toContain('Laporan Absensi Siswa');
+      expect(ringkasan).toContain('Ahmad Fadli (1234567890)');
+      expect(ringkasan).toContain('<pane ySplit="8" topLeftCell="A9" activePane="bottomLeft" state="frozen"/>');
+      expect(ringkasan).toContain('<autoFilter ref="A8:K9"/>');
+
+      // Records: newest first, dates and times as serial numbers
+      const data = parts['xl/worksheets/sheet2.xml'];
+      expect(data).toContain('<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>');
+      expect(data).toContain('<autoFilter ref="A1:K3"/>');
+      const today = new Date();
+      today.setHours(8, 0, 0, 0);
+      const serial = Date.parse(`${toDateKey(today, serverTimezone())}T00:00:00Z`) / 86400000 + 25569;
+      expect(data).toMatch(new RegExp(`<c r="A2" s="\\d+"><v>${serial}</v></c>`));
+      expect(data).toMatch(/<c r="F2" s="\d+"><v>0.3125<\/v><\/c>/); // 07:30:00
+
+      // Status cells are filled by status
+      const styles = parts['xl/styles.xml'];
+      expect(styles).toContain('<fgColor rgb="FFC6EFCE"/>');
+      expect(styles).toContain('<fgColor rgb="FFFFC7CE"/>');
+      expect(styles).toContain('<numFmt numFmtId="164" formatCode="dd/mm/yyyy"/>');
+      expect(data).toMatch(/<c r="E2" s="\d+" t="inlineStr"><is><t xml:space="preserve">HADIR<\/t><\/is><\/c>/);
+
+      expect(parts['xl/worksheets/sheet3.xml']).toContain('TOTAL');
     });
 
     it('should handle filtered Excel export by kelas', async () => {
@@ -331,13 +584,27 @@ describe('Export Handlers', () => {
         offset: 0
       };
 
-      const result = await exportAbsensiToExcel(input);
+      const result = await exportAbsensiToExcel(input, testData.guruUser.id);
 
       expect(result.success).toBe(true);
       expect(result.downloadUrl).toBeDefined();
       expect(result.message).toContain('4 record absensi'); // All 4 records from the class
     });
 
+    it('should count only the records of the chosen siswa in the Statistik sheet', async () => {
+      const testData = await createTestData();
+
+      const result = await exportAbsensiToExcel({ siswa_id: testData.siswa1.id }, testData.guruUser.id);
+
+      const file = await getFileEkspor(downloadId(result.downloadUrl), testData.guruUser.id);
+      const statistik = xlsxParts(file!.data)['xl/worksheets/sheet3.xml'];
+      // Rows follow the header: hadir, terlambat, izin, sakit, alpha, then TOTAL
+      expect(statistik).toMatch(/<c r="B2"(?: s="\d+")?><v>1<\/v><\/c>/);
+      expect(statistik).toMatch(/<c r="B4"(?: s="\d+")?><v>0<\/v><\/c>/);
+      expect(statistik).toMatch(/<c r="B5"(?: s="\d+")?><v>0<\/v><\/c>/);
+      expect(statistik).toMatch(/<c r="B7"(?: s="\d+")?><v>2<\/v><\/c>/);
+    });
+
     it('should handle no data found for Excel export', async () => {
       const input: GetAbsensiHistoryInput = {
         kelas_id: 99999, // Non-existent kelas
@@ -345,22 +612,49 @@ describe('Export Handlers', () => {
         offset: 0
       };
 
-      const result = await exportAbsensiToExcel(input);
+      const result = await exportAbsensiToExcel(input, 1);
 
       expect(result.success).toBe(false);
       expect(result.downloadUrl).toBeUndefined();
       expect(result.message).toBe('Tidak ada data absensi yang ditemukan untuk kriteria yang diberikan');
     });
 
+    it('should export every matching record when no limit is given', async () => {
+      const testData = await createTestData();
+
+      const start = new Date();
+      start.setHours(8, 0, 0, 0);
+      start.setDate(start.getDate() - 2);
+      await db.insert(absensiTable)
+        .values(Array.from({ length: 60 }, (_, index) => {
+          const tanggal = new Date(start);
+          tanggal.setDate(tanggal.getDate() - index);
+          return {
+            siswa_id: testData.siswa1.id,
+            guru_id: testData.guru.id,
+            kelas_id: testData.kelas.id,
+            status: 'hadir' as const,
+            tanggal,
+            tanggal_hari: toDateKey(tanggal, serverTimezone())
+          };
+        }))
+        .execute();
+
+      const result = await exportAbsensiToExcel({}, testData.guruUser.id);
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('64 record absensi');
+    });
+
     it('should handle pagination parameters', async () => {
-      await createTestData();
+      const testData = await createTestData();
 
       const input: GetAbsensiHistoryInput = {
         limit: 2,
         offset: 1
       };
 
-      const result = await exportAbsensiToExcel(input);
+      const result = await exportAbsensiToExcel(input, testData.guruUser.id);
 
       expect(result.success).toBe(true);
       expect(result.message).toContain('2 record absensi'); // Limited to 2 records
@@ -369,7 +663,7 @@ describe('Export Handlers', () => {
 
   describe('generateRekapAbsensi', () => {
     it('should generate PDF recap successfully', async () => {
-      await createTestData();
+      const testData = await createTestData();
 
       // Use a wider date range to ensure we capture all test data
       const startDate = new Date();
@@ -384,17 +678,25 @@ describe('Export Handlers', () => {
         format: 'pdf' as const
       };
 
-      const result = await generateRekapAbsensi(input);
+      const result = await generateRekapAbsensi(input, testData.guruUser.id);
 
       expect(result.success).toBe(true);
       expect(result.downloadUrl).toBeDefined();
-      expect(result.downloadUrl).toMatch(/\/exports\/pdf\/rekap_absensi_\d{8}_\d{8}\.pdf/);
+      expect(result.downloadUrl).toMatch(/^\/exports\/[0-9a-f-]{36}\/rekap_absensi_\d{8}_\d{8}\.pdf$/);
       expect(result.message).toContain('Rekap absensi berhasil dibuat dalam format PDF');
       expect(result.message).toContain('4 record dari 2 siswa'); // Should contain all 4 records
+
+      const file = await getFileEkspor(downloadId(result.downloadUrl), testData.guruUser.id);
+      const texts = pdfText(file!.data);
+      expect(texts).toContain('Rekap Absensi Siswa');
+      expect(texts).toContain(': Semua Kelas');
+      expect(texts).toContain('Rekap per Siswa');
+      expect(texts).toContain('Rekap Harian');
+      expect(texts).toContain('Ahmad Fadli');
     });
 
     it('should generate Excel recap successfully', async () => {
-      await createTestData();
+      const testData = await createTestData();
 
       const startDate = new Date();
       startDate.setDate(startDate.getDate() - 5);
@@ -406,12 +708,18 @@ describe('Export Handlers', () => {
         format: 'excel' as const
       };
 
-      const result = await generateRekapAbsensi(input);
+      const result = await generateRekapAbsensi(input, testData.guruUser.id);
 
       expect(result.success).toBe(true);
       expect(result.downloadUrl).toBeDefined();
-      expect(result.downloadUrl).toMatch(/\/exports\/excel\/rekap_absensi_\d{8}_\d{8}\.xlsx/);
+      expect(result.downloadUrl).toMatch(/^\/exports\/[0-9a-f-]{36}\/rekap_absensi_\d{8}_\d{8}\.xlsx$/);
       expect(result.message).toContain('Rekap absensi berhasil dibuat dalam format EXCEL');
+
+      const file = await getFileEkspor(downloadId(result.downloadUrl), testData.guruUser.id);
+      const parts = xlsxParts(file!.data);
+      expect(parts['xl/workbook.xml']).toContain('<sheet name="Rekap Harian" sheetId="3" r:id="rId3"/>');
+      expect(parts['xl/worksheets/sheet1.xml']).toContain('Rekap Absensi Siswa');
+      expect(parts['xl/worksheets/sheet3.xml']).toContain('<autoFilter ref="A1:F3"/>'); // Two days
     });
 
     it('should generate recap filtered by kelas', async () => {
@@ -431,7 +739,7 @@ describe('Export Handlers', () => {
         format: 'pdf' as const
       };
 
-      const result = await generateRekapAbsensi(input);
+      const result = await generateRekapAbsensi(input, testData.guruUser.id);
 
       expect(result.success).toBe(true);
       expect(result.downloadUrl).toBeDefined();
@@ -450,7 +758,7 @@ describe('Export Handlers', () => {
         format: 'pdf' as const
       };
 
-      const result = await generateRekapAbsensi(input);
+      const result = await generateRekapAbsensi(input, 1);
 
       expect(result.success).toBe(false);
       expect(result.downloadUrl).toBeUndefined();
@@ -458,7 +766,7 @@ describe('Export Handlers', () => {
     });
 
     it('should handle date range properly in recap', async () => {
-      await createTestData();
+      const testData = await createTestData();
 
       // Use proper date boundaries
       const today = new Date();
@@ -474,7 +782,7 @@ describe('Export Handlers', () => {
         format: 'excel' as const
       };
 
-      const result = await generateRekapAbsensi(input);
+      const result = await generateRekapAbsensi(input, testData.guruUser.id);
 
       expect(result.success).toBe(true);
       expect(result.message).toContain('2 record'); // Only yesterday's records
@@ -490,7 +798,7 @@ describe('Export Handlers', () => {
         offset: 0
       };
 
-      const result = await exportAbsensiToPDF(input);
+      const result = await exportAbsensiToPDF(input, 1);
 
       // Should handle gracefully - no matching records
       expect(result.success).toBe(false);
@@ -504,7 +812,7 @@ describe('Export Handlers', () => {
         offset: 0
       };
 
-      const result = await exportAbsensiToExcel(input);
+      const result = await exportAbsensiToExcel(input, 1);
 
       expect(result.success).toBe(false);
       expect(result.message).toBe('Tidak ada data absensi yang ditemukan untuk kriteria yang diberikan');
@@ -521,7 +829,7 @@ describe('Export Handlers', () => {
         format: 'pdf' as const
       };
 
-      const result = await generateRekapAbsensi(input);
+      const result = await generateRekapAbsensi(input, 1);
 
       expect(result.success).toBe(false);
       expect(result.message).toBe('Tidak ada data absensi yang ditemukan untuk periode yang dipilih');
@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { resetDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  guruTable,
+  kelasTable,
+  siswaTable,
+  mataPelajaranTable,
+  jadwalPelajaranTable,
+  absensiTable,
+  settingsTable,
+  kalenderAkademikTable,
+  roleEnum,
+  attendanceStatusEnum,
+  jenisKalenderEnum
+} from '../db/schema';
+import { absenMasuk, deleteAbsensi } from '../handlers/absensi';
+import { getTodayFotoAbsensi, purgeExpiredFotoAbsensi } from '../handlers/foto_absensi';
+import {
+  createLocalFileStorage,
+  createMemoryFileStorage,
+  setFileStorage,
+  type FileStorage
+} from '../utils/file_storage';
+import { signQrToken } from '../utils/qr_token';
+import { CheckInError } from '../utils/check_in_error';
+import { fotoDataUrlSchema } from '../schema';
+import { eq } from 'drizzle-orm';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+
+// Only the tables needed for check-in photo tests
+const createDB = async () => {
+  const limitedSchema = {
+    roleEnum,
+    attendanceStatusEnum,
+    jenisKalenderEnum,
+    usersTable,
+    guruTable,
+    kelasTable,
+    siswaTable,
+    mataPelajaranTable,
+    jadwalPelajaranTable,
+    absensiTable,
+    settingsTable,
+    kalenderAkademikTable
+  };
+
+  const migrationStatements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson({ ...limitedSchema })
+  );
+  await db.execute(migrationStatements.join('\n'));
+};
+
+// Smallest byte sequences the image check accepts
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+
+const dataUrl = (mimeType: string, data: Buffer) => `data:${mimeType};base64,${data.toString('base64')}`;
+
+describe('fotoDataUrlSchema', () => {
+  it('should accept base64 image data URLs only', () => {
+    expect(fotoDataUrlSchema.safeParse(dataUrl('image/jpeg', JPEG)).success).toBe(true);
+    expect(fotoDataUrlSchema.safeParse(dataUrl('image/gif', JPEG)).success).toBe(false);
+    expect(fotoDataUrlSchema.safeParse('https://example.com/selfie.jpg').success).toBe(false);
+  });
+});
+
+describe('createLocalFileStorage', () => {
+  let root: string;
+  let storage: FileStorage;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'absenku-storage-'));
+    storage = createLocalFileStorage(root);
+  });
+
+  afterEach(() => rm(root, { recursive: true, force: true }));
+
+  it('should write, read and delete files under its directory', async () => {
+    await storage.put('absensi/2024-01-15/1-masuk', JPEG);
+    expect(await storage.get('absensi/2024-01-15/1-masuk')).toEqual(JPEG);
+
+    await storage.delete('absensi/2024-01-15/1-masuk');
+    expect(await storage.get('absensi/2024-01-15/1-masuk')).toBeNull();
+    await storage.delete('absensi/2024-01-15/1-masuk'); // Deleting twice is fine
+  });
+
+  it('should refuse keys leaving its directory', async () => {
+    await expect(storage.put('../outside', JPEG)).rejects.toThrow(/invalid storage key/i);
+    await expect(storage.get('/etc/passwd')).rejects.toThrow(/invalid storage key/i);
+  });
+});
+
+describe('foto absensi', () => {
+  let storage: FileStorage;
+  let kelasId: number;
+  let siswaId: number;
+
+  const qrToken = () => signQrToken({ kelas_id: kelasId, lokasi: null }).token;
+
+  beforeEach(async () => {
+    await resetDB();
+    await createDB();
+    storage = createMemoryFileStorage();
+    setFileStorage(storage);
+
+    const [guruUser, siswaUser] = await db.insert(usersTable)
+      .values([
+        { nip: '111', password_hash: 'hash', role: 'guru' },
+        { nisn: '001', password_hash: 'hash', role: 'siswa' }
+      ])
+      .returning()
+      .execute();
+
+    const [guru] = await db.insert(guruTable)
+      .values({ user_id: guruUser.id, nip: '111', nama: 'Guru Satu' })
+      .returning()
+      .execute();
+
+    const [kelas] = await db.insert(kelasTable)
+      .values({ nama_kelas: 'X-1', wali_kelas_id: guru.id })
+      .returning()
+      .execute();
+    kelasId = kelas.id;
+
+    const [siswa] = await db.insert(siswaTable)
+      .values({ user_id: siswaUser.id, nisn: '001', nama: 'Ani', kelas_id: kelasId })
+      .returning()
+      .execute();
+    siswaId = siswa.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should store the selfie and show it to the guru', async () => {
+    const result = await absenMasuk({ siswa_id: siswaId, qr_token: qrToken(), foto: dataUrl('image/jpeg', JPEG) });
+
+    expect(result.foto_masuk).not.toBeNull();
+    expect(await storage.get(result.foto_masuk!)).toEqual(JPEG);
+
+    const fotos = await getTodayFotoAbsensi(kelasId);
+    expect(fotos).toEqual([{ absensi_id: result.id, siswa_id: siswaId, foto: dataUrl('image/jpeg', JPEG) }]);
+  });
+
+  it('should check in without a selfie', async () => {
+    const result = await absenMasuk({ siswa_id: siswaId, qr_token: qrToken() });
+
+    expect(result.foto_masuk).toBeNull();
+    expect(await getTodayFotoAbsensi(kelasId)).toEqual([]);
+  });
+
+  it('should keep the first selfie when checking in again', async () => {
+    const first = await absenMasuk({ siswa_id: siswaId, qr_token: qrToken(), foto: dataUrl('image/jpeg', JPEG) });
+    const error = await absenMasuk({ siswa_id: siswaId, qr_token: qrToken(), foto: dataUrl('image/png', PNG) }).catch(e => e);
+
+    expect(error).toBeInstanceOf(CheckInError);
+    expect(error.code).toEqual('ALREADY_CHECKED_IN');
+    const [record] = await db.select().from(absensiTable).execute();
+    expect(record.foto_masuk).toEqual(first.foto_masuk);
+    expect(await storage.get(first.foto_masuk!)).toEqual(JPEG);
+  });
+
+  it('should refuse files that are not images', async () => {
+    const notAnImage = dataUrl('image/jpeg', Buffer.from('<html>not a photo</html>'));
+
+    const error = await absenMasuk({ siswa_id: siswaId, qr_token: qrToken(), foto: notAnImage }).catch(e => e);
+
+    expect(error).toBeInstanceOf(CheckInError);
+    expect(error.code).toEqual('PHOTO_INVALID');
+    expect(await db.select().from(absensiTable).execute()).toHaveLength(0);
+  });
+
+  it('should delete the selfie with its record', async () => {
+    const result = await absenMasuk({ siswa_id: siswaId, qr_token: qrToken(), foto: dataUrl('image/jpeg', JPEG) });
+
+    await deleteAbsensi(result.id);
+
+    expect(await storage.get(result.foto_masuk!)).toBeNull();
+  });
+
+  it('should purge selfies past the retention period only', async () => {
+    const result = await absenMasuk({ siswa_id: siswaId, qr_token: qrToken(), foto: dataUrl('image/jpeg', JPEG) });
+
+    expect(await purgeExpiredFotoAbsensi(new Date())).toEqual(0);
+
+    const later = new Date(Date.now() + 31 * 24 * 60 * 60 * 1000);
+    expect(await purgeExpiredFotoAbsensi(later)).toEqual(1);
+
+    const [record] = await db.select().from(absensiTable).where(eq(absensiTable.id, result.id)).execute();
+    expect(record.foto_masuk).toBeNull();
+    expect(record.waktu_masuk).toEqual(result.waktu_masuk);
+    expect(await storage.get(result.foto_masuk!)).toBeNull();
+  });
+});
@@ -44,6 +44,7 @@ const createGuruTestDB = async () => {
       nisn TEXT,
       password_hash TEXT NOT NULL,
       role role NOT NULL,
+      must_change_password boolean DEFAULT false NOT NULL,
       created_at TIMESTAMP DEFAULT NOW() NOT NULL,
       updated_at TIMESTAMP DEFAULT NOW() NOT NULL
     )
@@ -0,0 +1,336 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  guruTable,
+  kelasTable,
+  siswaTable,
+  mataPelajaranTable,
+  jadwalPelajaranTable,
+  absensiTable,
+  settingsTable,
+  kalenderAkademikTable,
+  roleEnum,
+  attendanceStatusEnum,
+  jenisKalenderEnum
+} from '../db/schema';
+import { createMataPelajaran, updateMataPelajaran, deleteMataPelajaran, getAllMataPelajaran } from '../handlers/mata_pelajaran';
+import {
+  createJadwalPelajaran,
+  updateJadwalPelajaran,
+  getJadwalPelajaran,
+  getJadwalSaatIni
+} from '../handlers/jadwal_pelajaran';
+import {
+  createAbsensi,
+  updateAbsensi,
+  deleteAbsensi,
+  getAbsensiHistory,
+  getAbsensiStats,
+  getAbsensiPelajaran
+} from '../handlers/absensi';
+import { updateDailyStatusRule } from '../handlers/settings';
+import { deriveDailyStatus } from '../utils/daily_status';
+import { and, eq, isNull } from 'drizzle-orm';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+
+// Only the tables needed for timetable tests
+const createDB = async () => {
+  const limitedSchema = {
+    roleEnum,
+    attendanceStatusEnum,
+    jenisKalenderEnum,
+    usersTable,
+    guruTable,
+    kelasTable,
+    siswaTable,
+    mataPelajaranTable,
+    jadwalPelajaranTable,
+    absensiTable,
+    settingsTable,
+    kalenderAkademikTable
+  };
+
+  const migrationStatements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson({ ...limitedSchema })
+  );
+  await db.execute(migrationStatements.join('\n'));
+};
+
+describe('deriveDailyStatus', () => {
+  const lessons = [
+    { status: 'alpha' as const, jam_mulai: '07:00' },
+    { status: 'terlambat' as const, jam_mulai: '08:30' },
+    { status: 'hadir' as const, jam_mulai: '10:00' },
+    { status: 'sakit' as const, jam_mulai: '11:30' }
+  ];
+
+  it('should return null without lesson records', () => {
+    expect(deriveDailyStatus('mayoritas', [])).toBeNull();
+  });
+
+  it('should apply each rule', () => {
+    expect(deriveDailyStatus('pelajaran_pertama', lessons)).toEqual('alpha');
+    expect(deriveDailyStatus('mayoritas', lessons)).toEqual('terlambat');
+    expect(deriveDailyStatus('mayoritas', lessons.slice(0, 2).concat(lessons[3]))).toEqual('alpha');
+    expect(deriveDailyStatus('minimal_satu_hadir', [lessons[3], lessons[2]])).toEqual('hadir');
+    expect(deriveDailyStatus('minimal_satu_hadir', [lessons[3], lessons[0]])).toEqual('alpha');
+  });
+});
+
+describe('jadwal pelajaran', () => {
+  let guruIds: number[];
+  let kelasIds: number[];
+  let siswaIds: number[];
+  let matematikaId: number;
+  let fisikaId: number;
+
+  // 2024-08-12 is a Monday
+  const monday = new Date(2024, 7, 12);
+  const slot = (values: Partial<Parameters<typeof createJadwalPelajaran>[0]>) => ({
+    kelas_id: kelasIds[0],
+    mata_pelajaran_id: matematikaId,
+    guru_id: guruIds[0],
+    hari: 1,
+    jam_mulai: '07:00',
+    jam_selesai: '08:30',
+    ...values
+  });
+
+  beforeEach(async () => {
+    await resetDB();
+    await createDB();
+
+    const [guruUser1, guruUser2, siswaUser1, siswaUser2, siswaUser3] = await db.insert(usersTable)
+      .values([
+        { nip: '111', password_hash: 'hash', role: 'guru' },
+        { nip: '222', password_hash: 'hash', role: 'guru' },
+        { nisn: '001', password_hash: 'hash', role: 'siswa' },
+        { nisn: '002', password_hash: 'hash', role: 'siswa' },
+        { nisn: '003', password_hash: 'hash', role: 'siswa' }
+      ])
+      .returning()
+      .execute();
+
+    const guru = await db.insert(guruTable)
+      .values([
+        { user_id: guruUser1.id, nip: '111', nama: 'Guru Satu' },
+        { user_id: guruUser2.id, nip: '222', nama: 'Guru Dua' }
+      ])
+      .returning()
+      .execute();
+    guruIds = guru.map(g => g.id);
+
+    const kelas = await db.insert(kelasTable)
+      .values([
+        { nama_kelas: 'X-1', wali_kelas_id: guruIds[0] },
+        { nama_kelas: 'X-2', wali_kelas_id: guruIds[1] }
+      ])
+      .returning()
+      .execute();
+    kelasIds = kelas.map(k => k.id);
+
+    const siswa = await db.insert(siswaTable)
+      .values([
+        { user_id: siswaUser1.id, nisn: '001', nama: 'Ani', kelas_id: kelasIds[0] },
+        { user_id: siswaUser2.id, nisn: '002', nama: 'Budi', kelas_id: kelasIds[0] },
+        { user_id: siswaUser3.id, nisn: '003', nama: 'Citra', kelas_id: kelasIds[1] }
+      ])
+      .returning()
+      .execute();
+    siswaIds = siswa.map(s => s.id);
+
+    matematikaId = (await createMataPelajaran({ kode: 'MTK', nama: 'Matematika' })).id;
+    fisikaId = (await createMataPelajaran({ kode: 'FIS', nama: 'Fisika' })).id;
+  });
+
+  afterEach(resetDB);
+
+  describe('mata pelajaran', () => {
+    it('should keep subject codes unique', async () => {
+      await expect(createMataPelajaran({ kode: 'MTK', nama: 'Matematika Wajib' })).rejects.toThrow(/already exists/i);
+      await expect(updateMataPelajaran({ id: fisikaId, kode: 'MTK' })).rejects.toThrow(/already exists/i);
+
+      const updated = await updateMataPelajaran({ id: matematikaId, kode: 'MTK', nama: 'Matematika Wajib' });
+      expect(updated.nama).toEqual('Matematika Wajib');
+    });
+
+    it('should delete a subject with its timetable slots', async () => {
+      await createJadwalPelajaran(slot({}));
+
+      await deleteMataPelajaran(matematikaId);
+
+      expect((await getAllMataPelajaran()).map(m => m.kode)).toEqual(['FIS']);
+      expect(await getJadwalPelajaran({})).toHaveLength(0);
+      await expect(deleteMataPelajaran(matematikaId)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('timetable', () => {
+    it('should reject lessons overlapping in the same kelas or for the same guru', async () => {
+      await createJadwalPelajaran(slot({}));
+
+      await expect(createJadwalPelajaran(slot({ mata_pelajaran_id: fisikaId, guru_id: guruIds[1], jam_mulai: '08:00', jam_selesai: '09:00' })))
+        .rejects.toThrow(/lesson of the kelas/i);
+      await expect(createJadwalPelajaran(slot({ kelas_id: kelasIds[1], jam_mulai: '08:00', jam_selesai: '09:00' })))
+        .rejects.toThrow(/lesson of the guru/i);
+
+      // Back-to-back lessons and other days are fine
+      await createJadwalPelajaran(slot({ mata_pelajaran_id: fisikaId, guru_id: guruIds[1], jam_mulai: '08:30', jam_selesai: '10:00' }));
+      await createJadwalPelajaran(slot({ hari: 2 }));
+
+      const timetable = await getJadwalPelajaran({ kelas_id: kelasIds[0], hari: 1 });
+      expect(timetable.map(j => j.nama_mata_pelajaran)).toEqual(['Matematika', 'Fisika']);
+      expect(timetable[1].nama_guru).toEqual('Guru Dua');
+    });
+
+    it('should validate updates against the other slots', async () => {
+      const first = await createJadwalPelajaran(slot({}));
+      await createJadwalPelajaran(slot({ mata_pelajaran_id: fisikaId, jam_mulai: '08:30', jam_selesai: '10:00' }));
+
+      await expect(updateJadwalPelajaran({ id: first.id, jam_selesai: '09:00' })).rejects.toThrow(/overlaps/i);
+      await expect(updateJadwalPelajaran({ id: first.id, jam_mulai: '09:00' })).rejects.toThrow(/must be before/i);
+
+      const moved = await updateJadwalPelajaran({ id: first.id, jam_mulai: '06:30', jam_selesai: '08:00' });
+      expect(moved.jam_mulai).toEqual('06:30');
+    });
+
+    it('should find the lesson currently in session for a guru', async () => {
+      const jadwal = await createJadwalPelajaran(slot({}));
+
+      expect((await getJadwalSaatIni(guruIds[0], new Date(2024, 7, 12, 7, 45)))?.id).toEqual(jadwal.id);
+      expect(await getJadwalSaatIni(guruIds[0], new Date(2024, 7, 12, 8, 30))).toBeNull();
+      expect(await getJadwalSaatIni(guruIds[0], new Date(2024, 7, 13, 7, 45))).toBeNull();
+      expect(await getJadwalSaatIni(guruIds[1], new Date(2024, 7, 12, 7, 45))).toBeNull();
+    });
+  });
+
+  describe('lesson attendance', () => {
+    let matematika: number;
+    let fisika: number;
+
+    beforeEach(async () => {
+      matematika = (await createJadwalPelajaran(slot({}))).id;
+      fisika = (await createJadwalPelajaran(slot({ mata_pelajaran_id: fisikaId, guru_id: guruIds[1], jam_mulai: '08:30', jam_selesai: '10:00' }))).id;
+    });
+
+    const recordLesson = (siswaIndex: number, jadwalId: number, status: 'hadir' | 'terlambat' | 'izin' | 'sakit' | 'alpha', hour: number) =>
+      createAbsensi({
+        siswa_id: siswaIds[siswaIndex],
+        guru_id: null,
+        kelas_id: kelasIds[0],
+        status,
+        tanggal: new Date(2024, 7, 12, hour, 0),
+        waktu_masuk: null,
+        waktu_pulang: null,
+        keterangan: null,
+        jadwal_pelajaran_id: jadwalId
+      });
+
+    const dailyRecord = async (siswaIndex: number) => {
+      const rows = await db.select()
+        .from(absensiTable)
+        .where(and(eq(absensiTable.siswa_id, siswaIds[siswaIndex]), isNull(absensiTable.jadwal_pelajaran_id)))
+        .execute();
+      expect(rows.length).toBeLessThanOrEqual(1);
+      return rows[0] ?? null;
+    };
+
+    it('should derive the daily record from the lesson records', async () => {
+      await recordLesson(0, matematika, 'hadir', 7);
+      expect((await dailyRecord(0))?.status).toEqual('hadir');
+
+      // With the default majority rule one lesson out of two is enough to count as present
+      await recordLesson(0, fisika, 'alpha', 9);
+      expect((await dailyRecord(0))?.status).toEqual('hadir');
+
+      await updateDailyStatusRule({ aturan: 'pelajaran_pertama' }, null);
+      const lessons = await getAbsensiHistory({ siswa_id: siswaIds[0], jadwal_pelajaran_id: matematika, limit: 50, offset: 0 });
+      await updateAbsensi({ id: lessons[0].id, status: 'alpha' });
+      expect((await dailyRecord(0))?.status).toEqual('alpha');
+    });
+
+    it('should keep an absence recorded for the day', async () => {
+      await db.insert(absensiTable)
+        .values({ siswa_id: siswaIds[0], kelas_id: kelasIds[0], status: 'izin', keterangan: 'Acara keluarga', tanggal: new Date(2024, 7, 12), tanggal_hari: '2024-08-12' })
+        .execute();
+
+      await recordLesson(0, matematika, 'hadir', 7);
+
+      const daily = await dailyRecord(0);
+      expect(daily?.status).toEqual('izin');
+      expect(daily?.keterangan).toEqual('Acara keluarga');
+    });
+
+    it('should count only daily records in history and stats', async () => {
+      await recordLesson(0, matematika, 'hadir', 7);
+      await recordLesson(0, fisika, 'hadir', 9);
+      await recordLesson(1, matematika, 'sakit', 7);
+
+      const history = await getAbsensiHistory({ kelas_id: kelasIds[0], limit: 50, offset: 0 });
+      expect(history).toHaveLength(2);
+      expect(history.every(row => row.jadwal_pelajaran_id === null)).toBe(true);
+
+      const stats = await getAbsensiStats(kelasIds[0]);
+      expect(stats.hadir).toEqual(1);
+      expect(stats.sakit).toEqual(1);
+    });
+
+    it('should keep lateness recorded at check-in', async () => {
+      await db.insert(absensiTable)
+        .values({ siswa_id: siswaIds[0], kelas_id: kelasIds[0], status: 'terlambat', menit_terlambat: 12, tanggal: new Date(2024, 7, 12, 7, 12), tanggal_hari: '2024-08-12' })
+        .execute();
+
+      await recordLesson(0, matematika, 'hadir', 7);
+
+      const daily = await dailyRecord(0);
+      expect(daily?.status).toEqual('terlambat');
+      expect(daily?.menit_terlambat).toEqual(12);
+    });
+
+    it('should recompute the daily record when a lesson record is deleted', async () => {
+      await recordLesson(0, matematika, 'hadir', 7);
+      const alpha = await recordLesson(0, fisika, 'alpha', 9);
+      await updateDailyStatusRule({ aturan: 'pelajaran_pertama' }, null);
+      const first = (await getAbsensiHistory({ siswa_id: siswaIds[0], jadwal_pelajaran_id: matematika, limit: 50, offset: 0 }))[0];
+
+      await deleteAbsensi(first.id);
+
+      expect((await dailyRecord(0))?.status).toEqual('alpha');
+      expect((await getAbsensiHistory({ siswa_id: siswaIds[0], jadwal_pelajaran_id: fisika, limit: 50, offset: 0 }))[0].id).toEqual(alpha.id);
+    });
+
+    it('should reject siswa outside the kelas of the lesson and replace duplicate records', async () => {
+      await expect(createAbsensi({
+        siswa_id: siswaIds[2],
+        guru_id: null,
+        kelas_id: kelasIds[1],
+        status: 'hadir',
+        tanggal: monday,
+        waktu_masuk: null,
+        waktu_pulang: null,
+        keterangan: null,
+        jadwal_pelajaran_id: matematika
+      })).rejects.toThrow(/not in the kelas/i);
+
+      const first = await recordLesson(0, matematika, 'hadir', 7);
+      const second = await recordLesson(0, matematika, 'alpha', 8);
+
+      expect(second.id).toEqual(first.id);
+      expect(second.status).toEqual('alpha');
+      expect(await getAbsensiHistory({ siswa_id: siswaIds[0], jadwal_pelajaran_id: matematika, limit: 50, offset: 0 })).toHaveLength(1);
+    });
+
+    it('should list the attendance sheet of a lesson', async () => {
+      await recordLesson(1, matematika, 'izin', 7);
+
+      const sheet = await getAbsensiPelajaran({ jadwal_pelajaran_id: matematika, tanggal: monday });
+
+      expect(sheet.map(row => row.siswa.nama)).toEqual(['Ani', 'Budi']);
+      expect(sheet[0].absensi).toBeNull();
+      expect(sheet[1].absensi?.status).toEqual('izin');
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  guruTable,
+  kelasTable,
+  settingsTable,
+  kalenderAkademikTable,
+  roleEnum,
+  jenisKalenderEnum
+} from '../db/schema';
+import { createKalenderAkademikInputSchema, type CreateKalenderAkademikInput } from '../schema';
+import {
+  createKalenderAkademik,
+  updateKalenderAkademik,
+  deleteKalenderAkademik,
+  getKalenderAkademik,
+  getKalenderAkademikById,
+  isSchoolDayForKelas,
+  countSchoolDaysForKelas
+} from '../handlers/kalender_akademik';
+import { updateWeekend } from '../handlers/settings';
+import { isSchoolDay, countSchoolDays } from '../utils/school_calendar';
+import { serverTimezone } from '../utils/school_date';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+
+// Only the tables needed for kalender akademik tests
+const createDB = async () => {
+  const limitedSchema = {
+    roleEnum,
+    jenisKalenderEnum,
+    usersTable,
+    guruTable,
+    kelasTable,
+    settingsTable,
+    kalenderAkademikTable
+  };
+
+  const migrationStatements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson({ ...limitedSchema })
+  );
+  await db.execute(migrationStatements.join('\n'));
+};
+
+// 2024-08-17 (Saturday) is Hari Kemerdekaan; the week of 2024-08-12 runs Monday to Sunday
+const entry = (values: Partial<CreateKalenderAkademikInput>) => ({
+  tanggal_mulai: new Date(2024, 7, 17),
+  tanggal_selesai: new Date(2024, 7, 17),
+  hari_sekolah: false,
+  kelas_id: null,
+  ...values
+});
+
+describe('school calendar utils', () => {
+  const weekend = [0, 6];
+  // The entries above are dates on the server clock
+  const timezone = serverTimezone();
+
+  it('should follow the weekend without entries', () => {
+    expect(isSchoolDay('2024-08-12', null, weekend, [], timezone)).toBe(true);
+    expect(isSchoolDay('2024-08-18', null, weekend, [], timezone)).toBe(false);
+    expect(countSchoolDays('2024-08-12', '2024-08-18', null, weekend, [], timezone)).toEqual(5);
+  });
+
+  it('should let kelas entries override school-wide entries and the weekend', () => {
+    const holiday = entry({ tanggal_mulai: new Date(2024, 7, 14), tanggal_selesai: new Date(2024, 7, 15) });
+    const makeUpDay = entry({ tanggal_mulai: new Date(2024, 7, 15), tanggal_selesai: new Date(2024, 7, 15), hari_sekolah: true, kelas_id: 1 });
+    const fieldTrip = entry({ tanggal_mulai: new Date(2024, 7, 12), tanggal_selesai: new Date(2024, 7, 12), kelas_id: 2 });
+    const saturdayClass = entry({ tanggal_mulai: new Date(2024, 7, 17), tanggal_selesai: new Date(2024, 7, 17), hari_sekolah: true });
+    const entries = [holiday, makeUpDay, fieldTrip, saturdayClass];
+
+    // Kelas 1 makes up the 15th, kelas 2 is away on the 12th, everyone comes in on Saturday the 17th
+    expect(countSchoolDays('2024-08-12', '2024-08-18', 1, weekend, entries, timezone)).toEqual(5);
+    expect(countSchoolDays('2024-08-12', '2024-08-18', 2, weekend, entries, timezone)).toEqual(3);
+    expect(countSchoolDays('2024-08-12', '2024-08-18', null, weekend, entries, timezone)).toEqual(4);
+  });
+
+  it('should prefer the day off when entries of the same level disagree', () => {
+    const event = entry({ hari_sekolah: true });
+    const holiday = entry({ hari_sekolah: false });
+
+    expect(isSchoolDay('2024-08-17', null, [], [event, holiday], timezone)).toBe(false);
+  });
+});
+
+describe('kalender akademik handlers', () => {
+  let adminId: number;
+  let kelasId: number;
+
+  beforeEach(async () => {
+    await resetDB();
+    await createDB();
+
+    const [admin, guruUser] = await db.insert(usersTable)
+      .values([
+        { username: 'admin', password_hash: 'hash', role: 'admin' },
+        { nip: '111', password_hash: 'hash', role: 'guru' }
+      ])
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const [guru] = await db.insert(guruTable)
+      .values({ user_id: guruUser.id, nip: '111', nama: 'Guru Satu' })
+      .returning()
+      .execute();
+
+    const [kelas] = await db.insert(kelasTable)
+      .values({ nama_kelas: 'X IPA 1', wali_kelas_id: guru.id })
+      .returning()
+      .execute();
+    kelasId = kelas.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create, update and delete entries', async () => {
+    const created = await createKalenderAkademik({
+      ...entry({}),
+      jenis: 'libur_nasional',
+      keterangan: 'Hari Kemerdekaan'
+    }, adminId);
+
+    expect(created.created_by).toEqual(adminId);
+    expect(created.hari_sekolah).toBe(false);
+
+    const updated = await updateKalenderAkademik({ id: created.id, keterangan: 'HUT RI', hari_sekolah: true });
+    expect(updated.keterangan).toEqual('HUT RI');
+    expect(updated.hari_sekolah).toBe(true);
+    expect(updated.jenis).toEqual('libur_nasional');
+
+    await deleteKalenderAkademik(created.id);
+    expect(await getKalenderAkademikById(created.id)).toBeNull();
+  });
+
+  it('should reject unknown kelas and inverted periods', async () => {
+    await expect(createKalenderAkademik({
+      ...entry({ kelas_id: 9999 }),
+      jenis: 'acara_sekolah',
+      keterangan: 'Study tour'
+    }, adminId)).rejects.toThrow(/kelas not found/i);
+
+    const created = await createKalenderAkademik({ ...entry({}), jenis: 'libur_nasional', keterangan: 'Hari Kemerdekaan' }, adminId);
+    await expect(updateKalenderAkademik({ id: created.id, tanggal_selesai: new Date(2024, 7, 16) }))
+      .rejects.toThrow(/must not be after/i);
+
+    expect(createKalenderAkademikInputSchema.safeParse({
+      ...entry({ tanggal_selesai: new Date(2024, 7, 16) }),
+      jenis: 'libur_nasional',
+      keterangan: 'Hari Kemerdekaan'
+    }).success).toBe(false);
+  });
+
+  it('should list entries overlapping a period for a kelas', async () => {
+    await createKalenderAkademik({
+      ...entry({ tanggal_mulai: new Date(2024, 5, 24), tanggal_selesai: new Date(2024, 6, 12) }),
+      jenis: 'libur_sekolah',
+      keterangan: 'Libur kenaikan kelas'
+    }, adminId);
+    await createKalenderAkademik({ ...entry({ kelas_id: kelasId }), jenis: 'acara_sekolah', keterangan: 'Study tour' }, adminId);
+
+    const july = await getKalenderAkademik({ start_date: new Date(2024, 6, 1), end_date: new Date(2024, 6, 31) });
+    expect(july.map(e => e.keterangan)).toEqual(['Libur kenaikan kelas']);
+
+    const august = await getKalenderAkademik({ start_date: new Date(2024, 7, 1), end_date: new Date(2024, 7, 31), kelas_id: kelasId + 1 });
+    expect(august).toHaveLength(0);
+  });
+
+  it('should count school days from the weekend setting and the calendar', async () => {
+    // Every day is a school day until the weekend is configured
+    expect(await countSchoolDaysForKelas(new Date(2024, 7, 12), new Date(2024, 7, 18), kelasId)).toEqual(7);
+
+    await updateWeekend({ days: [0, 6] }, adminId);
+    await createKalenderAkademik({
+      ...entry({ tanggal_mulai: new Date(2024, 7, 16), tanggal_selesai: new Date(2024, 7, 16), kelas_id: kelasId }),
+      jenis: 'acara_sekolah',
+      keterangan: 'Study tour'
+    }, adminId);
+
+    expect(await countSchoolDaysForKelas(new Date(2024, 7, 12), new Date(2024, 7, 18), kelasId)).toEqual(4);
+    expect(await countSchoolDaysForKelas(new Date(2024, 7, 12), new Date(2024, 7, 18), null)).toEqual(5);
+    expect(await isSchoolDayForKelas(new Date(2024, 7, 16, 7, 30), kelasId)).toBe(false);
+    expect(await isSchoolDayForKelas(new Date(2024, 7, 16, 7, 30), null)).toBe(true);
+  });
+});
@@ -0,0 +1,244 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  loginAttemptsTable,
+  lockoutEventsTable,
+  roleEnum,
+  lockoutScopeEnum,
+  lockoutEventEnum
+} from '../db/schema';
+import {
+  getLoginLockout,
+  recordLoginFailure,
+  recordLoginSuccess,
+  unlockUser,
+  getLockoutEvents,
+  setLoginAttemptStore
+} from '../handlers/login_protection';
+import {
+  createMemoryLoginAttemptStore,
+  createPostgresLoginAttemptStore,
+  type LoginAttemptStore
+} from '../utils/login_attempt_store';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+
+// Only the tables needed for login protection tests
+const createDB = async () => {
+  const limitedSchema = {
+    roleEnum,
+    lockoutScopeEnum,
+    lockoutEventEnum,
+    usersTable,
+    loginAttemptsTable,
+    lockoutEventsTable
+  };
+
+  const migrationStatements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson({ ...limitedSchema })
+  );
+  await db.execute(migrationStatements.join('\n'));
+};
+
+const failTimes = async (count: number, identifier: string, ip: string | null, userId: number | null) => {
+  for (let i = 0; i < count; i++) {
+    await recordLoginFailure('siswa', identifier, ip, userId);
+  }
+};
+
+describe('login protection', () => {
+  let store: LoginAttemptStore;
+  let adminId: number;
+  let siswaId: number;
+
+  beforeEach(async () => {
+    await resetDB();
+    await createDB();
+
+    store = createMemoryLoginAttemptStore();
+    setLoginAttemptStore(store);
+
+    const [admin, siswa] = await db.insert(usersTable)
+      .values([
+        { username: 'admin', password_hash: 'hash', role: 'admin' },
+        { nisn: '1234567890', password_hash: 'hash', role: 'siswa' }
+      ])
+      .returning()
+      .execute();
+    adminId = admin.id;
+    siswaId = siswa.id;
+  });
+
+  afterEach(resetDB);
+
+  describe('recordLoginFailure', () => {
+    it('should not lock below the attempt limit', async () => {
+      await failTimes(4, '1234567890', '10.0.0.1', siswaId);
+
+      expect(await getLoginLockout('siswa', '1234567890', '10.0.0.1')).toEqual(0);
+    });
+
+    it('should lock the identifier and record an event at the limit', async () => {
+      await failTimes(5, '1234567890', '10.0.0.1', siswaId);
+
+      const seconds = await getLoginLockout('siswa', '1234567890', null);
+      expect(seconds).toBeGreaterThan(55);
+      expect(seconds).toBeLessThanOrEqual(60);
+
+      const events = await db.select().from(lockoutEventsTable).execute();
+      expect(events).toHaveLength(1);
+      expect(events[0].event).toEqual('locked');
+      expect(events[0].scope).toEqual('identifier');
+      expect(events[0].user_id).toEqual(siswaId);
+      expect(events[0].ip).toEqual('10.0.0.1');
+      expect(events[0].failures).toEqual(5);
+    });
+
+    it('should treat identifiers case-insensitively', async () => {
+      await failTimes(5, 'ABC', null, null);
+
+      expect(await getLoginLockout('siswa', 'abc', null)).toBeGreaterThan(0);
+    });
+
+    it('should double the lockout on each consecutive lockout', async () => {
+      await failTimes(5, '1234567890', null, siswaId);
+
+      // Let the first lockout run out
+      const key = 'identifier:siswa:1234567890';
+      const state = await store.get(key);
+      await store.set(key, { ...state!, locked_until: new Date(Date.now() - 1000) });
+      expect(await getLoginLockout('siswa', '1234567890', null)).toEqual(0);
+
+      await failTimes(5, '1234567890', null, siswaId);
+
+      const seconds = await getLoginLockout('siswa', '1234567890', null);
+      expect(seconds).toBeGreaterThan(115);
+      expect(seconds).toBeLessThanOrEqual(120);
+    });
+
+    it('should lock an IP that tries many identifiers', async () => {
+      for (let i = 0; i < 20; i++) {
+        await recordLoginFailure('siswa', `99990000${i}`, '10.0.0.2', null);
+      }
+
+      expect(await getLoginLockout('siswa', 'never-tried', '10.0.0.2')).toBeGreaterThan(0);
+      expect(await getLoginLockout('siswa', 'never-tried', '10.0.0.3')).toEqual(0);
+
+      const ipEvents = await getLockoutEvents({ scope: 'ip' });
+      expect(ipEvents).toHaveLength(1);
+      expect(ipEvents[0].key).toEqual('ip:10.0.0.2');
+    });
+  });
+
+  describe('recordLoginSuccess', () => {
+    it('should clear the identifier but not the IP counter', async () => {
+      await failTimes(4, '1234567890', '10.0.0.1', siswaId);
+      await recordLoginSuccess('siswa', '1234567890');
+
+      expect(await store.get('identifier:siswa:1234567890')).toBeNull();
+      expect((await store.get('ip:10.0.0.1'))?.failures).toEqual(4);
+    });
+  });
+
+  describe('unlockUser', () => {
+    it('should clear the lockout and record who unlocked it', async () => {
+      await failTimes(5, '1234567890', null, siswaId);
+
+      const result = await unlockUser(siswaId, adminId);
+
+      expect(result.success).toBe(true);
+      expect(await getLoginLockout('siswa', '1234567890', null)).toEqual(0);
+
+      const events = await getLockoutEvents({ user_id: siswaId });
+      expect(events).toHaveLength(2);
+      expect(events[0].event).toEqual('unlocked');
+      expect(events[0].actor_id).toEqual(adminId);
+    });
+
+    it('should throw for a non-existent user', async () => {
+      await expect(unlockUser(99999, adminId)).rejects.toThrow(/user not found/i);
+    });
+  });
+
+  describe('getLockoutEvents', () => {
+    it('should filter by user and limit results', async () => {
+      await failTimes(5, '1234567890', null, siswaId);
+      await failTimes(5, 'unknown', null, null);
+
+      expect(await getLockoutEvents()).toHaveLength(2);
+      expect(await getLockoutEvents({ user_id: siswaId })).toHaveLength(1);
+      expect(await getLockoutEvents({ limit: 1 })).toHaveLength(1);
+    });
+  });
+
+  describe('memory store', () => {
+    const state = (lastFailureAt: Date, lockedUntil: Date | null = null) => ({
+      failures: 1,
+      lockouts: 0,
+      locked_until: lockedUntil,
+      last_failure_at: lastFailureAt
+    });
+
+    it('should forget entries past the retention unless they are still locked', async () => {
+      const memory = createMemoryLoginAttemptStore({ retentionMs: 60 * 60 * 1000 });
+      const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+
+      await memory.set('ip:10.0.0.1', state(twoHoursAgo));
+      await memory.set('ip:10.0.0.2', state(twoHoursAgo, new Date(Date.now() + 60 * 1000)));
+      await memory.set('ip:10.0.0.3', state(new Date()));
+
+      expect(await memory.get('ip:10.0.0.1')).toBeNull();
+      expect(await memory.get('ip:10.0.0.2')).not.toBeNull();
+      expect(await memory.get('ip:10.0.0.3')).not.toBeNull();
+    });
+
+    it('should drop the least recently failed entries beyond the size cap', async () => {
+      const memory = createMemoryLoginAttemptStore({ maxEntries: 2 });
+
+      await memory.set('ip:10.0.0.1', state(new Date()));
+      await memory.set('ip:10.0.0.2', state(new Date()));
+      await memory.set('ip:10.0.0.1', state(new Date()));
+      await memory.set('ip:10.0.0.3', state(new Date()));
+
+      expect(await memory.get('ip:10.0.0.1')).not.toBeNull();
+      expect(await memory.get('ip:10.0.0.2')).toBeNull();
+      expect(await memory.get('ip:10.0.0.3')).not.toBeNull();
+    });
+
+    it('should never drop a locked entry to stay under the size cap', async () => {
+      const memory = createMemoryLoginAttemptStore({ maxEntries: 2 });
+      const lockedUntil = new Date(Date.now() + 15 * 60 * 1000);
+
+      await memory.set('identifier:siswa:1234567890', state(new Date(), lockedUntil));
+      await memory.set('ip:10.0.0.1', state(new Date()));
+      await memory.set('ip:10.0.0.2', state(new Date()));
+      await memory.set('ip:10.0.0.3', state(new Date()));
+
+      expect((await memory.get('identifier:siswa:1234567890'))?.locked_until).toEqual(lockedUntil);
+      expect(await memory.get('ip:10.0.0.1')).toBeNull();
+      expect(await memory.get('ip:10.0.0.2')).toBeNull();
+      expect(await memory.get('ip:10.0.0.3')).not.toBeNull();
+    });
+  });
+
+  describe('postgres store', () => {
+    it('should persist counters in the login_attempts table', async () => {
+      setLoginAttemptStore(createPostgresLoginAttemptStore());
+
+      await failTimes(3, '1234567890', null, siswaId);
+
+      const rows = await db.select().from(loginAttemptsTable).execute();
+      expect(rows).toHaveLength(1);
+      expect(rows[0].key).toEqual('identifier:siswa:1234567890');
+      expect(rows[0].failures).toEqual(3);
+
+      await failTimes(2, '1234567890', null, siswaId);
+      expect(await getLoginLockout('siswa', '1234567890', null)).toBeGreaterThan(0);
+
+      await recordLoginSuccess('siswa', '1234567890');
+      expect(await db.select().from(loginAttemptsTable).execute()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  guruTable,
+  kelasTable,
+  siswaTable,
+  orangTuaTable,
+  orangTuaSiswaTable,
+  roleEnum
+} from '../db/schema';
+import {
+  createOrangTua,
+  updateOrangTua,
+  deleteOrangTua,
+  getAllOrangTua,
+  getOrangTuaById,
+  linkSiswaToOrangTua,
+  unlinkSiswaFromOrangTua,
+  getLinksByOrangTua,
+  getAnakByOrangTua,
+  isAnakOfOrangTua
+} from '../handlers/orang_tua';
+import { eq } from 'drizzle-orm';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+
+// Only the tables needed for orang tua tests
+const createDB = async () => {
+  const limitedSchema = {
+    roleEnum,
+    usersTable,
+    guruTable,
+    kelasTable,
+    siswaTable,
+    orangTuaTable,
+    orangTuaSiswaTable
+  };
+
+  const migrationStatements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson({ ...limitedSchema })
+  );
+  await db.execute(migrationStatements.join('\n'));
+};
+
+describe('orang tua handlers', () => {
+  let orangTuaUserId: number;
+  let guruUserId: number;
+  let siswaIds: number[];
+
+  beforeEach(async () => {
+    await resetDB();
+    await createDB();
+
+    const [orangTuaUser, guruUser, siswaUser1, siswaUser2] = await db.insert(usersTable)
+      .values([
+        { username: 'budi', password_hash: 'hash', role: 'orang_tua' },
+        { nip: '111', password_hash: 'hash', role: 'guru' },
+        { nisn: '333', password_hash: 'hash', role: 'siswa' },
+        { nisn: '444', password_hash: 'hash', role: 'siswa' }
+      ])
+      .returning()
+      .execute();
+    orangTuaUserId = orangTuaUser.id;
+    guruUserId = guruUser.id;
+
+    const [guru] = await db.insert(guruTable)
+      .values({ user_id: guruUser.id, nip: '111', nama: 'Guru Satu' })
+      .returning()
+      .execute();
+
+    const [kelas] = await db.insert(kelasTable)
+      .values({ nama_kelas: 'X-1', wali_kelas_id: guru.id })
+      .returning()
+      .execute();
+
+    const siswa = await db.insert(siswaTable)
+      .values([
+        { user_id: siswaUser1.id, nisn: '333', nama: 'Anak Satu', kelas_id: kelas.id },
+        { user_id: siswaUser2.id, nisn: '444', nama: 'Anak Dua', kelas_id: kelas.id }
+      ])
+      .returning()
+      .execute();
+    siswaIds = siswa.map(s => s.id);
+  });
+
+  afterEach(resetDB);
+
+  describe('createOrangTua', () => {
+    it('should create an orang tua profile', async () => {
+      const result = await createOrangTua({ user_id: orangTuaUserId, nama: 'Budi', no_hp: '08123456789' });
+
+      expect(result.id).toBeDefined();
+      expect(result.nama).toEqual('Budi');
+      expect(result.no_hp).toEqual('08123456789');
+
+      expect(await getAllOrangTua()).toHaveLength(1);
+    });
+
+    it('should reject users without the orang_tua role', async () => {
+      await expect(createOrangTua({ user_id: guruUserId, nama: 'Guru', no_hp: null }))
+        .rejects.toThrow(/must have orang_tua role/i);
+    });
+
+    it('should reject a second profile for the same user', async () => {
+      await createOrangTua({ user_id: orangTuaUserId, nama: 'Budi', no_hp: null });
+
+      await expect(createOrangTua({ user_id: orangTuaUserId, nama: 'Budi', no_hp: null }))
+        .rejects.toThrow(/already exists/i);
+    });
+  });
+
+  describe('updateOrangTua and deleteOrangTua', () => {
+    it('should update only provided fields', async () => {
+      const orangTua = await createOrangTua({ user_id: orangTuaUserId, nama: 'Budi', no_hp: '0811' });
+
+      const result = await updateOrangTua({ id: orangTua.id, no_hp: null });
+
+      expect(result.nama).toEqual('Budi');
+      expect(result.no_hp).toBeNull();
+    });
+
+    it('should delete the profile together with its links', async () => {
+      const orangTua = await createOrangTua({ user_id: orangTuaUserId, nama: 'Budi', no_hp: null });
+      await linkSiswaToOrangTua({ orang_tua_id: orangTua.id, siswa_id: siswaIds[0], hubungan: 'ayah' });
+
+      await deleteOrangTua(orangTua.id);
+
+      expect(await getOrangTuaById(orangTua.id)).toBeNull();
+      const links = await db.select().from(orangTuaSiswaTable).execute();
+      expect(links).toHaveLength(0);
+    });
+
+    it('should throw for a non-existent orang tua', async () => {
+      await expect(updateOrangTua({ id: 99999, nama: 'X' })).rejects.toThrow(/not found/i);
+      await expect(deleteOrangTua(99999)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('links', () => {
+    it('should link many children to one parent', async () => {
+      const orangTua = await createOrangTua({ user_id: orangTuaUserId, nama: 'Budi', no_hp: null });
+
+      await linkSiswaToOrangTua({ orang_tua_id: orangTua.id, siswa_id: siswaIds[0], hubungan: 'ayah' });
+      await linkSiswaToOrangTua({ orang_tua_id: orangTua.id, siswa_id: siswaIds[1], hubungan: 'ayah' });
+
+      const anak = await getAnakByOrangTua(orangTua.id);
+      expect(anak.map(s => s.nama).sort()).toEqual(['Anak Dua', 'Anak Satu']);
+      expect(await isAnakOfOrangTua(orangTua.id, siswaIds[0])).toBe(true);
+    });
+
+    it('should reject duplicate links', async () => {
+      const orangTua = await createOrangTua({ user_id: orangTuaUserId, nama: 'Budi', no_hp: null });
+      await linkSiswaToOrangTua({ orang_tua_id: orangTua.id, siswa_id: siswaIds[0], hubungan: null });
+
+      await expect(linkSiswaToOrangTua({ orang_tua_id: orangTua.id, siswa_id: siswaIds[0], hubungan: null }))
+        .rejects.toThrow(/already linked/i);
+    });
+
+    it('should reject unknown siswa', async () => {
+      const orangTua = await createOrangTua({ user_id: orangTuaUserId, nama: 'Budi', no_hp: null });
+
+      await expect(linkSiswaToOrangTua({ orang_tua_id: orangTua.id, siswa_id: 99999, hubungan: null }))
+        .rejects.toThrow(/siswa not found/i);
+    });
+
+    it('should unlink a child', async () => {
+      const orangTua = await createOrangTua({ user_id: orangTuaUserId, nama: 'Budi', no_hp: null });
+      const link = await linkSiswaToOrangTua({ orang_tua_id: orangTua.id, siswa_id: siswaIds[0], hubungan: 'ibu' });
+
+      const result = await unlinkSiswaFromOrangTua(link.id);
+
+      expect(result.success).toBe(true);
+      expect(await getLinksByOrangTua(orangTua.id)).toHaveLength(0);
+      expect(await isAnakOfOrangTua(orangTua.id, siswaIds[0])).toBe(false);
+      await expect(unlinkSiswaFromOrangTua(link.id)).rejects.toThrow(/link not found/i);
+    });
+
+    it('should keep the parent when a child is deleted', async () => {
+      const orangTua = await createOrangTua({ user_id: orangTuaUserId, nama: 'Budi', no_hp: null });
+      await linkSiswaToOrangTua({ orang_tua_id: orangTua.id, siswa_id: siswaIds[0], hubungan: null });
+
+      await db.delete(siswaTable).where(eq(siswaTable.id, siswaIds[0])).execute();
+
+      expect(await getOrangTuaById(orangTua.id)).not.toBeNull();
+      expect(await getAnakByOrangTua(orangTua.id)).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, passwordResetTokensTable, roleEnum } from '../db/schema';
+import { hashPassword, verifyPassword, needsRehash } from '../utils/password';
+import { changePassword, createPasswordResetToken, resetPassword } from '../handlers/password';
+import { createSession } from '../handlers/session';
+import { createHash, pbkdf2Sync } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+
+// Only the tables needed for password tests
+const createDB = async () => {
+  const limitedSchema = {
+    roleEnum,
+    usersTable,
+    sessionsTable,
+    passwordResetTokensTable
+  };
+
+  const migrationStatements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson({ ...limitedSchema })
+  );
+  await db.execute(migrationStatements.join('\n'));
+};
+
+describe('password utils', () => {
+  it('should hash and verify with scrypt', async () => {
+    const hash = await hashPassword('rahasia123');
+
+    expect(hash.startsWith('scrypt$')).toBe(true);
+    expect(await verifyPassword('rahasia123', hash)).toBe(true);
+    expect(await verifyPassword('salah', hash)).toBe(false);
+  });
+
+  it('should use a random salt per hash', async () => {
+    const first = await hashPassword('rahasia123');
+    const second = await hashPassword('rahasia123');
+
+    expect(first).not.toEqual(second);
+  });
+
+  it('should verify legacy SHA-256 hashes', async () => {
+    const legacy = createHash('sha256').update('admin123').digest('hex');
+
+    expect(await verifyPassword('admin123', legacy)).toBe(true);
+    expect(await verifyPassword('admin124', legacy)).toBe(false);
+  });
+
+  it('should verify legacy PBKDF2 hashes', async () => {
+    const salt = 'abcdef0123456789';
+    const legacy = `${salt}:${pbkdf2Sync('guru123', salt, 10000, 64, 'sha512').toString('hex')}`;
+
+    expect(await verifyPassword('guru123', legacy)).toBe(true);
+    expect(await verifyPassword('guru124', legacy)).toBe(false);
+  });
+
+  it('should reject unknown hash formats', async () => {
+    expect(await verifyPassword('anything', 'hashed_password')).toBe(false);
+  });
+
+  it('should flag legacy and weaker hashes for rehash', async () => {
+    const current = await hashPassword('rahasia123');
+
+    expect(needsRehash(current)).toBe(false);
+    expect(needsRehash(createHash('sha256').update('x').digest('hex'))).toBe(true);
+    expect(needsRehash('scrypt$1024$8$1$c2FsdA==$aGFzaA==')).toBe(true);
+  });
+});
+
+describe('password handlers', () => {
+  let adminId: number;
+  let siswaId: number;
+
+  const getUser = async (id: number) => {
+    const [user] = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, id))
+      .execute();
+    return user;
+  };
+
+  beforeEach(async () => {
+    await resetDB();
+    await createDB();
+
+    const [admin, siswa] = await db.insert(usersTable)
+      .values([
+        { username: 'admin', password_hash: await hashPassword('admin123'), role: 'admin' },
+        { nisn: '1234567890', password_hash: await hashPassword('siswa123'), role: 'siswa', must_change_password: true }
+      ])
+      .returning()
+      .execute();
+    adminId = admin.id;
+    siswaId = siswa.id;
+  });
+
+  afterEach(resetDB);
+
+  describe('changePassword', () => {
+    it('should change the password and clear the must change flag', async () => {
+      const result = await changePassword({
+        user_id: siswaId,
+        old_password: 'siswa123',
+        new_password: 'rahasiabaru'
+      });
+
+      expect(result.success).toBe(true);
+
+      const user = await getUser(siswaId);
+      expect(user.must_change_password).toBe(false);
+      expect(await verifyPassword('rahasiabaru', user.password_hash)).toBe(true);
+      expect(await verifyPassword('siswa123', user.password_hash)).toBe(false);
+    });
+
+    it('should end every other session of the user and keep the current one', async () => {
+      const current = await createSession(siswaId);
+      await createSession(siswaId);
+      await createSession(adminId);
+      const siswaSessions = () => db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.user_id, siswaId))
+        .orderBy(sessionsTable.id)
+        .execute();
+      const [currentRow] = await siswaSessions();
+
+      await changePassword({
+        user_id: siswaId,
+        old_password: 'siswa123',
+        new_password: 'rahasiabaru'
+      }, current.token);
+
+      expect((await siswaSessions()).map(session => session.id)).toEqual([currentRow.id]);
+      const adminSessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.user_id, adminId))
+        .execute();
+      expect(adminSessions).toHaveLength(1);
+    });
+
+    it('should reject a wrong old password', async () => {
+      await expect(changePassword({
+        user_id: siswaId,
+        old_password: 'salah123',
+        new_password: 'rahasiabaru'
+      })).rejects.toThrow(/password lama salah/i);
+
+      const user = await getUser(siswaId);
+      expect(user.must_change_password).toBe(true);
+    });
+
+    it('should reject reusing the old password', async () => {
+      await expect(changePassword({
+        user_id: siswaId,
+        old_password: 'siswa123',
+        new_password: 'siswa123'
+      })).rejects.toThrow(/harus berbeda/i);
+    });
+
+    it('should throw for a non-existent user', async () => {
+      await expect(changePassword({
+        user_id: 99999,
+        old_password: 'siswa123',
+        new_password: 'rahasiabaru'
+      })).rejects.toThrow(/user not found/i);
+    });
+  });
+
+  describe('createPasswordResetToken', () => {
+    it('should store only a hash of the token', async () => {
+      const result = await createPasswordResetToken(siswaId, adminId);
+
+      expect(result.token.length).toBeGreaterThan(20);
+      expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+
+      const rows = await db.select().from(passwordResetTokensTable).execute();
+      expect(rows).toHaveLength(1);
+      expect(rows[0].token_hash).not.toEqual(result.token);
+      expect(rows[0].created_by).toEqual(adminId);
+    });
+
+    it('should invalidate earlier unused tokens', async () => {
+      const first = await createPasswordResetToken(siswaId, adminId);
+      await createPasswordResetToken(siswaId, adminId);
+
+      await expect(resetPassword({ token: first.token, new_password: 'rahasiabaru' }))
+        .rejects.toThrow(/tidak valid/i);
+    });
+
+    it('should throw for a non-existent user', async () => {
+      await expect(createPasswordResetToken(99999, adminId)).rejects.toThrow(/user not found/i);
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the new password and end existing sessions', async () => {
+      await createSession(siswaId);
+      const { token } = await createPasswordResetToken(siswaId, adminId);
+
+      const result = await resetPassword({ token, new_password: 'rahasiabaru' });
+
+      expect(result.success).toBe(true);
+
+      const user = await getUser(siswaId);
+      expect(user.must_change_password).toBe(false);
+      expect(await verifyPassword('rahasiabaru', user.password_hash)).toBe(true);
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.user_id, siswaId))
+        .execute();
+      expect(sessions).toHaveLength(0);
+    });
+
+    it('should only accept a token once', async () => {
+      const { token } = await createPasswordResetToken(siswaId, adminId);
+
+      await resetPassword({ token, new_password: 'rahasiabaru' });
+
+      await expect(resetPassword({ token, new_password: 'rahasialain' }))
+        .rejects.toThrow(/tidak valid/i);
+    });
+
+    it('should reject expired tokens', async () => {
+      const { token } = await createPasswordResetToken(siswaId, adminId);
+      await db.update(passwordResetTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(resetPassword({ token, new_password: 'rahasiabaru' }))
+        .rejects.toThrow(/kedaluwarsa/i);
+    });
+
+    it('should reject unknown tokens', async () => {
+      await expect(resetPassword({ token: 'not-a-real-token', new_password: 'rahasiabaru' }))
+        .rejects.toThrow(/tidak valid/i);
+    });
+  });
+});
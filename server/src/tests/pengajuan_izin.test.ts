@@ -10,22 +10,35 @@ import {
 } from '../db/schema';
 import { 
     type CreatePengajuanIzinInput, 
-    type ReviewPengajuanIzinInput 
+    type ReviewPengajuanIzinInput,
+    alurPersetujuanIzinSchema
 } from '../schema';
 import {
     createPengajuanIzin,
     reviewPengajuanIzin,
     getPengajuanIzinBySiswa,
     getPendingPengajuanIzin,
+    getApprovedPengajuanIzin,
+    getAntrianPersetujuanIzin,
     getAllPengajuanIzin,
-    deletePengajuanIzin
+    deletePengajuanIzin,
+    updatePengajuanIzin,
+    cancelPengajuanIzin,
+    getRiwayatPengajuanIzin,
+    revokePengajuanIzin
 } from '../handlers/pengajuan_izin';
+import { createKalenderAkademik } from '../handlers/kalender_akademik';
+import { updateAlurPersetujuanIzin, updateLampiranSakit, updateWeekend } from '../handlers/settings';
+import { getPersetujuanIzin } from '../handlers/persetujuan_izin';
+import { getLampiranPengajuanIzin } from '../handlers/lampiran_izin';
+import { createMemoryFileStorage, setFileStorage, type FileStorage } from '../utils/file_storage';
 import { eq, sql } from 'drizzle-orm';
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
 import * as schema from "../db/schema";
 
 // Test data
 const testDate = new Date('2024-01-15');
+const pdfDataUrl = `data:application/pdf;base64,${Buffer.from('%PDF-1.4 surat dokter').toString('base64')}`;
 
 async function createDBWithoutPengajuanIzin() {
     // Create a schema object without the problematic pengajuanIzinTable
@@ -34,7 +47,11 @@ async function createDBWithoutPengajuanIzin() {
         siswaTable: schema.siswaTable,
         guruTable: schema.guruTable,
         kelasTable: schema.kelasTable,
+        mataPelajaranTable: schema.mataPelajaranTable,
+        jadwalPelajaranTable: schema.jadwalPelajaranTable,
         absensiTable: schema.absensiTable,
+        settingsTable: schema.settingsTable,
+        kalenderAkademikTable: schema.kalenderAkademikTable,
         // Exclude pengajuanIzinTable to avoid enum issues
         usersRelations: schema.usersRelations,
         siswaRelations: schema.siswaRelations,
@@ -43,7 +60,8 @@ async function createDBWithoutPengajuanIzin() {
         absensiRelations: schema.absensiRelations,
         roleEnum: schema.roleEnum,
         attendanceStatusEnum: schema.attendanceStatusEnum,
-        requestStatusEnum: schema.requestStatusEnum
+        requestStatusEnum: schema.requestStatusEnum,
+        jenisKalenderEnum: schema.jenisKalenderEnum
     };
 
     const migrationStatements = await generateMigration(
@@ -67,16 +85,76 @@ describe('pengajuanIzin handlers', () => {
             CREATE TABLE pengajuan_izin (
                 id SERIAL PRIMARY KEY,
                 siswa_id INTEGER NOT NULL REFERENCES siswa(id) ON DELETE CASCADE,
-                tanggal TIMESTAMP NOT NULL,
+                tanggal_mulai TIMESTAMP NOT NULL,
+                tanggal_selesai TIMESTAMP NOT NULL,
                 alasan TEXT NOT NULL,
-                status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+                status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled', 'revision_requested', 'revoked')),
                 jenis TEXT NOT NULL CHECK (jenis IN ('izin', 'sakit')),
                 reviewer_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
                 reviewed_at TIMESTAMP,
+                catatan_reviewer TEXT,
+                versi INTEGER NOT NULL DEFAULT 1,
+                alur JSONB NOT NULL DEFAULT '["wali_kelas"]',
+                langkah INTEGER NOT NULL DEFAULT 1,
                 created_at TIMESTAMP NOT NULL DEFAULT NOW(),
                 updated_at TIMESTAMP NOT NULL DEFAULT NOW()
             )
         `);
+        await db.execute(sql`
+            CREATE TABLE persetujuan_izin (
+                id SERIAL PRIMARY KEY,
+                pengajuan_izin_id INTEGER NOT NULL REFERENCES pengajuan_izin(id) ON DELETE CASCADE,
+                versi INTEGER NOT NULL,
+                langkah INTEGER NOT NULL,
+                peran TEXT NOT NULL,
+                status TEXT NOT NULL,
+                reviewer_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+                catatan TEXT,
+                created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+                UNIQUE (pengajuan_izin_id, versi, langkah)
+            )
+        `);
+        await db.execute(sql`
+            CREATE TABLE pengajuan_izin_versi (
+                id SERIAL PRIMARY KEY,
+                pengajuan_izin_id INTEGER NOT NULL REFERENCES pengajuan_izin(id) ON DELETE CASCADE,
+                versi INTEGER NOT NULL,
+                tanggal_mulai TIMESTAMP NOT NULL,
+                tanggal_selesai TIMESTAMP NOT NULL,
+                alasan TEXT NOT NULL,
+                jenis TEXT NOT NULL,
+                status TEXT NOT NULL,
+                reviewer_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+                reviewed_at TIMESTAMP,
+                catatan_reviewer TEXT,
+                created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+                UNIQUE (pengajuan_izin_id, versi)
+            )
+        `);
+        await db.execute(sql`
+            CREATE TABLE pengajuan_izin_absensi (
+                id SERIAL PRIMARY KEY,
+                pengajuan_izin_id INTEGER NOT NULL REFERENCES pengajuan_izin(id) ON DELETE CASCADE,
+                absensi_id INTEGER NOT NULL REFERENCES absensi(id) ON DELETE CASCADE,
+                status_sebelum TEXT,
+                keterangan_sebelum TEXT,
+                guru_id_sebelum INTEGER REFERENCES guru(id) ON DELETE SET NULL,
+                menit_terlambat_sebelum INTEGER,
+                created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+                UNIQUE (pengajuan_izin_id, absensi_id)
+            )
+        `);
+        await db.execute(sql`
+            CREATE TABLE lampiran_izin (
+                id SERIAL PRIMARY KEY,
+                pengajuan_izin_id INTEGER NOT NULL REFERENCES pengajuan_izin(id) ON DELETE CASCADE,
+                nama_file TEXT NOT NULL,
+                mime_type TEXT NOT NULL,
+                ukuran INTEGER NOT NULL,
+                storage_key TEXT NOT NULL,
+                created_at TIMESTAMP NOT NULL DEFAULT NOW()
+            )
+        `);
     });
     
     afterEach(resetDB);
@@ -159,7 +237,8 @@ describe('pengajuanIzin handlers', () => {
 
             const input: CreatePengajuanIzinInput = {
                 siswa_id: siswa.id,
-                tanggal: testDate,
+                tanggal_mulai: testDate,
+                tanggal_selesai: testDate,
                 alasan: 'Sakit demam',
                 jenis: 'sakit'
             };
@@ -167,7 +246,8 @@ describe('pengajuanIzin handlers', () => {
             const result = await createPengajuanIzin(input);
 
             expect(result.siswa_id).toEqual(siswa.id);
-            expect(result.tanggal).toEqual(testDate);
+            expect(result.tanggal_mulai).toEqual(testDate);
+            expect(result.tanggal_selesai).toEqual(testDate);
             expect(result.alasan).toEqual('Sakit demam');
             expect(result.jenis).toEqual('sakit');
             expect(result.status).toEqual('pending');
@@ -181,23 +261,82 @@ describe('pengajuanIzin handlers', () => {
         it('should throw error when siswa not found', async () => {
             const input: CreatePengajuanIzinInput = {
                 siswa_id: 999,
-                tanggal: testDate,
+                tanggal_mulai: testDate,
+                tanggal_selesai: testDate,
                 alasan: 'Sakit demam',
                 jenis: 'sakit'
             };
 
             await expect(createPengajuanIzin(input)).rejects.toThrow(/siswa not found/i);
         });
+
+        it('should reject a range ending before it starts', async () => {
+            const { siswa } = await createPrerequisiteData();
+
+            await expect(createPengajuanIzin({
+                siswa_id: siswa.id,
+                tanggal_mulai: new Date('2024-01-17'),
+                tanggal_selesai: testDate,
+                alasan: 'Sakit demam',
+                jenis: 'sakit'
+            })).rejects.toThrow(/must not be after/i);
+        });
+
+        it('should reject a range longer than the maximum', async () => {
+            const { siswa } = await createPrerequisiteData();
+            const request = (tanggal_selesai: Date) => createPengajuanIzin({
+                siswa_id: siswa.id,
+                tanggal_mulai: new Date('2024-01-01'),
+                tanggal_selesai,
+                alasan: 'Rawat inap',
+                jenis: 'sakit'
+            });
+
+            await expect(request(new Date('2024-01-31'))).rejects.toThrow(/more than 30 day/i);
+            expect((await request(new Date('2024-01-30'))).tanggal_selesai).toEqual(new Date('2024-01-30'));
+        });
+
+        it('should reject requests overlapping a pending or approved one', async () => {
+            const { siswa, guruUser } = await createPrerequisiteData();
+
+            const first = await createPengajuanIzin({
+                siswa_id: siswa.id,
+                tanggal_mulai: testDate,
+                tanggal_selesai: new Date('2024-01-17'),
+                alasan: 'Sakit demam',
+                jenis: 'sakit'
+            });
+
+            await expect(createPengajuanIzin({
+                siswa_id: siswa.id,
+                tanggal_mulai: new Date('2024-01-17'),
+                tanggal_selesai: new Date('2024-01-19'),
+                alasan: 'Acara keluarga',
+                jenis: 'izin'
+            })).rejects.toThrow(/overlaps/i);
+
+            // Once rejected, its days are free again
+            await reviewPengajuanIzin({ id: first.id, status: 'rejected', reviewer_id: guruUser.id });
+            const second = await createPengajuanIzin({
+                siswa_id: siswa.id,
+                tanggal_mulai: new Date('2024-01-17'),
+                tanggal_selesai: new Date('2024-01-19'),
+                alasan: 'Acara keluarga',
+                jenis: 'izin'
+            });
+            expect(second.status).toEqual('pending');
+        });
     });
 
     describe('reviewPengajuanIzin', () => {
         it('should approve pengajuan izin and create absensi entry', async () => {
-            const { siswa, guru } = await createPrerequisiteData();
+            const { siswa, guru, guruUser } = await createPrerequisiteData();
 
             // Create pengajuan izin first
             const pengajuan = await createPengajuanIzin({
                 siswa_id: siswa.id,
-                tanggal: testDate,
+                tanggal_mulai: testDate,
+                tanggal_selesai: testDate,
                 alasan: 'Sakit demam',
                 jenis: 'sakit'
             });
@@ -205,13 +344,13 @@ describe('pengajuanIzin handlers', () => {
             const input: ReviewPengajuanIzinInput = {
                 id: pengajuan.id,
                 status: 'approved',
-                reviewer_id: guru.id
+                reviewer_id: guruUser.id
             };
 
             const result = await reviewPengajuanIzin(input);
 
             expect(result.status).toEqual('approved');
-            expect(result.reviewer_id).toEqual(guru.id);
+            expect(result.reviewer_id).toEqual(guruUser.id);
             expect(result.reviewed_at).toBeInstanceOf(Date);
 
             // Check if absensi entry was created
@@ -226,6 +365,66 @@ describe('pengajuanIzin handlers', () => {
             expect(absensi[0].guru_id).toEqual(guru.id);
         });
 
+        it('should record every school day of the range', async () => {
+            const { siswa, guruUser } = await createPrerequisiteData();
+            await updateWeekend({ days: [0, 6] }, null);
+            await createKalenderAkademik({
+                tanggal_mulai: new Date('2024-01-22'),
+                tanggal_selesai: new Date('2024-01-22'),
+                jenis: 'libur_nasional',
+                keterangan: 'Libur',
+                hari_sekolah: false,
+                kelas_id: null
+            }, null);
+
+            // Thursday to the Tuesday after, over a weekend and a holiday
+            const pengajuan = await createPengajuanIzin({
+                siswa_id: siswa.id,
+                tanggal_mulai: new Date('2024-01-18'),
+                tanggal_selesai: new Date('2024-01-23'),
+                alasan: 'Dirawat di rumah sakit',
+                jenis: 'sakit'
+            });
+
+            await reviewPengajuanIzin({ id: pengajuan.id, status: 'approved', reviewer_id: guruUser.id });
+
+            const absensi = await db.select()
+                .from(absensiTable)
+                .where(eq(absensiTable.siswa_id, siswa.id))
+                .orderBy(absensiTable.tanggal_hari)
+                .execute();
+
+            expect(absensi.map(row => row.tanggal_hari)).toEqual(['2024-01-18', '2024-01-19', '2024-01-23']);
+            expect(absensi.every(row => row.status === 'sakit')).toBe(true);
+        });
+
+        it('should replace an existing record of the day instead of adding one', async () => {
+            const { siswa, kelas, guruUser } = await createPrerequisiteData();
+
+            await db.insert(absensiTable)
+                .values({ siswa_id: siswa.id, kelas_id: kelas.id, status: 'terlambat', tanggal: testDate, tanggal_hari: '2024-01-15', menit_terlambat: 15 })
+                .execute();
+
+            const pengajuan = await createPengajuanIzin({
+                siswa_id: siswa.id,
+                tanggal_mulai: testDate,
+                tanggal_selesai: testDate,
+                alasan: 'Pulang karena sakit',
+                jenis: 'sakit'
+            });
+
+            await reviewPengajuanIzin({ id: pengajuan.id, status: 'approved', reviewer_id: guruUser.id });
+
+            const absensi = await db.select()
+                .from(absensiTable)
+                .where(eq(absensiTable.siswa_id, siswa.id))
+                .execute();
+
+            expect(absensi).toHaveLength(1);
+            expect(absensi[0].status).toEqual('sakit');
+            expect(absensi[0].menit_terlambat).toBeNull();
+        });
+
         it('should throw error when pengajuan not found', async () => {
             const input: ReviewPengajuanIzinInput = {
                 id: 999,
@@ -237,6 +436,388 @@ describe('pengajuanIzin handlers', () => {
         });
     });
 
+    describe('revokePengajuanIzin', () => {
+        const approvedRequest = async (siswaId: number, reviewerId: number) => {
+            const pengajuan = await createPengajuanIzin({
+                siswa_id: siswaId,
+                tanggal_mulai: testDate,
+                tanggal_selesai: new Date('2024-01-16'),
+                alasan: 'Sakit demam',
+                jenis: 'sakit'
+            });
+            return reviewPengajuanIzin({ id: pengajuan.id, status: 'approved', reviewer_id: reviewerId, catatan_reviewer: 'Semoga cepat sembuh' });
+        };
+
+        const absensiOf = (siswaId: number) => db.select()
+            .from(absensiTable)
+            .where(eq(absensiTable.siswa_id, siswaId))
+            .orderBy(absensiTable.tanggal_hari)
+            .execute();
+
+        it('should show the reviewer comment to the siswa', async () => {
+            const { siswa, guruUser } = await createPrerequisiteData();
+            await approvedRequest(siswa.id, guruUser.id);
+
+            const [request] = await getPengajuanIzinBySiswa(siswa.id);
+            expect(request.catatan_reviewer).toEqual('Semoga cepat sembuh');
+        });
+
+        it('should remove the records the approval created and close the request as revoked', async () => {
+            const { siswa, kelas, guruUser } = await createPrerequisiteData();
+            const approved = await approvedRequest(siswa.id, guruUser.id);
+            expect(await absensiOf(siswa.id)).toHaveLength(2);
+
+            const result = await revokePengajuanIzin({ id: approved.id, reviewer_id: guruUser.id, catatan_reviewer: 'Surat dokter palsu' });
+
+            expect(result.status).toEqual('revoked');
+            expect(result.reviewer_id).toEqual(guruUser.id);
+            expect(result.reviewed_at).toBeInstanceOf(Date);
+            expect(result.catatan_reviewer).toEqual('Surat dokter palsu');
+            expect(result.versi).toEqual(2);
+            expect(await absensiOf(siswa.id)).toHaveLength(0);
+            expect(await getPendingPengajuanIzin(kelas.id)).toHaveLength(0);
+
+            const [request] = await getPengajuanIzinBySiswa(siswa.id);
+            expect(request.status).toEqual('revoked');
+            expect(request.catatan_reviewer).toEqual('Surat dokter palsu');
+
+            // Revoking is final
+            await expect(revokePengajuanIzin({ id: approved.id, reviewer_id: guruUser.id, catatan_reviewer: 'Lagi' }))
+                .rejects.toThrow(/only approved/i);
+
+            const [previous] = await getRiwayatPengajuanIzin(approved.id);
+            expect(previous.status).toEqual('approved');
+            expect(previous.reviewer_id).toEqual(guruUser.id);
+        });
+
+        it('should give replaced records back their earlier values', async () => {
+            const { siswa, kelas, guru, guruUser } = await createPrerequisiteData();
+            await db.insert(absensiTable)
+                .values({ siswa_id: siswa.id, kelas_id: kelas.id, guru_id: guru.id, status: 'terlambat', tanggal: testDate, tanggal_hari: '2024-01-15', menit_terlambat: 15, keterangan: 'Macet' })
+                .execute();
+
+            const approved = await approvedRequest(siswa.id, guruUser.id);
+            await revokePengajuanIzin({ id: approved.id, reviewer_id: guruUser.id, catatan_reviewer: 'Salah tanggal' });
+
+            const absensi = await absensiOf(siswa.id);
+            expect(absensi).toHaveLength(1);
+            expect(absensi[0].status).toEqual('terlambat');
+            expect(absensi[0].menit_terlambat).toEqual(15);
+            expect(absensi[0].keterangan).toEqual('Macet');
+            expect(absensi[0].guru_id).toEqual(guru.id);
+        });
+
+        it('should leave records that were changed after the approval', async () => {
+            const { siswa, guruUser } = await createPrerequisiteData();
+            const approved = await approvedRequest(siswa.id, guruUser.id);
+            await db.update(absensiTable)
+                .set({ status: 'hadir', keterangan: null })
+                .where(eq(absensiTable.tanggal_hari, '2024-01-16'))
+                .execute();
+
+            await revokePengajuanIzin({ id: approved.id, reviewer_id: guruUser.id, catatan_reviewer: 'Ternyata masuk' });
+
+            const absensi = await absensiOf(siswa.id);
+            expect(absensi.map(row => [row.tanggal_hari, row.status])).toEqual([['2024-01-16', 'hadir']]);
+        });
+
+        it('should list approved requests of the kelas', async () => {
+            const { siswa, kelas, guruUser } = await createPrerequisiteData();
+            const approved = await approvedRequest(siswa.id, guruUser.id);
+
+            expect((await getApprovedPengajuanIzin(kelas.id)).map(p => p.id)).toEqual([approved.id]);
+            expect(await getPendingPengajuanIzin(kelas.id)).toHaveLength(0);
+        });
+
+        it('should only revoke approved requests', async () => {
+            const { siswa, guruUser } = await createPrerequisiteData();
+            const pengajuan = await createPengajuanIzin({
+                siswa_id: siswa.id,
+                tanggal_mulai: testDate,
+                tanggal_selesai: testDate,
+                alasan: 'Acara keluarga',
+                jenis: 'izin'
+            });
+
+            await expect(revokePengajuanIzin({ id: pengajuan.id, reviewer_id: guruUser.id, catatan_reviewer: 'Batal' }))
+                .rejects.toThrow(/only approved/i);
+        });
+
+        it('should not review the same request twice', async () => {
+            const { siswa, guruUser } = await createPrerequisiteData();
+            const approved = await approvedRequest(siswa.id, guruUser.id);
+
+            await expect(reviewPengajuanIzin({ id: approved.id, status: 'rejected', reviewer_id: guruUser.id }))
+                .rejects.toThrow(/only pending/i);
+            expect(await absensiOf(siswa.id)).toHaveLength(2);
+        });
+    });
+
+    describe('approval chains', () => {
+        // A guru who holds no kelas, for the BK and principal roles
+        async function createGuru(nip: string) {
+            const [user] = await db.insert(usersTable)
+                .values({ nip, password_hash: 'hashed_password', role: 'guru' })
+                .returning()
+                .execute();
+            const [guru] = await db.insert(guruTable)
+                .values({ user_id: user.id, nip, nama: `Guru ${nip}` })
+                .returning()
+                .execute();
+            return { user, guru };
+        }
+
+        const sakit = (siswaId: number, selesai: string) => createPengajuanIzin({
+            siswa_id: siswaId,
+            tanggal_mulai: testDate,
+            tanggal_selesai: new Date(selesai),
+            alasan: 'Dirawat',
+            jenis: 'sakit'
+        });
+
+        it('should only need the wali kelas until rules are configured', async () => {
+            const { siswa } = await createPrerequisiteData();
+            const pengajuan = await sakit(siswa.id, '2024-01-19');
+
+            expect(pengajuan.alur).toEqual(['wali_kelas']);
+            expect(pengajuan.langkah).toEqual(1);
+        });
+
+        it('should pick the matching rule with the highest min_hari', async () => {
+            const { siswa } = await createPrerequisiteData();
+            const bk = await createGuru('bk-1');
+            const kepsek = await createGuru('kepsek-1');
+            await updateAlurPersetujuanIzin({
+                aturan: [
+                    { jenis: null, min_hari: 3, langkah: ['wali_kelas', 'bk'] },
+                    { jenis: 'sakit', min_hari: 5, langkah: ['wali_kelas', 'bk', 'kepala_sekolah'] }
+                ],
+                guru_bk: [bk.guru.id],
+                kepala_sekolah: [kepsek.guru.id]
+            }, null);
+
+            const satuHari = await sakit(siswa.id, '2024-01-15');
+            const tigaHari = await createPengajuanIzin({
+                siswa_id: siswa.id,
+                tanggal_mulai: new Date('2024-02-05'),
+                tanggal_selesai: new Date('2024-02-07'),
+                alasan: 'Acara keluarga',
+                jenis: 'izin'
+            });
+            const limaHari = await createPengajuanIzin({
+                siswa_id: siswa.id,
+                tanggal_mulai: new Date('2024-03-04'),
+                tanggal_selesai: new Date('2024-03-08'),
+                alasan: 'Operasi',
+                jenis: 'sakit'
+            });
+
+            expect(satuHari.alur).toEqual(['wali_kelas']);
+            expect(tigaHari.alur).toEqual(['wali_kelas', 'bk']);
+            expect(limaHari.alur).toEqual(['wali_kelas', 'bk', 'kepala_sekolah']);
+        });
+
+        it('should pass the request along the chain and record the leave at the last approval', async () => {
+            const { siswa, guru, guruUser } = await createPrerequisiteData();
+            const bk = await createGuru('bk-1');
+            await updateAlurPersetujuanIzin({
+                aturan: [{ jenis: 'sakit', min_hari: 3, langkah: ['wali_kelas', 'bk'] }],
+                guru_bk: [bk.guru.id],
+                kepala_sekolah: []
+            }, null);
+            const pengajuan = await sakit(siswa.id, '2024-01-19');
+
+            expect((await getAntrianPersetujuanIzin(guru.id)).map(p => p.id)).toEqual([pengajuan.id]);
+            expect(await getAntrianPersetujuanIzin(bk.guru.id)).toHaveLength(0);
+
+            const afterWali = await reviewPengajuanIzin({ id: pengajuan.id, status: 'approved', reviewer_id: guruUser.id });
+            expect(afterWali.status).toEqual('pending');
+            expect(afterWali.langkah).toEqual(2);
+            expect(await db.select().from(absensiTable).execute()).toHaveLength(0);
+
+            expect(await getAntrianPersetujuanIzin(guru.id)).toHaveLength(0);
+            expect((await getAntrianPersetujuanIzin(bk.guru.id)).map(p => p.id)).toEqual([pengajuan.id]);
+            expect(await getAntrianPersetujuanIzin(null)).toHaveLength(1);
+
+            const final = await reviewPengajuanIzin({ id: pengajuan.id, status: 'approved', reviewer_id: bk.user.id, catatan_reviewer: 'Lekas sembuh' });
+            expect(final.status).toEqual('approved');
+            expect(final.reviewer_id).toEqual(bk.user.id);
+            expect(await db.select().from(absensiTable).execute()).toHaveLength(5);
+
+            const decisions = await getPersetujuanIzin(pengajuan.id);
+            expect(decisions.map(d => [d.peran, d.status, d.reviewer_id])).toEqual([
+                ['wali_kelas', 'approved', guruUser.id],
+                ['bk', 'approved', bk.user.id]
+            ]);
+        });
+
+        it('should end the review when a later approver rejects', async () => {
+            const { siswa, guruUser } = await createPrerequisiteData();
+            const bk = await createGuru('bk-1');
+            await updateAlurPersetujuanIzin({
+                aturan: [{ jenis: null, min_hari: 1, langkah: ['wali_kelas', 'bk'] }],
+                guru_bk: [bk.guru.id],
+                kepala_sekolah: []
+            }, null);
+            const pengajuan = await sakit(siswa.id, '2024-01-15');
+
+            await reviewPengajuanIzin({ id: pengajuan.id, status: 'approved', reviewer_id: guruUser.id });
+            const result = await reviewPengajuanIzin({ id: pengajuan.id, status: 'rejected', reviewer_id: bk.user.id, catatan_reviewer: 'Tanpa surat' });
+
+            expect(result.status).toEqual('rejected');
+            expect(result.catatan_reviewer).toEqual('Tanpa surat');
+            expect(await getAntrianPersetujuanIzin(null)).toHaveLength(0);
+            expect(await db.select().from(absensiTable).execute()).toHaveLength(0);
+        });
+
+        it('should start the chain again when a request is resubmitted', async () => {
+            const { siswa, guruUser } = await createPrerequisiteData();
+            const bk = await createGuru('bk-1');
+            await updateAlurPersetujuanIzin({
+                aturan: [{ jenis: null, min_hari: 1, langkah: ['wali_kelas', 'bk'] }],
+                guru_bk: [bk.guru.id],
+                kepala_sekolah: []
+            }, null);
+            const pengajuan = await sakit(siswa.id, '2024-01-15');
+
+            await reviewPengajuanIzin({ id: pengajuan.id, status: 'approved', reviewer_id: guruUser.id });
+            await reviewPengajuanIzin({ id: pengajuan.id, status: 'revision_requested', reviewer_id: bk.user.id, catatan_reviewer: 'Lampirkan surat' });
+            const resubmitted = await updatePengajuanIzin({
+                id: pengajuan.id,
+                tanggal_mulai: testDate,
+                tanggal_selesai: testDate,
+                alasan: 'Dirawat, surat menyusul',
+                jenis: 'sakit'
+            });
+
+            expect(resubmitted.langkah).toEqual(1);
+            expect(resubmitted.alur).toEqual(['wali_kelas', 'bk']);
+            expect(await getPersetujuanIzin(pengajuan.id)).toHaveLength(0);
+        });
+
+        it('should refuse chains using a role nobody holds', () => {
+            const result = alurPersetujuanIzinSchema.safeParse({
+                aturan: [{ jenis: 'sakit', min_hari: 3, langkah: ['wali_kelas', 'kepala_sekolah'] }],
+                guru_bk: [],
+                kepala_sekolah: []
+            });
+
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('cancel and revise', () => {
+        const newRequest = (siswaId: number) => createPengajuanIzin({
+            siswa_id: siswaId,
+            tanggal_mulai: testDate,
+            tanggal_selesai: testDate,
+            alasan: 'Acara keluarga',
+            jenis: 'izin'
+        });
+
+        it('should cancel a pending request and free its days', async () => {
+            const { siswa } = await createPrerequisiteData();
+            const pengajuan = await newRequest(siswa.id);
+
+            const cancelled = await cancelPengajuanIzin(pengajuan.id);
+
+            expect(cancelled.status).toEqual('cancelled');
+            await expect(cancelPengajuanIzin(pengajuan.id)).rejects.toThrow(/only pending/i);
+            expect((await newRequest(siswa.id)).status).toEqual('pending');
+        });
+
+        it('should not change a request once it has been decided', async () => {
+            const { siswa, guruUser } = await createPrerequisiteData();
+            const pengajuan = await newRequest(siswa.id);
+            await reviewPengajuanIzin({ id: pengajuan.id, status: 'approved', reviewer_id: guruUser.id });
+
+            await expect(cancelPengajuanIzin(pengajuan.id)).rejects.toThrow(/only pending/i);
+            await expect(updatePengajuanIzin({ ...pengajuan, alasan: 'Lain' })).rejects.toThrow(/only pending/i);
+            await expect(reviewPengajuanIzin({ id: pengajuan.id, status: 'rejected', reviewer_id: guruUser.id }))
+                .rejects.toThrow(/only pending/i);
+        });
+
+        it('should not cancel over an approval that lands at the same time', async () => {
+            const { siswa, guruUser } = await createPrerequisiteData();
+            const pengajuan = await newRequest(siswa.id);
+
+            const [review, cancel] = await Promise.allSettled([
+                reviewPengajuanIzin({ id: pengajuan.id, status: 'approved', reviewer_id: guruUser.id }),
+                cancelPengajuanIzin(pengajuan.id)
+            ]);
+
+            // Exactly one wins, and the days match the final status
+            expect([review.status, cancel.status].sort()).toEqual(['fulfilled', 'rejected']);
+            const [request] = await getPengajuanIzinBySiswa(siswa.id);
+            const absensi = await db.select().from(absensiTable).where(eq(absensiTable.siswa_id, siswa.id)).execute();
+            if (request.status === 'approved') {
+                expect(absensi.length).toBeGreaterThan(0);
+            } else {
+                expect(request.status).toEqual('cancelled');
+                expect(absensi).toHaveLength(0);
+            }
+        });
+
+        it('should keep the earlier version when a pending request is edited', async () => {
+            const { siswa } = await createPrerequisiteData();
+            const pengajuan = await newRequest(siswa.id);
+
+            const edited = await updatePengajuanIzin({
+                id: pengajuan.id,
+                tanggal_mulai: testDate,
+                tanggal_selesai: new Date('2024-01-16'),
+                alasan: 'Acara keluarga di luar kota',
+                jenis: 'izin'
+            });
+
+            expect(edited.versi).toEqual(2);
+            expect(edited.status).toEqual('pending');
+            expect(edited.tanggal_selesai).toEqual(new Date('2024-01-16'));
+
+            const riwayat = await getRiwayatPengajuanIzin(pengajuan.id);
+            expect(riwayat).toHaveLength(1);
+            expect(riwayat[0].versi).toEqual(1);
+            expect(riwayat[0].alasan).toEqual('Acara keluarga');
+            expect(riwayat[0].tanggal_selesai).toEqual(testDate);
+        });
+
+        it('should send a request back for revision and accept the resubmission', async () => {
+            const { siswa, guruUser } = await createPrerequisiteData();
+            const pengajuan = await newRequest(siswa.id);
+
+            await expect(reviewPengajuanIzin({ id: pengajuan.id, status: 'revision_requested', reviewer_id: guruUser.id }))
+                .rejects.toThrow(/needs a catatan/i);
+
+            const sentBack = await reviewPengajuanIzin({
+                id: pengajuan.id,
+                status: 'revision_requested',
+                reviewer_id: guruUser.id,
+                catatan_reviewer: 'Sebutkan acaranya'
+            });
+            expect(sentBack.status).toEqual('revision_requested');
+            expect(sentBack.catatan_reviewer).toEqual('Sebutkan acaranya');
+
+            const resubmitted = await updatePengajuanIzin({
+                id: pengajuan.id,
+                tanggal_mulai: testDate,
+                tanggal_selesai: testDate,
+                alasan: 'Pernikahan kakak',
+                jenis: 'izin'
+            });
+            expect(resubmitted.status).toEqual('pending');
+            expect(resubmitted.catatan_reviewer).toBeNull();
+            expect(resubmitted.reviewer_id).toBeNull();
+
+            const riwayat = await getRiwayatPengajuanIzin(pengajuan.id);
+            expect(riwayat[0].status).toEqual('revision_requested');
+            expect(riwayat[0].catatan_reviewer).toEqual('Sebutkan acaranya');
+            expect(riwayat[0].reviewer_id).toEqual(guruUser.id);
+
+            const approved = await reviewPengajuanIzin({ id: pengajuan.id, status: 'approved', reviewer_id: guruUser.id });
+            expect(approved.status).toEqual('approved');
+        });
+    });
+
     describe('getPengajuanIzinBySiswa', () => {
         it('should return empty array for siswa with no pengajuan', async () => {
             const { siswa } = await createPrerequisiteData();
@@ -263,4 +844,83 @@ describe('pengajuanIzin handlers', () => {
             await expect(deletePengajuanIzin(999)).rejects.toThrow(/pengajuan izin not found/i);
         });
     });
+
+    describe('lampiran', () => {
+        let storage: FileStorage;
+
+        beforeEach(() => {
+            storage = createMemoryFileStorage();
+            setFileStorage(storage);
+        });
+
+        it('should store attachments for the guru to preview', async () => {
+            const { siswa } = await createPrerequisiteData();
+
+            const pengajuan = await createPengajuanIzin({
+                siswa_id: siswa.id,
+                tanggal_mulai: testDate,
+                tanggal_selesai: testDate,
+                alasan: 'Sakit demam',
+                jenis: 'sakit',
+                lampiran: [{ nama_file: 'surat-dokter.pdf', data: pdfDataUrl }]
+            });
+
+            const lampiran = await getLampiranPengajuanIzin(pengajuan.id);
+            expect(lampiran).toHaveLength(1);
+            expect(lampiran[0].nama_file).toEqual('surat-dokter.pdf');
+            expect(lampiran[0].mime_type).toEqual('application/pdf');
+            expect(lampiran[0].data).toEqual(pdfDataUrl);
+        });
+
+        it('should refuse files that are not images or PDFs', async () => {
+            const { siswa } = await createPrerequisiteData();
+            const html = `data:application/pdf;base64,${Buffer.from('<html></html>').toString('base64')}`;
+
+            await expect(createPengajuanIzin({
+                siswa_id: siswa.id,
+                tanggal_mulai: testDate,
+                tanggal_selesai: testDate,
+                alasan: 'Sakit demam',
+                jenis: 'sakit',
+                lampiran: [{ nama_file: 'surat.pdf', data: html }]
+            })).rejects.toThrow(/not a JPEG, PNG or WebP image or a PDF/i);
+
+            expect(await getAllPengajuanIzin()).toHaveLength(0);
+        });
+
+        it('should require an attachment for sakit longer than the configured limit', async () => {
+            const { siswa } = await createPrerequisiteData();
+            await updateLampiranSakit({ batas_hari: 2 }, null);
+
+            const request = (jenis: 'izin' | 'sakit', tanggal_selesai: Date, lampiran = [] as { nama_file: string; data: string }[]) =>
+                createPengajuanIzin({ siswa_id: siswa.id, tanggal_mulai: testDate, tanggal_selesai, alasan: 'Tidak masuk', jenis, lampiran });
+
+            // Monday to Wednesday is three school days
+            await expect(request('sakit', new Date('2024-01-17'))).rejects.toThrow(/requires a lampiran/i);
+
+            const withNote = await request('sakit', new Date('2024-01-17'), [{ nama_file: 'surat.pdf', data: pdfDataUrl }]);
+            await deletePengajuanIzin(withNote.id);
+            const short = await request('sakit', new Date('2024-01-16'));
+            await deletePengajuanIzin(short.id);
+            const izin = await request('izin', new Date('2024-01-17'));
+            expect(izin.status).toEqual('pending');
+        });
+
+        it('should delete the files with the pengajuan', async () => {
+            const { siswa } = await createPrerequisiteData();
+            const pengajuan = await createPengajuanIzin({
+                siswa_id: siswa.id,
+                tanggal_mulai: testDate,
+                tanggal_selesai: testDate,
+                alasan: 'Sakit demam',
+                jenis: 'sakit',
+                lampiran: [{ nama_file: 'surat-dokter.pdf', data: pdfDataUrl }]
+            });
+            const [row] = (await db.execute(sql`SELECT storage_key FROM lampiran_izin`)).rows as { storage_key: string }[];
+
+            await deletePengajuanIzin(pengajuan.id);
+
+            expect(await storage.get(row.storage_key)).toBeNull();
+        });
+    });
 });
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB } from '../helpers';
+import { migratePengajuanIzinRange } from '../helpers/pengajuan_izin_range';
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+
+describe('migratePengajuanIzinRange', () => {
+  beforeEach(async () => {
+    await resetDB();
+
+    // The table as it was when a request covered a single day
+    await db.execute(sql`
+      CREATE TABLE pengajuan_izin (
+        id SERIAL PRIMARY KEY,
+        siswa_id INTEGER NOT NULL,
+        tanggal TIMESTAMP NOT NULL,
+        alasan TEXT NOT NULL
+      )
+    `);
+  });
+
+  afterEach(resetDB);
+
+  it('should keep the day of existing requests as a one-day range', async () => {
+    await db.execute(sql`
+      INSERT INTO pengajuan_izin (siswa_id, tanggal, alasan) VALUES
+        (1, '2024-01-15 00:00:00', 'Sakit'),
+        (2, '2024-01-16 00:00:00', 'Acara keluarga')
+    `);
+
+    expect(await migratePengajuanIzinRange()).toEqual(2);
+
+    const rows = await db.execute(sql`
+      SELECT tanggal_mulai::text AS mulai, tanggal_selesai::text AS selesai FROM pengajuan_izin ORDER BY id
+    `);
+    expect(rows.rows).toEqual([
+      { mulai: '2024-01-15 00:00:00', selesai: '2024-01-15 00:00:00' },
+      { mulai: '2024-01-16 00:00:00', selesai: '2024-01-16 00:00:00' }
+    ]);
+  });
+
+  it('should do nothing once the table has been converted', async () => {
+    await migratePengajuanIzinRange();
+
+    expect(await migratePengajuanIzinRange()).toEqual(0);
+  });
+
+  it('should skip databases without the table', async () => {
+    await db.execute(sql`DROP TABLE pengajuan_izin`);
+
+    expect(await migratePengajuanIzinRange()).toEqual(0);
+  });
+});
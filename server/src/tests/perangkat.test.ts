@@ -0,0 +1,243 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  guruTable,
+  kelasTable,
+  siswaTable,
+  mataPelajaranTable,
+  jadwalPelajaranTable,
+  absensiTable,
+  settingsTable,
+  kalenderAkademikTable,
+  perangkatTable,
+  kartuRfidTable,
+  roleEnum,
+  attendanceStatusEnum,
+  jenisKalenderEnum
+} from '../db/schema';
+import {
+  createPerangkat,
+  updatePerangkat,
+  rotatePerangkatSecret,
+  getAllPerangkat,
+  authenticatePerangkat,
+  tapKartu
+} from '../handlers/perangkat';
+import { createKartuRfid, deleteKartuRfid, getKartuRfid } from '../handlers/kartu_rfid';
+import { updateWeekend } from '../handlers/settings';
+import { cardUidSchema } from '../schema';
+import { eq } from 'drizzle-orm';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+
+// Only the tables needed for card reader tests
+const createDB = async () => {
+  const limitedSchema = {
+    roleEnum,
+    attendanceStatusEnum,
+    jenisKalenderEnum,
+    usersTable,
+    guruTable,
+    kelasTable,
+    siswaTable,
+    mataPelajaranTable,
+    jadwalPelajaranTable,
+    absensiTable,
+    settingsTable,
+    kalenderAkademikTable,
+    perangkatTable,
+    kartuRfidTable
+  };
+
+  const migrationStatements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson({ ...limitedSchema })
+  );
+  await db.execute(migrationStatements.join('\n'));
+};
+
+describe('cardUidSchema', () => {
+  it('should normalize the ways readers print a UID', () => {
+    expect(cardUidSchema.parse('04:a2:1b:7c')).toEqual('04A21B7C');
+    expect(cardUidSchema.parse(' 04-A2-1B-7C-55-80-01 ')).toEqual('04A21B7C558001');
+  });
+
+  it('should reject values that are not a UID', () => {
+    expect(cardUidSchema.safeParse('04A2').success).toBe(false);
+    expect(cardUidSchema.safeParse('not-a-card-uid').success).toBe(false);
+  });
+});
+
+describe('perangkat', () => {
+  let siswaIds: number[];
+
+  beforeEach(async () => {
+    await resetDB();
+    await createDB();
+
+    const [guruUser, siswaUser1, siswaUser2] = await db.insert(usersTable)
+      .values([
+        { nip: '111', password_hash: 'hash', role: 'guru' },
+        { nisn: '001', password_hash: 'hash', role: 'siswa' },
+        { nisn: '002', password_hash: 'hash', role: 'siswa' }
+      ])
+      .returning()
+      .execute();
+
+    const [guru] = await db.insert(guruTable)
+      .values({ user_id: guruUser.id, nip: '111', nama: 'Guru Satu' })
+      .returning()
+      .execute();
+
+    const [kelas] = await db.insert(kelasTable)
+      .values({ nama_kelas: 'X-1', wali_kelas_id: guru.id })
+      .returning()
+      .execute();
+
+    const siswa = await db.insert(siswaTable)
+      .values([
+        { user_id: siswaUser1.id, nisn: '001', nama: 'Ani', kelas_id: kelas.id },
+        { user_id: siswaUser2.id, nisn: '002', nama: 'Budi', kelas_id: kelas.id }
+      ])
+      .returning()
+      .execute();
+    siswaIds = siswa.map(s => s.id);
+  });
+
+  afterEach(resetDB);
+
+  describe('registry', () => {
+    it('should return the secret once and never store it in plain text', async () => {
+      const { perangkat, secret } = await createPerangkat({ kode: 'GATE-1', nama: 'Gerbang Utama', lokasi: 'Pintu depan' });
+
+      expect(perangkat.kode).toEqual('GATE-1');
+      expect(perangkat.aktif).toBe(true);
+      expect(perangkat).not.toHaveProperty('secret_hash');
+
+      const [row] = await db.select().from(perangkatTable).where(eq(perangkatTable.id, perangkat.id)).execute();
+      expect(row.secret_hash).not.toContain(secret);
+
+      const all = await getAllPerangkat();
+      expect(all).toHaveLength(1);
+      expect(all[0]).not.toHaveProperty('secret_hash');
+    });
+
+    it('should keep device codes unique', async () => {
+      await createPerangkat({ kode: 'GATE-1', nama: 'Gerbang Utama', lokasi: 'Pintu depan' });
+
+      await expect(createPerangkat({ kode: 'GATE-1', nama: 'Gerbang Samping', lokasi: 'Parkiran' }))
+        .rejects.toThrow(/already exists/i);
+    });
+
+    it('should authenticate only active devices with the current secret', async () => {
+      const { perangkat, secret } = await createPerangkat({ kode: 'GATE-1', nama: 'Gerbang Utama', lokasi: 'Pintu depan' });
+
+      const authenticated = await authenticatePerangkat('GATE-1', secret);
+      expect(authenticated?.id).toEqual(perangkat.id);
+      expect(authenticated?.last_seen_at).toBeInstanceOf(Date);
+
+      expect(await authenticatePerangkat('GATE-1', 'wrong-secret')).toBeNull();
+      expect(await authenticatePerangkat('GATE-2', secret)).toBeNull();
+
+      const rotated = await rotatePerangkatSecret(perangkat.id);
+      expect(await authenticatePerangkat('GATE-1', secret)).toBeNull();
+      expect(await authenticatePerangkat('GATE-1', rotated.secret)).not.toBeNull();
+
+      await updatePerangkat({ id: perangkat.id, aktif: false });
+      expect(await authenticatePerangkat('GATE-1', rotated.secret)).toBeNull();
+    });
+
+    it('should assign a card to one siswa only', async () => {
+      const kartu = await createKartuRfid({ uid: '04A21B7C', siswa_id: siswaIds[0] });
+
+      await expect(createKartuRfid({ uid: '04A21B7C', siswa_id: siswaIds[1] })).rejects.toThrow(/already assigned/i);
+      await expect(createKartuRfid({ uid: '04A21B7D', siswa_id: 999999 })).rejects.toThrow(/siswa not found/i);
+
+      const cards = await getKartuRfid({ siswa_id: siswaIds[0] });
+      expect(cards).toHaveLength(1);
+      expect(cards[0].nama_siswa).toEqual('Ani');
+      expect(cards[0].nisn).toEqual('001');
+
+      await deleteKartuRfid(kartu.id);
+      const reassigned = await createKartuRfid({ uid: '04A21B7C', siswa_id: siswaIds[1] });
+      expect(reassigned.siswa_id).toEqual(siswaIds[1]);
+    });
+  });
+
+  describe('tapKartu', () => {
+    beforeEach(async () => {
+      await createKartuRfid({ uid: '04A21B7C', siswa_id: siswaIds[0] });
+    });
+
+    // Moves today's taps back in time so the next tap is not taken for a bounce
+    const backdateTaps = () => db.update(absensiTable)
+      .set({ waktu_masuk: '00:00:00' })
+      .where(eq(absensiTable.siswa_id, siswaIds[0]))
+      .execute();
+
+    it('should refuse unknown cards', async () => {
+      const result = await tapKartu({ uid: 'FFFFFFFF' });
+
+      expect(result.hasil).toEqual('ditolak');
+      expect(result.nama_siswa).toBeNull();
+      expect(result.absensi).toBeNull();
+    });
+
+    it('should check in on the first tap and check out on a later one', async () => {
+      const masuk = await tapKartu({ uid: '04A21B7C' });
+
+      expect(masuk.hasil).toEqual('masuk');
+      expect(masuk.nama_siswa).toEqual('Ani');
+      expect(masuk.absensi?.waktu_masuk).not.toBeNull();
+      expect(masuk.absensi?.waktu_pulang).toBeNull();
+
+      await backdateTaps();
+      const pulang = await tapKartu({ uid: '04A21B7C' });
+
+      expect(pulang.hasil).toEqual('pulang');
+      expect(pulang.absensi?.id).toEqual(masuk.absensi!.id);
+      expect(pulang.absensi?.waktu_pulang).not.toBeNull();
+
+      const records = await db.select().from(absensiTable).execute();
+      expect(records).toHaveLength(1);
+    });
+
+    it('should ignore a second tap right after the first', async () => {
+      await tapKartu({ uid: '04A21B7C' });
+
+      const result = await tapKartu({ uid: '04A21B7C' });
+
+      expect(result.hasil).toEqual('diabaikan');
+      expect(result.absensi?.waktu_pulang).toBeNull();
+    });
+
+    it('should keep the check-out time when the card is tapped again later', async () => {
+      await tapKartu({ uid: '04A21B7C' });
+      await backdateTaps();
+      await tapKartu({ uid: '04A21B7C' });
+      await db.update(absensiTable)
+        .set({ waktu_pulang: '00:00:00' })
+        .where(eq(absensiTable.siswa_id, siswaIds[0]))
+        .execute();
+
+      const result = await tapKartu({ uid: '04A21B7C' });
+
+      expect(result.hasil).toEqual('diabaikan');
+      expect(result.pesan).toEqual('Sudah absen pulang hari ini');
+      expect(result.absensi?.waktu_pulang).toEqual('00:00:00');
+      const [record] = await db.select().from(absensiTable).execute();
+      expect(record.waktu_pulang).toEqual('00:00:00');
+    });
+
+    it('should show refused check-ins on the reader', async () => {
+      await updateWeekend({ days: [0, 1, 2, 3, 4, 5, 6] }, null);
+
+      const result = await tapKartu({ uid: '04A21B7C' });
+
+      expect(result.hasil).toEqual('ditolak');
+      expect(result.nama_siswa).toEqual('Ani');
+      expect(result.pesan).toMatch(/not a school day/i);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, guruTable, kelasTable, roleEnum } from '../db/schema';
+import { signQrToken, verifyQrToken } from '../utils/qr_token';
+import { generateQrToken, verifyQrTokenForKelas } from '../handlers/qr_token';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+
+// Only the tables needed for QR token tests
+const createDB = async () => {
+  const limitedSchema = {
+    roleEnum,
+    usersTable,
+    guruTable,
+    kelasTable
+  };
+
+  const migrationStatements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson({ ...limitedSchema })
+  );
+  await db.execute(migrationStatements.join('\n'));
+};
+
+describe('qr token utils', () => {
+  it('should verify a freshly signed token', () => {
+    const { token, expires_at } = signQrToken({ kelas_id: 7, lokasi: 'Ruang X-1' });
+
+    const payload = verifyQrToken(token);
+    expect(payload.kelas_id).toEqual(7);
+    expect(payload.lokasi).toEqual('Ruang X-1');
+    expect(payload.exp).toEqual(expires_at.getTime());
+  });
+
+  it('should issue a different token on every rotation', () => {
+    const first = signQrToken({ kelas_id: 7, lokasi: null });
+    const second = signQrToken({ kelas_id: 7, lokasi: null });
+
+    expect(first.token).not.toEqual(second.token);
+  });
+
+  it('should reject expired tokens', () => {
+    const { token, expires_at } = signQrToken({ kelas_id: 7, lokasi: null });
+
+    expect(() => verifyQrToken(token, new Date(expires_at.getTime() + 1))).toThrow(/expired/i);
+  });
+
+  it('should reject malformed and tampered tokens', () => {
+    const { token } = signQrToken({ kelas_id: 7, lokasi: null });
+    const [data, signature] = token.split('.');
+
+    expect(() => verifyQrToken('not-a-token')).toThrow(/invalid/i);
+    expect(() => verifyQrToken(`${data}.${signature}.extra`)).toThrow(/invalid/i);
+    expect(() => verifyQrToken(`${data}.${signature[0] === 'A' ? 'B' : 'A'}${signature.slice(1)}`)).toThrow(/invalid/i);
+  });
+});
+
+describe('qr token handlers', () => {
+  let kelasId: number;
+
+  beforeEach(async () => {
+    await resetDB();
+    await createDB();
+
+    const [guruUser] = await db.insert(usersTable)
+      .values({ nip: '111', password_hash: 'hash', role: 'guru' })
+      .returning()
+      .execute();
+
+    const [guru] = await db.insert(guruTable)
+      .values({ user_id: guruUser.id, nip: '111', nama: 'Guru Satu' })
+      .returning()
+      .execute();
+
+    const [kelas] = await db.insert(kelasTable)
+      .values({ nama_kelas: 'X-1', wali_kelas_id: guru.id })
+      .returning()
+      .execute();
+    kelasId = kelas.id;
+  });
+
+  afterEach(resetDB);
+
+  describe('generateQrToken', () => {
+    it('should generate a token for a kelas', async () => {
+      const result = await generateQrToken({ kelas_id: kelasId, lokasi: null });
+
+      expect(result.kelas_id).toEqual(kelasId);
+      expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+      expect(verifyQrTokenForKelas(result.token, kelasId).kelas_id).toEqual(kelasId);
+    });
+
+    it('should generate a location token valid for every kelas', async () => {
+      const result = await generateQrToken({ kelas_id: null, lokasi: 'Gerbang Utama' });
+
+      expect(verifyQrTokenForKelas(result.token, kelasId).lokasi).toEqual('Gerbang Utama');
+      expect(verifyQrTokenForKelas(result.token, kelasId + 1).lokasi).toEqual('Gerbang Utama');
+    });
+
+    it('should reject unknown kelas and codes without a target', async () => {
+      await expect(generateQrToken({ kelas_id: 99999, lokasi: null })).rejects.toThrow(/kelas not found/i);
+      await expect(generateQrToken({ kelas_id: null, lokasi: null })).rejects.toThrow(/kelas_id or lokasi/i);
+    });
+  });
+
+  describe('verifyQrTokenForKelas', () => {
+    it('should reject a kelas token scanned by another kelas', async () => {
+      const result = await generateQrToken({ kelas_id: kelasId, lokasi: null });
+
+      expect(() => verifyQrTokenForKelas(result.token, kelasId + 1)).toThrow(/another kelas/i);
+    });
+  });
+});
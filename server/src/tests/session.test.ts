@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, roleEnum } from '../db/schema';
+import { createSession, resolveSession, refreshSession, deleteSession } from '../handlers/session';
+import { eq } from 'drizzle-orm';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+
+// Only the tables needed for session tests
+const createDB = async () => {
+  const limitedSchema = {
+    roleEnum,
+    usersTable,
+    sessionsTable
+  };
+
+  const migrationStatements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson({ ...limitedSchema })
+  );
+  await db.execute(migrationStatements.join('\n'));
+};
+
+describe('session handlers', () => {
+  let adminId: number;
+
+  beforeEach(async () => {
+    await resetDB();
+    await createDB();
+
+    const [admin] = await db.insert(usersTable)
+      .values({
+        username: 'admin',
+        password_hash: 'hashed_password',
+        role: 'admin'
+      })
+      .returning()
+      .execute();
+    adminId = admin.id;
+  });
+
+  afterEach(resetDB);
+
+  describe('createSession', () => {
+    it('should store only a hash of the token', async () => {
+      const session = await createSession(adminId);
+
+      expect(session.token.length).toBeGreaterThan(20);
+      expect(session.expires_at.getTime()).toBeGreaterThan(Date.now());
+
+      const rows = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.user_id, adminId))
+        .execute();
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0].token_hash).not.toEqual(session.token);
+    });
+  });
+
+  describe('resolveSession', () => {
+    it('should resolve the user of a valid session', async () => {
+      const session = await createSession(adminId);
+
+      const user = await resolveSession(session.token);
+
+      expect(user?.id).toEqual(adminId);
+      expect(user?.role).toEqual('admin');
+      expect(user?.profile?.nama).toEqual('admin');
+    });
+
+    it('should return null for an unknown token', async () => {
+      const user = await resolveSession('not-a-real-token');
+
+      expect(user).toBeNull();
+    });
+
+    it('should reject and remove expired sessions', async () => {
+      const session = await createSession(adminId);
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      const user = await resolveSession(session.token);
+
+      expect(user).toBeNull();
+      const rows = await db.select().from(sessionsTable).execute();
+      expect(rows).toHaveLength(0);
+    });
+  });
+
+  describe('refreshSession', () => {
+    it('should rotate the token and invalidate the old one', async () => {
+      const session = await createSession(adminId);
+
+      const refreshed = await refreshSession(session.token);
+
+      expect(refreshed.token).not.toEqual(session.token);
+      expect(await resolveSession(session.token)).toBeNull();
+      expect((await resolveSession(refreshed.token))?.id).toEqual(adminId);
+    });
+
+    it('should throw for an unknown token', async () => {
+      await expect(refreshSession('not-a-real-token')).rejects.toThrow(/session not found/i);
+    });
+  });
+
+  describe('deleteSession', () => {
+    it('should end the session', async () => {
+      const session = await createSession(adminId);
+
+      const result = await deleteSession(session.token);
+
+      expect(result.success).toBe(true);
+      expect(await resolveSession(session.token)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, settingsTable, roleEnum } from '../db/schema';
+import { type Geofence, type SchoolHours, schoolHoursSchema } from '../schema';
+import { getGeofence, updateGeofence, getSchoolHours, updateSchoolHours, getSchoolTimezone, updateSchoolTimezone, resolveSchoolTimezone } from '../handlers/settings';
+import { distanceMeters, isInsidePolygon, assertInsideGeofence } from '../utils/geofence';
+import { evaluateCheckIn, isEarlyLeave } from '../utils/school_hours';
+import { serverTimezone, toDateKey, toTimeOfDay, dayOfWeek, addDays, endOfMonth, startOfDay, dayRange } from '../utils/school_date';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+
+// Only the tables needed for settings tests
+const createDB = async () => {
+  const limitedSchema = {
+    roleEnum,
+    usersTable,
+    settingsTable
+  };
+
+  const migrationStatements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson({ ...limitedSchema })
+  );
+  await db.execute(migrationStatements.join('\n'));
+};
+
+const radiusGeofence: Geofence = {
+  enabled: true,
+  max_accuracy_meters: 50,
+  area: { type: 'radius', center: { latitude: -6.2, longitude: 106.8 }, radius_meters: 100 }
+};
+
+describe('geofence utils', () => {
+  it('should measure distances in meters', () => {
+    // One degree of latitude is roughly 111 km
+    const distance = distanceMeters({ latitude: 0, longitude: 0 }, { latitude: 1, longitude: 0 });
+    expect(Math.round(distance / 1000)).toEqual(111);
+  });
+
+  it('should detect points inside a polygon', () => {
+    const triangle = [
+      { latitude: 0, longitude: 0 },
+      { latitude: 0, longitude: 2 },
+      { latitude: 2, longitude: 0 }
+    ];
+
+    expect(isInsidePolygon({ latitude: 0.5, longitude: 0.5 }, triangle)).toBe(true);
+    expect(isInsidePolygon({ latitude: 1.5, longitude: 1.5 }, triangle)).toBe(false);
+  });
+
+  it('should report why a location is refused', () => {
+    const inside = { latitude: -6.2005, longitude: 106.8, accuracy: 10 };
+
+    expect(() => assertInsideGeofence(radiusGeofence, inside)).not.toThrow();
+    expect(() => assertInsideGeofence(null, inside)).toThrow(expect.objectContaining({ code: 'GEOFENCE_NOT_CONFIGURED' }));
+    expect(() => assertInsideGeofence(radiusGeofence, { ...inside, accuracy: 80 }))
+      .toThrow(expect.objectContaining({ code: 'LOCATION_INACCURATE' }));
+    expect(() => assertInsideGeofence(radiusGeofence, { ...inside, latitude: -6.21 }))
+      .toThrow(expect.objectContaining({ code: 'OUTSIDE_GEOFENCE' }));
+  });
+});
+
+describe('school date utils', () => {
+  it('should read the day and time on the school clock', () => {
+    // 18:30 UTC is already the next day in Jakarta, but not in Jayapura's previous day
+    const instant = new Date('2024-01-15T18:30:00Z');
+
+    expect(toDateKey(instant, 'Asia/Jakarta')).toEqual('2024-01-16');
+    expect(toTimeOfDay(instant, 'Asia/Jakarta')).toEqual('01:30:00');
+    expect(toDateKey(instant, 'UTC')).toEqual('2024-01-15');
+    expect(toTimeOfDay(new Date('2024-01-15T15:00:00Z'), 'Asia/Jayapura')).toEqual('00:00:00');
+  });
+
+  it('should find the instants a school day starts and ends', () => {
+    expect(startOfDay('2024-01-16', 'Asia/Jakarta')).toEqual(new Date('2024-01-15T17:00:00Z'));
+    expect(dayRange('2024-01-16', 'Asia/Makassar')).toEqual({
+      start: new Date('2024-01-15T16:00:00Z'),
+      end: new Date('2024-01-16T16:00:00Z')
+    });
+    // A day shortened by a DST change still starts at local midnight
+    expect(startOfDay('2024-03-31', 'Europe/Berlin')).toEqual(new Date('2024-03-30T23:00:00Z'));
+    expect(startOfDay('2024-04-01', 'Europe/Berlin')).toEqual(new Date('2024-03-31T22:00:00Z'));
+  });
+
+  it('should do calendar arithmetic on date keys', () => {
+    expect(dayOfWeek('2024-01-15')).toEqual(1);
+    expect(addDays('2024-02-28', 2)).toEqual('2024-03-01');
+    expect(addDays('2024-01-01', -1)).toEqual('2023-12-31');
+    expect(endOfMonth('2024-02-10')).toEqual('2024-02-29');
+    expect(endOfMonth('2024-12-31')).toEqual('2024-12-31');
+  });
+});
+
+describe('school hours utils', () => {
+  // Times are read on the school clock, whatever the zone of the server
+  const WIB = 'Asia/Jakarta';
+
+  // Monday 07:00 - 14:00 and Friday 07:00 - 11:00, 10 minutes grace
+  const hours: SchoolHours = {
+    grace_minutes: 10,
+    days: [
+      { day_of_week: 1, jam_masuk: '07:00', jam_pulang: '14:00' },
+      { day_of_week: 5, jam_masuk: '07:00', jam_pulang: '11:00' }
+    ]
+  };
+
+  it('should flag check-ins after the grace period with minutes counted from jam_masuk', () => {
+    expect(evaluateCheckIn(hours, new Date('2024-01-15T07:10:00+07:00'), WIB)).toEqual({ status: 'hadir', menit_terlambat: null });
+    expect(evaluateCheckIn(hours, new Date('2024-01-15T07:25:00+07:00'), WIB)).toEqual({ status: 'terlambat', menit_terlambat: 25 });
+  });
+
+  it('should treat days without hours and unconfigured schools as on time', () => {
+    // 2024-01-16 is a Tuesday
+    expect(evaluateCheckIn(hours, new Date('2024-01-16T09:00:00+07:00'), WIB).status).toEqual('hadir');
+    expect(evaluateCheckIn(null, new Date('2024-01-15T09:00:00+07:00'), WIB).status).toEqual('hadir');
+  });
+
+  it('should use the exit time of the weekday for early leave', () => {
+    expect(isEarlyLeave(hours, new Date('2024-01-15T12:00:00+07:00'), WIB)).toBe(true);
+    expect(isEarlyLeave(hours, new Date('2024-01-19T12:00:00+07:00'), WIB)).toBe(false);
+    expect(isEarlyLeave(hours, new Date('2024-01-16T08:00:00+07:00'), WIB)).toBe(false);
+    expect(isEarlyLeave(null, new Date('2024-01-15T08:00:00+07:00'), WIB)).toBe(false);
+  });
+
+  it('should reject duplicate days and inverted hours', () => {
+    const monday = { day_of_week: 1, jam_masuk: '07:00', jam_pulang: '14:00' };
+
+    expect(schoolHoursSchema.safeParse({ grace_minutes: 0, days: [monday, monday] }).success).toBe(false);
+    expect(schoolHoursSchema.safeParse({
+      grace_minutes: 0,
+      days: [{ ...monday, jam_masuk: '15:00' }]
+    }).success).toBe(false);
+    expect(schoolHoursSchema.safeParse({ grace_minutes: 0, days: [{ ...monday, jam_masuk: '7:00' }] }).success).toBe(false);
+  });
+});
+
+describe('settings handlers', () => {
+  let adminId: number;
+
+  beforeEach(async () => {
+    await resetDB();
+    await createDB();
+
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin', password_hash: 'hash', role: 'admin' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should return null before the geofence is configured', async () => {
+    expect(await getGeofence()).toBeNull();
+  });
+
+  it('should store and replace the geofence', async () => {
+    await updateGeofence(radiusGeofence, adminId);
+
+    const polygon: Geofence = {
+      enabled: true,
+      max_accuracy_meters: 30,
+      area: {
+        type: 'polygon',
+        points: [
+          { latitude: 0, longitude: 0 },
+          { latitude: 0, longitude: 1 },
+          { latitude: 1, longitude: 0 }
+        ]
+      }
+    };
+    await updateGeofence(polygon, adminId);
+
+    expect(await getGeofence()).toEqual(polygon);
+
+    const rows = await db.select().from(settingsTable).execute();
+    expect(rows).toHaveLength(1);
+    expect(rows[0].updated_by).toEqual(adminId);
+  });
+
+  it('should store school hours next to the geofence', async () => {
+    const hours: SchoolHours = {
+      grace_minutes: 15,
+      days: [{ day_of_week: 1, jam_masuk: '07:00', jam_pulang: '14:00' }]
+    };
+
+    expect(await getSchoolHours()).toBeNull();
+
+    await updateGeofence(radiusGeofence, adminId);
+    await updateSchoolHours(hours, adminId);
+
+    expect(await getSchoolHours()).toEqual(hours);
+    expect(await getGeofence()).toEqual(radiusGeofence);
+  });
+
+  it('should fall back to the server timezone until the school timezone is configured', async () => {
+    expect(await getSchoolTimezone()).toBeNull();
+    expect(await resolveSchoolTimezone()).toEqual(serverTimezone());
+
+    await updateSchoolTimezone({ timezone: 'Asia/Makassar' }, adminId);
+
+    expect(await getSchoolTimezone()).toEqual({ timezone: 'Asia/Makassar' });
+    expect(await resolveSchoolTimezone()).toEqual('Asia/Makassar');
+  });
+});
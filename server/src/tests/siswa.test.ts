@@ -21,7 +21,7 @@ describe('siswa handlers', () => {
     // Create schema manually without the problematic pengajuanIzinTable
     await db.execute(sql`
       CREATE TYPE "role" AS ENUM('admin', 'guru', 'siswa');
-      CREATE TYPE "attendance_status" AS ENUM('hadir', 'izin', 'sakit', 'alpha');
+      CREATE TYPE "attendance_status" AS ENUM('hadir', 'terlambat', 'izin', 'sakit', 'alpha');
       CREATE TYPE "request_status" AS ENUM('pending', 'approved', 'rejected');
 
       CREATE TABLE "users" (
@@ -31,6 +31,7 @@ describe('siswa handlers', () => {
         "nisn" text,
         "password_hash" text NOT NULL,
         "role" "role" NOT NULL,
+        "must_change_password" boolean DEFAULT false NOT NULL,
         "created_at" timestamp DEFAULT now() NOT NULL,
         "updated_at" timestamp DEFAULT now() NOT NULL
       );
@@ -4,16 +4,9 @@ import { usersTable } from '../db/schema';
 import { type CreateUserInput, type UpdateUserInput } from '../schema';
 import { createUser, updateUser, deleteUser, getAllUsers } from '../handlers/user';
 import { eq } from 'drizzle-orm';
-import { pbkdf2Sync } from 'crypto';
+import { verifyPassword } from '../utils/password';
 import { sql } from 'drizzle-orm';
 
-// Helper function to verify passwords (matches the one in handler)
-function verifyPassword(password: string, hashedPassword: string): boolean {
-  const [salt, hash] = hashedPassword.split(':');
-  const verifyHash = pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex');
-  return hash === verifyHash;
-}
-
 // Custom database setup for user tests only
 const resetUserDB = async () => {
   await db.execute(sql`drop schema if exists public cascade`);
@@ -32,6 +25,7 @@ const createUserDB = async () => {
     "nisn" text,
     "password_hash" text NOT NULL,
     "role" "role" NOT NULL,
+    "must_change_password" boolean DEFAULT false NOT NULL,
     "created_at" timestamp DEFAULT now() NOT NULL,
     "updated_at" timestamp DEFAULT now() NOT NULL
   )`);
@@ -62,7 +56,7 @@ describe('User Handlers', () => {
       expect(result.updated_at).toBeInstanceOf(Date);
 
       // Verify password is hashed
-      const isValidPassword = verifyPassword('password123', result.password_hash);
+      const isValidPassword = await verifyPassword('password123', result.password_hash);
       expect(isValidPassword).toBe(true);
     });
 
@@ -83,7 +77,7 @@ describe('User Handlers', () => {
       expect(result.role).toEqual('guru');
 
       // Verify password is hashed
-      const isValidPassword = verifyPassword('gurupass', result.password_hash);
+      const isValidPassword = await verifyPassword('gurupass', result.password_hash);
       expect(isValidPassword).toBe(true);
     });
 
@@ -104,7 +98,7 @@ describe('User Handlers', () => {
       expect(result.role).toEqual('siswa');
 
       // Verify password is hashed
-      const isValidPassword = verifyPassword('siswapass', result.password_hash);
+      const isValidPassword = await verifyPassword('siswapass', result.password_hash);
       expect(isValidPassword).toBe(true);
     });
 
@@ -241,14 +235,50 @@ describe('User Handlers', () => {
       const result = await updateUser(updateInput);
 
       // Verify new password is hashed correctly
-      const isValidOldPassword = verifyPassword('originalpass', result.password_hash);
-      const isValidNewPassword = verifyPassword('newpassword123', result.password_hash);
+      const isValidOldPassword = await verifyPassword('originalpass', result.password_hash);
+      const isValidNewPassword = await verifyPassword('newpassword123', result.password_hash);
       
       expect(isValidOldPassword).toBe(false);
       expect(isValidNewPassword).toBe(true);
       expect(result.password_hash).not.toEqual(createdUser.password_hash);
     });
 
+    it('should require a password change after an admin sets the password', async () => {
+      const createdUser = await createUser({
+        username: 'testuser',
+        nip: null,
+        nisn: null,
+        password: 'originalpass',
+        role: 'admin'
+      });
+
+      expect(createdUser.must_change_password).toBe(false);
+
+      const result = await updateUser({
+        id: createdUser.id,
+        password: 'newpassword123'
+      });
+
+      expect(result.must_change_password).toBe(true);
+    });
+
+    it('should allow toggling the must change password flag', async () => {
+      const createdUser = await createUser({
+        username: 'testuser',
+        nip: null,
+        nisn: null,
+        password: 'originalpass',
+        role: 'admin'
+      });
+
+      const result = await updateUser({
+        id: createdUser.id,
+        must_change_password: true
+      });
+
+      expect(result.must_change_password).toBe(true);
+    });
+
     it('should update partial fields only', async () => {
       const createInput: CreateUserInput = {
         username: null,
@@ -0,0 +1,9 @@
+import { type CheckInErrorCode } from '../schema';
+
+// A refused check-in; the code reaches the client through the tRPC error formatter
+export class CheckInError extends Error {
+  constructor(readonly code: CheckInErrorCode, message: string) {
+    super(message);
+    this.name = 'CheckInError';
+  }
+}
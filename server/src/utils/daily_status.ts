@@ -0,0 +1,49 @@
+import { type AturanStatusHarian } from '../schema';
+
+type AttendanceStatus = 'hadir' | 'terlambat' | 'izin' | 'sakit' | 'alpha';
+
+export interface LessonRecord {
+  status: AttendanceStatus;
+  jam_mulai: string; // HH:MM of the timetable slot
+}
+
+// Used until an admin picks a rule
+export const DEFAULT_ATURAN_STATUS_HARIAN: AturanStatusHarian = 'mayoritas';
+
+const isPresent = (status: AttendanceStatus) => status === 'hadir' || status === 'terlambat';
+
+// Most frequent absence status; ties go to the one recorded first in the day
+function dominantAbsence(lessons: LessonRecord[]): AttendanceStatus {
+  const counts = new Map<AttendanceStatus, number>();
+  for (const lesson of lessons) {
+    counts.set(lesson.status, (counts.get(lesson.status) ?? 0) + 1);
+  }
+
+  let dominant = lessons[0].status;
+  for (const [status, count] of counts) {
+    if (count > counts.get(dominant)!) {
+      dominant = status;
+    }
+  }
+  return dominant;
+}
+
+// Daily status of a siswa from their lesson records of one day; null without any record.
+// A present day is terlambat when the siswa was late to the first lesson they attended.
+export function deriveDailyStatus(aturan: AturanStatusHarian, lessons: LessonRecord[]): AttendanceStatus | null {
+  if (lessons.length === 0) return null;
+
+  const ordered = [...lessons].sort((a, b) => a.jam_mulai.localeCompare(b.jam_mulai));
+  if (aturan === 'pelajaran_pertama') {
+    return ordered[0].status;
+  }
+
+  const present = ordered.filter(lesson => isPresent(lesson.status));
+  const absent = ordered.filter(lesson => !isPresent(lesson.status));
+
+  const isPresentForDay = aturan === 'mayoritas'
+    ? present.length * 2 >= ordered.length
+    : present.length > 0;
+
+  return isPresentForDay ? present[0].status : dominantAbsence(absent);
+}
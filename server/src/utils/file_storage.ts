@@ -0,0 +1,70 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+// Where uploaded files live; keys are slash separated paths chosen by the server
+export interface FileStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+// Keeps files in the process; used by tests
+export function createMemoryFileStorage(): FileStorage {
+  const files = new Map<string, Buffer>();
+
+  return {
+    async put(key, data) {
+      files.set(key, Buffer.from(data));
+    },
+    async get(key) {
+      return files.get(key) ?? null;
+    },
+    async delete(key) {
+      files.delete(key);
+    }
+  };
+}
+
+// Files under a directory on the server's disk
+export function createLocalFileStorage(root: string): FileStorage {
+  const base = path.resolve(root);
+
+  const resolve = (key: string): string => {
+    const file = path.resolve(base, key);
+    if (!file.startsWith(base + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    async put(key, data) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+    async get(key) {
+      try {
+        return await readFile(resolve(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async delete(key) {
+      await rm(resolve(key), { force: true });
+    }
+  };
+}
+
+let storage: FileStorage | null = null;
+
+// Other backends, such as object storage, plug in through setFileStorage
+export function getFileStorage(): FileStorage {
+  storage ??= createLocalFileStorage(process.env['FILE_STORAGE_DIR'] || 'storage');
+  return storage;
+}
+
+export function setFileStorage(newStorage: FileStorage): void {
+  storage = newStorage;
+}
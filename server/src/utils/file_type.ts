@@ -0,0 +1,18 @@
+// Recognised from the file's first bytes rather than the type the client claims.
+// Returns null for anything other than a JPEG, PNG or WebP image or a PDF.
+export function detectMimeType(data: Buffer): string | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (data.length >= 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+  if (data.length >= 5 && data.toString('ascii', 0, 5) === '%PDF-') return 'application/pdf';
+  return null;
+}
+
+// Decodes the base64 payload of a data URL
+export function decodeDataUrl(dataUrl: string): Buffer {
+  return Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64');
+}
+
+export function toDataUrl(mimeType: string, data: Buffer): string {
+  return `data:${mimeType};base64,${data.toString('base64')}`;
+}
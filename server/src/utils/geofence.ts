@@ -0,0 +1,52 @@
+import { type Geofence, type GeoPoint, type CheckInLocation } from '../schema';
+import { CheckInError } from './check_in_error';
+
+const EARTH_RADIUS_METERS = 6371000;
+
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
+
+// Great-circle (haversine) distance between two points
+export function distanceMeters(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+// Ray casting on raw coordinates; accurate enough at the scale of a school ground
+export function isInsidePolygon(point: GeoPoint, polygon: GeoPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude)
+      && point.longitude < (b.longitude - a.longitude) * (point.latitude - a.latitude) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+// Throws a CheckInError unless the location is a trustworthy fix inside the school area
+export function assertInsideGeofence(geofence: Geofence | null, location: CheckInLocation): void {
+  if (!geofence || !geofence.enabled) {
+    throw new CheckInError('GEOFENCE_NOT_CONFIGURED', 'Location check-in is not enabled for this school');
+  }
+
+  if (location.accuracy > geofence.max_accuracy_meters) {
+    throw new CheckInError(
+      'LOCATION_INACCURATE',
+      `Location accuracy of ${Math.round(location.accuracy)} m exceeds the allowed ${geofence.max_accuracy_meters} m`
+    );
+  }
+
+  const inside = geofence.area.type === 'radius'
+    ? distanceMeters(geofence.area.center, location) <= geofence.area.radius_meters
+    : isInsidePolygon(location, geofence.area.points);
+
+  if (!inside) {
+    throw new CheckInError('OUTSIDE_GEOFENCE', 'Location is outside the school area');
+  }
+}
@@ -0,0 +1,122 @@
+import { db } from '../db';
+import { loginAttemptsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+export interface LoginAttemptState {
+  failures: number;
+  lockouts: number;
+  locked_until: Date | null;
+  last_failure_at: Date;
+}
+
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptState | null>;
+  set(key: string, state: LoginAttemptState): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface MemoryLoginAttemptStoreOptions {
+  retentionMs: number; // Unlocked entries without a failure for this long are forgotten
+  maxEntries: number; // Beyond this expired, then the least recently failed unlocked entries are dropped
+}
+
+const DEFAULT_MEMORY_OPTIONS: MemoryLoginAttemptStoreOptions = {
+  retentionMs: 24 * 60 * 60 * 1000,
+  maxEntries: 100000
+};
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Default store; counters are lost on restart, which only shortens active lockouts.
+// Entries are evicted once they no longer matter, so failures from many identifiers or
+// addresses cannot grow the map without bound.
+export function createMemoryLoginAttemptStore(options: Partial<MemoryLoginAttemptStoreOptions> = {}): LoginAttemptStore {
+  const retentionMs = options.retentionMs ?? DEFAULT_MEMORY_OPTIONS.retentionMs;
+  const maxEntries = options.maxEntries ?? DEFAULT_MEMORY_OPTIONS.maxEntries;
+  const attempts = new Map<string, LoginAttemptState>();
+  let lastSweep = 0;
+
+  const isLocked = (state: LoginAttemptState, now: number) =>
+    state.locked_until !== null && state.locked_until.getTime() > now;
+
+  const isExpired = (state: LoginAttemptState, now: number) =>
+    now - state.last_failure_at.getTime() > retentionMs && !isLocked(state, now);
+
+  const evictionOrder = [isExpired, (state: LoginAttemptState, now: number) => !isLocked(state, now)];
+
+  const sweep = (now: number) => {
+    lastSweep = now;
+    for (const [key, state] of attempts) {
+      if (isExpired(state, now)) attempts.delete(key);
+    }
+  };
+
+  return {
+    async get(key) {
+      const state = attempts.get(key);
+      if (state && isExpired(state, Date.now())) {
+        attempts.delete(key);
+        return null;
+      }
+      return state ?? null;
+    },
+    async set(key, state) {
+      // Re-inserting keeps the map ordered from the oldest write to the newest
+      attempts.delete(key);
+      attempts.set(key, { ...state });
+
+      const now = Date.now();
+      if (now - lastSweep > SWEEP_INTERVAL_MS) sweep(now);
+      // Over the cap, expired entries go first, then the oldest unlocked ones. Locked entries are
+      // never dropped, so flooding the store with failures from other keys cannot lift a lockout.
+      for (const evictable of evictionOrder) {
+        for (const [oldest, oldestState] of attempts) {
+          if (attempts.size <= maxEntries) break;
+          if (evictable(oldestState, now)) attempts.delete(oldest);
+        }
+      }
+    },
+    async delete(key) {
+      attempts.delete(key);
+    }
+  };
+}
+
+// Shares counters between server instances and survives restarts
+export function createPostgresLoginAttemptStore(): LoginAttemptStore {
+  return {
+    async get(key) {
+      const rows = await db.select()
+        .from(loginAttemptsTable)
+        .where(eq(loginAttemptsTable.key, key))
+        .execute();
+
+      if (rows.length === 0) {
+        return null;
+      }
+
+      const { failures, lockouts, locked_until, last_failure_at } = rows[0];
+      return { failures, lockouts, locked_until, last_failure_at };
+    },
+    async set(key, state) {
+      await db.insert(loginAttemptsTable)
+        .values({ key, ...state })
+        .onConflictDoUpdate({
+          target: loginAttemptsTable.key,
+          set: state
+        })
+        .execute();
+    },
+    async delete(key) {
+      await db.delete(loginAttemptsTable)
+        .where(eq(loginAttemptsTable.key, key))
+        .execute();
+    }
+  };
+}
+
+export function createLoginAttemptStore(retentionMs?: number): LoginAttemptStore {
+  return process.env['LOGIN_ATTEMPT_STORE'] === 'postgres'
+    ? createPostgresLoginAttemptStore()
+    : createMemoryLoginAttemptStore({ retentionMs });
+}
@@ -0,0 +1,64 @@
+import { createHash, pbkdf2Sync, randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+// scrypt cost parameters; raise PASSWORD_SCRYPT_N over time, existing hashes are upgraded on next login
+const SCRYPT_N = Number(process.env['PASSWORD_SCRYPT_N'] || 16384);
+const SCRYPT_R = Number(process.env['PASSWORD_SCRYPT_R'] || 8);
+const SCRYPT_P = Number(process.env['PASSWORD_SCRYPT_P'] || 1);
+const KEY_LENGTH = 64;
+
+function scryptAsync(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // maxmem must cover 128 * N * r bytes or scrypt refuses to run
+    const maxmem = 256 * (options.N ?? SCRYPT_N) * (options.r ?? SCRYPT_R);
+    scrypt(password, salt, KEY_LENGTH, { ...options, maxmem }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Format: scrypt$N$r$p$salt$hash (salt and hash base64)
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P });
+  return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+// Accepts current scrypt hashes as well as the legacy PBKDF2 "salt:hash" and bare SHA-256 hex formats
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  if (storedHash.startsWith('scrypt$')) {
+    const [, n, r, p, salt, hash] = storedHash.split('$');
+    if (!salt || !hash) return false;
+    const key = await scryptAsync(password, Buffer.from(salt, 'base64'), {
+      N: Number(n),
+      r: Number(r),
+      p: Number(p)
+    });
+    return safeEqual(key, Buffer.from(hash, 'base64'));
+  }
+
+  if (/^[0-9a-f]+:[0-9a-f]+$/i.test(storedHash)) {
+    const [salt, hash] = storedHash.split(':');
+    const key = pbkdf2Sync(password, salt, 10000, 64, 'sha512');
+    return safeEqual(key, Buffer.from(hash, 'hex'));
+  }
+
+  if (/^[0-9a-f]{64}$/i.test(storedHash)) {
+    const digest = createHash('sha256').update(password).digest();
+    return safeEqual(digest, Buffer.from(storedHash, 'hex'));
+  }
+
+  return false;
+}
+
+// True for legacy formats and for scrypt hashes made with weaker parameters than configured
+export function needsRehash(storedHash: string): boolean {
+  if (!storedHash.startsWith('scrypt$')) return true;
+
+  const [, n, r, p] = storedHash.split('$');
+  return Number(n) < SCRYPT_N || Number(r) < SCRYPT_R || Number(p) < SCRYPT_P;
+}
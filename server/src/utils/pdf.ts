@@ -0,0 +1,179 @@
+import { deflateSync } from 'zlib';
+
+// Minimal PDF writer for generated reports: text in the standard Helvetica fonts, lines and
+// filled rectangles. Standard fonts are not embedded, so text is limited to the WinAnsi
+// character set; other characters print as "?".
+// Coordinates are points measured from the top left corner of the page.
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+  size: number;
+  font?: PdfFont;
+  align?: 'left' | 'center' | 'right'; // Relative to x
+}
+
+export interface PdfPage {
+  text(text: string, x: number, y: number, options: PdfTextOptions): void; // y is the baseline
+  line(x1: number, y1: number, x2: number, y2: number, width?: number): void;
+  rect(x: number, y: number, width: number, height: number, options: { fill?: number; stroke?: boolean }): void; // fill is a gray level, 0 black to 1 white
+}
+
+export interface PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  readonly pages: PdfPage[];
+  addPage(): PdfPage;
+  toBuffer(): Buffer;
+}
+
+// A4 in points
+export const A4_PORTRAIT = { width: 595.28, height: 841.89 };
+export const A4_LANDSCAPE = { width: 841.89, height: 595.28 };
+
+// Advance widths of characters 32-126 in 1/1000 em, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Characters outside Latin-1 that WinAnsi places in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97
+};
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+function toWinAnsi(text: string): number[] {
+  return Array.from(text, (char) => {
+    const code = char.codePointAt(0)!;
+    if (code < 32) return 32; // Line breaks and tabs are laid out by the caller
+    if (code < 127 || (code >= 160 && code <= 255)) return code;
+    return WIN_ANSI_EXTRAS[char] ?? 63;
+  });
+}
+
+export function textWidth(text: string, size: number, font: PdfFont = 'regular'): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = toWinAnsi(text).reduce((sum, code) => sum + (code <= 126 ? widths[code - 32] : 556), 0);
+  return (units * size) / 1000;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function pdfString(text: string): string {
+  const escaped = toWinAnsi(text).map((code) => {
+    const char = String.fromCharCode(code);
+    return char === '\\' || char === '(' || char === ')' ? `\\${char}` : char;
+  });
+  return `(${escaped.join('')})`;
+}
+
+export function createPdfDocument(size: { width: number; height: number }, title: string): PdfDocument {
+  const { width, height } = size;
+  const contents: string[][] = [];
+  const pages: PdfPage[] = [];
+
+  const addPage = (): PdfPage => {
+    const ops: string[] = [];
+    contents.push(ops);
+
+    const page: PdfPage = {
+      text(text, x, y, options) {
+        const font = options.font ?? 'regular';
+        const offset = options.align === 'right'
+          ? textWidth(text, options.size, font)
+          : options.align === 'center' ? textWidth(text, options.size, font) / 2 : 0;
+        ops.push(`BT /${FONT_RESOURCES[font]} ${formatNumber(options.size)} Tf ${formatNumber(x - offset)} ${formatNumber(height - y)} Td ${pdfString(text)} Tj ET`);
+      },
+      line(x1, y1, x2, y2, lineWidth = 0.5) {
+        ops.push(`${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(height - y1)} m ${formatNumber(x2)} ${formatNumber(height - y2)} l S`);
+      },
+      rect(x, y, rectWidth, rectHeight, options) {
+        const path = `${formatNumber(x)} ${formatNumber(height - y - rectHeight)} ${formatNumber(rectWidth)} ${formatNumber(rectHeight)} re`;
+        if (options.fill !== undefined) {
+          ops.push(`q ${formatNumber(options.fill)} g ${path} f Q`);
+        }
+        if (options.stroke) {
+          ops.push(`0.5 w ${path} S`);
+        }
+      }
+    };
+
+    pages.push(page);
+    return page;
+  };
+
+  const toBuffer = (): Buffer => {
+    // Objects 1-4 are fixed; each page then takes a page object and a content stream
+    const objects: Buffer[] = [];
+    const kids = contents.map((_, index) => `${5 + index * 2} 0 R`).join(' ');
+
+    objects.push(Buffer.from('<< /Type /Catalog /Pages 2 0 R >>', 'latin1'));
+    objects.push(Buffer.from(`<< /Type /Pages /Kids [${kids}] /Count ${contents.length} >>`, 'latin1'));
+    objects.push(Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>', 'latin1'));
+    objects.push(Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>', 'latin1'));
+
+    contents.forEach((ops, index) => {
+      const contentId = 6 + index * 2;
+      objects.push(Buffer.from(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(width)} ${formatNumber(height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`,
+        'latin1'
+      ));
+      const stream = deflateSync(Buffer.from(ops.join('\n'), 'latin1'));
+      objects.push(Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        stream,
+        Buffer.from('\nendstream', 'latin1')
+      ]));
+    });
+
+    const infoId = objects.length + 1;
+    objects.push(Buffer.from(`<< /Title ${pdfString(title)} /Producer (AbsenKu) >>`, 'latin1'));
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+    const offsets: number[] = [];
+    let length = chunks[0].length;
+    objects.forEach((body, index) => {
+      offsets.push(length);
+      const chunk = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+      chunks.push(chunk);
+      length += chunk.length;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>`,
+      'startxref',
+      String(length),
+      '%%EOF',
+      ''
+    ].join('\n');
+    chunks.push(Buffer.from(xref, 'latin1'));
+
+    return Buffer.concat(chunks);
+  };
+
+  return { width, height, pages, addPage, toBuffer };
+}
@@ -0,0 +1,181 @@
+import { A4_LANDSCAPE, createPdfDocument, textWidth, type PdfFont, type PdfPage } from './pdf';
+import { type KopSurat } from '../schema';
+
+export interface PdfReportColumn {
+  header: string;
+  width: number; // Share of the table width, relative to the other columns
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfReportTable {
+  title: string;
+  columns: PdfReportColumn[];
+  rows: string[][];
+  width?: number; // Fraction of the page width; the full width when omitted
+}
+
+export interface PdfReport {
+  kopSurat: KopSurat | null;
+  title: string;
+  info: [label: string, value: string][]; // Printed under the title, e.g. the filter period
+  tables: PdfReportTable[];
+  footer: string; // Left side of every page footer; the page number goes on the right
+}
+
+const MARGIN = 36;
+const FOOTER_HEIGHT = 20;
+const FONT_SIZE = 8;
+const LINE_HEIGHT = FONT_SIZE * 1.25;
+const CELL_PADDING = 3;
+const MAX_CELL_LINES = 4; // Longer cell text is cut off with an ellipsis
+const HEADER_FILL = 0.85;
+
+// Breaks text into lines no wider than maxWidth, splitting words that are too long on their own
+function wrapText(text: string, maxWidth: number, font: PdfFont): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, FONT_SIZE, font) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = '';
+      for (const char of word) {
+        if (line && textWidth(line + char, FONT_SIZE, font) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function fitLines(text: string, maxWidth: number, font: PdfFont): string[] {
+  const lines = wrapText(text, maxWidth, font);
+  if (lines.length <= MAX_CELL_LINES) return lines;
+
+  const kept = lines.slice(0, MAX_CELL_LINES);
+  let last = kept[MAX_CELL_LINES - 1];
+  while (last && textWidth(`${last}…`, FONT_SIZE, font) > maxWidth) {
+    last = last.slice(0, -1);
+  }
+  kept[MAX_CELL_LINES - 1] = `${last}…`;
+  return kept;
+}
+
+// Renders a report on A4 landscape pages. The letterhead opens the first page; tables run on
+// over as many pages as needed, repeating their column headers at the top of each page.
+export function renderPdfReport(report: PdfReport): Buffer {
+  const doc = createPdfDocument(A4_LANDSCAPE, report.title);
+  const left = MARGIN;
+  const right = doc.width - MARGIN;
+  const contentWidth = right - left;
+  const bottom = doc.height - MARGIN - FOOTER_HEIGHT;
+
+  let page: PdfPage = doc.addPage();
+  let y = MARGIN;
+
+  const nextPage = () => {
+    page = doc.addPage();
+    y = MARGIN;
+    page.text(`${report.title} (lanjutan)`, left, y + 9, { size: 9, font: 'bold' });
+    y += 18;
+  };
+
+  // Letterhead
+  if (report.kopSurat) {
+    const center = left + contentWidth / 2;
+    page.text(report.kopSurat.nama_sekolah.toUpperCase(), center, y + 16, { size: 16, font: 'bold', align: 'center' });
+    y += 22;
+    for (const line of [report.kopSurat.alamat, report.kopSurat.kontak]) {
+      if (!line) continue;
+      page.text(line, center, y + 10, { size: 9, align: 'center' });
+      y += 13;
+    }
+    y += 4;
+    page.line(left, y, right, y, 1.5);
+    page.line(left, y + 2.5, right, y + 2.5, 0.5);
+    y += 14;
+  }
+
+  page.text(report.title, left + contentWidth / 2, y + 14, { size: 14, font: 'bold', align: 'center' });
+  y += 24;
+  const labelWidth = Math.max(0, ...report.info.map(([label]) => textWidth(label, 9, 'bold'))) + 8;
+  for (const [label, value] of report.info) {
+    page.text(label, left, y + 9, { size: 9, font: 'bold' });
+    page.text(`: ${value}`, left + labelWidth, y + 9, { size: 9 });
+    y += 13;
+  }
+  y += 6;
+
+  for (const table of report.tables) {
+    const totalWeight = table.columns.reduce((sum, column) => sum + column.width, 0);
+    const tableWidth = contentWidth * (table.width ?? 1);
+    const widths = table.columns.map((column) => (column.width / totalWeight) * tableWidth);
+
+    const layoutRow = (cells: string[], font: PdfFont) => {
+      const lines = cells.map((cell, index) => fitLines(cell, widths[index] - CELL_PADDING * 2, font));
+      const height = Math.max(1, ...lines.map((cellLines) => cellLines.length)) * LINE_HEIGHT + CELL_PADDING * 2;
+      return { lines, height };
+    };
+
+    const drawRow = (row: { lines: string[][]; height: number }, font: PdfFont, fill?: number) => {
+      let x = left;
+      row.lines.forEach((cellLines, index) => {
+        const width = widths[index];
+        page.rect(x, y, width, row.height, { fill, stroke: true });
+        const align = table.columns[index].align ?? 'left';
+        const textX = align === 'right' ? x + width - CELL_PADDING : align === 'center' ? x + width / 2 : x + CELL_PADDING;
+        cellLines.forEach((line, lineIndex) => {
+          page.text(line, textX, y + CELL_PADDING + FONT_SIZE + lineIndex * LINE_HEIGHT, { size: FONT_SIZE, font, align });
+        });
+        x += width;
+      });
+      y += row.height;
+    };
+
+    const header = layoutRow(table.columns.map((column) => column.header), 'bold');
+    const rows = table.rows.map((cells) => layoutRow(cells, 'regular'));
+    const titleHeight = 18;
+
+    // Keep the table title with its header and first row
+    if (y + titleHeight + header.height + (rows[0]?.height ?? 0) > bottom) {
+      nextPage();
+    }
+    page.text(table.title, left, y + 11, { size: 11, font: 'bold' });
+    y += titleHeight;
+    drawRow(header, 'bold', HEADER_FILL);
+
+    if (rows.length === 0) {
+      const emptyHeight = LINE_HEIGHT + CELL_PADDING * 2;
+      page.rect(left, y, tableWidth, emptyHeight, { stroke: true });
+      page.text('Tidak ada data', left + CELL_PADDING, y + CELL_PADDING + FONT_SIZE, { size: FONT_SIZE });
+      y += emptyHeight;
+    }
+
+    for (const row of rows) {
+      if (y + row.height > bottom) {
+        nextPage();
+        drawRow(header, 'bold', HEADER_FILL);
+      }
+      drawRow(row, 'regular');
+    }
+    y += 16;
+  }
+
+  // Page numbers are only known once everything is laid out
+  const footerY = doc.height - MARGIN;
+  doc.pages.forEach((footerPage, index) => {
+    footerPage.line(left, footerY - 10, right, footerY - 10, 0.5);
+    footerPage.text(report.footer, left, footerY, { size: 8 });
+    footerPage.text(`Halaman ${index + 1} dari ${doc.pages.length}`, right, footerY, { size: 8, align: 'right' });
+  });
+
+  return doc.toBuffer();
+}
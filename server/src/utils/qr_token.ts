@@ -0,0 +1,69 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { CheckInError } from './check_in_error';
+
+const QR_TOKEN_TTL_SECONDS = Number(process.env['QR_TOKEN_TTL_SECONDS'] || 30);
+
+// Without QR_TOKEN_SECRET every restart invalidates the codes on screen, which only lasts one rotation
+const fallbackSecret = randomBytes(32).toString('hex');
+
+function getQrTokenSecret(): string {
+  return process.env['QR_TOKEN_SECRET'] || fallbackSecret;
+}
+
+// kelas_id null means a location code (e.g. the school gate) valid for every kelas
+export interface QrTokenPayload {
+  kelas_id: number | null;
+  lokasi: string | null;
+  exp: number; // epoch milliseconds
+  nonce: string;
+}
+
+function sign(data: string): Buffer {
+  return createHmac('sha256', getQrTokenSecret()).update(data).digest();
+}
+
+// Format: base64url(JSON payload).base64url(HMAC-SHA256 of the first part)
+export function signQrToken(
+  target: { kelas_id: number | null; lokasi: string | null },
+  now: Date = new Date()
+): { token: string; expires_at: Date } {
+  const payload: QrTokenPayload = {
+    kelas_id: target.kelas_id,
+    lokasi: target.lokasi,
+    exp: now.getTime() + QR_TOKEN_TTL_SECONDS * 1000,
+    nonce: randomBytes(6).toString('base64url')
+  };
+
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return {
+    token: `${data}.${sign(data).toString('base64url')}`,
+    expires_at: new Date(payload.exp)
+  };
+}
+
+// Throws when the token was not issued by this server or is no longer valid
+export function verifyQrToken(token: string, now: Date = new Date()): QrTokenPayload {
+  const [data, signature, ...rest] = token.trim().split('.');
+  if (!data || !signature || rest.length > 0) {
+    throw new CheckInError('QR_INVALID', 'QR token is invalid');
+  }
+
+  const expected = sign(data);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new CheckInError('QR_INVALID', 'QR token is invalid');
+  }
+
+  let payload: QrTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(data, 'base64url').toString());
+  } catch {
+    throw new CheckInError('QR_INVALID', 'QR token is invalid');
+  }
+
+  if (typeof payload.exp !== 'number' || payload.exp < now.getTime()) {
+    throw new CheckInError('QR_EXPIRED', 'QR token has expired');
+  }
+
+  return payload;
+}
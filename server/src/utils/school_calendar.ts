@@ -0,0 +1,65 @@
+import { type KalenderAkademik } from '../schema';
+import { addDays, dayOfWeek, toDateKey } from './school_date';
+
+export type CalendarEntry = Pick<KalenderAkademik, 'tanggal_mulai' | 'tanggal_selesai' | 'hari_sekolah' | 'kelas_id'>;
+
+// Entries and days compare by school calendar day rather than by instant
+function covers(entry: CalendarEntry, dateKey: string, timezone: string): boolean {
+  return toDateKey(entry.tanggal_mulai, timezone) <= dateKey && dateKey <= toDateKey(entry.tanggal_selesai, timezone);
+}
+
+// Entries of the kelas override school-wide entries, which override the weekend;
+// when entries of the same level disagree the day off wins
+export function isSchoolDay(
+  dateKey: string,
+  kelasId: number | null,
+  weekendDays: number[],
+  entries: CalendarEntry[],
+  timezone: string
+): boolean {
+  const matching = entries.filter(entry => covers(entry, dateKey, timezone));
+  const levels = [
+    matching.filter(entry => kelasId !== null && entry.kelas_id === kelasId),
+    matching.filter(entry => entry.kelas_id === null)
+  ];
+
+  for (const level of levels) {
+    if (level.length > 0) {
+      return level.every(entry => entry.hari_sekolah);
+    }
+  }
+
+  return !weekendDays.includes(dayOfWeek(dateKey));
+}
+
+// School days from startKey to endKey, both inclusive, as date keys
+export function schoolDays(
+  startKey: string,
+  endKey: string,
+  kelasId: number | null,
+  weekendDays: number[],
+  entries: CalendarEntry[],
+  timezone: string
+): string[] {
+  const days: string[] = [];
+
+  for (let dateKey = startKey; dateKey <= endKey; dateKey = addDays(dateKey, 1)) {
+    if (isSchoolDay(dateKey, kelasId, weekendDays, entries, timezone)) {
+      days.push(dateKey);
+    }
+  }
+
+  return days;
+}
+
+// Number of school days from startKey to endKey, both inclusive
+export function countSchoolDays(
+  startKey: string,
+  endKey: string,
+  kelasId: number | null,
+  weekendDays: number[],
+  entries: CalendarEntry[],
+  timezone: string
+): number {
+  return schoolDays(startKey, endKey, kelasId, weekendDays, entries, timezone).length;
+}
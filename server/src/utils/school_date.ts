@@ -0,0 +1,80 @@
+// School days and times are counted in the school's timezone, never the server clock's.
+// Days travel as YYYY-MM-DD keys, times of day as HH:MM:SS.
+
+// Zone of the server clock, used until an admin configures the school timezone
+export function serverTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timezone: string): Intl.DateTimeFormat {
+  let result = formatters.get(timezone);
+  if (!result) {
+    result = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timezone, result);
+  }
+  return result;
+}
+
+// Wall clock reading of the instant in the timezone
+function wallClock(instant: Date, timezone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', string> {
+  const parts = Object.fromEntries(formatter(timezone).formatToParts(instant).map(part => [part.type, part.value]));
+  return { year: parts['year'], month: parts['month'], day: parts['day'], hour: parts['hour'], minute: parts['minute'], second: parts['second'] };
+}
+
+export function toDateKey(instant: Date, timezone: string): string {
+  const { year, month, day } = wallClock(instant, timezone);
+  return `${year}-${month}-${day}`;
+}
+
+export function toTimeOfDay(instant: Date, timezone: string): string {
+  const { hour, minute, second } = wallClock(instant, timezone);
+  return `${hour}:${minute}:${second}`;
+}
+
+// 0 = Sunday, like Date.getDay()
+export function dayOfWeek(dateKey: string): number {
+  return new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+}
+
+export function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+export function startOfMonth(dateKey: string): string {
+  return `${dateKey.slice(0, 8)}01`;
+}
+
+export function endOfMonth(dateKey: string): string {
+  return addDays(startOfMonth(addDays(startOfMonth(dateKey), 31)), -1);
+}
+
+// The instant the day starts in the timezone
+export function startOfDay(dateKey: string, timezone: string): Date {
+  const target = Date.parse(`${dateKey}T00:00:00Z`);
+  let instant = target;
+  // Two passes settle the offset, including on days a DST change shifts it
+  for (let i = 0; i < 2; i++) {
+    const { year, month, day, hour, minute, second } = wallClock(new Date(instant), timezone);
+    const reading = Date.parse(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`);
+    instant += target - reading;
+  }
+  return new Date(instant);
+}
+
+// Instants bounding the day: start inclusive, end exclusive
+export function dayRange(dateKey: string, timezone: string): { start: Date; end: Date } {
+  return { start: startOfDay(dateKey, timezone), end: startOfDay(addDays(dateKey, 1), timezone) };
+}
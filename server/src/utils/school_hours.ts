@@ -0,0 +1,39 @@
+import { type SchoolHours } from '../schema';
+import { dayOfWeek, toDateKey, toTimeOfDay } from './school_date';
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function minutesOfDay(at: Date, timezone: string): number {
+  return toMinutes(toTimeOfDay(at, timezone));
+}
+
+function getDayHours(hours: SchoolHours | null, at: Date, timezone: string): SchoolHours['days'][number] | null {
+  const weekday = dayOfWeek(toDateKey(at, timezone));
+  return hours?.days.find(day => day.day_of_week === weekday) ?? null;
+}
+
+// Status for a check-in at the given moment; on days without official hours every check-in is on time
+export function evaluateCheckIn(
+  hours: SchoolHours | null,
+  at: Date,
+  timezone: string
+): { status: 'hadir' | 'terlambat'; menit_terlambat: number | null } {
+  const day = getDayHours(hours, at, timezone);
+  if (!hours || !day) {
+    return { status: 'hadir', menit_terlambat: null };
+  }
+
+  // Lateness is counted from jam_masuk, the grace period only decides whether it counts
+  const minutesLate = minutesOfDay(at, timezone) - toMinutes(day.jam_masuk);
+  return minutesLate > hours.grace_minutes
+    ? { status: 'terlambat', menit_terlambat: minutesLate }
+    : { status: 'hadir', menit_terlambat: null };
+}
+
+export function isEarlyLeave(hours: SchoolHours | null, at: Date, timezone: string): boolean {
+  const day = getDayHours(hours, at, timezone);
+  return day !== null && minutesOfDay(at, timezone) < toMinutes(day.jam_pulang);
+}
@@ -0,0 +1,217 @@
+import { createZip } from './zip';
+
+// Minimal XLSX writer for exported reports. Each sheet holds an optional preamble, such as the
+// report title and filter period, followed by one table whose header row is frozen and filtered.
+
+// How the cells of a table column are stored; dates are "YYYY-MM-DD" and times "HH:MM" or
+// "HH:MM:SS" as the school reads them, so no timezone is involved
+export type XlsxColumnType = 'text' | 'number' | 'date' | 'time' | 'percent';
+
+export interface XlsxColumn {
+  header: string;
+  width: number; // In characters
+  type?: XlsxColumnType; // Text when omitted
+}
+
+export interface XlsxCell {
+  value: string | number | null;
+  fill?: string; // Background colour as RRGGBB
+  bold?: boolean;
+}
+
+export type XlsxValue = string | number | null | XlsxCell;
+
+export interface XlsxSheet {
+  name: string; // At most 31 characters, without : \ / ? * [ ]
+  preamble?: XlsxValue[][]; // Plain text and number rows above the table
+  columns: XlsxColumn[];
+  rows: XlsxValue[][];
+}
+
+const HEADER_FILL = 'D9D9D9';
+
+// Custom number formats start at 164; 10 is the built-in "0.00%"
+const NUMBER_FORMATS: Record<XlsxColumnType, number> = { text: 0, number: 0, date: 164, time: 165, percent: 10 };
+
+interface CellStyle {
+  numFmtId: number;
+  fill: string | null;
+  bold: boolean;
+}
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters other than tab and line breaks are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Excel counts days from 1899-12-30
+function dateSerial(dateKey: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateKey);
+  if (!match) return null;
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / 86400000 + 25569;
+}
+
+// Fraction of a day
+function timeSerial(timeOfDay: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(timeOfDay);
+  if (!match) return null;
+  return (Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3] ?? 0)) / 86400;
+}
+
+function toCell(value: XlsxValue): XlsxCell {
+  return value !== null && typeof value === 'object' ? value : { value };
+}
+
+export function renderXlsx(sheets: XlsxSheet[]): Buffer {
+  // Style 0 is the default; every other combination in use gets its own entry
+  const styles: CellStyle[] = [{ numFmtId: 0, fill: null, bold: false }];
+  const fills: string[] = [];
+
+  const styleIndex = (style: CellStyle): number => {
+    if (style.fill && !fills.includes(style.fill)) fills.push(style.fill);
+    const index = styles.findIndex(s => s.numFmtId === style.numFmtId && s.fill === style.fill && s.bold === style.bold);
+    if (index !== -1) return index;
+    styles.push(style);
+    return styles.length - 1;
+  };
+
+  const cellXml = (ref: string, cell: XlsxCell, type: XlsxColumnType): string => {
+    if (cell.value === null || cell.value === '') {
+      return cell.fill || cell.bold ? `<c r="${ref}" s="${styleIndex({ numFmtId: 0, fill: cell.fill ?? null, bold: !!cell.bold })}"/>` : '';
+    }
+
+    let number: number | null = null;
+    if (typeof cell.value === 'number') {
+      number = cell.value;
+    } else if (type === 'date') {
+      number = dateSerial(cell.value);
+    } else if (type === 'time') {
+      number = timeSerial(cell.value);
+    }
+
+    // Values that do not parse are kept as text rather than dropped
+    const style = styleIndex({
+      numFmtId: number === null ? 0 : NUMBER_FORMATS[type],
+      fill: cell.fill ?? null,
+      bold: !!cell.bold
+    });
+    const s = style === 0 ? '' : ` s="${style}"`;
+    return number === null
+      ? `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(cell.value))}</t></is></c>`
+      : `<c r="${ref}"${s}><v>${number}</v></c>`;
+  };
+
+  const rowXml = (rowNumber: number, values: XlsxValue[], types: XlsxColumnType[]): string => {
+    const cells = values.map((value, index) => cellXml(`${columnName(index)}${rowNumber}`, toCell(value), types[index] ?? 'text')).join('');
+    return `<row r="${rowNumber}">${cells}</row>`;
+  };
+
+  const definedNames: string[] = [];
+  const worksheets = sheets.map((sheet, sheetIndex) => {
+    const preamble = sheet.preamble ?? [];
+    const headerRow = preamble.length + 1;
+    const lastRow = headerRow + sheet.rows.length;
+    const lastColumn = columnName(Math.max(sheet.columns.length, 1) - 1);
+    const types = sheet.columns.map(column => column.type ?? 'text');
+
+    const rows = [
+      ...preamble.map((values, index) => rowXml(index + 1, values, [])),
+      rowXml(headerRow, sheet.columns.map(column => ({ value: column.header, fill: HEADER_FILL, bold: true })), []),
+      ...sheet.rows.map((values, index) => rowXml(headerRow + index + 1, values, types))
+    ];
+
+    const filterRange = `$A$${headerRow}:$${lastColumn}$${lastRow}`;
+    definedNames.push(`<definedName name="_xlnm._FilterDatabase" localSheetId="${sheetIndex}" hidden="1">'${escapeXml(sheet.name.replace(/'/g, "''"))}'!${filterRange}</definedName>`);
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+      '<sheetViews>',
+      `<sheetView workbookViewId="0"${sheetIndex === 0 ? ' tabSelected="1"' : ''}>`,
+      `<pane ySplit="${headerRow}" topLeftCell="A${headerRow + 1}" activePane="bottomLeft" state="frozen"/>`,
+      `<selection pane="bottomLeft" activeCell="A${headerRow + 1}" sqref="A${headerRow + 1}"/>`,
+      '</sheetView>',
+      '</sheetViews>',
+      `<cols>${sheet.columns.map((column, index) => `<col min="${index + 1}" max="${index + 1}" width="${column.width}" customWidth="1"/>`).join('')}</cols>`,
+      `<sheetData>${rows.join('')}</sheetData>`,
+      `<autoFilter ref="${filterRange.replace(/\$/g, '')}"/>`,
+      '</worksheet>'
+    ].join('');
+  });
+
+  const workbook = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+    `<sheets>${sheets.map((sheet, index) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')}</sheets>`,
+    `<definedNames>${definedNames.join('')}</definedNames>`,
+    '</workbook>'
+  ].join('');
+
+  const workbookRels = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    ...sheets.map((_, index) => `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`),
+    `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`,
+    '</Relationships>'
+  ].join('');
+
+  // Fills 0 and 1 are reserved by Excel
+  const fillId = (fill: string | null) => fill ? fills.indexOf(fill) + 2 : 0;
+  const stylesXml = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    '<numFmts count="2"><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/><numFmt numFmtId="165" formatCode="hh:mm:ss"/></numFmts>',
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+    `<fills count="${fills.length + 2}"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>`,
+    ...fills.map(fill => `<fill><patternFill patternType="solid"><fgColor rgb="FF${fill}"/><bgColor indexed="64"/></patternFill></fill>`),
+    '</fills>',
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+    `<cellXfs count="${styles.length}">`,
+    ...styles.map(style => `<xf numFmtId="${style.numFmtId}" fontId="${style.bold ? 1 : 0}" fillId="${fillId(style.fill)}" borderId="0" xfId="0"` +
+      `${style.numFmtId ? ' applyNumberFormat="1"' : ''}${style.bold ? ' applyFont="1"' : ''}${style.fill ? ' applyFill="1"' : ''}/>`),
+    '</cellXfs>',
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>',
+    '</styleSheet>'
+  ].join('');
+
+  const contentTypes = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+    ...sheets.map((_, index) => `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`),
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+    '</Types>'
+  ].join('');
+
+  const rootRels = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>',
+    '</Relationships>'
+  ].join('');
+
+  return createZip([
+    { name: '[Content_Types].xml', data: Buffer.from(contentTypes) },
+    { name: '_rels/.rels', data: Buffer.from(rootRels) },
+    { name: 'xl/workbook.xml', data: Buffer.from(workbook) },
+    { name: 'xl/_rels/workbook.xml.rels', data: Buffer.from(workbookRels) },
+    { name: 'xl/styles.xml', data: Buffer.from(stylesXml) },
+    ...worksheets.map((sheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, data: Buffer.from(sheet) }))
+  ]);
+}